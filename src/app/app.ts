@@ -6,6 +6,7 @@ import { Dialog } from './components/dialog/dialog';
 
 import { Auth } from './services/auth.service';
 import { SnackBar } from './components/snack-bar/snack-bar';
+import { LiveRegion } from './components/live-region/live-region';
 
 import { SnackBarHandler } from './services/snack-bar-handler.service';
 import { DialogHandler } from './services/dialog-handler.service';
@@ -23,7 +24,7 @@ import { DialogHandler } from './services/dialog-handler.service';
  */
 @Component({
   selector: 'app-root',
-  imports: [RouterOutlet, Header, FormsModule, Dialog, SnackBar],
+  imports: [RouterOutlet, Header, FormsModule, Dialog, SnackBar, LiveRegion],
   templateUrl: './app.html',
   styleUrl: './app.scss',
 })
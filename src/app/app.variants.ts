@@ -0,0 +1,13 @@
+import { BUILT_IN_VARIANTS } from './utils/constants/built-in-variants.constant';
+import { registerVariant } from './utils/functions/variant.function';
+
+/**
+ * Registers the rule sets the game is played with.
+ *
+ * Imported for its side effect by `main.ts` (and by the specs playing
+ * a variant), before anything reads the registry.
+ * A new rule set registers itself the same way, by calling `registerVariant`
+ * from its own module imported here or at startup; neither the `Variant` type
+ * nor the registry in `variant.function.ts` has to be edited.
+ */
+BUILT_IN_VARIANTS.forEach(registerVariant);
@@ -4,6 +4,7 @@ import { DialogHandler } from '../../../services/dialog-handler.service';
 import { Http } from '../../../services/http.service';
 import { Auth } from '../../../services/auth.service';
 import { SnackBarHandler } from '../../../services/snack-bar-handler.service';
+import { Translation } from '../../../services/translation.service';
 
 /**
  * @component AccountHeader
@@ -35,6 +36,9 @@ export class AccountHeader {
   /** Auth service to access and update the current user */
   #auth: Auth = inject(Auth);
 
+  /** Translation service for the labels, dialogs and notifications */
+  protected translation: Translation = inject(Translation);
+
   /** Signal to access the current user reactively */
   get user(): Signal<User> {
     return this.#auth.user as Signal<User>;
@@ -79,14 +83,23 @@ export class AccountHeader {
         if (result && result.data.updatedUser) {
           /** Update the current user signal on successful email change */
           this.#auth.user = result.data.updatedUser;
-          this.#snackbar.addElement('Email changed', false);
+          this.#snackbar.addElement(
+            this.translation.translate('snackbar.emailChanged'),
+            false
+          );
         } else {
           /** Show error if mutation did not return updated user */
-          this.#snackbar.addElement('Email changing failed', true);
+          this.#snackbar.addElement(
+            this.translation.translate('snackbar.emailChangingFailed'),
+            true
+          );
         }
       } catch (error) {
         /** Show error if the request fails */
-        this.#snackbar.addElement('Email changing failed', true);
+        this.#snackbar.addElement(
+          this.translation.translate('snackbar.emailChangingFailed'),
+          true
+        );
       }
     }
   }
@@ -136,14 +149,23 @@ export class AccountHeader {
 
         if (result && !!result.data.updatePassword) {
           /** Show success notification */
-          this.#snackbar.addElement('Password changed', false);
+          this.#snackbar.addElement(
+            this.translation.translate('snackbar.passwordChanged'),
+            false
+          );
         } else {
           /** Show error notification if mutation did not succeed */
-          this.#snackbar.addElement('Password changing failed', true);
+          this.#snackbar.addElement(
+            this.translation.translate('snackbar.passwordChangingFailed'),
+            true
+          );
         }
       } catch (error) {
         /** Show error notification if request fails */
-        this.#snackbar.addElement('Password changing failed', true);
+        this.#snackbar.addElement(
+          this.translation.translate('snackbar.passwordChangingFailed'),
+          true
+        );
       }
     }
   }
@@ -181,6 +181,7 @@ export class Account implements OnInit {
               gameId
               name
               lastMove { row column }
+              moves { row column markup timestamp entangled { row column } collapse { row column } }
               status
               userId
               createdAt
@@ -188,7 +189,21 @@ export class Account implements OnInit {
               board
               difficulty
               size
+              rows
+              columns
+              winLength
               opponent
+              playerMarkup
+              firstMove
+              timeControl
+              playerSpentTime { player_X player_O player_T }
+              timeout
+              variant
+              gravity
+              vanishing
+              misere
+              markOrder { x { row column } o { row column } t { row column } }
+              players
             }
           }
         }
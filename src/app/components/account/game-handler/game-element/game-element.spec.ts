@@ -4,6 +4,7 @@ import {
   InputSignal,
   provideZonelessChangeDetection,
   signal,
+  WritableSignal,
 } from '@angular/core';
 import { HttpClientTestingModule } from '@angular/common/http/testing';
 import { Http } from '../../../../services/http.service';
@@ -11,6 +12,11 @@ import { createGame } from '../../../../utils/test/functions/creators.functions'
 import { SavedGame } from '../../../../utils/interfaces/saved-game.interface';
 import { By } from '@angular/platform-browser';
 import { generateRandomStatus } from '../../../../utils/test/functions/random-values.function';
+import { DialogHandler } from '../../../../services/dialog-handler.service';
+import { BoardImageExport } from '../../../../services/board-image-export.service';
+import { SnackBarHandler } from '../../../../services/snack-bar-handler.service';
+import { Translation } from '../../../../services/translation.service';
+import '../../../../app.variants';
 
 /**
  * @fileoverview
@@ -18,9 +24,11 @@ import { generateRandomStatus } from '../../../../utils/test/functions/random-va
  *
  * The tests verify:
  * - Correct display of game properties (name, size, updated timestamp) in the template
+ * - Labels and the update date in the chosen language
  * - Proper behavior of the `changeName` method, including guarding against unnecessary HTTP requests
  * - Correct HTTP request formation when a name change occurs
  * - Integration with Http service for game updates
+ * - Export of the saved board as an image
  */
 
 describe('GameElement', () => {
@@ -42,6 +50,9 @@ describe('GameElement', () => {
    */
   let savedGame: SavedGame;
 
+  /** Writable signal replacing the `gameDatas` input. */
+  let gameSignal: WritableSignal<SavedGame>;
+
   /**
    * Before each test, configure the testing module and create the component.
    * Also initialize a signal for the `gameDatas` input.
@@ -59,7 +70,7 @@ describe('GameElement', () => {
     component = fixture.componentInstance;
 
     // Initialize gameDatas as an InputSignal
-    const gameSignal = signal(createGame('1', '1', generateRandomStatus()));
+    gameSignal = signal(createGame('1', '1', generateRandomStatus()));
     (component as any).gameDatas =
       gameSignal as unknown as InputSignal<SavedGame>;
 
@@ -79,7 +90,7 @@ describe('GameElement', () => {
       const contents: string[] = [
         savedGame.name,
         `${savedGame.size}X${savedGame.size}`,
-        new Date(Number(savedGame.updatedAt)).toLocaleString(),
+        new Date(Number(savedGame.updatedAt)).toLocaleString('en-US'),
       ];
 
       const containers = fixture.debugElement.queryAll(
@@ -92,6 +103,84 @@ describe('GameElement', () => {
         expect(span.innerHTML).toEqual(contents[i]);
       }
     });
+
+    /**
+     * Check that rectangular boards show their rows and columns.
+     */
+    it('Should display the rows and columns of a rectangular board', () => {
+      gameSignal.set({ ...savedGame, rows: 6, columns: 7 });
+      fixture.detectChanges();
+
+      const span = fixture.debugElement
+        .queryAll(By.css('.own-game-element-title-div'))[1]
+        .queryAll(By.css('span'))[1].nativeElement as HTMLSpanElement;
+
+      expect(span.innerHTML).toEqual('6X7');
+    });
+
+    /**
+     * Check that the name of the variant follows the chosen language.
+     */
+    it('Should display the name of the variant in the chosen language', () => {
+      const translation = TestBed.inject(Translation);
+      // The language switch must not be persisted for the other tests
+      spyOn(localStorage, 'setItem');
+      gameSignal.set({ ...savedGame, variant: 'wild', rows: 6, columns: 7 });
+      const sizeSpan = () =>
+        fixture.debugElement
+          .queryAll(By.css('.own-game-element-title-div'))[1]
+          .queryAll(By.css('span'))[1].nativeElement as HTMLSpanElement;
+
+      fixture.detectChanges();
+      expect(sizeSpan().innerHTML).toEqual('6X7 Wild');
+
+      translation.language = 'hu';
+      fixture.detectChanges();
+      expect(sizeSpan().innerHTML).toEqual('6X7 Vad');
+
+      translation.language = 'en';
+    });
+
+    /**
+     * Check that the labels and the update date follow the chosen language.
+     */
+    it('Should display the labels and the date in the chosen language', () => {
+      const translation = TestBed.inject(Translation);
+      // The language switch must not be persisted for the other tests
+      spyOn(localStorage, 'setItem');
+
+      translation.language = 'hu';
+      fixture.detectChanges();
+
+      const spans = fixture.debugElement
+        .queryAll(By.css('.own-game-element-title-div'))
+        .map((div) => div.queryAll(By.css('span')));
+      expect(spans.map((pair) => pair[0].nativeElement.innerHTML)).toEqual([
+        'Név:',
+        'Méret:',
+        'Frissítve:',
+      ]);
+      expect(spans[2][1].nativeElement.innerHTML).toEqual(
+        new Date(Number(savedGame.updatedAt)).toLocaleString('hu-HU')
+      );
+
+      translation.language = 'en';
+    });
+
+    /**
+     * Check that the replay button emits the ID of the game.
+     */
+    it('Replay button should emit the game ID', () => {
+      spyOn(component.replayEvent, 'emit');
+
+      fixture.debugElement
+        .query(By.css('button[aria-label="Replay game."]'))
+        .triggerEventHandler('click');
+
+      expect(component.replayEvent.emit).toHaveBeenCalledWith(
+        savedGame.gameId
+      );
+    });
   });
 
   /**
@@ -152,4 +241,88 @@ describe('GameElement', () => {
       );
     });
   });
+
+  /**
+   * Tests of the board image export
+   */
+  describe('Image export:', () => {
+    /** Dialog service whose export dialog is mocked. */
+    let dialogService: DialogHandler;
+
+    /** Spy of the image download. */
+    let downloadSpy: jasmine.Spy;
+
+    /** Snackbar service reporting the export. */
+    let snackbarService: SnackBarHandler;
+
+    beforeEach(() => {
+      dialogService = TestBed.inject(DialogHandler);
+      snackbarService = TestBed.inject(SnackBarHandler);
+      downloadSpy = spyOn(TestBed.inject(BoardImageExport), 'download');
+      spyOn(snackbarService, 'addElement');
+    });
+
+    /**
+     * The saved board is downloaded under the name of the game.
+     */
+    it('[exportImage] should download the saved board named after the game', async () => {
+      spyOn(dialogService, 'open').and.resolveTo({
+        imageFormat: 'svg',
+        coordinates: false,
+        markLastMove: true,
+        markWinningLine: true,
+      });
+      downloadSpy.and.resolveTo();
+
+      fixture.debugElement
+        .query(By.css('button[aria-label="Export board image."]'))
+        .triggerEventHandler('click');
+      await fixture.whenStable();
+
+      expect(dialogService.open).toHaveBeenCalledOnceWith('export', {
+        title: 'Export image',
+        content: 'export',
+      });
+      const [svg, fileName, format] = downloadSpy.calls.mostRecent().args;
+      expect(svg).toMatch(/^<svg /);
+      expect(fileName).toBe(savedGame.name);
+      expect(format).toBe('svg');
+      expect(snackbarService.addElement).toHaveBeenCalledWith(
+        'Board image exported',
+        false
+      );
+    });
+
+    /**
+     * Closing the dialog downloads nothing.
+     */
+    it('[exportImage] should not download anything when the dialog is closed', async () => {
+      spyOn(dialogService, 'open').and.resolveTo('CLOSE_EVENT');
+
+      await component['exportImage']();
+
+      expect(downloadSpy).not.toHaveBeenCalled();
+      expect(snackbarService.addElement).not.toHaveBeenCalled();
+    });
+
+    /**
+     * A failed download is reported.
+     */
+    it('[exportImage] should report a failed export', async () => {
+      spyOn(dialogService, 'open').and.resolveTo({
+        imageFormat: 'png',
+        coordinates: true,
+        markLastMove: false,
+        markWinningLine: false,
+      });
+      downloadSpy.and.rejectWith(new Error('PNG rendering failed'));
+
+      await component['exportImage']();
+
+      expect(snackbarService.addElement).toHaveBeenCalledWith(
+        'Board image export failed',
+        true
+      );
+    });
+  });
 });
@@ -11,6 +11,20 @@ import {
 
 import { SavedGame } from '../../../../utils/interfaces/saved-game.interface';
 import { Http } from '../../../../services/http.service';
+import { BoardDimensions } from '../../../../utils/interfaces/board-dimensions.interface';
+import { savedGameDimensions } from '../../../../utils/functions/board-dimensions.function';
+import { gameVariant } from '../../../../utils/functions/variant.function';
+import { DEFAULT_VARIANT } from '../../../../utils/constants/variant.constant';
+import { DialogHandler } from '../../../../services/dialog-handler.service';
+import { Theme } from '../../../../services/theme.service';
+import { BoardImageExport } from '../../../../services/board-image-export.service';
+import { SnackBarHandler } from '../../../../services/snack-bar-handler.service';
+import { Translation } from '../../../../services/translation.service';
+import { BoardImageSettings } from '../../../../utils/interfaces/board-image-settings.interface';
+import {
+  boardImageSvg,
+  savedGameImage,
+} from '../../../../utils/functions/board-image.function';
 
 @Component({
   selector: 'app-game-element',
@@ -37,18 +51,61 @@ export class GameElement {
    */
   loadeEvent: OutputEmitterRef<string> = output();
 
+  /**
+   * Event emitted when the user requests the replay of this game.
+   * Emits the ID of the game.
+   */
+  replayEvent: OutputEmitterRef<string> = output();
+
   /**
    * HTTP service used to communicate with the backend API.
    * Handles network requests such as GraphQL mutations.
    */
   #http: Http = inject(Http);
 
+  /** Opens the export dialog of the board image. */
+  #dialog: DialogHandler = inject(DialogHandler);
+
+  /** Provides the theme colors of the board image. */
+  #theme: Theme = inject(Theme);
+
+  /** Downloads board images as SVG or PNG files. */
+  #imageExport: BoardImageExport = inject(BoardImageExport);
+
+  /** Reports the result of the export. */
+  #snackbarHandler: SnackBarHandler = inject(SnackBarHandler);
+
+  /** Translation service for the labels, dates and notifications */
+  protected translation: Translation = inject(Translation);
+
   /**
-   * A formatted date string computed from the game's last update timestamp.
-   * Automatically recalculates whenever the game data changes.
+   * A formatted date string computed from the game's last update timestamp,
+   * in the locale of the chosen language.
+   * Automatically recalculates whenever the game data or the language changes.
    */
   protected date: Signal<string> = computed(() => {
-    return new Date(Number(this.gameDatas().updatedAt)).toLocaleString();
+    return new Date(Number(this.gameDatas().updatedAt)).toLocaleString(
+      this.translation.locale
+    );
+  });
+
+  /**
+   * Rows and columns of the saved board (older saves only store a square size).
+   */
+  protected dimensions: Signal<BoardDimensions> = computed(() =>
+    savedGameDimensions(this.gameDatas())
+  );
+
+  /**
+   * Name of the registered variant of the saved game in the chosen language,
+   * empty for games of the default variant
+   * (and games saved before variants existed).
+   */
+  protected variantName: Signal<string> = computed(() => {
+    const variant = this.gameDatas().variant ?? DEFAULT_VARIANT;
+    return variant === DEFAULT_VARIANT
+      ? ''
+      : ` ${this.translation.translate(gameVariant(variant).name)}`;
   });
 
   /**
@@ -96,4 +153,44 @@ export class GameElement {
 
     }
   }
+
+  /**
+   * Exports the final board of the saved game as an image.
+   * The format and the marks drawn are chosen in the export dialog,
+   * the file is named after the game.
+   */
+  protected async exportImage(): Promise<void> {
+    const dialogResult = await this.#dialog.open<
+      BoardImageSettings | 'CLOSE_EVENT'
+    >('export', {
+      title: this.translation.translate('dialog.export'),
+      content: 'export',
+    });
+    if (!dialogResult || dialogResult === 'CLOSE_EVENT') return;
+
+    const svg = boardImageSvg(
+      {
+        ...savedGameImage(this.gameDatas()),
+        primaryColor: this.#theme.primaryColor ?? '',
+        accentColor: this.#theme.accentColor ?? '',
+      },
+      dialogResult
+    );
+    try {
+      await this.#imageExport.download(
+        svg,
+        this.gameDatas().name,
+        dialogResult.imageFormat
+      );
+      this.#snackbarHandler.addElement(
+        this.translation.translate('snackbar.imageExported'),
+        false
+      );
+    } catch {
+      this.#snackbarHandler.addElement(
+        this.translation.translate('snackbar.imageExportFailed'),
+        true
+      );
+    }
+  }
 }
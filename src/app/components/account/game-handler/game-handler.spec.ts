@@ -11,7 +11,10 @@ import {
 import { HttpClientTestingModule } from '@angular/common/http/testing';
 import { StoreModule } from '@ngrx/store';
 import { MockStore, provideMockStore } from '@ngrx/store/testing';
-import { createGame } from '../../../utils/test/functions/creators.functions';
+import {
+  createBoard,
+  createGame,
+} from '../../../utils/test/functions/creators.functions';
 import { SavedGame } from '../../../utils/interfaces/saved-game.interface';
 import { By } from '@angular/platform-browser';
 import { Auth } from '../../../services/auth.service';
@@ -27,6 +30,9 @@ import { modifyGameSettings } from '../../../store/actions/game-settings-modify.
 import { modifyGameInfo } from '../../../store/actions/game-info-modify.action';
 import { User } from '../../../utils/interfaces/user.interface';
 import { SnackBarHandler } from '../../../services/snack-bar-handler.service';
+import { defaultWinLength } from '../../../utils/functions/game-rules.function';
+import { ultimateBoardOf } from '../../../utils/functions/ultimate.function';
+import '../../../app.variants';
 
 /**
  * @fileoverview
@@ -171,6 +177,26 @@ describe('GameHandler', () => {
       );
       expect(modules.length).toEqual(savedGames.length); // Should match number of saved games
     });
+
+    /**
+     * Verifies that the replay viewer opens for the chosen game
+     * and disappears when it emits its close event
+     */
+    it('Should open and close the replay viewer of the chosen game', () => {
+      const index = randomNumber(savedGames.length);
+
+      component['replayGame'](savedGames[index].gameId);
+      fixture.detectChanges();
+
+      const replay = fixture.debugElement.query(By.css('[appGameReplay]'));
+      expect(replay).not.toBeNull();
+      expect(component['replayedGame']()).toEqual(savedGames[index]);
+
+      replay.triggerEventHandler('closeEvent');
+      fixture.detectChanges();
+
+      expect(fixture.debugElement.query(By.css('[appGameReplay]'))).toBeNull();
+    });
   });
 
   /**
@@ -223,9 +249,19 @@ describe('GameHandler', () => {
         // Verify store dispatch for game settings
         expect(store.dispatch).toHaveBeenCalledWith(
           modifyGameSettings({
-            size: game.size,
+            variant: game.variant ?? 'classic',
+            rows: game.size,
+            columns: game.size,
+            winLength: game.winLength ?? defaultWinLength(game.size),
             opponent: game.opponent,
             hardness: helperService.difficultyToNumber(game.difficulty),
+            playerMarkup: game.playerMarkup ?? 'o',
+            firstMove: game.firstMove ?? 'human',
+            timeControl: game.timeControl ?? 'none',
+            gravity: game.gravity ?? false,
+            vanishing: !!game.vanishing,
+            misere: game.misere ?? false,
+            players: game.players ?? 2,
           })
         );
 
@@ -238,10 +274,18 @@ describe('GameHandler', () => {
         expect(store.dispatch).toHaveBeenCalledWith(
           modifyGameInfo({
             actualBoard: savedGames[index].board,
+            ultimateBoard: null,
             actualStep: actualStep,
             actualMarkup: expectedMarkup,
+            markOrder: null,
             lastMove: savedGames[index].lastMove,
+            winner: null,
+            winningLine: null,
+            timeout: null,
+            playerSpentTime: { player_X: 0, player_O: 0 },
             loadedGameName: savedGames[index].name,
+            moveHistory: savedGames[index].moves ?? [],
+            redoHistory: [],
           })
         );
 
@@ -249,6 +293,137 @@ describe('GameHandler', () => {
         expect(routerService.navigateTo).toHaveBeenCalledWith(['tic-tac-toe']);
       });
 
+      /**
+       * Tests that loadGame restores the chosen sides
+       * and derives whose turn it is from them.
+       */
+      it('[loadGame] should restore the chosen sides of the game', async () => {
+        const game: SavedGame = {
+          ...savedGames[randomNumber(savedGames.length)],
+          opponent: 'computer',
+          playerMarkup: 'x',
+          firstMove: 'human',
+        };
+        (component as any).savedGames = signal([
+          game,
+        ]) as unknown as InputSignal<SavedGame[]>;
+
+        await component['loadGame'](game.gameId);
+
+        const actualStep = component['calculateActualStep'](game.board);
+
+        expect(store.dispatch).toHaveBeenCalledWith(
+          jasmine.objectContaining({ playerMarkup: 'x', firstMove: 'human' })
+        );
+        expect(store.dispatch).toHaveBeenCalledWith(
+          jasmine.objectContaining({
+            actualMarkup: actualStep % 2 === 0 ? 'x' : 'o',
+          })
+        );
+      });
+
+      /**
+       * Tests that loadGame restores the time control and the clocks,
+       * and that a game lost on time stays decided.
+       */
+      it('[loadGame] should restore the time control and a loss on time', async () => {
+        const game: SavedGame = {
+          ...savedGames[randomNumber(savedGames.length)],
+          timeControl: 'sudden_death',
+          playerSpentTime: { player_X: 120, player_O: 300 },
+          timeout: 'o',
+        };
+        (component as any).savedGames = signal([
+          game,
+        ]) as unknown as InputSignal<SavedGame[]>;
+
+        await component['loadGame'](game.gameId);
+
+        expect(store.dispatch).toHaveBeenCalledWith(
+          jasmine.objectContaining({ timeControl: 'sudden_death' })
+        );
+        expect(store.dispatch).toHaveBeenCalledWith(
+          jasmine.objectContaining({
+            winner: 'x',
+            timeout: 'o',
+            playerSpentTime: { player_X: 120, player_O: 300 },
+          })
+        );
+      });
+
+      /**
+       * Tests that loadGame restores a three-player game
+       * and rotates the turn through all three markups.
+       */
+      it('[loadGame] should restore a three-player game', async () => {
+        const board = createBoard(5);
+        board[0][0] = 'o';
+        board[0][1] = 'x';
+        const game: SavedGame = {
+          ...savedGames[randomNumber(savedGames.length)],
+          board,
+          size: 5,
+          rows: 5,
+          columns: 5,
+          opponent: 'player',
+          playerMarkup: 'o',
+          variant: 'classic',
+          vanishing: false,
+          timeout: null,
+          players: 3,
+        };
+        (component as any).savedGames = signal([
+          game,
+        ]) as unknown as InputSignal<SavedGame[]>;
+
+        await component['loadGame'](game.gameId);
+
+        expect(store.dispatch).toHaveBeenCalledWith(
+          jasmine.objectContaining({ players: 3 })
+        );
+        expect(store.dispatch).toHaveBeenCalledWith(
+          jasmine.objectContaining({ actualStep: 2, actualMarkup: 't' })
+        );
+      });
+
+      /**
+       * Tests that loadGame restores an Ultimate game with its nested board
+       * and keeps the board dimensions of the classic settings.
+       */
+      it('[loadGame] should restore an Ultimate game', async () => {
+        const board = createBoard(9);
+        board[4][4] = 'o';
+        const game: SavedGame = {
+          ...savedGames[randomNumber(savedGames.length)],
+          board,
+          lastMove: { row: 4, column: 4 },
+          size: 9,
+          rows: 9,
+          columns: 9,
+          variant: 'ultimate',
+        };
+        (component as any).savedGames = signal([
+          game,
+        ]) as unknown as InputSignal<SavedGame[]>;
+
+        await component['loadGame'](game.gameId);
+
+        const settings = (store.dispatch as jasmine.Spy).calls
+          .allArgs()
+          .map((args) => args[0])
+          .find((action) => action.type === modifyGameSettings.type);
+        expect(settings.variant).toBe('ultimate');
+        expect(settings.rows).toBeUndefined();
+        expect(settings.columns).toBeUndefined();
+
+        expect(store.dispatch).toHaveBeenCalledWith(
+          jasmine.objectContaining({
+            actualBoard: board,
+            ultimateBoard: ultimateBoardOf(board, { row: 4, column: 4 }),
+          })
+        );
+      });
+
       /**
        * Tests that deleteGame calls the HTTP service and emits deletedGameEvent
        */
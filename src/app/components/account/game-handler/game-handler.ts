@@ -5,8 +5,11 @@ import {
   InputSignal,
   output,
   OutputEmitterRef,
+  signal,
+  WritableSignal,
 } from '@angular/core';
 import { GameElement } from './game-element/game-element';
+import { GameReplay } from './game-replay/game-replay';
 import { SavedGame } from '../../../utils/interfaces/saved-game.interface';
 import { DialogHandler } from '../../../services/dialog-handler.service';
 import { Http } from '../../../services/http.service';
@@ -17,10 +20,23 @@ import { modifyGameInfo } from '../../../store/actions/game-info-modify.action';
 import { Auth } from '../../../services/auth.service';
 import { RouterService } from '../../../services/router.service';
 import { SnackBarHandler } from '../../../services/snack-bar-handler.service';
+import { Translation } from '../../../services/translation.service';
+import { defaultWinLength } from '../../../utils/functions/game-rules.function';
+import { savedGameDimensions } from '../../../utils/functions/board-dimensions.function';
+import {
+  firstMarkupOf,
+  opposingMarkup,
+} from '../../../utils/functions/turn-order.function';
+import { gameVariant } from '../../../utils/functions/variant.function';
+import { DEFAULT_VARIANT } from '../../../utils/constants/variant.constant';
+import {
+  positionAfterVanishingMoves,
+  vanishingLimit,
+} from '../../../utils/functions/vanishing.function';
 
 @Component({
   selector: 'section[appGameHandler]',
-  imports: [GameElement],
+  imports: [GameElement, GameReplay],
   templateUrl: './game-handler.html',
   styleUrl: './game-handler.scss',
 })
@@ -49,9 +65,16 @@ export class GameHandler {
   /** Snackbar service for showing feedback messages */
   #snackbar: SnackBarHandler = inject(SnackBarHandler);
 
+  /** Translation service for the headings, dialog messages and notifications */
+  protected translation: Translation = inject(Translation);
+
   /** Output signal to notify parent component about deleted game ID */
   deletedGameEvent: OutputEmitterRef<string> = output();
 
+  /** Saved game currently shown in the replay viewer, if any */
+  protected replayedGame: WritableSignal<SavedGame | undefined> =
+    signal(undefined);
+
   /**
    * Calculates the number of moves already made on a game board
    * @param board - 2D array representing the game board
@@ -74,41 +97,127 @@ export class GameHandler {
     const dialogResult = await this.#dialogHandler.open<true | 'CLOSE_EVENT'>(
       'message',
       {
-        title: 'Loading',
-        content: `Do you want to load "${chosenGame?.name}" game?`,
+        title: this.translation.translate('dialog.loading'),
+        content: this.translation.translate('dialog.loadQuestion', {
+          name: chosenGame?.name ?? '',
+        }),
         buttons: [
-          { button: 'accept', name: 'Load' },
-          { button: 'reject', name: 'Back' },
+          {
+            button: 'accept',
+            name: this.translation.translate('button.load'),
+          },
+          {
+            button: 'reject',
+            name: this.translation.translate('button.back'),
+          },
         ],
       }
     );
 
     if (!chosenGame || dialogResult === 'CLOSE_EVENT') return;
 
+    // Games saved before the sides could be chosen were played as 'o', moving first
+    const playerMarkup = chosenGame.playerMarkup ?? 'o';
+    const firstMove = chosenGame.firstMove ?? 'human';
+    // Games saved before variants existed were played with the default variant
+    const variant = chosenGame.variant ?? DEFAULT_VARIANT;
+    const rules = gameVariant(variant);
+    const { rows, columns } = savedGameDimensions(chosenGame);
+    const winLength = chosenGame.winLength ?? defaultWinLength(rows, columns);
+    // Games saved before the vanishing rule existed were played without it
+    const vanishing = rules.optionalRules && !!chosenGame.vanishing;
+    // Games saved before three-player games existed were played by two
+    const players = chosenGame.players ?? 2;
     this.#store.dispatch(
       modifyGameSettings({
-        size: chosenGame.size,
+        variant,
+        // Fixed boards (e.g. Ultimate, quantum, Order and Chaos)
+        // keep the dimensions of the classic settings
+        ...(!rules.fixedBoard
+          ? {
+              rows,
+              columns,
+              winLength,
+            }
+          : {}),
         opponent: chosenGame.opponent,
         hardness: this.#helperFunctions.difficultyToNumber(
           chosenGame.difficulty
         ),
+        playerMarkup,
+        firstMove,
+        // Games saved before time controls existed were played without a limit
+        timeControl: chosenGame.timeControl ?? 'none',
+        // Games saved before the gravity rule existed were played without it
+        gravity: chosenGame.gravity ?? false,
+        vanishing,
+        // Games saved before the misère rule existed were played without it
+        misere: chosenGame.misere ?? false,
+        players,
       })
     );
 
-    const actualStep = this.calculateActualStep(chosenGame.board);
+    // Vanished marks are no longer on the board and spooky marks never were,
+    // so the step is the number of moves
+    const actualStep =
+      (vanishing || rules.spookyMarks) && chosenGame.moves
+        ? chosenGame.moves.length
+        : this.calculateActualStep(chosenGame.board);
     this.#store.dispatch(
       modifyGameInfo({
         actualBoard: chosenGame.board,
+        // The nested board of Ultimate games and the spooky marks
+        // of quantum games are rebuilt by the variant
+        ...rules.restore(
+          chosenGame.board,
+          chosenGame.moves ?? [],
+          chosenGame.lastMove
+        ),
         actualStep,
-        actualMarkup: this.#helperFunctions.markupByStep(actualStep),
+        actualMarkup: rules.markupByTurn(
+          actualStep,
+          firstMarkupOf(playerMarkup, firstMove, chosenGame.opponent),
+          players
+        ),
+        markOrder: vanishing
+          ? chosenGame.markOrder ??
+            positionAfterVanishingMoves(
+              rows,
+              columns,
+              chosenGame.moves ?? [],
+              vanishingLimit(chosenGame.board, winLength)
+            ).markOrder
+          : null,
         lastMove: chosenGame.lastMove,
+        // Recomputed by the game on start if the loaded game is already won,
+        // a loss on time cannot be read from the board so it is restored here
+        winner: chosenGame.timeout ? opposingMarkup(chosenGame.timeout) : null,
+        winningLine: null,
+        timeout: chosenGame.timeout ?? null,
+        playerSpentTime: chosenGame.playerSpentTime ?? {
+          player_X: 0,
+          player_O: 0,
+        },
         loadedGameName: chosenGame.name,
+        // Games saved without a move list start with an empty history
+        moveHistory: chosenGame.moves ?? [],
+        redoHistory: [],
       })
     );
 
     this.#router.navigateTo(['tic-tac-toe']);
   }
 
+  /**
+   * Opens the replay viewer for a saved game
+   * @param id - The ID of the game to replay
+   */
+  protected replayGame(id: string): void {
+    this.replayedGame.set(
+      this.savedGames()?.find((game) => game.gameId === id)
+    );
+  }
+
   /**
    * Deletes a saved game by ID
    * @param id - The ID of the game to delete
@@ -118,11 +227,19 @@ export class GameHandler {
     const dialogResult = await this.#dialogHandler.open<true | 'CLOSE_EVENT'>(
       'message',
       {
-        title: 'Delete',
-        content: `Do you want to delete "${chosenGame?.name}" game?`,
+        title: this.translation.translate('dialog.delete'),
+        content: this.translation.translate('dialog.deleteQuestion', {
+          name: chosenGame?.name ?? '',
+        }),
         buttons: [
-          { button: 'accept', name: 'Delete' },
-          { button: 'reject', name: 'Back' },
+          {
+            button: 'accept',
+            name: this.translation.translate('button.delete'),
+          },
+          {
+            button: 'reject',
+            name: this.translation.translate('button.back'),
+          },
         ],
       }
     );
@@ -147,9 +264,15 @@ export class GameHandler {
 
         if ((result as any)?.data?.deleteGame?.gameId) {
           this.deletedGameEvent.emit(id);
+          if (this.replayedGame()?.gameId === id) {
+            this.replayedGame.set(undefined);
+          }
         }
       } catch (error) {
-        this.#snackbar.addElement('Failed to delete game', true);
+        this.#snackbar.addElement(
+          this.translation.translate('snackbar.gameDeletingFailed'),
+          true
+        );
       }
     }
   }
@@ -0,0 +1,195 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { GameReplay } from './game-replay';
+import {
+  InputSignal,
+  provideZonelessChangeDetection,
+  signal,
+  WritableSignal,
+} from '@angular/core';
+import { provideMockStore } from '@ngrx/store/testing';
+import { By } from '@angular/platform-browser';
+import { createGame } from '../../../../utils/test/functions/creators.functions';
+import { SavedGame } from '../../../../utils/interfaces/saved-game.interface';
+import { MoveRecord } from '../../../../utils/interfaces/move-record.interface';
+import { REPLAY_INTERVAL } from '../../../../utils/constants/replay-interval.constant';
+import '../../../../app.variants';
+
+/**
+ * @fileoverview
+ * Unit tests for the GameReplay component.
+ *
+ * The tests verify:
+ * - Rebuilding the board of every position from the saved move list
+ * - First/previous/next/last navigation and its boundaries
+ * - Autoplay stepping forward and stopping at the last move
+ * - Fallback to the final board for games saved without moves
+ * - Emitting the close event
+ */
+
+describe('GameReplay', () => {
+  /** The GameReplay component instance under test. */
+  let component: GameReplay;
+
+  /** Angular test fixture for the GameReplay component. */
+  let fixture: ComponentFixture<GameReplay>;
+
+  /** Writable signal replacing the `game` input. */
+  let gameSignal: WritableSignal<SavedGame>;
+
+  /** Moves leading to the board of a won `createGame` fixture. */
+  const moves: MoveRecord[] = [
+    { row: 0, column: 0, markup: 'o', timestamp: 1 },
+    { row: 0, column: 1, markup: 'x', timestamp: 2 },
+    { row: 1, column: 1, markup: 'o', timestamp: 3 },
+    { row: 2, column: 0, markup: 'x', timestamp: 4 },
+    { row: 2, column: 2, markup: 'o', timestamp: 5 },
+  ];
+
+  /** Saved game with a move list. */
+  const game: SavedGame = { ...createGame('1', '1', 'won'), moves };
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [GameReplay],
+      providers: [
+        provideZonelessChangeDetection(),
+        provideMockStore({ initialState: { gameInfo: {} } }),
+      ],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(GameReplay);
+    component = fixture.componentInstance;
+
+    gameSignal = signal(game);
+    (component as any).game = gameSignal as unknown as InputSignal<SavedGame>;
+
+    fixture.detectChanges();
+  });
+
+  /**
+   * HTML tests
+   */
+  describe('HTML:', () => {
+    /**
+     * Verifies that the replay starts from the empty board
+     * and renders one cell per board field.
+     */
+    it('Should start from the empty board', () => {
+      const cells = fixture.debugElement.queryAll(
+        By.css('[appGameFieldCell]')
+      );
+
+      expect(cells.length).toBe(game.size * game.size);
+      expect(component['board']().flat().every((cell) => cell === '')).toBe(
+        true
+      );
+    });
+
+    /**
+     * Verifies that the close button emits the close event.
+     */
+    it('Close button should emit the close event', () => {
+      spyOn(component.closeEvent, 'emit');
+
+      fixture.debugElement
+        .query(By.css('button[aria-label="Close replay."]'))
+        .triggerEventHandler('click');
+
+      expect(component.closeEvent.emit).toHaveBeenCalled();
+    });
+
+    /**
+     * Verifies that games saved without moves show their final board
+     * and no replay controls.
+     */
+    it('Should show the final board when the game has no moves', () => {
+      gameSignal.set({ ...game, moves: undefined });
+      fixture.detectChanges();
+
+      expect(component['board']()).toEqual(game.board);
+      expect(component['lastMove']()).toEqual(game.lastMove);
+      expect(
+        fixture.debugElement.query(By.css('#own-replay-controls'))
+      ).toBeNull();
+    });
+  });
+
+  /**
+   * Tests for component methods
+   */
+  describe('Component methods:', () => {
+    /**
+     * Verifies stepping through the game move by move.
+     */
+    it('[next] and [previous] should step through the moves', () => {
+      component['next']();
+      component['next']();
+
+      expect(component['board']()).toEqual([
+        ['o', 'x', ''],
+        ['', '', ''],
+        ['', '', ''],
+      ]);
+      expect(component['lastMove']()).toEqual({ row: 0, column: 1 });
+
+      component['previous']();
+
+      expect(component['board']()).toEqual([
+        ['o', '', ''],
+        ['', '', ''],
+        ['', '', ''],
+      ]);
+      expect(component['lastMove']()).toEqual({ row: 0, column: 0 });
+    });
+
+    /**
+     * Verifies jumping to both ends of the game and that stepping
+     * never leaves the range of the move list.
+     */
+    it('[first] and [last] should jump to the ends of the game', () => {
+      component['last']();
+      component['next']();
+
+      expect(component['position']()).toBe(moves.length);
+      expect(component['board']()).toEqual(game.board);
+
+      component['first']();
+      component['previous']();
+
+      expect(component['position']()).toBe(0);
+      expect(component['lastMove']()).toBeUndefined();
+    });
+
+    /**
+     * Verifies that autoplay steps forward once per interval
+     * and stops at the last move.
+     */
+    it('[toggleAutoplay] should play the game to the end', () => {
+      jasmine.clock().install();
+
+      component['toggleAutoplay']();
+      fixture.detectChanges();
+
+      jasmine.clock().tick(REPLAY_INTERVAL * 2);
+      expect(component['position']()).toBe(2);
+
+      jasmine.clock().tick(REPLAY_INTERVAL * moves.length);
+      expect(component['position']()).toBe(moves.length);
+      expect(component['playing']()).toBe(false);
+
+      jasmine.clock().uninstall();
+    });
+
+    /**
+     * Verifies that choosing another game restarts the replay.
+     */
+    it('Should restart the replay when another game is chosen', () => {
+      component['last']();
+
+      gameSignal.set({ ...game, gameId: '2' });
+      fixture.detectChanges();
+
+      expect(component['position']()).toBe(0);
+    });
+  });
+});
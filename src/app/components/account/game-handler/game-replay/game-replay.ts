@@ -0,0 +1,247 @@
+import {
+  Component,
+  computed,
+  effect,
+  inject,
+  input,
+  InputSignal,
+  output,
+  OutputEmitterRef,
+  signal,
+  Signal,
+  untracked,
+  WritableSignal,
+} from '@angular/core';
+import { Board } from '../../../game/board/board';
+import { UltimateBoard } from '../../../game/ultimate-board/ultimate-board';
+import { QuantumBoard } from '../../../game/quantum-board/quantum-board';
+import { SavedGame } from '../../../../utils/interfaces/saved-game.interface';
+import { MoveRecord } from '../../../../utils/interfaces/move-record.interface';
+import { LastMove } from '../../../../utils/interfaces/last-move.interface';
+import { boardAfterMoves } from '../../../../utils/functions/move-history.function';
+import { defaultWinLength } from '../../../../utils/functions/game-rules.function';
+import { REPLAY_INTERVAL } from '../../../../utils/constants/replay-interval.constant';
+import { BoardDimensions } from '../../../../utils/interfaces/board-dimensions.interface';
+import { savedGameDimensions } from '../../../../utils/functions/board-dimensions.function';
+import { NestedBoard } from '../../../../utils/interfaces/nested-board.interface';
+import {
+  positionAfterVanishingMoves,
+  vanishingLimit,
+} from '../../../../utils/functions/vanishing.function';
+import { QuantumState } from '../../../../utils/interfaces/quantum-state.interface';
+import { GameVariant } from '../../../../utils/interfaces/game-variant.interface';
+import { GameInfo } from '../../../../utils/interfaces/game-info.interface';
+import { gameVariant } from '../../../../utils/functions/variant.function';
+import { firstMarkupOf } from '../../../../utils/functions/turn-order.function';
+import { DEFAULT_VARIANT } from '../../../../utils/constants/variant.constant';
+import { Translation } from '../../../../services/translation.service';
+
+/**
+ * GameReplay component shows how a saved game unfolded, move by move.
+ *
+ * The component:
+ *  - rebuilds the board of any intermediate position from the saved move list,
+ *    and the variant-specific state of the position with the `restore` hook
+ *    of the saved variant,
+ *  - renders it with the `Board` component in read-only mode
+ *    (or with the `UltimateBoard` / `QuantumBoard` component
+ *    when the variant restores a nested or a quantum board),
+ *  - highlights the winning line, evaluated with the rules of the variant,
+ *    once the replay reaches it,
+ *  - provides first/previous/next/last controls and autoplay,
+ *  - falls back to the final board for games saved without a move list.
+ */
+@Component({
+  selector: 'section[appGameReplay]',
+  imports: [Board, UltimateBoard, QuantumBoard],
+  templateUrl: './game-replay.html',
+  styleUrl: './game-replay.scss',
+})
+export class GameReplay {
+  /** The saved game to replay. Provided by the parent game handler. */
+  game: InputSignal<SavedGame> = input.required();
+
+  /** Event emitted when the user closes the replay viewer. */
+  closeEvent: OutputEmitterRef<void> = output();
+
+  /** Translation service for the title and the labels of the controls. */
+  protected translation: Translation = inject(Translation);
+
+  /** Saved move list of the game (empty for games saved without one). */
+  protected moves: Signal<MoveRecord[]> = computed(
+    () => this.game().moves ?? []
+  );
+
+  /** Rows and columns of the saved board. */
+  protected dimensions: Signal<BoardDimensions> = computed(() =>
+    savedGameDimensions(this.game())
+  );
+
+  /** Number of moves currently shown on the board (0 = empty board). */
+  protected position: WritableSignal<number> = signal(0);
+
+  /** Whether autoplay is running. */
+  protected playing: WritableSignal<boolean> = signal(false);
+
+  /** Number of marks in a row needed to win the saved game. */
+  protected winLength: Signal<number> = computed(() => {
+    const { rows, columns } = this.dimensions();
+    return this.game().winLength ?? defaultWinLength(rows, columns);
+  });
+
+  /** Registered rule set of the saved variant. */
+  protected rules: Signal<GameVariant> = computed(() =>
+    gameVariant(this.game().variant ?? DEFAULT_VARIANT)
+  );
+
+  /**
+   * Board of the current position.
+   * Without a move list only the final saved board can be shown.
+   * In vanishing-marks games the marks removed up to the position are left out.
+   */
+  protected board: Signal<string[][]> = computed(() => {
+    const moves = this.moves();
+    if (!moves.length) return this.game().board;
+    const { rows, columns } = this.dimensions();
+    const played = moves.slice(0, this.position());
+    return this.game().vanishing
+      ? positionAfterVanishingMoves(
+          rows,
+          columns,
+          played,
+          vanishingLimit(this.game().board, this.winLength())
+        ).board
+      : boardAfterMoves(rows, columns, played);
+  });
+
+  /** Last move of the current position, emphasized on the board. */
+  protected lastMove: Signal<LastMove | undefined> = computed(() => {
+    const moves = this.moves();
+    if (!moves.length) return this.game().lastMove;
+    const move = moves[this.position() - 1];
+    return move ? { row: move.row, column: move.column } : undefined;
+  });
+
+  /**
+   * Variant-specific state of the current position, rebuilt by the variant
+   * (the nested board of Ultimate games, the spooky marks of quantum games).
+   */
+  #restored: Signal<Pick<GameInfo, 'ultimateBoard' | 'quantumBoard'>> =
+    computed(() =>
+      this.rules().restore(
+        this.board(),
+        this.moves().slice(0, this.position()),
+        this.lastMove()
+      )
+    );
+
+  /**
+   * Nested board of the current position in variants restoring one
+   * (e.g. Ultimate), `undefined` for every other variant.
+   */
+  protected ultimateBoard: Signal<NestedBoard | undefined> = computed(
+    () => this.#restored().ultimateBoard ?? undefined
+  );
+
+  /**
+   * Quantum board of the current position in variants restoring one
+   * (e.g. quantum), `undefined` for every other variant.
+   */
+  protected quantumBoard: Signal<QuantumState | undefined> = computed(
+    () => this.#restored().quantumBoard ?? undefined
+  );
+
+  /**
+   * Cells of the winning line on the current position, if any,
+   * evaluated with the rules of the saved variant
+   * (the winning sub-boards in Ultimate games).
+   */
+  protected winningLine: Signal<LastMove[] | null> = computed(() => {
+    const game = this.game();
+    return this.rules().evaluate(this.board(), {
+      winLength: this.winLength(),
+      step: this.position(),
+      firstMarkup: firstMarkupOf(
+        game.playerMarkup ?? 'o',
+        game.firstMove ?? 'human',
+        game.opponent
+      ),
+      players: game.players ?? 2,
+      lastMove: this.lastMove(),
+      quantumBoard: this.quantumBoard(),
+      gravity: game.gravity,
+      misere: game.misere,
+    }).line;
+  });
+
+  constructor() {
+    /**
+     * Effect 1:
+     * Restarts the replay from the empty board whenever another game is chosen.
+     */
+    effect(() => {
+      this.game();
+      untracked(() => {
+        this.position.set(0);
+        this.playing.set(false);
+      });
+    });
+
+    /**
+     * Effect 2:
+     * While autoplay is running, steps forward every `REPLAY_INTERVAL` ms
+     * and stops at the last move.
+     * Cleans up the interval when the effect is invalidated.
+     */
+    effect((onCleanup) => {
+      if (this.playing()) {
+        const interval = setInterval(() => {
+          if (this.position() >= this.moves().length) {
+            this.playing.set(false);
+          } else {
+            this.next();
+          }
+        }, REPLAY_INTERVAL);
+
+        onCleanup(() => {
+          clearInterval(interval);
+        });
+      }
+    });
+  }
+
+  /** Jumps to the empty board. */
+  protected first(): void {
+    this.position.set(0);
+  }
+
+  /** Steps one move back. */
+  protected previous(): void {
+    this.position.update((position) => Math.max(position - 1, 0));
+  }
+
+  /** Steps one move forward. */
+  protected next(): void {
+    this.position.update((position) =>
+      Math.min(position + 1, this.moves().length)
+    );
+  }
+
+  /** Jumps to the final position. */
+  protected last(): void {
+    this.position.set(this.moves().length);
+  }
+
+  /**
+   * Starts or stops autoplay.
+   * Starting at the final position restarts the replay from the empty board.
+   */
+  protected toggleAutoplay(): void {
+    if (this.playing()) {
+      this.playing.set(false);
+      return;
+    }
+    if (this.position() >= this.moves().length) this.first();
+    this.playing.set(true);
+  }
+}
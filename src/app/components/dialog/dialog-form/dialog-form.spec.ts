@@ -19,7 +19,9 @@ import {
 import {
   selectGameHardness,
   selectGameOpponent,
-  selectGameSize,
+  selectGameRows,
+  selectGameColumns,
+  selectGameWinLength,
 } from '../../../store/selectors/game-settings.selector';
 import { FormTemplate } from '../../../services/form-template.service';
 import { DialogHandler } from '../../../services/dialog-handler.service';
@@ -33,6 +35,8 @@ import { FORM_FIELD_MODELS } from '../../../utils/constants/dialog-form-field-mo
 import { Auth } from '../../../services/auth.service';
 import { AbstractControl } from '@angular/forms';
 import { createUser } from '../../../utils/test/functions/creators.functions';
+import { Translation } from '../../../services/translation.service';
+import '../../../app.variants';
 
 /**
  * @fileoverview
@@ -88,7 +92,10 @@ describe('DialogForm', () => {
                   return signal(hardness);
                 case selectGameOpponent:
                   return signal('computer');
-                case selectGameSize:
+                case selectGameRows:
+                case selectGameColumns:
+                  return signal(3);
+                case selectGameWinLength:
                   return signal(3);
                 default:
                   return signal(undefined);
@@ -170,6 +177,57 @@ describe('DialogForm', () => {
         }
       }
     });
+
+    /**
+     * Verifies that the error message key of an invalid control
+     * is shown as its translated text.
+     */
+    it('Should show the translated message of the primary error', async () => {
+      dialogService.actualContent = 'save';
+      fixture.detectChanges();
+      await fixture.whenStable();
+
+      const control = component['ngForm']()!.form.get('gameName')!;
+      formErrorService.markAsRequired(control);
+      fixture.detectChanges();
+
+      const error = fixture.debugElement.query(By.css('.own-error-span'))
+        .nativeElement as HTMLSpanElement;
+      expect(error.textContent).toBe('This field is required.');
+    });
+
+    /**
+     * Verifies that the options and the difficulty sliders
+     * are named in the chosen language.
+     */
+    it('Should name the options and the sliders in the chosen language', async () => {
+      const translation = TestBed.inject(Translation);
+      // The language switch must not be persisted for the other tests
+      spyOn(localStorage, 'setItem');
+      dialogService.actualContent = 'game_setting';
+      translation.language = 'hu';
+      fixture.detectChanges();
+      await fixture.whenStable();
+
+      const optionsOf = (name: string) =>
+        fixture.debugElement
+          .queryAll(By.css(`select[name="${name}"] option`))
+          .map((option) => (option.nativeElement as HTMLOptionElement).text);
+      const sliders = fixture.debugElement
+        .queryAll(By.css('input[type="range"]'))
+        .map((slider) => slider.nativeElement.getAttribute('aria-label'));
+      translation.language = 'en';
+
+      expect(optionsOf('gravity')).toEqual(['Ki', 'Be']);
+      expect(optionsOf('variant')).toContain('Rend és káosz');
+      expect(optionsOf('timeControl')).toEqual([
+        'Nincs',
+        'Hirtelen halál (5 perc)',
+        'Lépésenként 30 mp',
+        'Fischer (3 perc + 2 mp)',
+      ]);
+      expect(sliders).toEqual(['Nehézség', 'Második gép nehézsége']);
+    });
   });
 
   /**
@@ -218,6 +276,26 @@ describe('DialogForm', () => {
       expect(themeService.accentColor).toBe(accent);
       expect(themeService.primaryColor).toBe(primary);
     });
+
+    /**
+     * Verifies that the language picked in the form is applied right away
+     * through the Translation service.
+     */
+    it('Third effect should propagate the language from the component signal to the Translation service', () => {
+      const translation = TestBed.inject(Translation);
+      // The language switch must not be persisted for the other tests
+      spyOn(localStorage, 'setItem');
+
+      component['language'].set('hu');
+      fixture.detectChanges();
+
+      expect(translation.language()).toBe('hu');
+
+      component['language'].set('en');
+      fixture.detectChanges();
+
+      expect(translation.language()).toBe('en');
+    });
   });
 
   /**
@@ -286,9 +364,41 @@ describe('DialogForm', () => {
       const result = component['getFormResult']();
 
       expect(result).toEqual({
+        variant: component['variant'](),
+        gravity: component['gravity'](),
+        vanishing: component['vanishing'](),
+        misere: component['misere'](),
+        players: component['players'](),
         hardness: component['hardness'](),
+        secondHardness: component['secondHardness'](),
         opponent: component['opponent'](),
-        size: component['size'](),
+        rows: component['rows'](),
+        columns: component['columns'](),
+        winLength: component['winLength'](),
+        aiEngine: component['aiEngine'](),
+        playerMarkup: component['playerMarkup'](),
+        firstMove: component['firstMove'](),
+        timeControl: component['timeControl'](),
+      });
+    });
+
+    /**
+     * Verifies that the export dialog returns the board image settings,
+     * with SVG images and both marks chosen by default.
+     */
+    it('[getFormResult] should return the board image settings of the export dialog', async () => {
+      dialogService.actualContent = 'export';
+
+      await new Promise<void>((resolve) => setTimeout(resolve, 0));
+      fixture.detectChanges();
+
+      const result = component['getFormResult']();
+
+      expect(result).toEqual({
+        imageFormat: 'svg',
+        coordinates: false,
+        markLastMove: true,
+        markWinningLine: true,
       });
     });
 
@@ -569,9 +679,21 @@ describe('DialogForm', () => {
         spyOn(dialogService, 'emitData');
         const gameSettings = generateRandomGameSettingObject();
 
+        component['variant'].set(gameSettings.variant);
+        component['gravity'].set(gameSettings.gravity);
+        component['vanishing'].set(gameSettings.vanishing);
+        component['misere'].set(gameSettings.misere);
+        component['players'].set(gameSettings.players);
         component['hardness'].set(gameSettings.hardness);
+        component['secondHardness'].set(gameSettings.secondHardness);
         component['opponent'].set(gameSettings.opponent);
-        component['size'].set(gameSettings.size);
+        component['rows'].set(gameSettings.rows);
+        component['columns'].set(gameSettings.columns);
+        component['winLength'].set(gameSettings.winLength);
+        component['aiEngine'].set(gameSettings.aiEngine);
+        component['playerMarkup'].set(gameSettings.playerMarkup);
+        component['firstMove'].set(gameSettings.firstMove);
+        component['timeControl'].set(gameSettings.timeControl);
 
         fixture.detectChanges();
 
@@ -579,7 +701,13 @@ describe('DialogForm', () => {
 
         await component['sendResults']();
 
-        expect(dialogService.emitData).toHaveBeenCalledOnceWith(gameSettings);
+        // The move delay and the coordinate labels are set on the game page,
+        // not in the settings form
+        const expected: Partial<GameSettings> = { ...gameSettings };
+        delete expected.aiDelay;
+        delete expected.coordinates;
+
+        expect(dialogService.emitData).toHaveBeenCalledOnceWith(expected);
       });
 
       /**
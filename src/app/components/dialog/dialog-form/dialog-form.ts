@@ -24,15 +24,32 @@ import { FormTemplate } from '../../../services/form-template.service';
 import { Functions } from '../../../services/functions.service';
 import { DialogHandler } from '../../../services/dialog-handler.service';
 import { DialogContent } from '../../../utils/types/dialog-content.type';
+import { DEFAULT_VARIANT } from '../../../utils/constants/variant.constant';
 import { ErrorKeys } from '../../../utils/types/error-messages.type';
 import { Store } from '@ngrx/store';
 import {
+  selectFirstMove,
+  selectGameAiEngine,
+  selectGameColumns,
   selectGameHardness,
   selectGameOpponent,
-  selectGameSize,
+  selectGameRows,
+  selectGameSecondHardness,
+  selectGameTimeControl,
+  selectGameVariant,
+  selectGameGravity,
+  selectGameVanishing,
+  selectGameMisere,
+  selectGamePlayers,
+  selectGameCoordinates,
+  selectGameWinLength,
+  selectPlayerMarkup,
 } from '../../../store/selectors/game-settings.selector';
 import { GameSettings } from '../../../utils/interfaces/game-settings.interface';
 import { FormField } from '../../../utils/interfaces/form-field-template.interface';
+import { BoardImageSettings } from '../../../utils/interfaces/board-image-settings.interface';
+import { Translation } from '../../../services/translation.service';
+import { Language } from '../../../utils/types/language.type';
 
 /**
  * Component representing a fully reactive dialog form.
@@ -40,6 +57,7 @@ import { FormField } from '../../../utils/interfaces/form-field-template.interfa
  * This form dynamically adjusts its fields, validation, and appearance
  * based on the active dialog content and user interaction.
  * It integrates Angular signals for fine-grained reactivity without subscriptions.
+ * Error messages are shown in the chosen language.
  */
 @Component({
   selector: 'app-dialog-form',
@@ -61,6 +79,9 @@ export class DialogForm {
   /** FormTemplate service: provides field structure templates */
   #formTemplate: FormTemplate = inject(FormTemplate);
 
+  /** Translation service: translates the error messages */
+  protected translation: Translation = inject(Translation);
+
   /** Functions service: helper utility functions */
   protected helperFunctions: Functions = inject(Functions);
 
@@ -102,6 +123,14 @@ export class DialogForm {
   /** Backup of accentColor for reset purposes */
   private previousAccentColor = this.accentColor();
 
+  /** WritableSignal for the language of the user interface */
+  protected language: WritableSignal<Language> = signal(
+    this.translation.language()
+  );
+
+  /** Backup of language for reset purposes */
+  private previousLanguage = this.language();
+
   /** WritableSignal for game name input field */
   protected gameName: WritableSignal<string> = signal('');
 
@@ -125,16 +154,92 @@ export class DialogForm {
     this.#store.selectSignal(selectGameHardness)()
   );
 
+  /** WritableSignal for the second AI's hardness setting (spectator mode) */
+  protected secondHardness: WritableSignal<GameSettings['secondHardness']> =
+    signal(this.#store.selectSignal(selectGameSecondHardness)() ?? 1);
+
   /** WritableSignal for game opponent setting */
   protected opponent: WritableSignal<GameSettings['opponent']> = signal(
     this.#store.selectSignal(selectGameOpponent)()
   );
 
-  /** WritableSignal for game board size setting */
-  protected size: WritableSignal<GameSettings['size']> = signal(
-    this.#store.selectSignal(selectGameSize)()
+  /** WritableSignal for the board rows setting */
+  protected rows: WritableSignal<GameSettings['rows']> = signal(
+    this.#store.selectSignal(selectGameRows)()
+  );
+
+  /** WritableSignal for the board columns setting */
+  protected columns: WritableSignal<GameSettings['columns']> = signal(
+    this.#store.selectSignal(selectGameColumns)()
+  );
+
+  /** WritableSignal for the win length setting */
+  protected winLength: WritableSignal<GameSettings['winLength']> = signal(
+    this.#store.selectSignal(selectGameWinLength)()
+  );
+
+  /** WritableSignal for the AI engine setting */
+  protected aiEngine: WritableSignal<GameSettings['aiEngine']> = signal(
+    this.#store.selectSignal(selectGameAiEngine)() ?? 'server'
+  );
+
+  /** WritableSignal for the player's markup setting */
+  protected playerMarkup: WritableSignal<GameSettings['playerMarkup']> = signal(
+    this.#store.selectSignal(selectPlayerMarkup)() ?? 'o'
+  );
+
+  /** WritableSignal for the first move setting */
+  protected firstMove: WritableSignal<GameSettings['firstMove']> = signal(
+    this.#store.selectSignal(selectFirstMove)() ?? 'human'
+  );
+
+  /** WritableSignal for the time control setting */
+  protected timeControl: WritableSignal<GameSettings['timeControl']> = signal(
+    this.#store.selectSignal(selectGameTimeControl)() ?? 'none'
   );
 
+  /** WritableSignal for the game variant setting */
+  protected variant: WritableSignal<GameSettings['variant']> = signal(
+    this.#store.selectSignal(selectGameVariant)() ?? DEFAULT_VARIANT
+  );
+
+  /** WritableSignal for the gravity setting */
+  protected gravity: WritableSignal<GameSettings['gravity']> = signal(
+    this.#store.selectSignal(selectGameGravity)() ?? false
+  );
+
+  /** WritableSignal for the vanishing-marks setting */
+  protected vanishing: WritableSignal<GameSettings['vanishing']> = signal(
+    this.#store.selectSignal(selectGameVanishing)() ?? false
+  );
+
+  /** WritableSignal for the misère setting */
+  protected misere: WritableSignal<GameSettings['misere']> = signal(
+    this.#store.selectSignal(selectGameMisere)() ?? false
+  );
+
+  /** WritableSignal for the number of players */
+  protected players: WritableSignal<GameSettings['players']> = signal(
+    this.#store.selectSignal(selectGamePlayers)() ?? 2
+  );
+
+  /** WritableSignal for the file format of an exported board image */
+  protected imageFormat: WritableSignal<BoardImageSettings['imageFormat']> =
+    signal('svg');
+
+  /** WritableSignal for the coordinate labels of an exported board image */
+  protected coordinates: WritableSignal<BoardImageSettings['coordinates']> =
+    signal(this.#store.selectSignal(selectGameCoordinates)() ?? false);
+
+  /** WritableSignal for the last-move mark of an exported board image */
+  protected markLastMove: WritableSignal<BoardImageSettings['markLastMove']> =
+    signal(true);
+
+  /** WritableSignal for the winning-line mark of an exported board image */
+  protected markWinningLine: WritableSignal<
+    BoardImageSettings['markWinningLine']
+  > = signal(true);
+
   /** Signal for current active dialog content */
   actualObjectSignal: Signal<DialogContent> = this.dialog.actualContent;
 
@@ -153,6 +258,11 @@ export class DialogForm {
       this.theme.primaryColor = this.primaryColor();
     });
 
+    /** Effect: synchronize the language signal with Translation service */
+    effect(() => {
+      this.translation.language = this.language();
+    });
+
     /** Subscribe to dialog triggers for form actions */
     const triggerSubscription = this.dialog
       .waitForTrigger()
@@ -10,7 +10,8 @@ import { Store } from '@ngrx/store';
 import {
   selectGameHardness,
   selectGameOpponent,
-  selectGameSize,
+  selectGameRows,
+  selectGameColumns,
 } from '../../store/selectors/game-settings.selector';
 import { DIALOG_CONTENT } from '../../utils/constants/dialog-content.constant';
 import { FormTemplate } from '../../services/form-template.service';
@@ -81,7 +82,8 @@ describe('Dialog', () => {
                   return signal(1);
                 case selectGameOpponent:
                   return signal('computer');
-                case selectGameSize:
+                case selectGameRows:
+                case selectGameColumns:
                   return signal(3);
                 default:
                   return signal(undefined);
@@ -18,11 +18,29 @@ import { LastMove } from '../../../utils/interfaces/last-move.interface';
 import {
   selectActualBoard,
   selectActualMarkup,
+  selectMarkOrder,
 } from '../../../store/selectors/game-info.selector';
 import { By } from '@angular/platform-browser';
 import { provideMockStore } from '@ngrx/store/testing';
 import { modifyGameInfo } from '../../../store/actions/game-info-modify.action';
 import { GameInfo } from '../../../utils/interfaces/game-info.interface';
+import { recordGameMove } from '../../../store/actions/game-info-move-record.action';
+import {
+  selectFirstMarkup,
+  selectGameGravity,
+  selectGameVanishing,
+  selectGameWinLength,
+  selectPlayedVariant,
+  selectPlayerCount,
+} from '../../../store/selectors/game-settings.selector';
+import { MarkOrder } from '../../../utils/interfaces/mark-order.interface';
+import { PlayerCount } from '../../../utils/types/player-count.type';
+import { Variant } from '../../../utils/types/variant.type';
+import { PlayerMarkup } from '../../../utils/types/player-markup.type';
+import { Markup } from '../../../utils/types/markup.type';
+import { Announcer } from '../../../services/announcer.service';
+import { Translation } from '../../../services/translation.service';
+import '../../../app.variants';
 
 /**
  * @fileoverview
@@ -56,6 +74,24 @@ describe('Board', () => {
   /** Writable signal mocking the board state selected from the NgRx store. */
   let actualBoardSignal: WritableSignal<string[][] | undefined>;
 
+  /** Writable signal mocking the markup making the first move. */
+  let firstMarkupSignal: WritableSignal<'o' | 'x'>;
+
+  /** Writable signal mocking the gravity rule. */
+  let gravitySignal: WritableSignal<boolean>;
+
+  /** Writable signal mocking the vanishing-marks rule. */
+  let vanishingSignal: WritableSignal<boolean>;
+
+  /** Writable signal mocking the order of the marks on the board. */
+  let markOrderSignal: WritableSignal<MarkOrder | null>;
+
+  /** Writable signal mocking the number of players seated in the game. */
+  let playersSignal: WritableSignal<PlayerCount>;
+
+  /** Writable signal mocking the variant the game is played with. */
+  let variantSignal: WritableSignal<Variant>;
+
   /** Fallback signal returned for selectors not explicitly handled in tests. */
   let defaultSignal: WritableSignal<unknown>;
 
@@ -84,6 +120,12 @@ describe('Board', () => {
     store = TestBed.inject(Store);
 
     actualBoardSignal = signal<string[][] | undefined>(board);
+    firstMarkupSignal = signal<'o' | 'x'>('o');
+    gravitySignal = signal<boolean>(false);
+    vanishingSignal = signal<boolean>(false);
+    markOrderSignal = signal<MarkOrder | null>(null);
+    playersSignal = signal<PlayerCount>(2);
+    variantSignal = signal<Variant>('classic');
     defaultSignal = signal<unknown>(undefined);
 
     spyOn(store, 'selectSignal').and.callFake(((selector: any) => {
@@ -91,6 +133,20 @@ describe('Board', () => {
         return actualBoardSignal;
       } else if (selector === selectActualMarkup) {
         return signal('o');
+      } else if (selector === selectFirstMarkup) {
+        return firstMarkupSignal;
+      } else if (selector === selectGameGravity) {
+        return gravitySignal;
+      } else if (selector === selectGameVanishing) {
+        return vanishingSignal;
+      } else if (selector === selectMarkOrder) {
+        return markOrderSignal;
+      } else if (selector === selectGameWinLength) {
+        return signal(3);
+      } else if (selector === selectPlayerCount) {
+        return playersSignal;
+      } else if (selector === selectPlayedVariant) {
+        return variantSignal;
       }
       return defaultSignal;
     }) as typeof store.selectSignal);
@@ -98,8 +154,12 @@ describe('Board', () => {
     fixture = TestBed.createComponent(Board);
     component = fixture.componentInstance;
 
-    component['size'] = signal(size) as unknown as InputSignal<
-      GameSettings['size']
+    component['rows'] = signal(size) as unknown as InputSignal<
+      GameSettings['rows']
+    >;
+
+    component['columns'] = signal(size) as unknown as InputSignal<
+      GameSettings['columns']
     >;
 
     component['step'] = signal(0) as unknown as InputSignal<number>;
@@ -140,6 +200,46 @@ describe('Board', () => {
       expect(board.style.gridTemplateColumns).toBe(`repeat(${size}, 1fr)`);
       expect(board.style.gridTemplateRows).toBe(`repeat(${size}, 1fr)`);
     });
+
+    /**
+     * Verifies that rows and columns are applied independently
+     * on rectangular boards.
+     */
+    it('Should render a rectangular board from separate rows and columns', () => {
+      (component['rows'] as unknown as WritableSignal<number>).set(6);
+      (component['columns'] as unknown as WritableSignal<number>).set(7);
+      actualBoardSignal.set(undefined);
+      fixture.detectChanges();
+
+      const host = fixture.debugElement.nativeElement as HTMLDivElement;
+
+      expect(component['gameField']()).toEqual(createBoard(6, 7));
+      expect(fixture.debugElement.queryAll(By.css('button')).length).toBe(42);
+      expect(host.style.gridTemplateRows).toBe('repeat(6, 1fr)');
+      expect(host.style.gridTemplateColumns).toBe('repeat(7, 1fr)');
+    });
+
+    /**
+     * Verifies that the file letters and rank numbers get a leading
+     * track of their own when coordinates are shown.
+     */
+    it('Should render file and rank labels around the cells with coordinates', () => {
+      (component['rows'] as unknown as WritableSignal<number>).set(3);
+      (component['columns'] as unknown as WritableSignal<number>).set(4);
+      component['coordinates'] = signal(true) as unknown as InputSignal<boolean>;
+      actualBoardSignal.set(undefined);
+      fixture.detectChanges();
+
+      const host = fixture.debugElement.nativeElement as HTMLDivElement;
+      const labels = fixture.debugElement
+        .queryAll(By.css('.own-coordinate-label'))
+        .map((label) => label.nativeElement.textContent.trim());
+
+      expect(labels).toEqual(['a', 'b', 'c', 'd', '1', '2', '3']);
+      expect(fixture.debugElement.queryAll(By.css('button')).length).toBe(12);
+      expect(host.style.gridTemplateRows).toBe('auto repeat(3, 1fr)');
+      expect(host.style.gridTemplateColumns).toBe('auto repeat(4, 1fr)');
+    });
   });
 
   /**
@@ -151,7 +251,7 @@ describe('Board', () => {
       fixture.detectChanges();
     });
 
-    it('First `effect` should initialize the board based on the `size` if no board exists in the store', () => {
+    it('First `effect` should initialize the board based on the rows and columns if no board exists in the store', () => {
       expect(component['gameField']()).toEqual(createBoard(size));
     });
 
@@ -185,6 +285,42 @@ describe('Board', () => {
       ]);
     });
 
+    /**
+     * Verifies that the second effect follows the markup making the first move:
+     * when 'x' starts, 'o' moves on odd steps.
+     */
+    it('Second effect should derive the markup from the first markup', () => {
+      firstMarkupSignal.set('x');
+      const dispatchSpy = spyOn(store, 'dispatch');
+
+      const stepSignal = component['step'] as unknown as WritableSignal<number>;
+
+      stepSignal.set(1);
+      fixture.detectChanges();
+
+      expect(dispatchSpy).toHaveBeenCalledWith(
+        modifyGameInfo({ actualMarkup: 'o' })
+      );
+    });
+
+    /**
+     * Verifies that in a three-player game the triangle moves
+     * after both two-player markups.
+     */
+    it('Second effect should rotate through three markups in a three-player game', () => {
+      playersSignal.set(3);
+      const dispatchSpy = spyOn(store, 'dispatch');
+
+      const stepSignal = component['step'] as unknown as WritableSignal<number>;
+
+      stepSignal.set(2);
+      fixture.detectChanges();
+
+      expect(dispatchSpy).toHaveBeenCalledWith(
+        modifyGameInfo({ actualMarkup: 't' })
+      );
+    });
+
     /**
      * Verifies that the component's third effect reacts to changes in the `lastMove` signal.
      *
@@ -211,20 +347,367 @@ describe('Board', () => {
         column,
       });
     });
+    /**
+     * Verifies that the third effect does not apply a `lastMove` pointing to a cell
+     * that is already occupied on the stored board.
+     *
+     * After undo/redo the reducer rebuilds the board and the last move itself,
+     * so the effect must not place the mark a second time.
+     */
+    it('Third effect should not call setCell when the `lastMove` cell is already occupied', () => {
+      spyOn<any>(component, 'setCell');
+
+      const row = randomNumber(size);
+      const column = randomNumber(size);
+
+      const storedBoard = createBoard(size);
+      storedBoard[row][column] = 'x';
+      actualBoardSignal.set(storedBoard);
+
+      const lastMoveSignal = component['lastMove'] as unknown as WritableSignal<
+        GameInfo['lastMove']
+      >;
+      lastMoveSignal.set({ row, column });
+
+      fixture.detectChanges();
+
+      expect(component['setCell']).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Verifies that the third effect only applies moves that are legal
+     * under the rules of the variant: with gravity, the landing cell of a column.
+     */
+    it('Third effect should not call setCell for a move the variant does not allow', () => {
+      spyOn<any>(component, 'setCell');
+      gravitySignal.set(true);
+
+      const lastMoveSignal = component['lastMove'] as unknown as WritableSignal<
+        GameInfo['lastMove']
+      >;
+      lastMoveSignal.set({ row: 0, column: 0 });
+      fixture.detectChanges();
+
+      expect(component['setCell']).not.toHaveBeenCalled();
+
+      lastMoveSignal.set({ row: size - 1, column: 0 });
+      fixture.detectChanges();
+
+      expect(component['setCell']).toHaveBeenCalledWith({
+        row: size - 1,
+        column: 0,
+      });
+    });
+  });
+
+  /**
+   * Tests the gravity rule.
+   */
+  describe('Gravity:', () => {
+    /**
+     * Verifies that every column reports the row a dropped mark lands in,
+     * and `null` once it is full.
+     */
+    it('Should compute the landing row of every column', () => {
+      setBoard(3);
+      board[2][0] = 'x';
+      board[2][1] = 'o';
+      board[1][1] = 'x';
+      board[0][1] = 'o';
+      actualBoardSignal.set(board.map((row) => [...row]));
+      gravitySignal.set(true);
+      fixture.detectChanges();
+
+      expect(component['dropRows']()).toEqual([1, null, 2]);
+    });
+
+    /**
+     * Verifies that no landing rows are computed without the gravity rule.
+     */
+    it('Should not compute landing rows without gravity', () => {
+      expect(component['dropRows']()).toEqual([]);
+    });
+
+    /**
+     * Verifies that the gravity rule only applies to the classic variant.
+     */
+    it('Should ignore gravity outside the classic variant', () => {
+      gravitySignal.set(true);
+      variantSignal.set('wild');
+      fixture.detectChanges();
+
+      expect(component['gravity']()).toBeFalse();
+      expect(component['dropRows']()).toEqual([]);
+    });
+  });
+
+  /**
+   * Tests the vanishing-marks rule.
+   */
+  describe('Vanishing marks:', () => {
+    /** Order of three circles on a 3x3 board, oldest first. */
+    const markOrder: MarkOrder = {
+      x: [],
+      o: [
+        { row: 0, column: 0 },
+        { row: 1, column: 1 },
+        { row: 2, column: 0 },
+      ],
+    };
+
+    beforeEach(() => {
+      setBoard(3);
+      board[0][0] = 'o';
+      board[1][1] = 'o';
+      board[2][0] = 'o';
+      actualBoardSignal.set(board.map((row) => [...row]));
+      vanishingSignal.set(true);
+      markOrderSignal.set(markOrder);
+      fixture.detectChanges();
+    });
+
+    /**
+     * Verifies that the oldest mark of the player to move is flagged
+     * and mentioned in its `ARIA` label.
+     */
+    it('Should flag the mark vanishing with the next move', () => {
+      expect(
+        component['isVanishingCell']({ xCoordinate: 0, yCoordinate: 0 })
+      ).toBe(true);
+      expect(
+        component['isVanishingCell']({ xCoordinate: 1, yCoordinate: 1 })
+      ).toBe(false);
+      expect(
+        component['getAriaLabelText']({ xCoordinate: 0, yCoordinate: 0 })
+      ).toBe('circle at row 1, column 1, vanishes with the next move.');
+    });
+
+    /**
+     * Verifies that `setCell` removes the oldest mark and stores the new mark order.
+     */
+    it('[setCell] should remove the oldest mark and store the mark order', () => {
+      spyOn(store, 'dispatch');
+
+      component['setCell']({ row: 0, column: 2 });
+
+      expect(component['gameField']()![0]).toEqual(['', '', 'o']);
+      expect(store.dispatch).toHaveBeenCalledWith(
+        modifyGameInfo({
+          markOrder: {
+            x: [],
+            o: [
+              { row: 1, column: 1 },
+              { row: 2, column: 0 },
+              { row: 0, column: 2 },
+            ],
+          },
+        })
+      );
+    });
+  });
+
+  /**
+   * Tests the read-only mode used by the replay viewer.
+   */
+  describe('Read-only mode:', () => {
+    /**
+     * Verifies that the provided board is rendered instead of the stored one
+     * and that step changes do not write anything to the store.
+     */
+    it('Should render the read-only board without dispatching actions', () => {
+      const dispatchSpy = spyOn(store, 'dispatch');
+      const readonlyBoard = createBoard(size);
+      readonlyBoard[randomNumber(size)][randomNumber(size)] = 'x';
+
+      component['readonlyBoard'] = signal(
+        readonlyBoard
+      ) as unknown as InputSignal<string[][] | undefined>;
+      actualBoardSignal.set(createBoard(size));
+
+      const stepSignal = component['step'] as unknown as WritableSignal<number>;
+      stepSignal.set(1);
+      fixture.detectChanges();
+
+      expect(component['gameField']()).toEqual(readonlyBoard);
+      expect(dispatchSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  /**
+   * Tests the keyboard play with a single roving tab stop.
+   */
+  describe('Keyboard:', () => {
+    /** Returns the rendered cells in row-major order. */
+    const cells = () =>
+      fixture.debugElement
+        .queryAll(By.css('button'))
+        .map((cell) => cell.nativeElement as HTMLButtonElement);
+
+    /**
+     * Presses a key on the focused cell (on the first cell by default).
+     *
+     * @param key Value of `KeyboardEvent.key`.
+     * @param ctrlKey Whether Ctrl is held.
+     * @returns The dispatched event.
+     */
+    const press = (key: string, ctrlKey = false) => {
+      const event = new KeyboardEvent('keydown', {
+        key,
+        ctrlKey,
+        bubbles: true,
+        cancelable: true,
+      });
+      const focused = cells().find((cell) => cell === document.activeElement);
+      (focused ?? cells()[0]).dispatchEvent(event);
+      fixture.detectChanges();
+      return event;
+    };
+
+    /** Returns the index of the cell reached with Tab. */
+    const tabStop = () => cells().findIndex((cell) => cell.tabIndex === 0);
+
+    beforeEach(() => {
+      cells()[0].focus();
+      fixture.detectChanges();
+    });
+
+    /**
+     * Verifies that the board is a single tab stop starting on the first cell.
+     */
+    it('Should keep a single tab stop on the board', () => {
+      expect(cells().filter((cell) => cell.tabIndex === 0).length).toBe(1);
+      expect(tabStop()).toBe(0);
+    });
+
+    /**
+     * Verifies that the arrow keys move the focus and stop at the edges.
+     */
+    it('Should move the focus with the arrow keys without leaving the board', () => {
+      expect(press('ArrowUp').defaultPrevented).toBeTrue();
+      press('ArrowLeft');
+      expect(document.activeElement).toBe(cells()[0]);
+
+      press('ArrowRight');
+      press('ArrowDown');
+      expect(document.activeElement).toBe(cells()[size + 1]);
+      expect(tabStop()).toBe(size + 1);
+
+      for (let i = 0; i < size; i++) {
+        press('ArrowDown');
+        press('ArrowRight');
+      }
+      expect(document.activeElement).toBe(cells()[size * size - 1]);
+    });
+
+    /**
+     * Verifies the row, column and board jumps of Home/End and PageUp/PageDown.
+     */
+    it('Should jump with Home/End and PageUp/PageDown', () => {
+      press('ArrowDown');
+      press('End');
+      expect(tabStop()).toBe(2 * size - 1);
+
+      press('Home');
+      expect(tabStop()).toBe(size);
+
+      press('PageDown');
+      expect(tabStop()).toBe(size * (size - 1));
+
+      press('PageUp');
+      expect(tabStop()).toBe(0);
+
+      press('End', true);
+      expect(tabStop()).toBe(size * size - 1);
+      expect(document.activeElement).toBe(cells()[size * size - 1]);
+
+      press('Home', true);
+      expect(tabStop()).toBe(0);
+    });
+
+    /**
+     * Verifies that Enter and Space place a mark on the focused cell.
+     */
+    it('Should place a mark on the focused cell with Enter and Space', () => {
+      const dispatchSpy = spyOn(store, 'dispatch');
+
+      press('ArrowRight');
+      expect(press('Enter').defaultPrevented).toBeTrue();
+      press('ArrowDown');
+      press(' ');
+
+      expect(dispatchSpy.calls.allArgs()).toEqual([
+        [modifyGameInfo({ lastMove: { row: 0, column: 1 } })],
+        [modifyGameInfo({ lastMove: { row: 1, column: 1 } })],
+      ]);
+    });
+
+    /**
+     * Verifies that other keys are left to the browser.
+     */
+    it('Should ignore other keys', () => {
+      const event = press('a');
+
+      expect(event.defaultPrevented).toBeFalse();
+      expect(tabStop()).toBe(0);
+    });
+
+    /**
+     * Verifies that the focused cell does not follow the moves of the opponent.
+     */
+    it('Should keep the focused cell when another move is played', () => {
+      press('ArrowRight');
+
+      (
+        component['lastMove'] as unknown as WritableSignal<LastMove | undefined>
+      ).set({ row: size - 1, column: size - 1 });
+      fixture.detectChanges();
+
+      expect(tabStop()).toBe(1);
+      expect(document.activeElement).toBe(cells()[1]);
+    });
+
+    /**
+     * Verifies that a clicked (or tabbed to) cell becomes the tab stop.
+     */
+    it('Should move the tab stop to a cell focused by the pointer', () => {
+      cells()[size + 2].focus();
+      fixture.detectChanges();
+
+      expect(tabStop()).toBe(size + 2);
+    });
   });
 
   describe('Component methods:', () => {
+    /**
+     * Verifies that a placed mark is announced, named after the side to move.
+     */
+    it('[setCell] should announce the placed mark', () => {
+      const announceSpy = spyOn(TestBed.inject(Announcer), 'announce');
+
+      component['setCell']({ row: 1, column: 2 });
+      component['sideNames'] = signal({
+        o: 'Player 1',
+      }) as unknown as InputSignal<Partial<Record<Markup, string>>>;
+      component['setCell']({ row: 0, column: 0 });
+
+      expect(announceSpy.calls.allArgs()).toEqual([
+        ['Placed circle at row 2, column 3.'],
+        ['Player 1 placed circle at row 1, column 1.'],
+      ]);
+    });
+
     /**
      * Verifies that the `getAriaLabelText` method returns correct, screen-reader-friendly
      * descriptions for each board cell.
      *
-     * The label should reflect the cell content (`empty`, `cross`, or `circle`)
+     * The label should reflect the cell content (`empty`, `cross`, `circle` or `triangle`)
      * and its position on the board in a human-readable format, e.g.,
      * "cross at row 2, column 3."
      */
     it('[getAriaLabelText] should return correct `ARIA` label text for each board cell', () => {
       board[0][0] = 'o';
       board[1][1] = 'x';
+      board[2][2] = 't';
 
       for (let i = 0; i < size; i++) {
         for (let j = 0; j < size; j++) {
@@ -233,6 +716,8 @@ describe('Board', () => {
               ? 'empty'
               : board[i][j] === 'x'
               ? 'cross'
+              : board[i][j] === 't'
+              ? 'triangle'
               : 'circle';
           expect(
             component['getAriaLabelText']({ xCoordinate: i, yCoordinate: j })
@@ -241,6 +726,75 @@ describe('Board', () => {
       }
     });
 
+    /**
+     * Verifies that cells of the winning line are recognized, mentioned in their
+     * `ARIA` labels, and described on the board host for screen readers.
+     */
+    it('[isWinningCell] should mark and describe the cells of the winning line', () => {
+      setBoard(3);
+      board[0][0] = 'x';
+      board[1][1] = 'x';
+      board[2][2] = 'x';
+      actualBoardSignal.set(board.map((row) => [...row]));
+
+      component['winningLine'] = signal([
+        { row: 0, column: 0 },
+        { row: 1, column: 1 },
+        { row: 2, column: 2 },
+      ]) as unknown as InputSignal<GameInfo['winningLine']>;
+      fixture.detectChanges();
+
+      expect(
+        component['isWinningCell']({ xCoordinate: 1, yCoordinate: 1 })
+      ).toBe(true);
+      expect(
+        component['isWinningCell']({ xCoordinate: 0, yCoordinate: 1 })
+      ).toBe(false);
+      expect(
+        component['getAriaLabelText']({ xCoordinate: 2, yCoordinate: 2 })
+      ).toBe('cross at row 3, column 3, part of the winning line.');
+
+      const host = fixture.debugElement.nativeElement as HTMLElement;
+      expect(host.getAttribute('aria-description')).toBe(
+        'Winning line of cross: row 1, column 1; row 2, column 2; row 3, column 3.'
+      );
+    });
+
+    /**
+     * Verifies that the cell labels and the winning line description
+     * follow the chosen language.
+     */
+    it('[getAriaLabelText] should describe the cells in the chosen language', () => {
+      const translation = TestBed.inject(Translation);
+      // The language switch must not be persisted for the other tests
+      spyOn(localStorage, 'setItem');
+      setBoard(3);
+      board[0][0] = 'x';
+      board[1][1] = 'x';
+      board[2][2] = 'x';
+      actualBoardSignal.set(board.map((row) => [...row]));
+      component['winningLine'] = signal([
+        { row: 0, column: 0 },
+        { row: 1, column: 1 },
+        { row: 2, column: 2 },
+      ]) as unknown as InputSignal<GameInfo['winningLine']>;
+
+      translation.language = 'hu';
+      fixture.detectChanges();
+
+      expect(
+        component['getAriaLabelText']({ xCoordinate: 0, yCoordinate: 1 })
+      ).toBe('üres, 1. sor, 2. oszlop.');
+      expect(
+        component['getAriaLabelText']({ xCoordinate: 2, yCoordinate: 2 })
+      ).toBe('kereszt, 3. sor, 3. oszlop, a nyerő sor része.');
+      expect(component.winningLineDescription).toBe(
+        'Nyerő sor (kereszt): 1. sor, 1. oszlop; 2. sor, 2. oszlop; 3. sor, 3. oszlop.'
+      );
+
+      translation.language = 'en';
+    });
+
     /**
      * Verifies that the `setCell` method updates the internal game board state
      * and dispatches the correct store action.
@@ -267,5 +821,42 @@ describe('Board', () => {
         modifyGameInfo({ actualStep: component['step']() + 1 })
       );
     });
+
+    /**
+     * Verifies that the `setCell` method records the applied move
+     * (coordinates, placed markup and timestamp) in the move history.
+     */
+    it('[setCell] should dispatch recordGameMove with the placed markup', () => {
+      spyOn(store, 'dispatch');
+      spyOn(Date, 'now').and.returnValue(1234);
+
+      const row = randomNumber(size);
+      const column = randomNumber(size);
+
+      component['setCell']({ row, column });
+
+      expect(store.dispatch).toHaveBeenCalledWith(
+        recordGameMove({ row, column, markup: 'o', timestamp: 1234 })
+      );
+    });
+
+    /**
+     * Verifies that the markup chosen in Wild and Order and Chaos games
+     * is placed instead of the markup of the player to move.
+     */
+    it('[setCell] should place the chosen markup', () => {
+      spyOn(store, 'dispatch');
+      spyOn(Date, 'now').and.returnValue(1234);
+      component['chosenMarkup'] = signal(
+        'x'
+      ) as unknown as InputSignal<PlayerMarkup | null>;
+
+      component['setCell']({ row: 0, column: 0 });
+
+      expect(component['gameField']()![0][0]).toBe('x');
+      expect(store.dispatch).toHaveBeenCalledWith(
+        recordGameMove({ row: 0, column: 0, markup: 'x', timestamp: 1234 })
+      );
+    });
   });
 });
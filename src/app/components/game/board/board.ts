@@ -2,13 +2,17 @@ import {
   Component,
   computed,
   effect,
+  ElementRef,
   HostBinding,
+  HostListener,
   inject,
   input,
   InputSignal,
   OnInit,
   signal,
   Signal,
+  untracked,
+  viewChildren,
   WritableSignal,
 } from '@angular/core';
 import { CellCoordinate } from '../../../utils/interfaces/celll-coordinate.interface';
@@ -18,10 +22,33 @@ import { Store } from '@ngrx/store';
 import {
   selectActualBoard,
   selectActualMarkup,
+  selectMarkOrder,
 } from '../../../store/selectors/game-info.selector';
 import { modifyGameInfo } from '../../../store/actions/game-info-modify.action';
+import { recordGameMove } from '../../../store/actions/game-info-move-record.action';
+import {
+  selectFirstMarkup,
+  selectGameGravity,
+  selectGameVanishing,
+  selectGameWinLength,
+  selectPlayedVariant,
+  selectPlayerCount,
+} from '../../../store/selectors/game-settings.selector';
 import { GameSettings } from '../../../utils/interfaces/game-settings.interface';
 import { GameInfo } from '../../../utils/interfaces/game-info.interface';
+import { gameVariant } from '../../../utils/functions/variant.function';
+import { GameVariant } from '../../../utils/interfaces/game-variant.interface';
+import { Translation } from '../../../services/translation.service';
+import { Markup } from '../../../utils/types/markup.type';
+import { Announcer } from '../../../services/announcer.service';
+import { PlayerMarkup } from '../../../utils/types/player-markup.type';
+import { dropRow } from '../../../utils/functions/gravity.function';
+import {
+  nextVanishingMark,
+  placeVanishingMark,
+  vanishingLimit,
+} from '../../../utils/functions/vanishing.function';
+import { fileOf, rankOf } from '../../../utils/functions/notation.function';
 
 /**
  * Board component responsible for rendering the interactive game grid,
@@ -29,11 +56,27 @@ import { GameInfo } from '../../../utils/interfaces/game-info.interface';
  * representation of the board.
  *
  * The component:
- *  - creates an empty N×N board based on the `size` input,
+ *  - creates an empty rows × columns board based on the `rows` and `columns` inputs,
  *  - hydrates the board from store if a saved board exists,
  *  - updates store state whenever a cell is changed,
- *  - automatically applies moves based on the incoming `lastMove`,
- *  - keeps accessibility labels updated for each cell.
+ *  - automatically applies legal moves based on the incoming `lastMove`,
+ *    with the rules of the played variant (see `gameVariant`),
+ *  - records every applied move in the move history,
+ *  - highlights the cells of the winning line,
+ *  - with the gravity rule, lets marks drop to the lowest empty cell of a column,
+ *  - with the vanishing rule, removes the oldest mark of a player beyond the limit
+ *    and hints the mark that vanishes with the next move,
+ *  - in Wild and Order and Chaos games, places the markup chosen by the player
+ *    instead of the markup of the player to move,
+ *  - keeps accessibility labels updated for each cell
+ *    and announces every placed mark to screen readers,
+ *    both in the chosen language,
+ *  - is played from the keyboard: a single roving tab stop is moved with
+ *    the arrow keys, Home/End and PageUp/PageDown, Enter/Space place a mark,
+ *  - optionally shows file letters and rank numbers around the cells.
+ *
+ * When `readonlyBoard` is provided (e.g. in the replay viewer), the component
+ * only renders that board: the store is neither read nor written.
  */
 @Component({
   selector: 'div[appBoard], section[appBoard]',
@@ -48,8 +91,49 @@ export class Board implements OnInit {
   /** Reactive selector for the stored board state (NgRx -> signal). */
   #storedBoard = this.#store.selectSignal(selectActualBoard);
 
-  /** Size of the board (NxN). Required input. */
-  size: InputSignal<GameSettings['size']> = input.required();
+  /** Markup making the first move of the game (NgRx -> signal). */
+  #firstMarkup = this.#store.selectSignal(selectFirstMarkup);
+
+  /** Number of players seated in the game (NgRx -> signal). */
+  #players = this.#store.selectSignal(selectPlayerCount);
+
+  /** Variant the game is played with (NgRx -> signal). */
+  #variant = this.#store.selectSignal(selectPlayedVariant);
+
+  /** Registered rule set of the played variant. */
+  #rules: Signal<GameVariant> = computed(() => gameVariant(this.#variant()));
+
+  /** Whether the gravity rule is set (NgRx -> signal). */
+  #storedGravity = this.#store.selectSignal(selectGameGravity);
+
+  /** Whether the vanishing-marks rule is set (NgRx -> signal). */
+  #storedVanishing = this.#store.selectSignal(selectGameVanishing);
+
+  /** Whether the vanishing-marks rule is active (variants with optional rules only). */
+  #vanishing: Signal<boolean> = computed(
+    () => this.#rules().optionalRules && !!this.#storedVanishing()
+  );
+
+  /** Number of marks in a row needed to win (NgRx -> signal). */
+  #winLength = this.#store.selectSignal(selectGameWinLength);
+
+  /** Order of the marks on the board in vanishing-marks games (NgRx -> signal). */
+  #markOrder = this.#store.selectSignal(selectMarkOrder);
+
+  /** Markup of the player to move (NgRx -> signal). */
+  #actualMarkup = this.#store.selectSignal(selectActualMarkup);
+
+  /** Screen-reader announcer reading out the placed marks. */
+  #announcer: Announcer = inject(Announcer);
+
+  /** Translation service for the screen-reader labels and announcements. */
+  #translation: Translation = inject(Translation);
+
+  /** Number of board rows. Required input. */
+  rows: InputSignal<GameSettings['rows']> = input.required();
+
+  /** Number of board columns. Required input. */
+  columns: InputSignal<GameSettings['columns']> = input.required();
 
   /** Whether clicking cells is currently allowed. */
   clickPermission: InputSignal<boolean> = input.required();
@@ -63,14 +147,125 @@ export class Board implements OnInit {
   /** Current step number from parent or store. */
   step: InputSignal<number> = input.required();
 
+  /**
+   * Board to render in read-only mode.
+   * When set, it replaces the stored board and no moves are applied or dispatched.
+   */
+  readonlyBoard: InputSignal<string[][] | undefined> = input<
+    string[][] | undefined
+  >(undefined);
+
+  /** Cells of the winning line, highlighted once the game is won. */
+  winningLine: InputSignal<GameInfo['winningLine']> =
+    input<GameInfo['winningLine']>(null);
+
+  /**
+   * Gravity rule of a read-only board (e.g. a replayed gravity game).
+   * Falls back to the stored game settings when not provided.
+   */
+  readonlyGravity: InputSignal<boolean | undefined> = input<
+    boolean | undefined
+  >(undefined);
+
+  /**
+   * Markup placed by a click in Wild and Order and Chaos games,
+   * `null` when every player places their own markup.
+   */
+  chosenMarkup: InputSignal<PlayerMarkup | null> = input<PlayerMarkup | null>(
+    null
+  );
+
+  /** Whether file letters and rank numbers are shown around the cells. */
+  coordinates: InputSignal<boolean> = input<boolean>(false);
+
+  /**
+   * Spoken names of the sides by their markup (e.g. "You", "Computer"),
+   * naming the side placing a mark in its announcement.
+   */
+  sideNames: InputSignal<Partial<Record<Markup, string>>> = input<
+    Partial<Record<Markup, string>>
+  >({});
+
+  /**
+   * Cell holding the roving tab stop of the board.
+   * Only moved by the keyboard and by focusing a cell, so it stays
+   * in place while the computer (or another player) moves.
+   */
+  #focusedCell: WritableSignal<LastMove> = signal({ row: 0, column: 0 });
+
+  /** Cell holding the tab stop, kept inside the board when it shrinks. */
+  protected focusedCell: Signal<LastMove> = computed(() => {
+    const { row, column } = this.#focusedCell();
+    return {
+      row: Math.min(row, this.rows() - 1),
+      column: Math.min(column, this.columns() - 1),
+    };
+  });
+
+  /** Rendered cells, in row-major order. */
+  private cells: Signal<readonly GameFieldCell[]> = viewChildren(GameFieldCell);
+
+  /** Elements of the rendered cells, in row-major order. */
+  private cellElements: Signal<readonly ElementRef<HTMLButtonElement>[]> =
+    viewChildren(GameFieldCell, { read: ElementRef });
+
+  /** File letters of the columns, shown above the cells with `coordinates`. */
+  protected files: Signal<string[]> = computed(() =>
+    Array.from({ length: this.columns() }, (_, column) => fileOf(column))
+  );
+
+  /**
+   * Whether marks drop to the lowest empty cell of the clicked column
+   * (variants with optional rules only).
+   */
+  protected gravity: Signal<boolean> = computed(
+    () =>
+      this.readonlyGravity() ??
+      (this.#rules().optionalRules && !!this.#storedGravity())
+  );
+
+  /**
+   * Landing row of every column with the gravity rule
+   * (`null` for full columns), empty without it.
+   */
+  protected dropRows: Signal<(number | null)[]> = computed(() => {
+    const field = this.gameField();
+    if (!this.gravity() || !field) return [];
+    return field[0].map((_, column) => dropRow(field, column));
+  });
+
+  /**
+   * Mark vanishing with the next move of the player to move,
+   * `null` without the vanishing rule, in read-only mode or below the limit.
+   */
+  #nextVanishing: Signal<LastMove | null> = computed(() => {
+    const field = this.gameField();
+    const markOrder = this.#markOrder();
+    const markup = this.#actualMarkup();
+    if (
+      this.readonlyBoard() ||
+      !this.#vanishing() ||
+      !field ||
+      !markOrder ||
+      !markup
+    ) {
+      return null;
+    }
+    return nextVanishingMark(
+      markOrder,
+      markup,
+      vanishingLimit(field, this.#winLength())
+    );
+  });
+
   /**
    * Computed base structure of the board:
-   * creates a `size × size` matrix filled with empty strings.
+   * creates a `rows × columns` matrix filled with empty strings.
    */
   #cellStructure: Signal<string[][]> = computed(() => {
-    const size = this.size();
-    return Array.from({ length: size }, () =>
-      Array.from({ length: size }, () => '')
+    const columns = this.columns();
+    return Array.from({ length: this.rows() }, () =>
+      Array.from({ length: columns }, () => '')
     );
   });
 
@@ -89,7 +284,7 @@ export class Board implements OnInit {
    * Normalizes a raw cell content string to a valid `GameInfo['actualMarkup']` value.
    *
    * This method performs a type assertion to treat the incoming string as a
-   * game markup ('x' or 'o'). It assumes that the caller guarantees the validity
+   * game markup ('x', 'o' or 't'). It assumes that the caller guarantees the validity
    * of the provided content.
    *
    * Used to keep template logic simple and type-safe when rendering board cells.
@@ -102,16 +297,135 @@ export class Board implements OnInit {
   }
 
   /**
-   * Applies CSS grid layout properties dynamically based on board size.
+   * Screen-reader description of the winning line,
+   * e.g. "Winning line of cross: row 1, column 1; row 2, column 2; row 3, column 3."
+   * `null` while nobody has won.
+   */
+  @HostBinding('attr.aria-description')
+  get winningLineDescription(): string | null {
+    const line = this.winningLine();
+    const field = this.gameField();
+    if (!line?.length || !field) return null;
+
+    const markup = field[line[0].row]?.[line[0].column] as Markup;
+    const cells = line
+      .map((cell) =>
+        this.#translation.translate('board.position', {
+          row: cell.row + 1,
+          column: cell.column + 1,
+        })
+      )
+      .join('; ');
+    return this.#translation.translate('board.winningLine', {
+      markup: this.markupName(markup),
+      cells,
+    });
+  }
+
+  /**
+   * Checks whether a cell belongs to the winning line.
+   *
+   * @param coordinates Cell coordinates (row/column).
+   * @returns `true` if the cell is part of the winning line.
+   */
+  protected isWinningCell(coordinates: CellCoordinate): boolean {
+    return !!this.winningLine()?.some(
+      (cell) =>
+        cell.row === coordinates.xCoordinate &&
+        cell.column === coordinates.yCoordinate
+    );
+  }
+
+  /**
+   * Checks whether a cell holds the mark vanishing with the next move.
+   *
+   * @param coordinates Cell coordinates (row/column).
+   * @returns `true` if the mark of the cell vanishes next.
+   */
+  protected isVanishingCell(coordinates: CellCoordinate): boolean {
+    const cell = this.#nextVanishing();
+    return (
+      cell?.row === coordinates.xCoordinate &&
+      cell?.column === coordinates.yCoordinate
+    );
+  }
+
+  /**
+   * Applies CSS grid layout properties dynamically based on the board dimensions.
+   * The aspect ratio keeps the cells square on rectangular boards
+   * wherever the layout leaves one dimension of the board free.
+   * With `coordinates` a leading track holds the labels of the other axis.
    */
   @HostBinding('style')
   get gridTemplate(): Partial<CSSStyleDeclaration> {
+    const labels = this.coordinates() ? 'auto ' : '';
     return {
-      gridTemplateRows: `repeat(${this.size()}, 1fr)`,
-      gridTemplateColumns: `repeat(${this.size()}, 1fr)`,
+      gridTemplateRows: `${labels}repeat(${this.rows()}, 1fr)`,
+      gridTemplateColumns: `${labels}repeat(${this.columns()}, 1fr)`,
+      aspectRatio: `${this.columns()} / ${this.rows()}`,
     };
   }
 
+  /**
+   * Keyboard play on the focused cell:
+   *  - arrow keys move to the neighbouring cell (stopping at the edges),
+   *  - Home/End move to the first/last cell of the row,
+   *    with Ctrl to the first/last cell of the board,
+   *  - PageUp/PageDown move to the first/last cell of the column,
+   *  - Enter/Space place a mark on the focused cell, like a click
+   *    (the native click of the button is prevented).
+   *
+   * @param event Keydown event bubbling up from a cell.
+   */
+  @HostListener('keydown', ['$event'])
+  onKeydown(event: Event): void {
+    const keyboardEvent = event as KeyboardEvent;
+    const { row, column } = this.focusedCell();
+    const lastRow = this.rows() - 1;
+    const lastColumn = this.columns() - 1;
+    let target: LastMove;
+
+    switch (keyboardEvent.key) {
+      case 'ArrowUp':
+        target = { row: Math.max(row - 1, 0), column };
+        break;
+      case 'ArrowDown':
+        target = { row: Math.min(row + 1, lastRow), column };
+        break;
+      case 'ArrowLeft':
+        target = { row, column: Math.max(column - 1, 0) };
+        break;
+      case 'ArrowRight':
+        target = { row, column: Math.min(column + 1, lastColumn) };
+        break;
+      case 'Home':
+        target = { row: keyboardEvent.ctrlKey ? 0 : row, column: 0 };
+        break;
+      case 'End':
+        target = {
+          row: keyboardEvent.ctrlKey ? lastRow : row,
+          column: lastColumn,
+        };
+        break;
+      case 'PageUp':
+        target = { row: 0, column };
+        break;
+      case 'PageDown':
+        target = { row: lastRow, column };
+        break;
+      case 'Enter':
+      case ' ':
+        event.preventDefault();
+        this.cells()[row * this.columns() + column]?.fill();
+        return;
+      default:
+        return;
+    }
+
+    event.preventDefault();
+    this.focusCell(target);
+  }
+
   /** Stores the initial lastMove when the component initializes. */
   ngOnInit(): void {
     this.previousLastMove = this.lastMove();
@@ -122,8 +436,14 @@ export class Board implements OnInit {
      * Effect 1:
      * Synchronizes the board with stored state.
      * If NgRx has a saved board, it is used; otherwise a fresh empty board.
+     * In read-only mode the provided board is shown instead.
      */
     effect(() => {
+      const readonlyBoard = this.readonlyBoard();
+      if (readonlyBoard) {
+        this.#gameField.set(readonlyBoard);
+        return;
+      }
       const storedBoard = this.#storedBoard();
       const cellStructure = this.#cellStructure().map((row) => [...row]);
       this.#gameField.set(storedBoard ? storedBoard : cellStructure);
@@ -132,13 +452,21 @@ export class Board implements OnInit {
     /**
      * Effect 2:
      * Whenever the step changes:
-     *  - update whose turn it is (actualMarkup),
+     *  - update whose turn it is (actualMarkup) by the turn order of the variant,
+     *    rotating from the first markup through every seated player,
      *  - persist the current board to store.
+     * Skipped in read-only mode.
      */
     effect(() => {
-      if (this.step()) {
+      if (this.step() && !this.readonlyBoard()) {
         this.#store.dispatch(
-          modifyGameInfo({ actualMarkup: this.step() % 2 === 0 ? 'o' : 'x' })
+          modifyGameInfo({
+            actualMarkup: this.#rules().markupByTurn(
+              this.step(),
+              this.#firstMarkup(),
+              this.#players()
+            ),
+          })
         );
         this.#store.dispatch(modifyGameInfo({ actualBoard: this.gameField() }));
       }
@@ -147,10 +475,36 @@ export class Board implements OnInit {
     /**
      * Effect 3:
      * When lastMove changes externally, the corresponding cell is updated.
+     * Moves that are not legal on the stored board are not applied:
+     * e.g. after undo/redo the move points to an occupied cell,
+     * as the reducer already rebuilt the board.
+     * Skipped in read-only mode.
      */
     effect(() => {
       const lastMove = this.lastMove();
+      if (this.readonlyBoard()) return;
       if (lastMove && lastMove !== this.previousLastMove) {
+        const legal = untracked(() =>
+          this.#rules().legalMoves(
+            this.#storedBoard() ?? this.#cellStructure(),
+            {
+              winLength: this.#winLength(),
+              step: this.step(),
+              firstMarkup: this.#firstMarkup(),
+              players: this.#players(),
+              gravity: this.gravity(),
+            }
+          )
+        );
+        if (
+          !legal.some(
+            (cell) =>
+              cell.row === lastMove.row && cell.column === lastMove.column
+          )
+        ) {
+          this.previousLastMove = lastMove;
+          return;
+        }
         this.setCell({
           row: lastMove.row,
           column: lastMove.column,
@@ -159,9 +513,55 @@ export class Board implements OnInit {
     });
   }
 
+  /**
+   * Moves the roving tab stop to a cell and focuses it.
+   *
+   * @param cell Cell receiving the focus.
+   */
+  protected focusCell(cell: LastMove): void {
+    this.#focusedCell.set(cell);
+    this.cellElements()[
+      cell.row * this.columns() + cell.column
+    ]?.nativeElement.focus();
+  }
+
+  /**
+   * Stores the cell focused by a click or by Tab as the roving tab stop.
+   *
+   * @param cell Focused cell.
+   */
+  protected trackFocus(cell: LastMove): void {
+    this.#focusedCell.set(cell);
+  }
+
+  /**
+   * Checks whether a cell holds the roving tab stop of the board.
+   *
+   * @param coordinates Cell coordinates (row/column).
+   * @returns `true` if the cell is reached with Tab.
+   */
+  protected isFocusedCell(coordinates: CellCoordinate): boolean {
+    const { row, column } = this.focusedCell();
+    return (
+      row === coordinates.xCoordinate && column === coordinates.yCoordinate
+    );
+  }
+
+  /**
+   * Returns the rank number shown left of a row with `coordinates`.
+   *
+   * @param row Zero-based row index.
+   * @returns The rank of the row (1 on the top row).
+   */
+  protected rankLabel(row: number): string {
+    return rankOf(row);
+  }
+
   /**
    * Returns a descriptive aria-label string for screen readers,
-   * indicating the content and the coordinates of a specific cell.
+   * indicating the content and the coordinates of a specific cell,
+   * and whether the cell belongs to the winning line,
+   * in the chosen language.
    *
    * @param coordinates Cell coordinates (row/column).
    * @returns A descriptive accessibility label.
@@ -170,35 +570,100 @@ export class Board implements OnInit {
     const content =
       this.gameField()![coordinates.xCoordinate][coordinates.yCoordinate];
     const contentName = !content
-      ? 'empty'
-      : content === 'x'
-      ? 'cross'
-      : 'circle';
-    return `${contentName} at row ${coordinates.xCoordinate + 1}, column ${
-      coordinates.yCoordinate + 1
-    }.`;
+      ? this.#translation.translate('board.empty')
+      : this.markupName(content as Markup);
+    const winning = this.isWinningCell(coordinates)
+      ? this.#translation.translate('board.winningCell')
+      : '';
+    const vanishing = this.isVanishingCell(coordinates)
+      ? this.#translation.translate('board.vanishingCell')
+      : '';
+    const cell = this.#translation.translate('board.cell', {
+      content: contentName,
+      row: coordinates.xCoordinate + 1,
+      column: coordinates.yCoordinate + 1,
+    });
+    return `${cell}${winning}${vanishing}.`;
   }
 
   /**
-   * Writes a markup ('x' or 'o') into the given cell and updates the step count.
+   * Writes a markup ('x', 'o' or 't') into the given cell and updates the step count.
    *
    * This method:
    *  - updates the local board signal immutably,
-   *  - writes the current player's symbol into the selected cell,
+   *  - writes the current player's symbol into the selected cell
+   *    (the chosen one in Wild and Order and Chaos games),
+   *  - with the vanishing rule, removes the player's oldest mark beyond the limit
+   *    and stores the new mark order,
    *  - increments the actualStep in NgRx store,
+   *  - records the move in the move history,
+   *  - announces the move to screen readers, named after the side to move,
    *  - tracks lastMove to prevent duplicate writes via effects.
    *
    * @param coordinates Cell position where the symbol should be placed.
    */
   protected setCell(coordinates: { row: number; column: number }): void {
-    this.#gameField.update((prev) => {
-      const newField = prev!.map((row) => [...row]);
-      newField[coordinates.row][coordinates.column] =
-        this.#store.selectSignal(selectActualMarkup)()!;
-      return newField;
-    });
+    const side = this.#store.selectSignal(selectActualMarkup)()!;
+    const markup = this.chosenMarkup() ?? side;
+
+    if (this.#vanishing()) {
+      const field = this.gameField()!;
+      const position = placeVanishingMark(
+        field,
+        this.#markOrder() ?? { x: [], o: [] },
+        coordinates,
+        markup,
+        vanishingLimit(field, this.#winLength())
+      );
+      this.#gameField.set(position.board);
+      this.#store.dispatch(modifyGameInfo({ markOrder: position.markOrder }));
+    } else {
+      this.#gameField.update((prev) =>
+        this.#rules().applyMove(prev!, coordinates, markup)
+      );
+    }
 
     this.#store.dispatch(modifyGameInfo({ actualStep: this.step() + 1 }));
+    this.#store.dispatch(
+      recordGameMove({ ...coordinates, markup, timestamp: Date.now() })
+    );
     this.previousLastMove = this.lastMove();
+    this.announceMove(coordinates, side, markup);
+  }
+
+  /**
+   * Announces a placed mark, e.g. "Computer placed cross at row 2, column 3."
+   * Without a name for the side the announcement starts with "Placed".
+   *
+   * @param coordinates Cell the mark was placed in.
+   * @param side Markup of the side that moved.
+   * @param markup Markup placed (differs from the side in Wild games).
+   */
+  private announceMove(
+    coordinates: { row: number; column: number },
+    side: Markup,
+    markup: Markup
+  ): void {
+    const name = this.sideNames()[side];
+    const params = {
+      markup: this.markupName(markup),
+      row: coordinates.row + 1,
+      column: coordinates.column + 1,
+    };
+    this.#announcer.announce(
+      name
+        ? this.#translation.translate('board.placed', { ...params, side: name })
+        : this.#translation.translate('board.placedUnnamed', params)
+    );
+  }
+
+  /**
+   * Returns the spoken name of a markup in the chosen language, e.g. "cross".
+   *
+   * @param markup Markup to name.
+   * @returns The translated name of the markup.
+   */
+  private markupName(markup: Markup): string {
+    return this.#translation.translate(`markup.${markup}`);
   }
 }
@@ -17,6 +17,12 @@ import { By } from '@angular/platform-browser';
 import { randomBetween } from '../../../utils/test/functions/random-values.function';
 import { Theme } from '../../../services/theme.service';
 import { modifyGameInfo } from '../../../store/actions/game-info-modify.action';
+import { TimeControl } from '../../../utils/types/time-control.type';
+import {
+  LOW_TIME_WARNING,
+  TIME_CONTROL_PRESETS,
+} from '../../../utils/constants/time-control.constant';
+import { PlayerCount } from '../../../utils/types/player-count.type';
 
 describe('GameDisplayPart', () => {
   /**
@@ -85,6 +91,12 @@ describe('GameDisplayPart', () => {
       gameInfo.playerSpentTime
     ) as unknown as InputSignal<GameInfo['playerSpentTime']>;
 
+    component['timeControl'] = signal<TimeControl>(
+      'none'
+    ) as unknown as InputSignal<TimeControl>;
+
+    component['movesMade'] = signal(0) as unknown as InputSignal<number>;
+
     component.markup = 'o';
 
     fixture.detectChanges();
@@ -223,6 +235,27 @@ describe('GameDisplayPart', () => {
       }
     });
 
+    /**
+     * Verifies that under a time control the clock shows the remaining time
+     * and warns when it is running low.
+     */
+    it('Should display the remaining time and a low-time warning under a time control', () => {
+      (
+        component['timeControl'] as unknown as WritableSignal<TimeControl>
+      ).set('sudden_death');
+      component['seconds'].set(TIME_CONTROL_PRESETS.sudden_death.total! - 5);
+      fixture.detectChanges();
+
+      const time = fixture.debugElement.query(By.css('time'))
+        .nativeElement as HTMLTimeElement;
+
+      expect(time.innerText).toEqual('00:00:05');
+      expect(time.classList).toContain('own-low-time');
+      expect(time.getAttribute('aria-label')).toBe(
+        'Remaining time, running low'
+      );
+    });
+
     /**
      * Verifies that the `[place]` HostBinding sets the correct `grid-column`
      * style based on the current screen width (Theme.width signal)
@@ -274,6 +307,71 @@ describe('GameDisplayPart', () => {
         }
       }
     });
+
+    /**
+     * Verifies that in a three-player game the 'x' and 't' panels share
+     * the right side on wide screens and the top row is split into thirds
+     * on medium screens.
+     */
+    it('[place] HostBinding should place three panels in a three-player game', () => {
+      const themeService = TestBed.inject(Theme);
+      const currentValue = themeService.width as unknown as WritableSignal<
+        number | undefined
+      >;
+      component['players'] = signal(3) as unknown as InputSignal<PlayerCount>;
+
+      const cases = [
+        {
+          width: randomBetween(1001, 2000),
+          o: ['1 / 4', '1 / 3'],
+          x: ['18 / 21', '1'],
+          t: ['18 / 21', '2'],
+        },
+        {
+          width: randomBetween(601, 999),
+          o: ['1 / 7', ''],
+          x: ['8 / 14', ''],
+          t: ['15 / 21', ''],
+        },
+      ];
+
+      for (const player of ['o', 'x', 't'] as const) {
+        component.markup = player;
+
+        for (const testCase of cases) {
+          currentValue.set(testCase.width);
+          fixture.detectChanges();
+
+          const style = fixture.debugElement.nativeElement.style;
+          const [column, row] = testCase[player];
+
+          expect(style.gridColumn)
+            .withContext(`player: ${player}, width: ${testCase.width}`)
+            .toEqual(column);
+          expect(style.gridRow)
+            .withContext(`player: ${player}, width: ${testCase.width}`)
+            .toEqual(row);
+        }
+      }
+    });
+
+    /**
+     * Verifies that the third player's panel shows zero counters
+     * before any three-player game was counted.
+     */
+    it('Should show zero results for the third player without stored counters', async () => {
+      component.markup = 't';
+      (
+        component.results as unknown as WritableSignal<GameInfo['results']>
+      ).set({ ...gameInfo.results });
+
+      fixture.detectChanges();
+      await fixture.whenStable();
+
+      expect(component['winNumber']).toBe(0);
+      expect(component['loseNumber']).toBe(0);
+      expect(component['drawNumber']).toBe(gameInfo.results!.draw);
+    });
   });
 
   /**
@@ -398,7 +496,7 @@ describe('GameDisplayPart', () => {
 
       const actualMarkupSignal = component[
         'actualMarkup'
-      ] as unknown as WritableSignal<'x' | 'o'>;
+      ] as unknown as WritableSignal<GameInfo['actualMarkup']>;
       const startedSignal = component[
         'started'
       ] as unknown as WritableSignal<boolean>;
@@ -485,5 +583,111 @@ describe('GameDisplayPart', () => {
 
       expect(handledSignal()).toBe(false);
     });
+
+    /**
+     * Verifies that the Fischer increment extends the total time
+     * after every finished move.
+     */
+    it('[remaining] should add the Fischer increment for every finished move', () => {
+      const { total, increment } = TIME_CONTROL_PRESETS.fischer;
+      (
+        component['timeControl'] as unknown as WritableSignal<TimeControl>
+      ).set('fischer');
+      (component['movesMade'] as unknown as WritableSignal<number>).set(3);
+      component['seconds'].set(total!);
+
+      expect(component['remaining']()).toBe(3 * increment!);
+    });
+
+    /**
+     * Verifies that the move time restarts when the turn passes
+     * to the other player.
+     */
+    it('Fifth effect should restart the move time when the turn changes', () => {
+      const actualMarkupSignal = component[
+        'actualMarkup'
+      ] as unknown as WritableSignal<'x' | 'o'>;
+
+      component['moveSeconds'].set(randomBetween(1, 30));
+      actualMarkupSignal.set(actualMarkupSignal() === 'o' ? 'x' : 'o');
+      fixture.detectChanges();
+
+      expect(component['moveSeconds']()).toBe(0);
+    });
+
+    /**
+     * Verifies that the active player's clock emits the timeout event
+     * once the per-move limit runs out.
+     */
+    it('Sixth effect should emit timeoutEvent when the clock runs out', () => {
+      jasmine.clock().install();
+      spyOn(component.timeoutEvent, 'emit');
+
+      try {
+        const actualMarkupSignal = component[
+          'actualMarkup'
+        ] as unknown as WritableSignal<'x' | 'o'>;
+        const startedSignal = component[
+          'started'
+        ] as unknown as WritableSignal<boolean>;
+
+        (
+          component['timeControl'] as unknown as WritableSignal<TimeControl>
+        ).set('per_move');
+        component.markup = 'x';
+        actualMarkupSignal.set('x');
+        startedSignal.set(true);
+        fixture.detectChanges();
+
+        jasmine.clock().tick((TIME_CONTROL_PRESETS.per_move.perMove! - 1) * 1000);
+        fixture.detectChanges();
+        expect(component.timeoutEvent.emit).not.toHaveBeenCalled();
+
+        jasmine.clock().tick(1000);
+        fixture.detectChanges();
+        expect(component.timeoutEvent.emit).toHaveBeenCalledTimes(1);
+      } finally {
+        jasmine.clock().uninstall();
+      }
+    });
+
+    /**
+     * Verifies that the active player's clock emits the low-time event
+     * once when it drops to the warning, not with every further second.
+     */
+    it('Seventh effect should emit lowTimeEvent once when the clock runs low', () => {
+      jasmine.clock().install();
+      spyOn(component.lowTimeEvent, 'emit');
+
+      try {
+        const actualMarkupSignal = component[
+          'actualMarkup'
+        ] as unknown as WritableSignal<'x' | 'o'>;
+        const startedSignal = component[
+          'started'
+        ] as unknown as WritableSignal<boolean>;
+        const lowAfter = TIME_CONTROL_PRESETS.per_move.perMove! - LOW_TIME_WARNING;
+
+        (
+          component['timeControl'] as unknown as WritableSignal<TimeControl>
+        ).set('per_move');
+        component.markup = 'x';
+        actualMarkupSignal.set('x');
+        startedSignal.set(true);
+        fixture.detectChanges();
+
+        jasmine.clock().tick((lowAfter - 1) * 1000);
+        fixture.detectChanges();
+        expect(component.lowTimeEvent.emit).not.toHaveBeenCalled();
+
+        for (let second = 0; second < 3; second++) {
+          jasmine.clock().tick(1000);
+          fixture.detectChanges();
+        }
+        expect(component.lowTimeEvent.emit).toHaveBeenCalledTimes(1);
+      } finally {
+        jasmine.clock().uninstall();
+      }
+    });
   });
 });
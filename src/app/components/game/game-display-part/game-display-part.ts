@@ -8,6 +8,9 @@ import {
   Input,
   InputSignal,
   OnInit,
+  output,
+  OutputEmitterRef,
+  Signal,
   signal,
   untracked,
 } from '@angular/core';
@@ -17,14 +20,25 @@ import { selectPlayersSpentTimes } from '../../../store/selectors/game-info.sele
 import { GameInfo } from '../../../utils/interfaces/game-info.interface';
 import { modifyGameInfo } from '../../../store/actions/game-info-modify.action';
 import { LastMove } from '../../../utils/interfaces/last-move.interface';
+import { TimeControl } from '../../../utils/types/time-control.type';
+import {
+  LOW_TIME_WARNING,
+  TIME_CONTROL_PRESETS,
+} from '../../../utils/constants/time-control.constant';
+import { remainingTime } from '../../../utils/functions/time-control.function';
+import { Markup } from '../../../utils/types/markup.type';
+import { PlayerCount } from '../../../utils/types/player-count.type';
+import { MARKUP_KEYS } from '../../../utils/constants/markup-keys.constant';
+import { Translation } from '../../../services/translation.service';
 
 /**
  * GameDisplayPart component handles the display of a single player's
  * information panel in the game, including:
- *  - current markup ('x' or 'o'),
+ *  - current markup ('x', 'o', or 't' in three-player games),
  *  - win/loss/draw statistics,
- *  - spent time counter,
- *  - responsive layout placement based on screen width.
+ *  - spent time counter, or a chess clock counting down under a time control,
+ *  - low-time warning (also emitted for announcements) and timeout detection,
+ *  - responsive layout placement based on screen width and the number of players.
  *
  * It reacts to signals and NgRx store changes to keep the displayed data
  * synchronized with the game state.
@@ -36,8 +50,8 @@ import { LastMove } from '../../../utils/interfaces/last-move.interface';
   styleUrl: './game-display-part.scss',
 })
 export class GameDisplayPart implements OnInit {
-  /** Markup of this player panel ('x' or 'o'). Required input. */
-  @Input({ required: true }) markup!: 'x' | 'o';
+  /** Markup of this player panel ('x', 'o' or 't'). Required input. */
+  @Input({ required: true }) markup!: Markup;
 
   /** NgRx store instance. */
   #store: Store = inject(Store);
@@ -48,6 +62,9 @@ export class GameDisplayPart implements OnInit {
   /** Theme service to get screen width and styling info. */
   #theme: Theme = inject(Theme);
 
+  /** Translation service for the statistics and clock labels. */
+  protected translation: Translation = inject(Translation);
+
   /** Last move performed in the game. */
   lastMove: InputSignal<LastMove | undefined> = input.required();
 
@@ -61,17 +78,70 @@ export class GameDisplayPart implements OnInit {
   spentTimes: InputSignal<GameInfo['playerSpentTime'] | undefined> =
     input.required();
 
+  /** Chess-clock time control of the game. */
+  timeControl: InputSignal<TimeControl> = input<TimeControl>('none');
+
+  /** Number of moves this player has finished (for the Fischer increment). */
+  movesMade: InputSignal<number> = input(0);
+
+  /** Number of players, three panels share the sides of the board in a three-player game. */
+  players: InputSignal<PlayerCount> = input<PlayerCount>(2);
+
+  /** Event emitted when this player runs out of time. */
+  timeoutEvent: OutputEmitterRef<void> = output();
+
+  /** Event emitted when the clock of this player starts running low. */
+  lowTimeEvent: OutputEmitterRef<void> = output();
+
   /** Tracks whether the restart logic has already been handled. */
   private restartHandled = signal(false);
 
   /** Current player's elapsed time in seconds. */
   protected seconds = signal(0);
 
+  /** Seconds spent on the current move (for the per-move limit). */
+  protected moveSeconds = signal(0);
+
+  /**
+   * Remaining seconds under the chosen time control,
+   * or `null` when the game has no time limit.
+   */
+  protected remaining: Signal<number | null> = computed(() =>
+    remainingTime(
+      TIME_CONTROL_PRESETS[this.timeControl()],
+      this.seconds(),
+      this.movesMade(),
+      this.moveSeconds()
+    )
+  );
+
+  /** Whether the remaining time dropped to the low-time warning threshold. */
+  protected lowTime: Signal<boolean> = computed(() => {
+    const remaining = this.remaining();
+    return remaining !== null && remaining <= LOW_TIME_WARNING;
+  });
+
+  /**
+   * Whether this player is to move with the clock running low
+   * in a running game. Only changes when the warning starts or ends,
+   * not with every second of the clock.
+   */
+  #runningLow: Signal<boolean> = computed(
+    () =>
+      this.lowTime() &&
+      this.remaining() !== 0 &&
+      !!this.started() &&
+      this.markup === this.actualMarkup()
+  );
+
   /**
-   * Formatted timer string (hh:mm:ss) computed from `seconds`.
+   * Formatted timer string (hh:mm:ss): the remaining time under a time control,
+   * otherwise the elapsed time computed from `seconds`.
    */
   protected time = computed(() =>
-    new Date(this.seconds() * 1000).toISOString().slice(11, 19)
+    new Date((this.remaining() ?? this.seconds()) * 1000)
+      .toISOString()
+      .slice(11, 19)
   );
 
   /** Displayed win count for this player. */
@@ -84,15 +154,24 @@ export class GameDisplayPart implements OnInit {
   protected drawNumber?: number;
 
   /**
-   * Dynamically computes CSS grid placement based on screen width
-   * and player markup.
+   * Dynamically computes CSS grid placement based on screen width,
+   * player markup and the number of players.
+   * In three-player games the 'x' and 't' panels share the right side
+   * of the board on wide screens, and the top row is split into thirds
+   * on medium screens.
    */
   @HostBinding('style')
   get place(): Partial<CSSStyleDeclaration> | null {
     const width = this.#theme.width();
     if (!width) return null;
+    const threePlayers = this.players() === 3;
 
     if (width <= 1000 && width > 600) {
+      if (threePlayers) {
+        return {
+          gridColumn: { o: '1/7', x: '8/14', t: '15/21' }[this.markup],
+        };
+      }
       return {
         gridColumn: this.markup === 'o' ? '1/10' : '12/21',
       };
@@ -103,6 +182,13 @@ export class GameDisplayPart implements OnInit {
         gridColumn: '1/20',
       };
 
+    if (threePlayers) {
+      return {
+        gridColumn: this.markup === 'o' ? '1/4' : '18/21',
+        gridRow: { o: '1/3', x: '1', t: '2' }[this.markup],
+      };
+    }
+
     return {
       gridColumn: this.markup === 'o' ? '1/4' : '18/21',
     };
@@ -112,7 +198,7 @@ export class GameDisplayPart implements OnInit {
   ngOnInit(): void {
     this.seconds.set(
       this.#store.selectSignal(selectPlayersSpentTimes)()?.[
-        this.markup === 'o' ? 'player_O' : 'player_X'
+        MARKUP_KEYS[this.markup].time
       ] ?? 0
     );
   }
@@ -125,10 +211,10 @@ export class GameDisplayPart implements OnInit {
     effect(() => {
       const results = this.results();
       if (results) {
-        this.winNumber =
-          this.markup === 'x' ? results.player_X_Win : results.player_O_Win;
-        this.loseNumber =
-          this.markup === 'x' ? results.player_X_Lose : results.player_O_Lose;
+        const keys = MARKUP_KEYS[this.markup];
+        // The third player's counters only exist after a three-player game
+        this.winNumber = results[keys.win] ?? 0;
+        this.loseNumber = results[keys.lose] ?? 0;
         this.drawNumber = results.draw;
       }
     });
@@ -143,6 +229,7 @@ export class GameDisplayPart implements OnInit {
       if (this.started() && this.markup === this.actualMarkup()) {
         const interval = setInterval(() => {
           this.seconds.update((previous) => previous + 1);
+          this.moveSeconds.update((previous) => previous + 1);
         }, 1000);
 
         onCleanup(() => {
@@ -159,8 +246,9 @@ export class GameDisplayPart implements OnInit {
     effect(() => {
       const originalTimeObject = untracked(this.spentTimes);
       const newSpentTimes: GameInfo['playerSpentTime'] = {};
-      if (untracked(this.actualMarkup) === 'o')
-        newSpentTimes.player_O = this.seconds();
+      const actualMarkup = untracked(this.actualMarkup);
+      if (actualMarkup === 'o') newSpentTimes.player_O = this.seconds();
+      else if (actualMarkup === 't') newSpentTimes.player_T = this.seconds();
       else {
         newSpentTimes.player_X = this.seconds();
       }
@@ -184,6 +272,7 @@ export class GameDisplayPart implements OnInit {
 
       if (shouldRestart && !this.restartHandled()) {
         this.seconds.set(0);
+        this.moveSeconds.set(0);
         this.restartHandled.set(true);
       }
 
@@ -191,5 +280,41 @@ export class GameDisplayPart implements OnInit {
         this.restartHandled.set(false);
       }
     });
+
+    /**
+     * Effect 5:
+     * Starts a new move time whenever the turn passes to the other player.
+     */
+    effect(() => {
+      this.actualMarkup();
+      untracked(() => this.moveSeconds.set(0));
+    });
+
+    /**
+     * Effect 6:
+     * Emits `timeoutEvent` when the clock of the active player reaches zero
+     * while the game is running.
+     */
+    effect(() => {
+      if (
+        this.remaining() === 0 &&
+        this.started() &&
+        this.markup === this.actualMarkup()
+      ) {
+        untracked(() => this.timeoutEvent.emit());
+      }
+    });
+
+    /**
+     * Effect 7:
+     * Emits `lowTimeEvent` when the clock of the active player drops to
+     * the low-time warning (or the turn passes to a player already low on time)
+     * while the game is running.
+     */
+    effect(() => {
+      if (this.#runningLow()) {
+        untracked(() => this.lowTimeEvent.emit());
+      }
+    });
   }
 }
@@ -27,12 +27,14 @@ import { modifyGameInfo } from '../../../store/actions/game-info-modify.action';
  *    - Verifies that empty cells render no symbol.
  *
  * 2. HostBindings:
- *    - Tests dynamic CSS classes (`scale`, `cursor`, `emphasize`) based on cell state, last move, and click permissions.
+ *    - Tests dynamic CSS classes (`scale`, `cursor`, `emphasize`, `highlight`, `fading`) based on cell state, last move,
+ *      winning line membership, vanishing marks and click permissions.
  *    - Ensures hover scaling and emphasis on the last played cell behave correctly.
  *
  * 3. HostListener:
  *    - Tests the `fill()` method triggered on cell click.
  *    - Ensures that only empty and clickable cells dispatch a `lastMove` action to the NgRx store.
+ *    - Ensures that with gravity the `lastMove` is the landing cell of the column.
  *
  * Signals API (`InputSignal` and `WritableSignal`) is used extensively to simulate reactive input changes.
  * The store is mocked using `provideMockStore` to verify dispatches without affecting real state.
@@ -66,6 +68,9 @@ describe('GameFieldCell', () => {
 
       case 'x':
         return { row: 1, column: 2 };
+
+      case 't':
+        return { row: 1, column: 3 };
     }
   };
 
@@ -120,6 +125,7 @@ describe('GameFieldCell', () => {
      *
      * - when markup is 'x', the X symbol path should be present
      * - when markup is 'o', the O symbol path should be present
+     * - when markup is 't', the triangle symbol path should be present
      * - when markup is undefined, no SVG path should be rendered
      */
     it('should render the correct SVG symbol based on the markup', () => {
@@ -127,6 +133,7 @@ describe('GameFieldCell', () => {
       const results = {
         x: 'm2',
         o: 'M4',
+        t: 'm8',
         e: null,
       };
 
@@ -134,6 +141,7 @@ describe('GameFieldCell', () => {
         undefined,
         'x',
         'o',
+        't',
       ] as GameInfo['actualMarkup'][]) {
         // Simulate input and interaction-related signals
         markupSignal.set(markup);
@@ -220,6 +228,46 @@ describe('GameFieldCell', () => {
       fixture.detectChanges();
       expect(component['cursor']).toBe('pointer');
     });
+
+    /**
+     * Verifies the `[highlight]` HostBinding behavior.
+     *
+     * The winning cell class should follow the `winning` input
+     * and be rendered on the host element.
+     */
+    it('[highlight] should apply the winning cell class to cells of the winning line', () => {
+      expect(component['highlight']).toBe(false);
+
+      component['winning'] = signal(true) as unknown as InputSignal<boolean>;
+      fixture.detectChanges();
+
+      expect(component['highlight']).toBe(true);
+      expect(
+        (fixture.nativeElement as HTMLElement).classList.contains(
+          'own-winning-cell'
+        )
+      ).toBe(true);
+    });
+
+    /**
+     * Verifies the `[fading]` HostBinding behavior.
+     *
+     * The vanishing cell class should follow the `vanishing` input
+     * and be rendered on the host element.
+     */
+    it('[fading] should apply the vanishing cell class to the mark vanishing next', () => {
+      expect(component['fading']).toBe(false);
+
+      component['vanishing'] = signal(true) as unknown as InputSignal<boolean>;
+      fixture.detectChanges();
+
+      expect(component['fading']).toBe(true);
+      expect(
+        (fixture.nativeElement as HTMLElement).classList.contains(
+          'own-vanishing-cell'
+        )
+      ).toBe(true);
+    });
   });
 
   /**
@@ -238,6 +286,7 @@ describe('GameFieldCell', () => {
         undefined,
         'x',
         'o',
+        't',
       ] as GameInfo['actualMarkup'][]) {
         markupSignal.set(markup);
         lastMoveSignal.set(getLastMove(markup));
@@ -267,5 +316,38 @@ describe('GameFieldCell', () => {
         (store.dispatch as jasmine.Spy).calls.reset();
       }
     });
+
+    /**
+     * Tests the fill() method with the gravity rule.
+     * A click on any cell of a column drops the mark to its landing row,
+     * a full column ignores the click.
+     */
+    it('[fill]: should dispatch the landing cell of the column with gravity', () => {
+      const store: Store = TestBed.inject(Store);
+      spyOn(store, 'dispatch');
+
+      component['gravity'] = signal(true) as unknown as InputSignal<boolean>;
+      component['dropRow'] = signal(4) as unknown as InputSignal<
+        number | null
+      >;
+      component['row'] = 0;
+      component['column'] = 2;
+      markupSignal.set('x');
+
+      fixture.debugElement.triggerEventHandler('click', {});
+
+      expect(store.dispatch).toHaveBeenCalledOnceWith(
+        modifyGameInfo({ lastMove: { row: 4, column: 2 } })
+      );
+
+      (store.dispatch as jasmine.Spy).calls.reset();
+      (
+        component['dropRow'] as unknown as WritableSignal<number | null>
+      ).set(null);
+
+      fixture.debugElement.triggerEventHandler('click', {});
+
+      expect(store.dispatch).not.toHaveBeenCalled();
+    });
   });
 });
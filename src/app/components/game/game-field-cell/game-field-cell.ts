@@ -19,9 +19,13 @@ import { GameInfo } from '../../../utils/interfaces/game-info.interface';
  * GameFieldCell component represents a single cell within the game board grid.
  *
  * Responsibilities:
- *  - Displays the current markup ('x', 'o', or empty).
- *  - Applies dynamic styling based on content, hover state, and last move.
+ *  - Displays the current markup ('x', 'o', 't', or empty).
+ *  - Applies dynamic styling based on content, hover state, last move
+ *    and membership of the winning line.
  *  - Emits click events when a cell is selected, if allowed.
+ *  - In vanishing-marks games, fades the mark that vanishes with the next move.
+ *  - In gravity games, drops the mark to the lowest empty cell of its column
+ *    and animates the fall of the mark landing in it.
  *
  * Uses Angular Signals API for reactivity.
  */
@@ -43,6 +47,7 @@ export class GameFieldCell {
    * Can be:
    *  - 'x' for X player,
    *  - 'o' for O player,
+   *  - 't' for the third player of three-player games,
    *  - undefined for empty.
    */
   markup: InputSignal<GameInfo['actualMarkup']> = input.required();
@@ -56,9 +61,43 @@ export class GameFieldCell {
   /** X-coordinate of this cell in the board grid. Required input. */
   @Input({ required: true }) row!: number;
 
+  /** Whether this cell is part of the winning line. */
+  winning: InputSignal<boolean> = input(false);
+
+  /** Whether the mark of this cell vanishes with the next move. */
+  vanishing: InputSignal<boolean> = input(false);
+
   /** Determines whether clicking this cell is currently allowed. */
   clickPermission: InputSignal<boolean> = input.required();
 
+  /** Whether the gravity rule is active: a click picks the column of the cell. */
+  gravity: InputSignal<boolean> = input(false);
+
+  /**
+   * Row a mark dropped into the column of this cell lands in,
+   * `null` when the column is full. Only used with the gravity rule.
+   */
+  dropRow: InputSignal<number | null> = input<number | null>(null);
+
+  /**
+   * Whether a click places a mark.
+   * With gravity any cell of a column that is not full can be clicked,
+   * otherwise only empty cells.
+   */
+  get #fillable(): boolean {
+    if (!this.clickPermission()) return false;
+    return this.gravity() ? this.dropRow() !== null : !this.markup();
+  }
+
+  /**
+   * Number of rows the mark of this cell falls through when it appears,
+   * read by the falling animation of gravity games.
+   */
+  @HostBinding('style.--own-drop-rows')
+  get dropDistance(): number | null {
+    return this.gravity() ? this.row + 1 : null;
+  }
+
   /**
    * Event emitted when the cell is clicked.
    * Emits an object with the cell coordinates: `{ xCoordinate, yCoordinate }`.
@@ -75,7 +114,7 @@ export class GameFieldCell {
    */
   @HostBinding('style.cursor')
   get cursor(): string {
-    return this.markup() || !this.clickPermission() ? 'default' : 'pointer';
+    return this.#fillable ? 'pointer' : 'default';
   }
 
   /**
@@ -83,7 +122,7 @@ export class GameFieldCell {
    */
   @HostBinding('class')
   get scale(): string | null {
-    return this.markup() || !this.clickPermission() ? null : 'own-cell-hover';
+    return this.#fillable ? 'own-cell-hover' : null;
   }
 
   /**
@@ -97,18 +136,46 @@ export class GameFieldCell {
       : null;
   }
 
+  /**
+   * Applies a CSS class that lets marks fall into place in gravity games.
+   */
+  @HostBinding('class.own-gravity-cell')
+  get falling(): boolean {
+    return this.gravity();
+  }
+
+  /**
+   * Applies a CSS class to highlight the cells of the winning line with a pulsing glow.
+   */
+  @HostBinding('class.own-winning-cell')
+  get highlight(): boolean {
+    return this.winning();
+  }
+
+  /**
+   * Applies a CSS class that fades the mark vanishing with the next move.
+   */
+  @HostBinding('class.own-vanishing-cell')
+  get fading(): boolean {
+    return this.vanishing();
+  }
+
   /**
    * Handles user click events on the cell.
    * Updates the NgRx store with the lastMove if the cell is empty and clickable.
+   * With gravity the lastMove is the lowest empty cell of the column instead.
    *
    * @event
    */
   @HostListener('click')
   fill(): void {
-    if (!this.markup() && this.clickPermission()) {
+    if (this.#fillable) {
       this.#store.dispatch(
         modifyGameInfo({
-          lastMove: { row: this.row, column: this.column },
+          lastMove: {
+            row: this.gravity() ? this.dropRow()! : this.row,
+            column: this.column,
+          },
         })
       );
 
@@ -1,9 +1,15 @@
 import { ComponentFixture, TestBed } from '@angular/core/testing';
 import { Game } from './game';
-import { provideZonelessChangeDetection, Signal, signal } from '@angular/core';
+import {
+  provideZonelessChangeDetection,
+  Signal,
+  signal,
+  WritableSignal,
+} from '@angular/core';
+import { Params } from '@angular/router';
 import { MockStore, provideMockStore } from '@ngrx/store/testing';
 import { HttpClientTestingModule } from '@angular/common/http/testing';
-import { Store } from '@ngrx/store';
+import { Action, Store } from '@ngrx/store';
 import { randomNumber } from '../../utils/test/functions/random-values.function';
 import { savedGameStatus } from '../../utils/types/game-status.type';
 import {
@@ -14,9 +20,22 @@ import { Auth } from '../../services/auth.service';
 import { User } from '../../utils/interfaces/user.interface';
 import { GameInfo } from '../../utils/interfaces/game-info.interface';
 import { modifyGameInfo } from '../../store/actions/game-info-modify.action';
+import { modifyGameSettings } from '../../store/actions/game-settings-modify.action';
 import { SavedGame } from '../../utils/interfaces/saved-game.interface';
 import { SnackBarHandler } from '../../services/snack-bar-handler.service';
 import { GameLogic } from '../../services/game-logic.service';
+import { CLASSIC_VARIANT } from '../../utils/constants/classic-variant.constant';
+import { RouterService } from '../../services/router.service';
+import { getCallsArray } from '../../utils/test/functions/helper.functions';
+import { Announcer } from '../../services/announcer.service';
+import { selectFirstMarkup } from '../../store/selectors/game-settings.selector';
+import { markupByStep } from '../../utils/functions/turn-order.function';
+import { PlayerMarkup } from '../../utils/types/player-markup.type';
+import { gameInfoReducer } from '../../store/reducers/game-info.reducer';
+import { undoGameMove } from '../../store/actions/game-info-undo.action';
+import { MoveRecord } from '../../utils/interfaces/move-record.interface';
+import { Translation } from '../../services/translation.service';
+import '../../app.variants';
 
 /**
  * @fileoverview
@@ -112,7 +131,8 @@ describe('Game', () => {
         expect(component.lastMove()).toEqual(state.gameInfo.lastMove);
         expect(component.actualMarkup()).toBe(state.gameInfo.actualMarkup);
         expect(component.clickPermission()).toBe(true);
-        expect(component.size()).toBe(state.gameSettings.size);
+        expect(component.rows()).toBe(state.gameSettings.rows);
+        expect(component.columns()).toBe(state.gameSettings.columns);
         expect(component.started()).toBe(state.gameInfo.started);
         expect(component.spentTimes()).toEqual(state.gameInfo.playerSpentTime);
         expect(component.results()).toEqual(state.gameInfo.results);
@@ -248,7 +268,8 @@ describe('Game', () => {
       expect(component.lastMove()).toEqual(state.gameInfo.lastMove);
       expect(component.actualMarkup()).toBe(state.gameInfo.actualMarkup);
       expect(component.clickPermission()).toBeFalse();
-      expect(component.size()).toBe(state.gameSettings.size);
+      expect(component.rows()).toBe(state.gameSettings.rows);
+      expect(component.columns()).toBe(state.gameSettings.columns);
       expect(component.started()).toBe(state.gameInfo.started);
       expect(component.spentTimes()).toEqual(state.gameInfo.playerSpentTime);
       expect(component.results()).toEqual(state.gameInfo.results);
@@ -319,7 +340,8 @@ describe('Game', () => {
         expect(component.lastMove()).toEqual(state.gameInfo.lastMove);
         expect(component.actualMarkup()).toBe(state.gameInfo.actualMarkup);
         expect(component.clickPermission()).toBe(true);
-        expect(component.size()).toBe(state.gameSettings.size);
+        expect(component.rows()).toBe(state.gameSettings.rows);
+        expect(component.columns()).toBe(state.gameSettings.columns);
         expect(component.started()).toBe(state.gameInfo.started);
         expect(component.spentTimes()).toEqual(state.gameInfo.playerSpentTime);
         expect(component.results()).toEqual(state.gameInfo.results);
@@ -371,6 +393,98 @@ describe('Game', () => {
       });
     });
 
+    /**
+     * Verifies the screen-reader announcements of turns, low clocks and results
+     * in Player vs Player mode.
+     */
+    describe('Announcements:', () => {
+      /** Spy of the announcer receiving the messages. */
+      let announceSpy: jasmine.Spy;
+
+      beforeEach(() => {
+        announceSpy = spyOn(TestBed.inject(Announcer), 'announce');
+        fixture.detectChanges();
+      });
+
+      /**
+       * Verifies that the sides are named after the order of their moves.
+       */
+      it('Should name the sides after the order of their moves', () => {
+        const first = store.selectSignal(selectFirstMarkup)();
+
+        expect(component.sideNames()[first]).toBe('Player 1');
+        expect(Object.values(component.sideNames()).sort()).toEqual([
+          'Player 1',
+          'Player 2',
+        ]);
+      });
+
+      /**
+       * Verifies that the side to move is announced after a move.
+       */
+      it('Should announce the side to move after a move', () => {
+        spyOn<any>(component, 'twoPlayerMode');
+        const step = state.gameInfo.actualStep + 1;
+
+        mockStore.setState({
+          ...state,
+          gameInfo: { ...state.gameInfo, actualStep: step },
+        });
+        fixture.detectChanges();
+
+        const markup = markupByStep(
+          step,
+          store.selectSignal(selectFirstMarkup)()
+        );
+        expect(announceSpy).toHaveBeenCalledOnceWith(
+          `${component.sideNames()[markup]}'s turn.`
+        );
+      });
+
+      /**
+       * Verifies that the result is announced assertively, once,
+       * together with a lost clock.
+       */
+      it('Should announce the result and whose time is up', () => {
+        mockStore.setState({
+          ...state,
+          gameInfo: { ...state.gameInfo, winner: 'x', timeout: 'o' },
+        });
+        fixture.detectChanges();
+
+        const names = component.sideNames();
+        expect(announceSpy).toHaveBeenCalledOnceWith(
+          `Time is up for ${names.o}. ${names.x} won.`,
+          'assertive'
+        );
+      });
+
+      /**
+       * Verifies that a draw is announced without naming any side.
+       */
+      it('Should announce a draw', () => {
+        mockStore.setState({
+          ...state,
+          gameInfo: { ...state.gameInfo, winner: 'draw' },
+        });
+        fixture.detectChanges();
+
+        expect(announceSpy).toHaveBeenCalledOnceWith('Draw.', 'assertive');
+      });
+
+      /**
+       * Verifies the announcement of a clock running low.
+       */
+      it('Should announce a clock running low', () => {
+        component['lowTimeWarning']('x');
+
+        expect(announceSpy).toHaveBeenCalledOnceWith(
+          `${component.sideNames().x}'s clock is running low.`,
+          'assertive'
+        );
+      });
+    });
+
     /**
      * Tests core gameplay helper functions such as winner detection
      * and result dispatching in Player vs Player mode.
@@ -391,9 +505,6 @@ describe('Game', () => {
       beforeEach(() => {
         gameLogicService = TestBed.inject(GameLogic);
 
-        spyOn(gameLogicService, 'hasWinner').and.returnValue(
-          Promise.resolve({ winner: 'o' })
-        );
         // Spy on the store dispatch to verify side effects
         dispatchSpy = spyOn(store, 'dispatch');
       });
@@ -403,8 +514,12 @@ describe('Game', () => {
        * and dispatches a game state update when a winning condition is detected.
        */
       it('[winnerCheck] function  should dispatch winner and stop the game when a winning board state is reached', async () => {
-        // Reference the current board state from the store
-        const board = state.gameInfo.actualBoard;
+        // Winning diagonal for 'o'
+        const board = [
+          ['o', 'x', ''],
+          ['', 'o', 'x'],
+          ['', '', 'o'],
+        ];
 
         // Simulate multiple moves having been played
         mockStore.setState({
@@ -422,9 +537,109 @@ describe('Game', () => {
         // Execute winner detection logic
         await component['winnerCheck']();
 
-        // Expect a store update with the detected winner and game termination
+        // Expect a store update with the detected winner, its line and game termination
         expect(dispatchSpy).toHaveBeenCalledWith(
-          modifyGameInfo({ winner: 'o', started: false })
+          modifyGameInfo({
+            winner: 'o',
+            winningLine: [
+              { row: 0, column: 0 },
+              { row: 1, column: 1 },
+              { row: 2, column: 2 },
+            ],
+            started: false,
+          })
+        );
+      });
+
+      /**
+       * Ensures that a Wild game is won by the side completing the line
+       * and that the moves of each side are counted by turn order.
+       */
+      it('[winnerCheck] function should credit a Wild line to the side completing it', () => {
+        mockStore.setState({
+          ...state,
+          gameSettings: {
+            ...state.gameSettings,
+            variant: 'wild',
+            opponent: 'player',
+            playerMarkup: 'x',
+            rows: 3,
+            columns: 3,
+            winLength: 3,
+          },
+          gameInfo: {
+            ...state.gameInfo,
+            actualStep: 5,
+            actualBoard: [
+              ['o', 'o', 'o'],
+              ['x', 'x', ''],
+              ['', '', ''],
+            ],
+            moveHistory: [
+              { row: 0, column: 0, markup: 'o', timestamp: 1 },
+              { row: 1, column: 0, markup: 'x', timestamp: 2 },
+              { row: 0, column: 1, markup: 'o', timestamp: 3 },
+              { row: 1, column: 1, markup: 'x', timestamp: 4 },
+              { row: 0, column: 2, markup: 'o', timestamp: 5 },
+            ],
+          },
+        });
+        fixture.detectChanges();
+
+        component['winnerCheck']();
+
+        expect(dispatchSpy).toHaveBeenCalledWith(
+          modifyGameInfo({
+            winner: 'x',
+            winningLine: [0, 1, 2].map((column) => ({ row: 0, column })),
+            started: false,
+          })
+        );
+        expect(component['movesMade']('x')).toBe(3);
+        expect(component['movesMade']('o')).toBe(2);
+      });
+
+      /**
+       * Ensures that a game replayed into an already decided state (e.g. by redo)
+       * does not count its result a second time.
+       */
+      it('[twoPlayerMode] function should not dispatch results when the game was already decided', () => {
+        const dispatchResultsSpy = spyOn<any>(component, 'dispatchResults');
+
+        mockStore.setState({
+          ...state,
+          gameInfo: { ...state.gameInfo, winner: 'o' },
+        });
+
+        fixture.detectChanges();
+        component['twoPlayerMode']();
+
+        expect(dispatchResultsSpy).not.toHaveBeenCalled();
+      });
+
+      /**
+       * Ensures that winner detection runs locally with the rules of the
+       * registered variant and never waits for the backend.
+       */
+      it('[winnerCheck] function should not call the backend check-board endpoint', () => {
+        const hasWinnerSpy = spyOn(gameLogicService, 'hasWinner');
+        const evaluateSpy = spyOn(
+          CLASSIC_VARIANT,
+          'evaluate'
+        ).and.callThrough();
+
+        fixture.detectChanges();
+        component['winnerCheck']();
+
+        expect(evaluateSpy).toHaveBeenCalledWith(
+          state.gameInfo.actualBoard,
+          jasmine.objectContaining({
+            winLength: state.gameSettings.winLength,
+          })
+        );
+        expect(hasWinnerSpy).not.toHaveBeenCalled();
+        expect(dispatchSpy).not.toHaveBeenCalledWith(
+          jasmine.objectContaining({ winner: jasmine.anything() })
         );
       });
 
@@ -491,6 +706,299 @@ describe('Game', () => {
           );
         }
       });
+
+      /**
+       * Tests the `dispatchResults` function in a three-player game:
+       * the winner gets a win and both other players a loss.
+       */
+      it('[dispatchResults] function should count a three-player result for all three players', () => {
+        mockStore.setState({
+          ...state,
+          gameSettings: {
+            ...state.gameSettings,
+            opponent: 'player',
+            variant: 'classic',
+            rows: 5,
+            columns: 5,
+            misere: false,
+            players: 3,
+          },
+          gameInfo: {
+            ...state.gameInfo,
+            winner: 't',
+            timeout: null,
+            results: {
+              player_O_Lose: 0,
+              player_O_Win: 0,
+              draw: 0,
+              player_X_Lose: 0,
+              player_X_Win: 0,
+            },
+          },
+        });
+
+        fixture.detectChanges();
+        component['dispatchResults']();
+
+        expect(dispatchSpy).toHaveBeenCalledWith(
+          modifyGameInfo({
+            results: {
+              player_O_Lose: 1,
+              player_O_Win: 0,
+              draw: 0,
+              player_X_Lose: 1,
+              player_X_Win: 0,
+              player_T_Lose: 0,
+              player_T_Win: 1,
+            },
+          })
+        );
+      });
+
+      /**
+       * Verifies that the third player is named after the order of its moves.
+       */
+      it('[sideName] function should name the three players after their order', () => {
+        mockStore.setState({
+          ...state,
+          gameSettings: {
+            ...state.gameSettings,
+            opponent: 'player',
+            variant: 'classic',
+            playerMarkup: 'x',
+            rows: 5,
+            columns: 5,
+            players: 3,
+          },
+        });
+
+        fixture.detectChanges();
+
+        expect(component['sideName']('x')).toBe('Player - 1(X)');
+        expect(component['sideName']('o')).toBe('Player - 2(O)');
+        expect(component['sideName']('t')).toBe('Player - 3(T)');
+      });
+
+      /**
+       * Verifies that the side names follow the chosen language.
+       */
+      it('[sideName] function should name the sides in the chosen language', () => {
+        const translation = TestBed.inject(Translation);
+        // The language switch must not be persisted for the other tests
+        spyOn(localStorage, 'setItem');
+        mockStore.setState({
+          ...state,
+          gameSettings: {
+            ...state.gameSettings,
+            opponent: 'player',
+            variant: 'classic',
+            firstMarkup: 'x',
+          },
+        });
+
+        translation.language = 'hu';
+        fixture.detectChanges();
+
+        expect(component['sideName']('x')).toBe('Játékos - 1(X)');
+        expect(component['sideName']('o')).toBe('Játékos - 2(O)');
+
+        translation.language = 'en';
+      });
+
+      /**
+       * Verifies that a previewed position is rebuilt from the move history
+       * without touching the store, and that the next move returns to the game.
+       */
+      it('[previewMove] should preview an earlier position until the next move', () => {
+        const board = [
+          ['o', '', ''],
+          ['', 'x', ''],
+          ['', '', ''],
+        ];
+        const gameInfo: GameInfo = {
+          ...state.gameInfo,
+          actualBoard: board,
+          actualStep: 2,
+          lastMove: { row: 1, column: 1 },
+          winner: null,
+          winningLine: null,
+          moveHistory: [
+            { row: 0, column: 0, markup: 'o', timestamp: 1 },
+            { row: 1, column: 1, markup: 'x', timestamp: 2 },
+          ],
+          redoHistory: [],
+        };
+        mockStore.setState({ ...state, gameInfo });
+        fixture.detectChanges();
+        dispatchSpy.calls.reset();
+
+        component['previewMove'](1);
+
+        expect(component.preview()!.actualBoard).toEqual([
+          ['o', '', ''],
+          ['', '', ''],
+          ['', '', ''],
+        ]);
+        expect(component.preview()!.lastMove).toEqual({ row: 0, column: 0 });
+        expect(dispatchSpy).not.toHaveBeenCalled();
+
+        mockStore.setState({
+          ...state,
+          gameInfo: {
+            ...gameInfo,
+            actualStep: 3,
+            lastMove: { row: 2, column: 2 },
+          },
+        });
+        fixture.detectChanges();
+
+        expect(component.previewPosition()).toBeNull();
+        expect(component.preview()).toBeNull();
+      });
+
+      /**
+       * Verifies that the earlier positions of a decided game can be previewed,
+       * without the winner of the final position.
+       */
+      it('[previewMove] should preview an earlier position of a decided game', () => {
+        const gameInfo: GameInfo = {
+          ...state.gameInfo,
+          actualBoard: [
+            ['o', 'o', 'o'],
+            ['x', 'x', ''],
+            ['', '', ''],
+          ],
+          actualStep: 5,
+          lastMove: { row: 0, column: 2 },
+          winner: 'o',
+          winningLine: [
+            { row: 0, column: 0 },
+            { row: 0, column: 1 },
+            { row: 0, column: 2 },
+          ],
+          moveHistory: [
+            { row: 0, column: 0, markup: 'o', timestamp: 1 },
+            { row: 1, column: 0, markup: 'x', timestamp: 2 },
+            { row: 0, column: 1, markup: 'o', timestamp: 3 },
+            { row: 1, column: 1, markup: 'x', timestamp: 4 },
+            { row: 0, column: 2, markup: 'o', timestamp: 5 },
+          ],
+          redoHistory: [],
+        };
+        mockStore.setState({
+          ...state,
+          gameSettings: {
+            ...state.gameSettings,
+            variant: 'classic',
+            rows: 3,
+            columns: 3,
+            winLength: 3,
+            firstMarkup: 'o',
+            players: 2,
+          },
+          gameInfo,
+        });
+        fixture.detectChanges();
+
+        component['previewMove'](3);
+
+        expect(component.preview()!.actualBoard).toEqual([
+          ['o', 'o', ''],
+          ['x', '', ''],
+          ['', '', ''],
+        ]);
+        expect(component.preview()!.winner).toBeNull();
+        expect(component.preview()!.lastMove).toEqual({ row: 0, column: 1 });
+      });
+
+      /**
+       * Verifies that the coordinate labels are stored without a new game.
+       */
+      it('[toggleCoordinates] should store the visibility of the coordinate labels', () => {
+        component['toggleCoordinates'](true);
+
+        expect(dispatchSpy).toHaveBeenCalledOnceWith(
+          modifyGameSettings({ coordinates: true })
+        );
+      });
+
+      /**
+       * Verifies that the position of a shared link replaces the game
+       * and that the link is removed from the URL.
+       */
+      it('[openSharedPosition] should open the position of a shared link', () => {
+        const router = TestBed.inject(RouterService);
+        const navigateSpy = spyOn(router, 'navigateTo');
+        const snackbarSpy = spyOn(
+          TestBed.inject(SnackBarHandler),
+          'addElement'
+        );
+
+        (router.queryParams as WritableSignal<Params>).set({
+          position: 'classic.3x3.3.-.2.o.x1o-1o1-x2.a3.o',
+        });
+        fixture.detectChanges();
+
+        const calls = getCallsArray(dispatchSpy.calls.all());
+        expect(calls).toContain(
+          jasmine.objectContaining({
+            type: modifyGameSettings.type,
+            variant: 'classic',
+            rows: 3,
+            columns: 3,
+            opponent: 'player',
+            playerMarkup: 'o',
+          })
+        );
+        expect(calls).toContain(
+          jasmine.objectContaining({
+            type: modifyGameInfo.type,
+            actualBoard: [
+              ['x', '', 'o'],
+              ['', 'o', ''],
+              ['x', '', ''],
+            ],
+            actualStep: 4,
+            actualMarkup: 'o',
+            lastMove: { row: 2, column: 0 },
+            moveHistory: [],
+          })
+        );
+        expect(snackbarSpy).toHaveBeenCalledWith(
+          'Shared position opened',
+          false
+        );
+        expect(navigateSpy).toHaveBeenCalledOnceWith(
+          ['tic-tac-toe'],
+          { position: null },
+          'merge'
+        );
+      });
+
+      /**
+       * Verifies that a malformed link keeps the game and shows the problem.
+       */
+      it('[openSharedPosition] should report a malformed link', () => {
+        const router = TestBed.inject(RouterService);
+        spyOn(router, 'navigateTo');
+        const snackbarSpy = spyOn(
+          TestBed.inject(SnackBarHandler),
+          'addElement'
+        );
+
+        (router.queryParams as WritableSignal<Params>).set({
+          position: 'classic.3x3.3.-.2.o.3-3-3.-.x',
+        });
+        fixture.detectChanges();
+
+        expect(dispatchSpy).not.toHaveBeenCalledWith(
+          jasmine.objectContaining({ type: modifyGameSettings.type })
+        );
+        expect(snackbarSpy).toHaveBeenCalledOnceWith(
+          'Invalid game link: The side to move does not match the board',
+          true
+        );
+      });
     });
   });
 
@@ -597,11 +1105,95 @@ describe('Game', () => {
         expect(component.lastMove()).toEqual(state.gameInfo.lastMove);
         expect(component.actualMarkup()).toBe(state.gameInfo.actualMarkup);
         expect(component.clickPermission()).toBe(true);
-        expect(component.size()).toBe(state.gameSettings.size);
+        expect(component.rows()).toBe(state.gameSettings.rows);
+        expect(component.columns()).toBe(state.gameSettings.columns);
         expect(component.started()).toBe(state.gameInfo.started);
         expect(component.spentTimes()).toEqual(state.gameInfo.playerSpentTime);
         expect(component.results()).toEqual(state.gameInfo.results);
       });
+
+      /**
+       * Validate that the click permission follows the chosen sides:
+       * playing as 'x' against an opening computer, even steps belong to the computer.
+       */
+      it('Click permission should follow the chosen sides', () => {
+        mockStore.setState({
+          ...state,
+          gameSettings: {
+            ...state.gameSettings,
+            playerMarkup: 'x',
+            firstMove: 'computer',
+          },
+        });
+        fixture.detectChanges();
+
+        expect(component.clickPermission()).toBeFalse();
+
+        mockStore.setState({
+          ...state,
+          gameSettings: {
+            ...state.gameSettings,
+            playerMarkup: 'x',
+            firstMove: 'computer',
+          },
+          gameInfo: {
+            ...state.gameInfo,
+            actualStep: state.gameInfo.actualStep + 1,
+          },
+        });
+        fixture.detectChanges();
+
+        expect(component.clickPermission()).toBeTrue();
+      });
+
+      /**
+       * Validate that before the first move the opening markup becomes the one to move.
+       */
+      it('Should make the first markup the one to move before the first move', () => {
+        mockStore.setState({
+          ...state,
+          gameSettings: {
+            ...state.gameSettings,
+            playerMarkup: 'o',
+            firstMove: 'computer',
+          },
+          gameInfo: { ...state.gameInfo, actualStep: 0, actualMarkup: 'o' },
+        });
+        fixture.detectChanges();
+
+        expect(dispatchSpy).toHaveBeenCalledWith(
+          modifyGameInfo({ actualMarkup: 'x' })
+        );
+      });
+    });
+
+    /**
+     * Verifies the screen-reader announcements against the computer.
+     */
+    describe('Announcements:', () => {
+      /**
+       * Verifies that the sides are named "You" and "Computer"
+       * and that the player is addressed directly.
+       */
+      it('Should address the player directly', () => {
+        const announceSpy = spyOn(TestBed.inject(Announcer), 'announce');
+        fixture.detectChanges();
+        const playerMarkup: PlayerMarkup = state.gameSettings.playerMarkup;
+
+        component['lowTimeWarning'](playerMarkup);
+        mockStore.setState({
+          ...state,
+          gameInfo: { ...state.gameInfo, winner: playerMarkup },
+        });
+        fixture.detectChanges();
+
+        expect(component.sideNames()[playerMarkup]).toBe('You');
+        expect(Object.values(component.sideNames())).toContain('Computer');
+        expect(announceSpy.calls.allArgs()).toEqual([
+          ['Your clock is running low.', 'assertive'],
+          ['You won.', 'assertive'],
+        ]);
+      });
     });
 
     /**
@@ -649,6 +1241,9 @@ describe('Game', () => {
           modifyGameInfo({ lastMove: { row: 1, column: 0 } })
         );
 
+        // The AI plays with the markup opposing the player's one
+        expect(aiMoveSpy.calls.mostRecent().args[1]).toBe('x');
+
         // Ensure that the result persistence logic is triggered
         expect(saveResultFunctionSpy).toHaveBeenCalled();
 
@@ -662,15 +1257,46 @@ describe('Game', () => {
        * the last move coordinates (except in draw-specific logic handled elsewhere).
        */
       it('[computerMode] should dispatch winner and lastMove when AI produces a new winning result', async () => {
+        // Final boards matching each AI-produced outcome
+        const resultBoards = {
+          o: [
+            ['o', 'o', 'o'],
+            ['x', 'x', ''],
+            ['x', '', ''],
+          ],
+          x: [
+            ['o', 'o', ''],
+            ['x', 'x', 'x'],
+            ['o', '', ''],
+          ],
+          draw: [
+            ['x', 'o', 'x'],
+            ['x', 'o', 'o'],
+            ['o', 'x', 'o'],
+          ],
+        };
+
+        // Winning lines expected for each outcome (none for a draw)
+        const expectedLines = {
+          o: [
+            { row: 0, column: 0 },
+            { row: 0, column: 1 },
+            { row: 0, column: 2 },
+          ],
+          x: [
+            { row: 1, column: 0 },
+            { row: 1, column: 1 },
+            { row: 1, column: 2 },
+          ],
+          draw: null,
+        };
+
         // Iterate through all possible AI-produced winner outcomes
-        for (const result of ['o', 'draw', 'x'] as Exclude<
-          Exclude<GameInfo['winner'], undefined>,
-          null
-        >[]) {
+        for (const result of ['o', 'draw', 'x'] as const) {
           // Mock AI response that explicitly contains a winner
           aiMoveSpy.and.returnValue(
             Promise.resolve({
-              board: state.gameInfo.board,
+              board: resultBoards[result],
               markup: 'x',
               hardness: state.gameSettings.hardness,
               lastMove: { row: 1, column: 0 },
@@ -697,9 +1323,13 @@ describe('Game', () => {
           await new Promise((resolve) => setTimeout(resolve, 1000));
           fixture.detectChanges();
 
-          // Assert that the game is finalized with the correct winner
+          // Assert that the game is finalized with the correct winner and line
           expect(dispatchSpy).toHaveBeenCalledWith(
-            modifyGameInfo({ winner: result, started: false })
+            modifyGameInfo({
+              winner: result,
+              winningLine: expectedLines[result],
+              started: false,
+            })
           );
 
           // Assert that the AI move coordinates are propagated to the store
@@ -709,6 +1339,183 @@ describe('Game', () => {
         }
       });
 
+      /**
+       * Verifies that the AI opens the game on an empty board
+       * with the markup opposing the player's one when the computer moves first.
+       */
+      it('[computerMode] should open the game with the opposing markup when the computer moves first', async () => {
+        aiMoveSpy.and.returnValue(Promise.resolve(undefined));
+
+        mockStore.setState({
+          ...state,
+          gameSettings: {
+            ...state.gameSettings,
+            rows: 3,
+            columns: 3,
+            playerMarkup: 'x',
+            firstMove: 'computer',
+          },
+          gameInfo: {
+            ...state.gameInfo,
+            actualStep: 0,
+            actualBoard: undefined,
+            winner: null,
+          },
+        });
+
+        fixture.detectChanges();
+
+        await component['computerMode']();
+
+        expect(aiMoveSpy.calls.mostRecent().args.slice(0, 2)).toEqual([
+          [
+            ['', '', ''],
+            ['', '', ''],
+            ['', '', ''],
+          ],
+          'o',
+        ]);
+      });
+
+      /**
+       * Verifies that no AI move is requested when the game is already decided
+       * (e.g. a finished game replayed by redo).
+       */
+      it('[computerMode] should not request an AI move when the game is already decided', async () => {
+        mockStore.setState({
+          ...state,
+          gameInfo: {
+            ...state.gameInfo,
+            actualStep: state.gameInfo.actualStep + 1,
+            winner: 'o',
+          },
+        });
+
+        fixture.detectChanges();
+
+        await component['computerMode']();
+
+        expect(aiMoveSpy).not.toHaveBeenCalled();
+      });
+
+      /**
+       * Verifies that a won game is counted once: the undo dispatched after
+       * the win is refused by the gameInfo reducer, so the winning move
+       * can not be played again to add a second win to the results
+       * or to the user's statistics.
+       * Dispatched actions are applied by the real gameInfo reducer.
+       */
+      it('[computerMode] should count a win only once when an undo follows it', async () => {
+        aiMoveSpy.and.returnValue(Promise.resolve(undefined));
+
+        const moves: MoveRecord[] = [
+          { row: 0, column: 0, markup: 'o', timestamp: 1 },
+          { row: 1, column: 0, markup: 'x', timestamp: 2 },
+          { row: 0, column: 1, markup: 'o', timestamp: 3 },
+          { row: 1, column: 1, markup: 'x', timestamp: 4 },
+          { row: 0, column: 2, markup: 'o', timestamp: 5 },
+        ];
+        const winningBoard = [
+          ['o', 'o', 'o'],
+          ['x', 'x', ''],
+          ['', '', ''],
+        ];
+        let current = {
+          ...state,
+          gameSettings: {
+            ...state.gameSettings,
+            variant: 'classic',
+            rows: 3,
+            columns: 3,
+            winLength: 3,
+            playerMarkup: 'o',
+            firstMove: 'human',
+          },
+          gameInfo: {
+            ...state.gameInfo,
+            actualStep: 5,
+            actualBoard: winningBoard,
+            lastMove: { row: 0, column: 2 },
+            moveHistory: moves,
+            redoHistory: [],
+            winner: null,
+          },
+        };
+        dispatchSpy.and.callFake((action: Action) => {
+          current = {
+            ...current,
+            gameInfo: gameInfoReducer(current.gameInfo, action),
+          };
+          mockStore.setState(current);
+        });
+        mockStore.setState(current);
+        fixture.detectChanges();
+
+        // The player's winning move is counted
+        await component['computerMode']();
+
+        // Taking back the winning move is refused once the game is decided
+        store.dispatch(
+          undoGameMove({
+            moves: 1,
+            winLength: 3,
+            firstMarkup: 'o',
+            players: 2,
+            variant: 'classic',
+          })
+        );
+        fixture.detectChanges();
+        await component['computerMode']();
+
+        expect(current.gameInfo.moveHistory).toEqual(moves);
+        expect(current.gameInfo.redoHistory).toEqual([]);
+        expect(current.gameInfo.actualBoard).toEqual(winningBoard);
+        expect(current.gameInfo.winner).toBe('o');
+        expect(current.gameInfo.results?.player_O_Win).toBe(1);
+        expect(current.gameInfo.results?.player_X_Lose).toBe(1);
+        expect(updateUserSpy).toHaveBeenCalledOnceWith({ winNumber: 1 });
+      });
+
+      /**
+       * Verifies that when no AI move is returned (the player's move already
+       * decided the game), the winner is detected locally and dispatched.
+       */
+      it('[computerMode] should detect the winner locally when no AI move is returned', async () => {
+        aiMoveSpy.and.returnValue(Promise.resolve(undefined));
+
+        // Winning row for 'o' created by the player's last move
+        mockStore.setState({
+          ...state,
+          gameSettings: { ...state.gameSettings, rows: 3, columns: 3 },
+          gameInfo: {
+            ...state.gameInfo,
+            actualStep: state.gameInfo.actualStep + 1,
+            actualBoard: [
+              ['o', 'o', 'o'],
+              ['x', 'x', ''],
+              ['', '', ''],
+            ],
+            winner: null,
+          },
+        });
+
+        fixture.detectChanges();
+
+        await component['computerMode']();
+
+        expect(dispatchSpy).toHaveBeenCalledWith(
+          modifyGameInfo({
+            winner: 'o',
+            winningLine: [
+              { row: 0, column: 0 },
+              { row: 0, column: 1 },
+              { row: 0, column: 2 },
+            ],
+            started: false,
+          })
+        );
+      });
+
       /**
        * Tests the `saveResult` function to ensure that user statistics
        * are updated correctly based on the game outcome.
@@ -758,6 +1565,205 @@ describe('Game', () => {
           }
         }
       });
+
+      /**
+       * Verifies that under the misère rule the side completing a line
+       * is counted as the loser, while a loss on time is not inverted.
+       */
+      it('[saveResult] function should count a completed line as a loss in misère games', () => {
+        mockStore.setState({
+          ...state,
+          gameSettings: { ...state.gameSettings, misere: true },
+          gameInfo: { ...state.gameInfo, winner: 'o', timeout: null },
+        });
+        fixture.detectChanges();
+
+        component['saveResult']();
+
+        expect(updateUserSpy).toHaveBeenCalledOnceWith({ loseNumber: 1 });
+
+        mockStore.setState({
+          ...state,
+          gameSettings: { ...state.gameSettings, misere: true },
+          gameInfo: { ...state.gameInfo, winner: 'o', timeout: 'x' },
+        });
+        updateUserSpy.calls.reset();
+        fixture.detectChanges();
+
+        component['saveResult']();
+
+        expect(updateUserSpy).toHaveBeenCalledOnceWith({ winNumber: 1 });
+      });
+
+      /**
+       * Verifies that in spectator mode each markup plays with its own difficulty level:
+       * 'x' uses the second AI's level.
+       */
+      it('[computerMode] should play with the second difficulty level for `x` in spectator mode', async () => {
+        aiMoveSpy.and.returnValue(Promise.resolve(undefined));
+
+        mockStore.setState({
+          ...state,
+          gameSettings: {
+            ...state.gameSettings,
+            opponent: 'spectator',
+            hardness: 2,
+            secondHardness: 4,
+          },
+          gameInfo: {
+            ...state.gameInfo,
+            actualStep: state.gameInfo.actualStep + 1,
+            winner: null,
+          },
+        });
+
+        fixture.detectChanges();
+
+        await component['computerMode']();
+
+        expect(aiMoveSpy.calls.mostRecent().args.slice(1, 3)).toEqual([
+          'x',
+          4,
+        ]);
+      });
+
+      /**
+       * Verifies that the spectator controls pause the play and that
+       * a single move is only requested while paused.
+       */
+      it('[toggleSpectator] and [spectatorStep] should control the spectator mode', () => {
+        const computerModeSpy = spyOn<any>(component, 'computerMode');
+        mockStore.setState({
+          ...state,
+          gameSettings: { ...state.gameSettings, opponent: 'spectator' },
+          gameInfo: { ...state.gameInfo, winner: null },
+        });
+        fixture.detectChanges();
+
+        expect(component.clickPermission()).toBeFalse();
+        expect(component.spectatorPaused()).toBeTrue();
+
+        component['spectatorStep']();
+        expect(computerModeSpy).toHaveBeenCalledTimes(1);
+
+        component['toggleSpectator']();
+        expect(component.spectatorPaused()).toBeFalse();
+
+        component['spectatorStep']();
+        expect(computerModeSpy).toHaveBeenCalledTimes(1);
+      });
+
+      /**
+       * Verifies that the move delay chosen on the slider is stored in the settings.
+       */
+      it('[changeAiDelay] should store the new move delay', () => {
+        component['changeAiDelay'](500);
+
+        expect(dispatchSpy).toHaveBeenCalledWith(
+          modifyGameSettings({ aiDelay: 500 })
+        );
+      });
+
+      /**
+       * Tests that games watched in spectator mode do not change user statistics.
+       */
+      it('[saveResult] function should not update user stats in spectator mode', () => {
+        mockStore.setState({
+          ...state,
+          gameSettings: { ...state.gameSettings, opponent: 'spectator' },
+          gameInfo: { ...state.gameInfo, winner: 'o' },
+        });
+        fixture.detectChanges();
+
+        component['saveResult']();
+
+        expect(updateUserSpy).not.toHaveBeenCalled();
+      });
+
+      /**
+       * Tests that user statistics follow the player's markup:
+       * playing as 'x', a win of 'x' is a win and a win of 'o' a loss.
+       */
+      it('[saveResult] function should count wins from the player\'s markup', () => {
+        for (const result of ['x', 'o'] as const) {
+          mockStore.setState({
+            ...state,
+            gameSettings: { ...state.gameSettings, playerMarkup: 'x' },
+            gameInfo: { ...state.gameInfo, winner: result },
+          });
+          updateUserSpy.calls.reset();
+          fixture.detectChanges();
+
+          component['saveResult']();
+
+          expect(updateUserSpy).toHaveBeenCalledWith(
+            result === 'x' ? { winNumber: 1 } : { loseNumber: 1 }
+          );
+        }
+      });
+
+      /**
+       * Tests that running out of time gives the win to the other side
+       * and counts and persists the result.
+       */
+      it('[timeout] should end the game in favour of the other side', () => {
+        const dispatchResultsSpy = spyOn<any>(component, 'dispatchResults');
+        mockStore.setState({
+          ...state,
+          gameInfo: { ...state.gameInfo, winner: null },
+        });
+        fixture.detectChanges();
+
+        component['timeout']('o');
+
+        expect(dispatchSpy).toHaveBeenCalledWith(
+          modifyGameInfo({
+            winner: 'x',
+            winningLine: null,
+            timeout: 'o',
+            started: false,
+          })
+        );
+        expect(dispatchResultsSpy).toHaveBeenCalled();
+        expect(saveResultFunctionSpy).toHaveBeenCalled();
+      });
+
+      /**
+       * Tests that a clock running out after the game was decided is ignored.
+       */
+      it('[timeout] should not change a decided game', () => {
+        mockStore.setState({
+          ...state,
+          gameInfo: { ...state.gameInfo, winner: 'o' },
+        });
+        fixture.detectChanges();
+        dispatchSpy.calls.reset();
+
+        component['timeout']('x');
+
+        expect(dispatchSpy).not.toHaveBeenCalled();
+        expect(saveResultFunctionSpy).not.toHaveBeenCalled();
+      });
+
+      /**
+       * Tests that the moves of each side are counted from the move history.
+       */
+      it('[movesMade] should count the moves of the given side', () => {
+        mockStore.setState({
+          ...state,
+          gameInfo: {
+            ...state.gameInfo,
+            moveHistory: [
+              { row: 0, column: 0, markup: 'o', timestamp: 1 },
+              { row: 1, column: 1, markup: 'x', timestamp: 2 },
+              { row: 2, column: 2, markup: 'o', timestamp: 3 },
+            ],
+          },
+        });
+
+        expect(component['movesMade']('o')).toBe(2);
+        expect(component['movesMade']('x')).toBe(1);
+      });
     });
   });
 });
@@ -4,33 +4,93 @@ import {
   effect,
   inject,
   OnInit,
+  signal,
   Signal,
+  untracked,
+  WritableSignal,
 } from '@angular/core';
 
 import { GameDisplayPart } from './game-display-part/game-display-part';
 import { GameLogic } from '../../services/game-logic.service';
 import { Store } from '@ngrx/store';
 import {
+  selectFirstMarkup,
+  selectGameAiDelay,
+  selectGameAiEngine,
+  selectGameGravity,
   selectGameHardness,
   selectGameOpponent,
-  selectGameSize,
+  selectGameColumns,
+  selectGameCoordinates,
+  selectGameRows,
+  selectGameSecondHardness,
+  selectGameMisere,
+  selectGameTimeControl,
+  selectGameVanishing,
+  selectGameWinLength,
+  selectPlayedVariant,
+  selectPlayerCount,
+  selectPlayerMarkup,
 } from '../../store/selectors/game-settings.selector';
 import { LastMove } from '../../utils/interfaces/last-move.interface';
 import { Board } from './board/board';
+import { SpectatorControls } from './spectator-controls/spectator-controls';
+import { UltimateBoard } from './ultimate-board/ultimate-board';
+import { QuantumBoard } from './quantum-board/quantum-board';
+import { MarkupPicker } from './markup-picker/markup-picker';
+import { MoveList } from './move-list/move-list';
 import {
   selectActualBoard,
   selectActualMarkup,
   selectActualStep,
+  selectGameInfo,
   selectGameResults,
   selectGameWinner,
   selectLastMove,
+  selectMarkOrder,
+  selectMoveHistory,
   selectPlayersSpentTimes,
+  selectQuantumBoard,
+  selectResultWinner,
   selectStarted,
+  selectWinningLine,
 } from '../../store/selectors/game-info.selector';
 import { modifyGameInfo } from '../../store/actions/game-info-modify.action';
+import { modifyGameSettings } from '../../store/actions/game-settings-modify.action';
 import { GameInfo } from '../../utils/interfaces/game-info.interface';
+import { GameSettings } from '../../utils/interfaces/game-settings.interface';
 import { Auth } from '../../services/auth.service';
 import { SnackBarHandler } from '../../services/snack-bar-handler.service';
+import { RouterService } from '../../services/router.service';
+import { SERVER_WINNER_CROSS_CHECK } from '../../utils/constants/server-cross-check.constant';
+import {
+  markupByStep,
+  opposingMarkup,
+  turnOrder,
+} from '../../utils/functions/turn-order.function';
+import { Markup } from '../../utils/types/markup.type';
+import { PlayerCount } from '../../utils/types/player-count.type';
+import { MARKUP_KEYS } from '../../utils/constants/markup-keys.constant';
+import {
+  boardAfterMoves,
+  undoMoves,
+} from '../../utils/functions/move-history.function';
+import { MoveRecord } from '../../utils/interfaces/move-record.interface';
+import { BoardEvaluation } from '../../utils/interfaces/board-evaluation.interface';
+import { gameVariant } from '../../utils/functions/variant.function';
+import { CLASSIC_VARIANT } from '../../utils/constants/classic-variant.constant';
+import { GameVariant } from '../../utils/interfaces/game-variant.interface';
+import { VariantContext } from '../../utils/interfaces/variant-context.interface';
+import { PlayerMarkup } from '../../utils/types/player-markup.type';
+import { NestedBoard } from '../../utils/interfaces/nested-board.interface';
+import { ultimateBoardOf } from '../../utils/functions/ultimate.function';
+import {
+  decodeSharedPosition,
+  sharedPositionInfo,
+} from '../../utils/functions/share-link.function';
+import { SHARE_LINK_PARAM } from '../../utils/constants/share-link.constant';
+import { Announcer } from '../../services/announcer.service';
+import { Translation } from '../../services/translation.service';
 
 /**
  * Main game controller component.
@@ -39,6 +99,16 @@ import { SnackBarHandler } from '../../services/snack-bar-handler.service';
  *  - synchronizes state with NgRx (board, moves, results, timestamps);
  *  - mediates interactions between the UI and GameLogic service;
  *  - executes player and AI moves based on opponent mode;
+ *  - drives computer-vs-computer games in spectator mode;
+ *  - ends the game when a player runs out of time;
+ *  - plays every variant through the hooks of its registered rule set
+ *    (board, result check, AI move), on the board component of its layout;
+ *  - lets the player to move choose the markup placed in Wild and
+ *    Order and Chaos games;
+ *  - lists the moves in notation and previews the position after any of them
+ *    (the live board keeps running hidden meanwhile);
+ *  - opens the positions of shared links;
+ *  - announces the side to move, low clocks and the result to screen readers;
  *  - computes derived state (markup, click-permission, etc.);
  *  - persists game results through Auth service when relevant.
  *
@@ -49,7 +119,15 @@ import { SnackBarHandler } from '../../services/snack-bar-handler.service';
  */
 @Component({
   selector: 'app-game',
-  imports: [GameDisplayPart, Board],
+  imports: [
+    GameDisplayPart,
+    Board,
+    UltimateBoard,
+    QuantumBoard,
+    SpectatorControls,
+    MarkupPicker,
+    MoveList,
+  ],
   templateUrl: './game.html',
   styleUrl: './game.scss',
 })
@@ -70,6 +148,15 @@ export class Game implements OnInit {
    */
   #snackbarHandler: SnackBarHandler = inject(SnackBarHandler);
 
+  /** Router service providing the query parameters of shared position links. */
+  #router: RouterService = inject(RouterService);
+
+  /** Screen-reader announcer reading out turns, low clocks and results. */
+  #announcer: Announcer = inject(Announcer);
+
+  /** Translation service for the labels, announcements and notifications. */
+  protected translation: Translation = inject(Translation);
+
   // ---------------------------------------------------------------------------
   //                              Game Settings
   // ---------------------------------------------------------------------------
@@ -77,13 +164,112 @@ export class Game implements OnInit {
   /** Difficulty level of AI player (if applicable). */
   #hardness: Signal<number> = this.#store.selectSignal(selectGameHardness);
 
-  /** Board size (N×N). */
-  #size: Signal<number> = this.#store.selectSignal(selectGameSize);
+  /** Difficulty level of the AI playing 'x' in spectator mode. */
+  #secondHardness: Signal<number> = this.#store.selectSignal(
+    selectGameSecondHardness
+  );
+
+  /** Delay in milliseconds before the computer makes its move. */
+  #aiDelay: Signal<number> = this.#store.selectSignal(selectGameAiDelay);
 
-  /** Current opponent type: 'player' or 'computer'. */
-  #opponent: Signal<'player' | 'computer'> =
+  /** Engine computing the computer's moves: 'server' or 'local'. */
+  #aiEngine: Signal<GameSettings['aiEngine']> =
+    this.#store.selectSignal(selectGameAiEngine);
+
+  /** Number of board rows set in the settings. */
+  #storedRows: Signal<number> = this.#store.selectSignal(selectGameRows);
+
+  /** Number of board columns set in the settings. */
+  #storedColumns: Signal<number> = this.#store.selectSignal(selectGameColumns);
+
+  /** Number of marks in a row needed to win (capped at the longer side). */
+  #winLength: Signal<number> = this.#store.selectSignal(selectGameWinLength);
+
+  /** Number of board rows (fixed by some variants, e.g. Order and Chaos). */
+  #rows: Signal<number> = computed(
+    () =>
+      this.#rules().dimensions({
+        rows: this.#storedRows(),
+        columns: this.#storedColumns(),
+        winLength: this.#winLength(),
+      }).rows
+  );
+
+  /** Number of board columns (fixed by some variants, e.g. Order and Chaos). */
+  #columns: Signal<number> = computed(
+    () =>
+      this.#rules().dimensions({
+        rows: this.#storedRows(),
+        columns: this.#storedColumns(),
+        winLength: this.#winLength(),
+      }).columns
+  );
+
+  /** Current opponent type: 'player', 'computer' or 'spectator'. */
+  #opponent: Signal<GameSettings['opponent']> =
     this.#store.selectSignal(selectGameOpponent);
 
+  /** Markup the human player plays with: 'o' or 'x'. */
+  #playerMarkup: Signal<GameSettings['playerMarkup']> =
+    this.#store.selectSignal(selectPlayerMarkup);
+
+  /** Markup making the first move of the game (derived from the settings). */
+  #firstMarkup: Signal<GameSettings['playerMarkup']> =
+    this.#store.selectSignal(selectFirstMarkup);
+
+  /** Chess-clock time control of the game. */
+  #timeControl: Signal<GameSettings['timeControl']> = this.#store.selectSignal(
+    selectGameTimeControl
+  );
+
+  /** Number of players seated in the game (derived from the settings). */
+  #players: Signal<PlayerCount> = this.#store.selectSignal(selectPlayerCount);
+
+  /**
+   * Time control the clocks run with.
+   * Three-player games are played without a time limit,
+   * the clocks only count the time spent.
+   */
+  #clockControl: Signal<GameSettings['timeControl']> = computed(() =>
+    this.#players() === 3 ? 'none' : this.#timeControl()
+  );
+
+  /**
+   * Rule set the game is played with: the id of a registered variant
+   * (variants without an AI hook fall back to the default variant
+   * unless two local players play them, see `playedVariant`).
+   */
+  #variant: Signal<GameSettings['variant']> =
+    this.#store.selectSignal(selectPlayedVariant);
+
+  /** Registered rule set of the played variant. */
+  #rules: Signal<GameVariant> = computed(() => gameVariant(this.#variant()));
+
+  /** Board component the played variant is rendered on. */
+  #layout: Signal<GameVariant['layout']> = computed(() => this.#rules().layout);
+
+  /** Whether the player to move chooses the markup placed (Wild, Order and Chaos). */
+  #choosesMarkup: Signal<boolean> = computed(
+    () => this.#rules().choosesMarkup
+  );
+
+  /** Whether marks drop to the lowest empty cell of a column. */
+  #gravity: Signal<GameSettings['gravity']> =
+    this.#store.selectSignal(selectGameGravity);
+
+  /** Whether each player's oldest mark vanishes once they exceed the win length. */
+  #vanishing: Signal<GameSettings['vanishing']> =
+    this.#store.selectSignal(selectGameVanishing);
+
+  /** Whether completing a line loses instead of winning. */
+  #misere: Signal<GameSettings['misere']> =
+    this.#store.selectSignal(selectGameMisere);
+
+  /** Whether file and rank labels are shown around the board. */
+  #coordinates: Signal<GameSettings['coordinates']> = this.#store.selectSignal(
+    selectGameCoordinates
+  );
+
   // ---------------------------------------------------------------------------
   //                          Reactive Game Information
   // ---------------------------------------------------------------------------
@@ -118,22 +304,140 @@ export class Game implements OnInit {
   #winner: Signal<GameInfo['winner']> =
     this.#store.selectSignal(selectGameWinner);
 
+  /**
+   * Side credited with the result of the game.
+   * Differs from the winner under the misère rule, where completing a line loses.
+   */
+  #resultWinner: Signal<GameInfo['winner']> =
+    this.#store.selectSignal(selectResultWinner);
+
+  /** Cells of the winning line, or null while nobody has won. */
+  #winningLine: Signal<GameInfo['winningLine']> =
+    this.#store.selectSignal(selectWinningLine);
+
+  /** Every move of the current game, in playing order. */
+  #moveHistory: Signal<MoveRecord[] | undefined> =
+    this.#store.selectSignal(selectMoveHistory);
+
+  /** Board of the quantum variant (null in every other variant). */
+  #quantumBoard: Signal<GameInfo['quantumBoard']> =
+    this.#store.selectSignal(selectQuantumBoard);
+
+  /** Placement order of the marks on the board with the vanishing rule. */
+  #markOrder: Signal<GameInfo['markOrder']> =
+    this.#store.selectSignal(selectMarkOrder);
+
+  /** Whole gameInfo state, the base of the previewed positions. */
+  #gameInfo: Signal<GameInfo> = this.#store.selectSignal(selectGameInfo);
+
+  /**
+   * Number of moves of the position previewed from the move list,
+   * `null` while the game itself is shown.
+   */
+  #previewPosition: WritableSignal<number | null> = signal(null);
+
+  /**
+   * State of the previewed position, rebuilt the same way as an undo
+   * of the later moves (the store is not changed); `null` without preview.
+   */
+  #preview: Signal<GameInfo | null> = computed(() => {
+    const position = this.#previewPosition();
+    if (position === null) return null;
+    const gameInfo = this.#gameInfo();
+    return undoMoves(
+      gameInfo,
+      (gameInfo.moveHistory?.length ?? 0) - position,
+      this.#winLength(),
+      this.#firstMarkup(),
+      this.#players(),
+      this.#variant()
+    );
+  });
+
+  /** Nested board of the previewed position in Ultimate games. */
+  #previewUltimateBoard: Signal<NestedBoard | undefined> = computed(() => {
+    const preview = this.#preview();
+    return preview && this.#layout() === 'ultimate'
+      ? ultimateBoardOf(preview.actualBoard ?? [], preview.lastMove)
+      : undefined;
+  });
+
   /** Internal state: tracks the last known step value. */
   #previousStep = this.#step();
 
+  /** Internal state: whether an AI move is being computed. */
+  #computerMoving = false;
+
+  /** Whether the automatic play of the spectator mode is paused. */
+  #spectatorPaused: WritableSignal<boolean> = signal(true);
+
+  /** Markup placed by the next click in Wild and Order and Chaos games. */
+  #chosenMarkup: WritableSignal<PlayerMarkup> = signal('x');
+
+  /** Step whose side to move was last announced. */
+  #announcedStep = this.#step();
+
+  /** Result last announced (a restored finished game is not announced). */
+  #announcedWinner = this.#resultWinner();
+
+  /**
+   * Spoken names of the seated sides by their markup, used in announcements:
+   * "You" and "Computer" against the computer, their role in variants
+   * naming their sides (e.g. "Order" and "Chaos", see `GameVariant.sideNames`),
+   * otherwise named after the order of their moves
+   * (e.g. "Player 2", "Computer 1" in spectator mode);
+   * translated into the chosen language.
+   */
+  #sideNames: Signal<Partial<Record<Markup, string>>> = computed(() => {
+    const opponent = this.#opponent();
+    const roles = this.#rules().sideNames;
+    const order = turnOrder(this.#firstMarkup(), this.#players());
+    return Object.fromEntries(
+      order.map((markup, index) => [
+        markup,
+        opponent === 'computer'
+          ? markup === this.#playerMarkup()
+            ? this.translation.translate('side.you')
+            : this.translation.translate('side.computer')
+          : roles
+          ? this.translation.translate(roles[index])
+          : this.translation.translate(
+              opponent === 'spectator'
+                ? 'side.numberedComputer'
+                : 'side.player',
+              { order: index + 1 }
+            ),
+      ])
+    );
+  });
+
+  /**
+   * Whether it is the computer's turn.
+   * Always true in spectator mode; against the computer only when
+   * the markup to move on the current step is not the player's markup.
+   */
+  #computerTurn: Signal<boolean> = computed(() => {
+    if (this.#opponent() === 'spectator') return true;
+    return (
+      this.#opponent() === 'computer' &&
+      markupByStep(this.#step(), this.#firstMarkup()) !== this.#playerMarkup()
+    );
+  });
+
   /**
    * Determines whether the user is permitted to click on the board.
    *
    * Rules:
    *  - Disabled if a winner exists.
    *  - If two-player mode → clicking is always permitted.
-   *  - If AI mode → player clicks only allowed on even steps.
+   *  - If AI mode → player clicks only allowed on the player's turn.
+   *  - If spectator mode → clicking is never permitted.
    */
   #clickPermission: Signal<boolean> = computed(() => {
     if (this.#snackbarHandler.snackbarContent().length) return false;
     if (this.#winner()) return false;
     if (this.#opponent() === 'player') return true;
-    return this.#step() % 2 === 0;
+    return !this.#computerTurn();
   });
 
   // ---------------------------------------------------------------------------
@@ -152,8 +456,11 @@ export class Game implements OnInit {
   get clickPermission(): Signal<boolean> {
     return this.#clickPermission;
   }
-  get size(): Signal<number> {
-    return this.#size;
+  get rows(): Signal<number> {
+    return this.#rows;
+  }
+  get columns(): Signal<number> {
+    return this.#columns;
   }
   get started() {
     return this.#started;
@@ -164,6 +471,60 @@ export class Game implements OnInit {
   get results() {
     return this.#results;
   }
+  get winningLine() {
+    return this.#winningLine;
+  }
+  get playerMarkup(): Signal<GameSettings['playerMarkup']> {
+    return this.#playerMarkup;
+  }
+  get opponent(): Signal<GameSettings['opponent']> {
+    return this.#opponent;
+  }
+  get spectatorPaused(): Signal<boolean> {
+    return this.#spectatorPaused;
+  }
+  get aiDelay(): Signal<number> {
+    return this.#aiDelay;
+  }
+  get winner(): Signal<GameInfo['winner']> {
+    return this.#winner;
+  }
+  get timeControl(): Signal<GameSettings['timeControl']> {
+    return this.#clockControl;
+  }
+  get players(): Signal<PlayerCount> {
+    return this.#players;
+  }
+  get variant(): Signal<GameSettings['variant']> {
+    return this.#variant;
+  }
+  get layout(): Signal<GameVariant['layout']> {
+    return this.#layout;
+  }
+  get choosesMarkup(): Signal<boolean> {
+    return this.#choosesMarkup;
+  }
+  get chosenMarkup(): Signal<PlayerMarkup> {
+    return this.#chosenMarkup;
+  }
+  get coordinates(): Signal<GameSettings['coordinates']> {
+    return this.#coordinates;
+  }
+  get moveHistory(): Signal<MoveRecord[] | undefined> {
+    return this.#moveHistory;
+  }
+  get previewPosition(): Signal<number | null> {
+    return this.#previewPosition;
+  }
+  get preview(): Signal<GameInfo | null> {
+    return this.#preview;
+  }
+  get previewUltimateBoard(): Signal<NestedBoard | undefined> {
+    return this.#previewUltimateBoard;
+  }
+  get sideNames(): Signal<Partial<Record<Markup, string>>> {
+    return this.#sideNames;
+  }
 
   // ---------------------------------------------------------------------------
   //                              Lifecycle Hook
@@ -192,11 +553,18 @@ export class Game implements OnInit {
     });
 
     // -----------------------------------------------------------------------
-    // Effect 2: If playing against AI, execute computer move on every odd step.
+    // Effect 2: If playing against AI, execute computer move on its turns
+    // after the configured delay. In spectator mode only while not paused.
+    // A pending move is cancelled when the effect is invalidated (e.g. pause).
     // -----------------------------------------------------------------------
-    effect(() => {
-      if (this.#opponent() === 'computer' && this.#step() % 2 === 1) {
-        setTimeout(() => this.computerMode(), 1000);
+    effect((onCleanup) => {
+      const paused =
+        this.#opponent() === 'spectator' && this.#spectatorPaused();
+      if (this.#computerTurn() && !paused) {
+        const timeout = setTimeout(() => this.computerMode(), this.#aiDelay());
+        onCleanup(() => {
+          clearTimeout(timeout);
+        });
       }
     });
 
@@ -208,43 +576,375 @@ export class Game implements OnInit {
         this.twoPlayerMode();
       }
     });
+
+    // -----------------------------------------------------------------------
+    // Effect 4: Before the first move, the first markup is the one to move.
+    // -----------------------------------------------------------------------
+    effect(() => {
+      const firstMarkup = this.#firstMarkup();
+      if (this.#step() === 0 && this.#actualMarkup() !== firstMarkup) {
+        this.#store.dispatch(modifyGameInfo({ actualMarkup: firstMarkup }));
+      }
+    });
+
+    // -----------------------------------------------------------------------
+    // Effect 5: Return from a previewed position to the game whenever a move
+    // is made or taken back (e.g. by the computer).
+    // -----------------------------------------------------------------------
+    effect(() => {
+      this.#step();
+      this.#lastMove();
+      untracked(() => this.#previewPosition.set(null));
+    });
+
+    // -----------------------------------------------------------------------
+    // Effect 6: Open the position of a shared link (`?position=...`).
+    // -----------------------------------------------------------------------
+    effect(() => {
+      const code = this.#router.queryParams()[SHARE_LINK_PARAM];
+      if (code) {
+        untracked(() => this.openSharedPosition(code));
+      }
+    });
+
+    // -----------------------------------------------------------------------
+    // Effect 7: Announce the side to move after a move (or undo/redo)
+    // of an undecided game. Against the computer only the player's turns
+    // are announced, in spectator mode none (the board announces the moves).
+    // -----------------------------------------------------------------------
+    effect(() => {
+      const step = this.#step();
+      const winner = this.#winner();
+      untracked(() => {
+        if (step === this.#announcedStep) return;
+        this.#announcedStep = step;
+        if (!step || winner || this.#opponent() === 'spectator') return;
+
+        const markup = this.#rules().markupByTurn(
+          step,
+          this.#firstMarkup(),
+          this.#players()
+        );
+        if (
+          this.#opponent() === 'computer' &&
+          markup !== this.#playerMarkup()
+        ) {
+          return;
+        }
+        this.#announcer.announce(
+          this.isPlayer(markup)
+            ? this.translation.translate('announce.yourTurn')
+            : this.translation.translate('announce.turn', {
+                side: this.spokenName(markup),
+              })
+        );
+      });
+    });
+
+    // -----------------------------------------------------------------------
+    // Effect 8: Announce the result as soon as the game is decided.
+    // -----------------------------------------------------------------------
+    effect(() => {
+      const winner = this.#resultWinner();
+      untracked(() => {
+        if (winner === this.#announcedWinner) return;
+        this.#announcedWinner = winner;
+        if (winner) {
+          this.#announcer.announce(this.resultMessage(winner), 'assertive');
+        }
+      });
+    });
+  }
+
+  /**
+   * Returns the name shown above the side playing with the given markup.
+   * Against the computer the sides are named after who plays them,
+   * in two- and three-player mode after the order of their moves;
+   * in variants naming their sides after their role
+   * (e.g. Order moves first in Order and Chaos games);
+   * translated into the chosen language.
+   *
+   * @param markup Markup of the side.
+   * @returns The display name including the markup.
+   */
+  protected sideName(markup: Markup): string {
+    const sign = markup.toUpperCase();
+    if (this.#opponent() === 'computer') {
+      return this.translation.translate('side.label', {
+        side:
+          markup === this.#playerMarkup()
+            ? this.translation.translate('side.you')
+            : this.translation.translate('side.computer'),
+        sign,
+      });
+    }
+    const order =
+      turnOrder(this.#firstMarkup(), this.#players()).indexOf(markup) + 1;
+    const roles = this.#rules().sideNames;
+    const side = roles
+      ? this.translation.translate(roles[order - 1])
+      : this.#opponent() === 'spectator'
+      ? this.translation.translate('side.computer')
+      : this.translation.translate('side.playerName');
+    return this.translation.translate('side.numberedLabel', {
+      side,
+      order,
+      sign,
+    });
+  }
+
+  /**
+   * Returns the number of moves the side with the given markup has made.
+   * Used by the clocks to add the Fischer increment.
+   * In Wild and Order and Chaos games the placed markup does not tell
+   * the side, so the moves are counted by turn order instead.
+   *
+   * @param markup Markup of the side.
+   * @returns The number of the side's moves in the move history.
+   */
+  protected movesMade(markup: Markup): number {
+    const moves = this.#moveHistory() ?? [];
+    if (this.#choosesMarkup()) {
+      return moves.filter(
+        (_, index) => markupByStep(index, this.#firstMarkup()) === markup
+      ).length;
+    }
+    return moves.filter((move) => move.markup === markup).length;
+  }
+
+  /**
+   * Chooses the markup placed by the next click
+   * in Wild and Order and Chaos games.
+   *
+   * @param markup Markup to place.
+   */
+  protected pickMarkup(markup: PlayerMarkup): void {
+    this.#chosenMarkup.set(markup);
+  }
+
+  /**
+   * Previews the position after the given number of moves,
+   * or returns to the game.
+   *
+   * @param position Number of moves of the position, `null` for the game.
+   */
+  protected previewMove(position: number | null): void {
+    this.#previewPosition.set(position);
+  }
+
+  /**
+   * Shows or hides the file and rank labels around the board.
+   * Stored with the settings without starting a new game.
+   *
+   * @param coordinates Whether the labels are shown.
+   */
+  protected toggleCoordinates(coordinates: boolean): void {
+    this.#store.dispatch(modifyGameSettings({ coordinates }));
+  }
+
+  /**
+   * Ends the game when the side with the given markup runs out of time.
+   * The other side wins, and the result is counted and persisted
+   * like any other finished game.
+   *
+   * @param markup Markup of the side whose clock ran out.
+   */
+  protected timeout(markup: 'o' | 'x'): void {
+    if (this.#winner()) return;
+    this.#store.dispatch(
+      modifyGameInfo({
+        winner: opposingMarkup(markup),
+        winningLine: null,
+        timeout: markup,
+        started: false,
+      })
+    );
+    this.dispatchResults();
+    this.saveResult();
+  }
+
+  /**
+   * Announces that the clock of a side is running low.
+   *
+   * @param markup Markup of the side whose clock is running low.
+   */
+  protected lowTimeWarning(markup: 'o' | 'x'): void {
+    this.#announcer.announce(
+      this.isPlayer(markup)
+        ? this.translation.translate('announce.yourClock')
+        : this.translation.translate('announce.clock', {
+            side: this.spokenName(markup),
+          }),
+      'assertive'
+    );
+  }
+
+  // ---------------------------------------------------------------------------
+  //                            Spectator Controls
+  // ---------------------------------------------------------------------------
+
+  /** Starts or pauses the automatic play of the spectator mode. */
+  protected toggleSpectator(): void {
+    this.#spectatorPaused.update((paused) => !paused);
+  }
+
+  /** Makes a single AI move while the spectator mode is paused. */
+  protected spectatorStep(): void {
+    if (this.#spectatorPaused() && !this.#winner()) {
+      this.computerMode();
+    }
+  }
+
+  /**
+   * Stores the delay between two AI moves.
+   *
+   * @param delay New delay in milliseconds.
+   */
+  protected changeAiDelay(delay: number): void {
+    this.#store.dispatch(modifyGameSettings({ aiDelay: delay }));
   }
 
   // ---------------------------------------------------------------------------
   //                               Game Logic
   // ---------------------------------------------------------------------------
 
+  /**
+   * Opens the position of a shared link (see `encodeSharedPosition`):
+   *  - the settings of the position are stored, played by local players
+   *    (who can play every variant) from the side making the first move,
+   *  - the board, the last move and the side to move replace the game,
+   *    without a move history,
+   *  - a malformed link only shows an error and keeps the current game.
+   *
+   * The link is removed from the URL afterwards, so reloading the page
+   * keeps the game played on from the position.
+   *
+   * @param code Code of the shared position.
+   */
+  private openSharedPosition(code: string): void {
+    try {
+      const position = decodeSharedPosition(code);
+      this.#store.dispatch(
+        modifyGameSettings({
+          variant: position.variant,
+          // Fixed boards (e.g. Ultimate, Order and Chaos)
+          // keep the dimensions of the classic settings
+          ...(!gameVariant(position.variant).fixedBoard
+            ? {
+                rows: position.rows,
+                columns: position.columns,
+                winLength: position.winLength,
+              }
+            : {}),
+          gravity: position.gravity,
+          vanishing: position.vanishing,
+          misere: position.misere,
+          players: position.players,
+          opponent: 'player',
+          playerMarkup: position.firstMarkup,
+          firstMove: 'human',
+          timeControl: 'none',
+        })
+      );
+      this.#store.dispatch(
+        modifyGameInfo({
+          ...sharedPositionInfo(position),
+          timeout: null,
+          started: false,
+          playerSpentTime: { player_X: 0, player_O: 0 },
+          loadedGameName: undefined,
+        })
+      );
+      this.#snackbarHandler.addElement(
+        this.translation.translate('snackbar.sharedPositionOpened'),
+        false
+      );
+    } catch (error) {
+      this.#snackbarHandler.addElement(
+        this.translation.translate('snackbar.invalidGameLink', {
+          message: this.translation.translateError(error),
+        }),
+        true
+      );
+    }
+    this.#router.navigateTo(
+      ['tic-tac-toe'],
+      { [SHARE_LINK_PARAM]: null },
+      'merge'
+    );
+  }
+
   /**
    * Two-player mode step handler:
    *  - performs a winner check,
    *  - updates results accordingly,
    *  - records the previous step.
+   *
+   * Results are only counted when the game was undecided before this step,
+   * so replaying an already finished game (redo) does not count it twice.
    */
-  private async twoPlayerMode(): Promise<void> {
-    await this.winnerCheck();
-    this.dispatchResults();
+  private twoPlayerMode(): void {
+    const alreadyDecided = !!this.#winner();
+    this.winnerCheck();
+    if (!alreadyDecided) {
+      this.dispatchResults();
+    }
     this.#previousStep = this.#step();
   }
 
   /**
    * Handles a step cycle in AI mode:
-   *  - performs AI move via GameLogic,
-   *  - updates winner and lastMove,
+   *  - performs AI move with the markup to move via GameLogic
+   *    (backend or offline engine, Ultimate games always offline);
+   *    in spectator mode each markup plays with its own difficulty level,
+   *  - updates winner, winning line and lastMove,
+   *  - falls back to a local winner check when no move is returned,
    *  - tracks results and persists them if user is authenticated.
+   *
+   * Skipped when the game is already decided (e.g. a finished game replayed by redo)
+   * or while a previous AI move is still being computed.
    */
   private async computerMode(): Promise<void> {
-    const board = this.#store.selectSignal(selectActualBoard)();
+    if (this.#winner() || this.#computerMoving) return;
+    this.#computerMoving = true;
+    try {
+      await this.playComputerMove();
+    } finally {
+      this.#computerMoving = false;
+    }
+  }
+
+  /**
+   * Requests and applies a single AI move, see {@link computerMode}.
+   */
+  private async playComputerMove(): Promise<void> {
+    // Before the first move the board is not stored yet
+    const board =
+      this.#store.selectSignal(selectActualBoard)() ??
+      (this.#step() === 0
+        ? boardAfterMoves(this.#rows(), this.#columns(), [])
+        : undefined);
     if (board) {
-      const result = await this.#gameLogic.aiMove(
+      const markup = markupByStep(this.#step(), this.#firstMarkup());
+      const hardness =
+        this.#opponent() === 'spectator' && markup === 'x'
+          ? this.#secondHardness()
+          : this.#hardness();
+      const result = await this.#rules().aiMove?.(
+        this.#gameLogic,
         board,
-        this.actualMarkup()!,
-        this.#hardness()!,
-        this.#lastMove()!
+        markup,
+        hardness!,
+        this.#aiEngine(),
+        this.variantContext()
       );
 
       if (result?.winner) {
+        // The winning line is not part of the AI response, so it is computed locally
+        const winningLine =
+          result.winner === 'draw' ? null : this.evaluate(result.board).line;
         this.#store.dispatch(
-          modifyGameInfo({ winner: result.winner, started: false })
+          modifyGameInfo({ winner: result.winner, winningLine, started: false })
         );
         if (result.winner === 'o' || result.winner === 'x') {
           this.#store.dispatch(
@@ -257,6 +957,11 @@ export class Game implements OnInit {
         this.#store.dispatch(modifyGameInfo({ lastMove: result.lastMove }));
       }
 
+      // No move is returned when the player's last move already decided the game
+      if (!result) {
+        this.winnerCheck();
+      }
+
       this.#previousStep = this.#step();
     }
 
@@ -265,64 +970,173 @@ export class Game implements OnInit {
   }
 
   /**
-   * Performs a full winner evaluation on the current board state.
-   * If a winner is detected, the store is immediately updated.
+   * Collects the state of the game the hooks of the variant may need.
+   * The optional rules of the settings only apply to variants allowing them
+   * (see `GameVariant.optionalRules`).
+   *
+   * @returns The {@link VariantContext} of the current position.
    */
-  private async winnerCheck(): Promise<void> {
+  private variantContext(): VariantContext {
+    const optional = this.#rules().optionalRules;
+    return {
+      winLength: this.#winLength(),
+      step: this.#step(),
+      firstMarkup: this.#firstMarkup(),
+      players: this.#players(),
+      lastMove: this.#lastMove(),
+      quantumBoard: this.#quantumBoard(),
+      gravity: optional && !!this.#gravity(),
+      markOrder:
+        optional && this.#vanishing()
+          ? this.#markOrder() ?? { x: [], o: [] }
+          : null,
+      misere: optional && !!this.#misere(),
+    };
+  }
+
+  /**
+   * Evaluates a board with the rules of the played variant (see `gameVariant`).
+   * In Ultimate games the winning line holds the coordinates of the winning
+   * sub-boards; in Wild and Order and Chaos games the winner is the side
+   * credited with the result rather than the markup of the line.
+   *
+   * @param board Board to evaluate (the flat 9x9 board in Ultimate games).
+   * @returns The winner and the winning line of the board.
+   */
+  private evaluate(board: string[][]): BoardEvaluation {
+    return this.#rules().evaluate(board, this.variantContext());
+  }
+
+  /**
+   * Performs a full winner evaluation on the current board state
+   * with the local rules engine.
+   * If a winner is detected, the store is immediately updated
+   * with the winner and the cells of the winning line.
+   * When enabled, the backend result is requested as a non-blocking cross-check
+   * (single-board two-player games only).
+   */
+  private winnerCheck(): void {
     const board = this.#store.selectSignal(selectActualBoard)();
     if (board) {
-      const incomingBoard = await this.#gameLogic.hasWinner(board);
-      if (incomingBoard?.winner) {
+      const evaluation = this.evaluate(board);
+      if (evaluation.winner) {
         this.#store.dispatch(
-          modifyGameInfo({ winner: incomingBoard.winner, started: false })
+          modifyGameInfo({
+            winner: evaluation.winner,
+            winningLine: evaluation.line,
+            started: false,
+          })
         );
       }
+
+      // Neither the other variants nor the third markup are known by the backend
+      if (
+        SERVER_WINNER_CROSS_CHECK &&
+        this.#variant() === CLASSIC_VARIANT.id &&
+        this.#players() === 2
+      ) {
+        this.#gameLogic
+          .crossCheckWinner(board, evaluation, this.#winLength())
+          .then((agrees) => {
+            if (agrees === false) {
+              this.#snackbarHandler.addElement(
+                this.translation.translate('snackbar.winnerMismatch'),
+                true
+              );
+            }
+          });
+      }
     }
   }
 
   /**
-   * Updates the stored result counters based on the current winner.
-   * Increments win/loss/draw statistics in the NgRx store.
+   * Returns the spoken name of a side, e.g. "You", "Player 2".
+   *
+   * @param markup Markup of the side.
+   * @returns The name of the side in announcements.
+   */
+  private spokenName(markup: Markup): string {
+    return (
+      this.#sideNames()[markup] ??
+      this.translation.translate(`markup.${markup}`)
+    );
+  }
+
+  /**
+   * Whether a side is played by the user against the computer,
+   * whose announcements address the user (e.g. "Your turn.").
+   *
+   * @param markup Markup of the side.
+   * @returns `true` for the player's side in computer mode.
+   */
+  private isPlayer(markup: Markup): boolean {
+    return this.#opponent() === 'computer' && markup === this.#playerMarkup();
+  }
+
+  /**
+   * Returns the announcement of a result, e.g. "You won.", "Draw.";
+   * a game lost on time starts with whose time is up.
+   *
+   * @param winner Side credited with the result, or 'draw'.
+   * @returns The announced message.
+   */
+  private resultMessage(winner: NonNullable<GameInfo['winner']>): string {
+    if (winner === 'draw') return this.translation.translate('announce.draw');
+    const timeout = this.#gameInfo().timeout;
+    const result = this.isPlayer(winner)
+      ? this.translation.translate('announce.youWon')
+      : this.translation.translate('announce.won', {
+          side: this.spokenName(winner),
+        });
+    return timeout
+      ? `${this.translation.translate('announce.timeUp', {
+          side: this.spokenName(timeout),
+        })} ${result}`
+      : result;
+  }
+
+  /**
+   * Updates the stored result counters based on the current result.
+   * Increments win/loss/draw statistics in the NgRx store:
+   * the winner gets a win and every other seated player a loss
+   * (both others in three-player games);
+   * under the misère rule the side completing a line is counted as the loser.
    */
   private dispatchResults(): void {
-    const winner = this.#winner();
+    const winner = this.#resultWinner();
     const results = this.#results()!;
-
-    const base = {
-      player_O_Lose: results.player_O_Lose!,
-      player_X_Lose: results.player_X_Lose!,
-      player_O_Win: results.player_O_Win!,
-      player_X_Win: results.player_X_Win!,
-      draw: results.draw!,
+    const updated: NonNullable<GameInfo['results']> = {
+      ...results,
+      draw: results.draw! + (winner === 'draw' ? 1 : 0),
     };
 
-    const changes: Partial<typeof base> = {};
-
-    if (winner === 'o') {
-      changes.player_O_Win = base.player_O_Win + 1;
-      changes.player_X_Lose = base.player_X_Lose + 1;
-    } else if (winner === 'x') {
-      changes.player_X_Win = base.player_X_Win + 1;
-      changes.player_O_Lose = base.player_O_Lose + 1;
-    } else if (winner === 'draw') {
-      changes.draw = base.draw + 1;
+    for (const markup of turnOrder('o', this.#players())) {
+      const { win, lose } = MARKUP_KEYS[markup];
+      const won = winner === markup;
+      const lost = !!winner && winner !== 'draw' && !won;
+      updated[win] = (results[win] ?? 0) + (won ? 1 : 0);
+      updated[lose] = (results[lose] ?? 0) + (lost ? 1 : 0);
     }
 
-    this.#store.dispatch(modifyGameInfo({ results: { ...base, ...changes } }));
+    this.#store.dispatch(modifyGameInfo({ results: updated }));
   }
 
   /**
    * Persists user statistics (wins or losses) after the match ends,
    * provided the user is authenticated.
+   * A win of the player's markup is a win, a win of the computer's markup a loss
+   * (under the misère rule the side completing a line loses).
+   * Games watched in spectator mode are not counted.
    */
   private saveResult(): void {
+    if (this.#opponent() !== 'computer') return;
     const user = this.#auth.user();
-    const winner = this.#winner();
-
-    if (winner === 'o') {
+    const winner = this.#resultWinner();
+    const playerMarkup = this.#playerMarkup();
 
+    if (winner === playerMarkup) {
       this.#auth.updateUser({ winNumber: (user?.winNumber ?? 0) + 1 });
-    } else if (winner === 'x') {
+    } else if (winner === opposingMarkup(playerMarkup)) {
       this.#auth.updateUser({ loseNumber: (user?.loseNumber ?? 0) + 1 });
     }
   }
@@ -0,0 +1,126 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { MarkupPicker } from './markup-picker';
+import {
+  InputSignal,
+  provideZonelessChangeDetection,
+  signal,
+  WritableSignal,
+} from '@angular/core';
+import { By } from '@angular/platform-browser';
+import { PlayerMarkup } from '../../../utils/types/player-markup.type';
+import { Translation } from '../../../services/translation.service';
+
+/**
+ * @fileoverview
+ * Unit tests for the MarkupPicker component.
+ *
+ * The tests verify:
+ * - Checked state of the chosen markup
+ * - Emitted pick event
+ * - Disabled choice once the game is decided
+ * - Labels in the chosen language
+ */
+
+describe('MarkupPicker', () => {
+  /** The MarkupPicker component instance under test. */
+  let component: MarkupPicker;
+
+  /** Angular test fixture for the MarkupPicker component. */
+  let fixture: ComponentFixture<MarkupPicker>;
+
+  /** Writable signal replacing the `markup` input. */
+  let markupSignal: WritableSignal<PlayerMarkup>;
+
+  /** Writable signal replacing the `finished` input. */
+  let finishedSignal: WritableSignal<boolean>;
+
+  /**
+   * Returns the rendered button with the given ARIA label.
+   *
+   * @param label ARIA label of the button.
+   */
+  const getButton = (label: string) =>
+    fixture.debugElement.query(By.css(`button[aria-label="${label}"]`));
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [MarkupPicker],
+      providers: [provideZonelessChangeDetection()],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(MarkupPicker);
+    component = fixture.componentInstance;
+
+    markupSignal = signal('x');
+    finishedSignal = signal(false);
+    (component as any).markup =
+      markupSignal as unknown as InputSignal<PlayerMarkup>;
+    (component as any).finished =
+      finishedSignal as unknown as InputSignal<boolean>;
+
+    fixture.detectChanges();
+  });
+
+  /**
+   * HTML tests
+   */
+  describe('HTML:', () => {
+    /**
+     * Verifies that only the chosen markup is checked.
+     */
+    it('Should check the chosen markup', () => {
+      expect(getButton('Place cross.').attributes['aria-checked']).toBe(
+        'true'
+      );
+      expect(getButton('Place circle.').attributes['aria-checked']).toBe(
+        'false'
+      );
+
+      markupSignal.set('o');
+      fixture.detectChanges();
+
+      expect(getButton('Place circle.').attributes['aria-checked']).toBe(
+        'true'
+      );
+    });
+
+    /**
+     * Verifies that clicking a button emits its markup.
+     */
+    it('Should emit the clicked markup', () => {
+      spyOn(component.pickEvent, 'emit');
+
+      getButton('Place circle.').triggerEventHandler('click');
+
+      expect(component.pickEvent.emit).toHaveBeenCalledWith('o');
+    });
+
+    /**
+     * Verifies that the choice is disabled once the game is decided.
+     */
+    it('Should disable the buttons when the game is finished', () => {
+      finishedSignal.set(true);
+      fixture.detectChanges();
+
+      expect(getButton('Place cross.').nativeElement.disabled).toBeTrue();
+      expect(getButton('Place circle.').nativeElement.disabled).toBeTrue();
+    });
+
+    /**
+     * Verifies that the buttons are labelled in the chosen language.
+     */
+    it('Should label the buttons in the chosen language', () => {
+      const translation = TestBed.inject(Translation);
+      // The language switch must not be persisted for the other tests
+      spyOn(localStorage, 'setItem');
+
+      translation.language = 'hu';
+      fixture.detectChanges();
+
+      expect(getButton('kereszt lerakása.')).toBeTruthy();
+      expect(getButton('kör lerakása.')).toBeTruthy();
+
+      translation.language = 'en';
+    });
+  });
+});
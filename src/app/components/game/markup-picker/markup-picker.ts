@@ -0,0 +1,59 @@
+import {
+  Component,
+  inject,
+  input,
+  InputSignal,
+  output,
+  OutputEmitterRef,
+} from '@angular/core';
+import { PLAYER_MARKUPS } from '../../../utils/constants/player-markup.constant';
+import { PlayerMarkup } from '../../../utils/types/player-markup.type';
+import { Translation } from '../../../services/translation.service';
+
+/**
+ * MarkupPicker component chooses the markup placed by the next click
+ * in variants where the player to move may place either one
+ * (Wild and Order and Chaos).
+ *
+ * The component:
+ *  - shows a toggle button for the cross and for the circle,
+ *  - marks the chosen one as checked,
+ *  - is disabled once the game is decided.
+ *
+ * It holds no state itself: every choice is emitted to the parent game.
+ */
+@Component({
+  selector: 'div[appMarkupPicker]',
+  imports: [],
+  templateUrl: './markup-picker.html',
+  styleUrl: './markup-picker.scss',
+})
+export class MarkupPicker {
+  /** Markup placed by the next click. */
+  markup: InputSignal<PlayerMarkup> = input.required();
+
+  /** Whether the game is decided, disabling the choice. */
+  finished: InputSignal<boolean> = input.required();
+
+  /** Event emitted with the markup chosen by the player. */
+  pickEvent: OutputEmitterRef<PlayerMarkup> = output();
+
+  /** Translation service for the labels of the choice */
+  protected translation: Translation = inject(Translation);
+
+  /** Markups that can be chosen, in the order of the side panels. */
+  protected readonly markups = PLAYER_MARKUPS;
+
+  /**
+   * Returns the screen-reader label of the button placing the given markup,
+   * translated into the chosen language.
+   *
+   * @param markup Markup placed by the button.
+   * @returns The label of the button.
+   */
+  protected label(markup: PlayerMarkup): string {
+    return this.translation.translate('picker.place', {
+      markup: this.translation.translate(`markup.${markup}`),
+    });
+  }
+}
@@ -0,0 +1,182 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { MoveList } from './move-list';
+import {
+  InputSignal,
+  provideZonelessChangeDetection,
+  signal,
+  WritableSignal,
+} from '@angular/core';
+import { By } from '@angular/platform-browser';
+import { MoveRecord } from '../../../utils/interfaces/move-record.interface';
+import { PlayerCount } from '../../../utils/types/player-count.type';
+
+/**
+ * @fileoverview
+ * Unit tests for the MoveList component.
+ *
+ * The tests verify:
+ * - Numbered turns of the move history in notation
+ * - Emitted preview events, returning to the game with the latest move
+ * - The back button and the coordinates toggle
+ */
+
+describe('MoveList', () => {
+  /** The MoveList component instance under test. */
+  let component: MoveList;
+
+  /** Angular test fixture for the MoveList component. */
+  let fixture: ComponentFixture<MoveList>;
+
+  /** Writable signal replacing the `moves` input. */
+  let movesSignal: WritableSignal<MoveRecord[]>;
+
+  /** Writable signal replacing the `players` input. */
+  let playersSignal: WritableSignal<PlayerCount>;
+
+  /** Writable signal replacing the `position` input. */
+  let positionSignal: WritableSignal<number | null>;
+
+  /** Writable signal replacing the `coordinates` input. */
+  let coordinatesSignal: WritableSignal<boolean | null>;
+
+  /** Moves of a short two-player game. */
+  const moves: MoveRecord[] = [
+    { row: 1, column: 1, markup: 'o', timestamp: 1 },
+    { row: 2, column: 2, markup: 'x', timestamp: 2 },
+    { row: 0, column: 0, markup: 'o', timestamp: 3 },
+  ];
+
+  /** Returns the texts of the rendered turns. */
+  const getTurns = () =>
+    fixture.debugElement
+      .queryAll(By.css('li'))
+      .map((turn) =>
+        turn.nativeElement.textContent.trim().replace(/\s+/g, ' ')
+      );
+
+  /**
+   * Returns the rendered button with the given ARIA label.
+   *
+   * @param label ARIA label of the button.
+   */
+  const getButton = (label: string) =>
+    fixture.debugElement.query(By.css(`button[aria-label="${label}"]`));
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [MoveList],
+      providers: [provideZonelessChangeDetection()],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(MoveList);
+    component = fixture.componentInstance;
+
+    movesSignal = signal(moves);
+    playersSignal = signal(2);
+    positionSignal = signal(null);
+    coordinatesSignal = signal(false);
+    component['moves'] =
+      movesSignal as unknown as InputSignal<MoveRecord[]>;
+    component['players'] =
+      playersSignal as unknown as InputSignal<PlayerCount>;
+    component['choosesMarkup'] = signal(
+      false
+    ) as unknown as InputSignal<boolean>;
+    component['position'] = positionSignal as unknown as InputSignal<
+      number | null
+    >;
+    component['coordinates'] = coordinatesSignal as unknown as InputSignal<
+      boolean | null
+    >;
+
+    fixture.detectChanges();
+  });
+
+  /**
+   * HTML tests
+   */
+  describe('HTML:', () => {
+    /**
+     * Verifies that the moves are listed in numbered turns.
+     */
+    it('Should list the moves in numbered turns', () => {
+      expect(getTurns()).toEqual(['1. b2 c3', '2. a1']);
+
+      playersSignal.set(3);
+      fixture.detectChanges();
+
+      expect(getTurns()).toEqual(['1. b2 c3 a1']);
+    });
+
+    /**
+     * Verifies that the game without moves shows a placeholder.
+     */
+    it('Should show a placeholder without moves', () => {
+      movesSignal.set([]);
+      fixture.detectChanges();
+
+      expect(getTurns()).toEqual([]);
+      expect(fixture.nativeElement.textContent).toContain('No moves yet.');
+    });
+
+    /**
+     * Verifies that the move of the shown position is marked as current.
+     */
+    it('Should mark the move of the shown position', () => {
+      expect(getButton('Move 3: a1.').attributes['aria-current']).toBe('step');
+
+      positionSignal.set(1);
+      fixture.detectChanges();
+
+      expect(getButton('Move 1: b2.').attributes['aria-current']).toBe('step');
+      expect(getButton('Move 3: a1.').attributes['aria-current']).toBeUndefined();
+    });
+
+    /**
+     * Verifies that clicking a move previews its position
+     * and the latest move returns to the game.
+     */
+    it('Should emit the position of the clicked move', () => {
+      spyOn(component.previewEvent, 'emit');
+
+      getButton('Move 2: c3.').triggerEventHandler('click');
+      getButton('Move 3: a1.').triggerEventHandler('click');
+
+      expect(component.previewEvent.emit).toHaveBeenCalledWith(2);
+      expect(component.previewEvent.emit).toHaveBeenCalledWith(null);
+    });
+
+    /**
+     * Verifies that the back button is only shown while previewing.
+     */
+    it('Should return to the game with the back button', () => {
+      spyOn(component.previewEvent, 'emit');
+      expect(fixture.debugElement.query(By.css('.own-back-button'))).toBeNull();
+
+      positionSignal.set(1);
+      fixture.detectChanges();
+      fixture.debugElement
+        .query(By.css('.own-back-button'))
+        .triggerEventHandler('click');
+
+      expect(component.previewEvent.emit).toHaveBeenCalledOnceWith(null);
+    });
+
+    /**
+     * Verifies that the coordinates toggle emits the opposite visibility
+     * and is hidden on boards without labels.
+     */
+    it('Should toggle the coordinates', () => {
+      spyOn(component.coordinatesEvent, 'emit');
+
+      getButton('Show coordinates.').triggerEventHandler('click');
+
+      expect(component.coordinatesEvent.emit).toHaveBeenCalledOnceWith(true);
+
+      coordinatesSignal.set(null);
+      fixture.detectChanges();
+
+      expect(getButton('Show coordinates.')).toBeNull();
+    });
+  });
+});
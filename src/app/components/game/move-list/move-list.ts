@@ -0,0 +1,84 @@
+import {
+  Component,
+  computed,
+  inject,
+  input,
+  InputSignal,
+  output,
+  OutputEmitterRef,
+  Signal,
+} from '@angular/core';
+import { MoveRecord } from '../../../utils/interfaces/move-record.interface';
+import { NotationTurn } from '../../../utils/interfaces/notation-turn.interface';
+import { notationTurns } from '../../../utils/functions/notation.function';
+import { PlayerCount } from '../../../utils/types/player-count.type';
+import { Translation } from '../../../services/translation.service';
+
+/**
+ * MoveList component shows the moves of the current game in notation,
+ * one numbered line per turn (e.g. "1. b2 c3").
+ *
+ * The component:
+ *  - lists every move of the move history, scrollable on long games,
+ *  - previews the position after a move when it is clicked,
+ *  - returns to the game with the latest move or the back button,
+ *  - toggles the file and rank labels of the board (grid boards only).
+ *
+ * It holds no state itself: every choice is emitted to the parent game.
+ */
+@Component({
+  selector: 'section[appMoveList]',
+  imports: [],
+  templateUrl: './move-list.html',
+  styleUrl: './move-list.scss',
+})
+export class MoveList {
+  /** Every move of the current game, in playing order. */
+  moves: InputSignal<MoveRecord[]> = input.required();
+
+  /** Number of players seated in the game (moves per turn). */
+  players: InputSignal<PlayerCount> = input.required();
+
+  /** Whether the player to move chooses the markup placed. */
+  choosesMarkup: InputSignal<boolean> = input.required();
+
+  /** Number of moves of the previewed position, `null` while the game is shown. */
+  position: InputSignal<number | null> = input.required();
+
+  /**
+   * Whether the file and rank labels are shown,
+   * `null` on boards without labels (the toggle is hidden then).
+   */
+  coordinates: InputSignal<boolean | null> = input<boolean | null>(null);
+
+  /** Event emitted with the number of moves to preview, `null` to return to the game. */
+  previewEvent: OutputEmitterRef<number | null> = output();
+
+  /** Event emitted with the new visibility of the coordinate labels. */
+  coordinatesEvent: OutputEmitterRef<boolean> = output();
+
+  /** Translation service for the labels of the list */
+  protected translation: Translation = inject(Translation);
+
+  /** Numbered turns of the move history. */
+  protected turns: Signal<NotationTurn[]> = computed(() =>
+    notationTurns(this.moves(), this.players(), this.choosesMarkup())
+  );
+
+  /** Number of moves of the position on the board. */
+  protected shown: Signal<number> = computed(
+    () => this.position() ?? this.moves().length
+  );
+
+  /**
+   * Previews the position after the given number of moves.
+   * Choosing the latest move returns to the game.
+   *
+   * @param position Number of moves of the position.
+   */
+  protected preview(position: number): void {
+    this.previewEvent.emit(
+      position === this.moves().length ? null : position
+    );
+  }
+}
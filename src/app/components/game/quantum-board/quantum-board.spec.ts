@@ -0,0 +1,409 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { QuantumBoard } from './quantum-board';
+import {
+  InputSignal,
+  provideZonelessChangeDetection,
+  signal,
+  WritableSignal,
+} from '@angular/core';
+import { Store } from '@ngrx/store';
+import { provideMockStore } from '@ngrx/store/testing';
+import { By } from '@angular/platform-browser';
+import { LastMove } from '../../../utils/interfaces/last-move.interface';
+import { MoveRecord } from '../../../utils/interfaces/move-record.interface';
+import { QuantumState } from '../../../utils/interfaces/quantum-state.interface';
+import { Markup } from '../../../utils/types/markup.type';
+import {
+  selectActualMarkup,
+  selectQuantumBoard,
+} from '../../../store/selectors/game-info.selector';
+import { selectFirstMarkup } from '../../../store/selectors/game-settings.selector';
+import { modifyGameInfo } from '../../../store/actions/game-info-modify.action';
+import { recordGameMove } from '../../../store/actions/game-info-move-record.action';
+import {
+  classicalBoardOf,
+  emptyQuantumBoard,
+  quantumBoardOf,
+} from '../../../utils/functions/quantum.function';
+import { Translation } from '../../../services/translation.service';
+
+/**
+ * @fileoverview
+ * Unit tests for the `QuantumBoard` component, which renders the board of the
+ * quantum variant: spooky marks in superposition and collapsed classical marks.
+ *
+ * Covers:
+ *  - rendering of the cells, the spooky marks and the classical marks,
+ *  - screen-reader labels of the cells in the chosen language,
+ *  - placing a spooky mark with two clicks (and cancelling the first one),
+ *  - choosing the collapse of a cycle before placing the next mark,
+ *  - ending the turn when the collapse decides the game,
+ *  - placing the classical mark into the last open cell,
+ *  - read-only mode used by the replay viewer.
+ */
+
+describe('QuantumBoard', () => {
+  /** Instance of the QuantumBoard component under test. */
+  let component: QuantumBoard;
+
+  /** Angular test fixture providing access to the component instance and DOM. */
+  let fixture: ComponentFixture<QuantumBoard>;
+
+  /** Writable signal mocking the quantum board selected from the NgRx store. */
+  let quantumBoardSignal: WritableSignal<QuantumState | null>;
+
+  /** Writable signal mocking the markup to move selected from the NgRx store. */
+  let actualMarkupSignal: WritableSignal<Markup>;
+
+  /** Injected NgRx Store instance, spied and controlled during tests. */
+  let store: Store;
+
+  /**
+   * Builds a spooky turn of the move history.
+   *
+   * @param markup Markup placing the mark.
+   * @param cells The two cells of the spooky mark.
+   * @param collapse Cell the pending mark was collapsed into at the start of the turn.
+   */
+  const spookyTurn = (
+    markup: 'x' | 'o',
+    [first, second]: [LastMove, LastMove],
+    collapse?: LastMove
+  ): MoveRecord => ({
+    ...first,
+    markup,
+    timestamp: 0,
+    entangled: second,
+    ...(collapse ? { collapse } : {}),
+  });
+
+  /**
+   * Stores the quantum board reached after the given turns
+   * and sets the step and the markup to move accordingly.
+   *
+   * @param moves Turns of the game.
+   */
+  const playTurns = (moves: MoveRecord[]) => {
+    quantumBoardSignal.set(quantumBoardOf(moves));
+    actualMarkupSignal.set(moves.length % 2 ? 'o' : 'x');
+    const stepSignal = component['step'] as unknown as WritableSignal<number>;
+    stepSignal.set(moves.length);
+  };
+
+  /**
+   * Clicks a cell of the board.
+   *
+   * @param row Row of the cell.
+   * @param column Column of the cell.
+   */
+  const click = (row: number, column: number) => {
+    const cells = fixture.debugElement.queryAll(By.css('.own-quantum-cell'));
+    cells[row * 3 + column].triggerEventHandler('click');
+    fixture.detectChanges();
+  };
+
+  /** Turns closing a cycle between the top left, top and middle cells. */
+  const cycleTurns: MoveRecord[] = [
+    spookyTurn('x', [
+      { row: 0, column: 0 },
+      { row: 0, column: 1 },
+    ]),
+    spookyTurn('o', [
+      { row: 0, column: 1 },
+      { row: 1, column: 1 },
+    ]),
+    spookyTurn('x', [
+      { row: 1, column: 1 },
+      { row: 0, column: 0 },
+    ]),
+  ];
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [QuantumBoard],
+      providers: [
+        provideZonelessChangeDetection(),
+        provideMockStore({
+          initialState: {},
+        }),
+      ],
+    }).compileComponents();
+
+    store = TestBed.inject(Store);
+
+    quantumBoardSignal = signal<QuantumState | null>(null);
+    actualMarkupSignal = signal<Markup>('x');
+
+    spyOn(store, 'selectSignal').and.callFake(((selector: any) => {
+      if (selector === selectQuantumBoard) {
+        return quantumBoardSignal;
+      } else if (selector === selectActualMarkup) {
+        return actualMarkupSignal;
+      } else if (selector === selectFirstMarkup) {
+        return signal('x');
+      }
+      return signal(undefined);
+    }) as typeof store.selectSignal);
+
+    fixture = TestBed.createComponent(QuantumBoard);
+    component = fixture.componentInstance;
+
+    component['step'] = signal(0) as unknown as InputSignal<number>;
+
+    component['clickPermission'] = signal(
+      true
+    ) as unknown as InputSignal<boolean>;
+
+    component['lastMove'] = signal(undefined) as unknown as InputSignal<
+      LastMove | undefined
+    >;
+
+    fixture.detectChanges();
+  });
+
+  describe('HTML:', () => {
+    /**
+     * Verifies that the board renders a 3x3 grid of cells.
+     */
+    it('Should render 9 cells', () => {
+      expect(
+        fixture.debugElement.queryAll(By.css('.own-quantum-cell')).length
+      ).toBe(9);
+    });
+
+    /**
+     * Verifies that spooky marks are shown with their move numbers
+     * and that the mark waiting to be collapsed is emphasized.
+     */
+    it('Should render the spooky marks with their move numbers', () => {
+      playTurns(cycleTurns);
+      fixture.detectChanges();
+
+      const cell = fixture.debugElement.queryAll(By.css('.own-quantum-cell'))[0];
+      const marks = cell.queryAll(By.css('.own-spooky-mark'));
+
+      expect(marks.map((mark) => mark.nativeElement.textContent)).toEqual([
+        'x1',
+        'x3',
+      ]);
+      expect(marks[1].classes['own-cycle-mark']).toBeTrue();
+      expect(cell.attributes['aria-label']).toBe(
+        'spooky cross 1, cross 3 at row 1, column 1, collapse option.'
+      );
+    });
+
+    /**
+     * Verifies that the cells are labelled in the chosen language.
+     */
+    it('Should label the cells in the chosen language', () => {
+      const translation = TestBed.inject(Translation);
+      // The language switch must not be persisted for the other tests
+      spyOn(localStorage, 'setItem');
+      playTurns(cycleTurns);
+
+      translation.language = 'hu';
+      fixture.detectChanges();
+
+      const cell = fixture.debugElement.queryAll(By.css('.own-quantum-cell'))[0];
+      expect(cell.attributes['aria-label']).toBe(
+        'kísérteties jelek: kereszt 1, kereszt 3, 1. sor, 1. oszlop, összeomlási lehetőség.'
+      );
+
+      translation.language = 'en';
+    });
+  });
+
+  describe('Component methods:', () => {
+    /**
+     * Verifies that a spooky mark is placed by two clicks
+     * and stored as a single turn.
+     */
+    it('[select] should place a spooky mark into the two clicked cells', () => {
+      spyOn(store, 'dispatch');
+      spyOn(Date, 'now').and.returnValue(1234);
+
+      click(0, 0);
+      expect(component['firstCell']()).toEqual({ row: 0, column: 0 });
+      expect(store.dispatch).not.toHaveBeenCalled();
+
+      click(2, 2);
+
+      const move: MoveRecord = {
+        row: 0,
+        column: 0,
+        markup: 'x',
+        timestamp: 1234,
+        entangled: { row: 2, column: 2 },
+      };
+      const board = quantumBoardOf([move]);
+
+      expect(store.dispatch).toHaveBeenCalledWith(
+        modifyGameInfo({
+          actualBoard: classicalBoardOf(board),
+          quantumBoard: board,
+          lastMove: { row: 0, column: 0 },
+          actualStep: 1,
+        })
+      );
+      expect(store.dispatch).toHaveBeenCalledWith(recordGameMove(move));
+      expect(component['firstCell']()).toBeNull();
+    });
+
+    /**
+     * Verifies that clicking the first cell again cancels it.
+     */
+    it('[select] should cancel the first cell when it is clicked again', () => {
+      spyOn(store, 'dispatch');
+
+      click(1, 1);
+      click(1, 1);
+
+      expect(component['firstCell']()).toBeNull();
+      expect(store.dispatch).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Verifies that a pending cycle has to be collapsed first,
+     * and that the collapse is recorded with the next spooky mark.
+     */
+    it('[select] should collapse a pending cycle before the next mark', () => {
+      playTurns(cycleTurns);
+      fixture.detectChanges();
+      spyOn(store, 'dispatch');
+      spyOn(Date, 'now').and.returnValue(1234);
+
+      // Cells outside the cycle cannot be chosen while collapsing
+      click(2, 2);
+      expect(component['collapseChoice']()).toBeNull();
+
+      click(0, 0);
+      expect(component['collapsing']()).toBeFalse();
+      expect(component['position']().classical[0][0]).toEqual({
+        markup: 'x',
+        move: 3,
+      });
+
+      click(2, 0);
+      click(2, 2);
+
+      expect(store.dispatch).toHaveBeenCalledWith(
+        recordGameMove({
+          row: 2,
+          column: 0,
+          markup: 'o',
+          timestamp: 1234,
+          entangled: { row: 2, column: 2 },
+          collapse: { row: 0, column: 0 },
+        })
+      );
+    });
+
+    /**
+     * Verifies that the turn ends right away when the collapse decides the game.
+     */
+    it('[select] should end the turn when the collapse decides the game', () => {
+      const turns = [
+        ...cycleTurns,
+        spookyTurn(
+          'o',
+          [
+            { row: 2, column: 2 },
+            { row: 2, column: 0 },
+          ],
+          { row: 0, column: 0 }
+        ),
+        spookyTurn('x', [
+          { row: 0, column: 2 },
+          { row: 1, column: 0 },
+        ]),
+        spookyTurn('o', [
+          { row: 1, column: 0 },
+          { row: 0, column: 2 },
+        ]),
+      ];
+      playTurns(turns);
+      fixture.detectChanges();
+      spyOn(store, 'dispatch');
+      spyOn(Date, 'now').and.returnValue(1234);
+
+      click(1, 0);
+
+      const move: MoveRecord = {
+        row: 1,
+        column: 0,
+        markup: 'x',
+        timestamp: 1234,
+        collapse: { row: 1, column: 0 },
+      };
+      const board = quantumBoardOf([...turns, move]);
+
+      expect(classicalBoardOf(board)[0]).toEqual(['x', 'x', 'x']);
+      expect(store.dispatch).toHaveBeenCalledWith(
+        modifyGameInfo({
+          actualBoard: classicalBoardOf(board),
+          quantumBoard: board,
+          lastMove: { row: 1, column: 0 },
+          actualStep: 7,
+        })
+      );
+      expect(store.dispatch).toHaveBeenCalledWith(recordGameMove(move));
+    });
+
+    /**
+     * Verifies that the last open cell receives a classical mark with a single click.
+     */
+    it('[select] should place a classical mark into the last open cell', () => {
+      const board = emptyQuantumBoard();
+      [
+        ['x', 'o', 'x'],
+        ['x', 'o', 'o'],
+        ['o', 'x', ''],
+      ].forEach((cells, row) =>
+        cells.forEach((markup, column) => {
+          if (markup) {
+            board.classical[row][column] = {
+              markup: markup as 'x' | 'o',
+              move: row * 3 + column + 1,
+            };
+          }
+        })
+      );
+      quantumBoardSignal.set(board);
+      const stepSignal = component['step'] as unknown as WritableSignal<number>;
+      stepSignal.set(8);
+      fixture.detectChanges();
+      spyOn(store, 'dispatch');
+      spyOn(Date, 'now').and.returnValue(1234);
+
+      click(2, 2);
+
+      expect(store.dispatch).toHaveBeenCalledWith(
+        recordGameMove({ row: 2, column: 2, markup: 'x', timestamp: 1234 })
+      );
+    });
+  });
+
+  describe('Read-only mode:', () => {
+    /**
+     * Verifies that the provided board is rendered
+     * and that clicks do not write anything to the store.
+     */
+    it('Should render the read-only board without dispatching actions', () => {
+      const dispatchSpy = spyOn(store, 'dispatch');
+      const readonlyBoard = quantumBoardOf(cycleTurns);
+
+      component['readonlyBoard'] = signal(
+        readonlyBoard
+      ) as unknown as InputSignal<QuantumState | undefined>;
+      fixture.detectChanges();
+
+      click(0, 0);
+      click(2, 2);
+
+      expect(component['quantumBoard']()).toEqual(readonlyBoard);
+      expect(component['collapsing']()).toBeFalse();
+      expect(dispatchSpy).not.toHaveBeenCalled();
+    });
+  });
+});
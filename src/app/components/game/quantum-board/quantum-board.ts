@@ -0,0 +1,409 @@
+import {
+  Component,
+  computed,
+  effect,
+  HostBinding,
+  inject,
+  input,
+  InputSignal,
+  signal,
+  Signal,
+  untracked,
+  WritableSignal,
+} from '@angular/core';
+import { Store } from '@ngrx/store';
+import { LastMove } from '../../../utils/interfaces/last-move.interface';
+import { GameInfo } from '../../../utils/interfaces/game-info.interface';
+import { MoveRecord } from '../../../utils/interfaces/move-record.interface';
+import { QuantumState } from '../../../utils/interfaces/quantum-state.interface';
+import { SpookyMark } from '../../../utils/interfaces/spooky-mark.interface';
+import {
+  selectActualMarkup,
+  selectQuantumBoard,
+} from '../../../store/selectors/game-info.selector';
+import { selectFirstMarkup } from '../../../store/selectors/game-settings.selector';
+import { modifyGameInfo } from '../../../store/actions/game-info-modify.action';
+import { recordGameMove } from '../../../store/actions/game-info-move-record.action';
+import { markupByStep } from '../../../utils/functions/turn-order.function';
+import {
+  classicalBoardOf,
+  collapseQuantumMark,
+  emptyQuantumBoard,
+  evaluateQuantumBoard,
+  openQuantumCells,
+  playQuantumTurn,
+  sameCell,
+  spookyMarksIn,
+} from '../../../utils/functions/quantum.function';
+import { QUANTUM_SIZE } from '../../../utils/constants/quantum.constant';
+import { Translation } from '../../../services/translation.service';
+import { Markup } from '../../../utils/types/markup.type';
+
+/**
+ * QuantumBoard component renders the board of the quantum variant:
+ * a 3x3 board whose cells hold spooky marks in superposition
+ * and the classical marks they collapsed into, each with its move number.
+ *
+ * The component:
+ *  - shows the quantum board stored next to the classical `actualBoard` in NgRx,
+ *  - places a spooky mark into the two cells clicked one after the other
+ *    (clicking the first cell again cancels it),
+ *  - when the previous mark closed a cycle, first lets the player choose
+ *    which of its two cells it collapses into, showing the collapsed board,
+ *  - places a classical mark when only one open cell is left,
+ *  - highlights the cells of the winning line,
+ *  - stores every turn as a single record of the move history.
+ *
+ * When `readonlyBoard` is provided (e.g. in the replay viewer), the component
+ * only renders that board: the store is neither read nor written.
+ */
+@Component({
+  selector: 'section[appQuantumBoard]',
+  imports: [],
+  templateUrl: './quantum-board.html',
+  styleUrl: './quantum-board.scss',
+})
+export class QuantumBoard {
+  /** Injected NgRx store instance. */
+  #store: Store = inject(Store);
+
+  /** Translation service for the screen-reader labels. */
+  #translation: Translation = inject(Translation);
+
+  /** Quantum board stored in NgRx (NgRx -> signal). */
+  #storedBoard = this.#store.selectSignal(selectQuantumBoard);
+
+  /** Markup making the first move of the game (NgRx -> signal). */
+  #firstMarkup = this.#store.selectSignal(selectFirstMarkup);
+
+  /** Whether clicking cells is currently allowed. */
+  clickPermission: InputSignal<boolean> = input.required();
+
+  /** The last move of the game, emphasized on the board. */
+  lastMove: InputSignal<LastMove | undefined> = input.required();
+
+  /** Current step number from parent or store. */
+  step: InputSignal<number> = input.required();
+
+  /**
+   * Quantum board to render in read-only mode.
+   * When set, it replaces the stored board and no moves are played or dispatched.
+   */
+  readonlyBoard: InputSignal<QuantumState | undefined> = input<
+    QuantumState | undefined
+  >(undefined);
+
+  /** Cells of the winning line. */
+  winningLine: InputSignal<GameInfo['winningLine']> =
+    input<GameInfo['winningLine']>(null);
+
+  /** First cell of the spooky mark being placed, `null` before the first click. */
+  protected firstCell: WritableSignal<LastMove | null> = signal(null);
+
+  /**
+   * Cell the pending mark of a cycle was collapsed into in this turn,
+   * `null` while no collapse was chosen.
+   */
+  protected collapseChoice: WritableSignal<LastMove | null> = signal(null);
+
+  /**
+   * Quantum board of the game.
+   * Falls back to an empty board before the first move.
+   */
+  protected quantumBoard: Signal<QuantumState> = computed(
+    () => this.readonlyBoard() ?? this.#storedBoard() ?? emptyQuantumBoard()
+  );
+
+  /**
+   * Board the current player plays on and the board shown:
+   * the quantum board with the chosen collapse already applied.
+   */
+  protected position: Signal<QuantumState> = computed(() => {
+    const choice = this.collapseChoice();
+    return choice
+      ? collapseQuantumMark(this.quantumBoard(), choice)
+      : this.quantumBoard();
+  });
+
+  /** Whether the player has to choose a collapse before placing a mark. */
+  protected collapsing: Signal<boolean> = computed(
+    () => !this.readonlyBoard() && !!this.position().cycle
+  );
+
+  /** Whether the game is already decided (won or drawn). */
+  #decided: Signal<boolean> = computed(
+    () => !!evaluateQuantumBoard(this.quantumBoard()).winner
+  );
+
+  /**
+   * Returns the spooky marks shown in a cell.
+   *
+   * @param row Row of the cell.
+   * @param column Column of the cell.
+   * @returns Spooky marks entangled in the cell, in playing order.
+   */
+  protected spookyMarks(row: number, column: number): SpookyMark[] {
+    return spookyMarksIn(this.position(), { row, column });
+  }
+
+  /**
+   * Checks whether a cell may be clicked in the current phase of the turn:
+   * one of the two cells of the pending mark while collapsing,
+   * otherwise any cell without a classical mark.
+   *
+   * @param row Row of the cell.
+   * @param column Column of the cell.
+   * @returns `true` while the game is undecided and the cell may be chosen.
+   */
+  protected isSelectable(row: number, column: number): boolean {
+    if (this.readonlyBoard() || this.#decided()) return false;
+    const board = this.position();
+    if (board.cycle) {
+      return board.cycle.cells.some((cell) =>
+        sameCell(cell, { row, column })
+      );
+    }
+    return !board.classical[row][column];
+  }
+
+  /**
+   * Checks whether a cell is the first cell of the spooky mark being placed.
+   *
+   * @param row Row of the cell.
+   * @param column Column of the cell.
+   * @returns `true` if the cell was chosen first.
+   */
+  protected isSelected(row: number, column: number): boolean {
+    const first = this.firstCell();
+    return !!first && sameCell(first, { row, column });
+  }
+
+  /**
+   * Checks whether a cell belongs to the winning line.
+   *
+   * @param row Row of the cell.
+   * @param column Column of the cell.
+   * @returns `true` if the cell is part of the winning line.
+   */
+  protected isWinning(row: number, column: number): boolean {
+    return !!this.winningLine()?.some((cell) =>
+      sameCell(cell, { row, column })
+    );
+  }
+
+  /**
+   * Checks whether a cell was touched by the last move:
+   * the cell of `lastMove` or the other cell of the latest spooky mark.
+   *
+   * @param row Row of the cell.
+   * @param column Column of the cell.
+   * @returns `true` if the cell is emphasized as part of the last move.
+   */
+  protected isLastMove(row: number, column: number): boolean {
+    const cell = { row, column };
+    const lastMove = this.lastMove();
+    if (lastMove && sameCell(lastMove, cell)) return true;
+    const latest = this.quantumBoard().spooky.find(
+      (mark) => mark.move === this.step()
+    );
+    return !!latest?.cells.some((markCell) => sameCell(markCell, cell));
+  }
+
+  /** Lays the cells out on a square grid. */
+  @HostBinding('style')
+  get gridTemplate(): Partial<CSSStyleDeclaration> {
+    return {
+      gridTemplateRows: `repeat(${QUANTUM_SIZE}, 1fr)`,
+      gridTemplateColumns: `repeat(${QUANTUM_SIZE}, 1fr)`,
+      aspectRatio: '1',
+    };
+  }
+
+  /**
+   * Screen-reader description of the board:
+   * the winning line once the game is won,
+   * the collapse to choose while a cycle is pending.
+   * `null` otherwise. Translated into the chosen language.
+   */
+  @HostBinding('attr.aria-description')
+  get boardDescription(): string | null {
+    const line = this.winningLine();
+    if (line?.length) {
+      const mark = this.position().classical[line[0].row][line[0].column];
+      const cells = line
+        .map((cell) =>
+          this.#translation.translate('board.position', {
+            row: cell.row + 1,
+            column: cell.column + 1,
+          })
+        )
+        .join('; ');
+      return mark
+        ? this.#translation.translate('board.winningLine', {
+            markup: this.#translation.translate(`markup.${mark.markup}`),
+            cells,
+          })
+        : null;
+    }
+
+    const cycle = this.position().cycle;
+    if (!cycle || this.readonlyBoard()) return null;
+    return this.#translation.translate('board.chooseCollapse', {
+      mark: this.markName(cycle.markup, cycle.move),
+    });
+  }
+
+  /**
+   * Returns the spoken name of a mark with its move number (e.g. "cross 3").
+   *
+   * @param markup Markup of the mark.
+   * @param move Number of the move placing the mark.
+   * @returns The name of the mark in the chosen language.
+   */
+  private markName(markup: Markup, move: number): string {
+    return this.#translation.translate('board.mark', {
+      markup: this.#translation.translate(`markup.${markup}`),
+      move,
+    });
+  }
+
+  /**
+   * Returns a descriptive aria-label of a cell for screen readers,
+   * listing its classical mark or its spooky marks with their move numbers.
+   *
+   * @param row Row of the cell.
+   * @param column Column of the cell.
+   * @returns A descriptive accessibility label.
+   */
+  protected getAriaLabelText(row: number, column: number): string {
+    const classical = this.position().classical[row][column];
+    const spooky = this.spookyMarks(row, column);
+    const content = classical
+      ? this.markName(classical.markup, classical.move)
+      : spooky.length
+      ? this.#translation.translate('board.spookyMarks', {
+          marks: spooky
+            .map((mark) => this.markName(mark.markup, mark.move))
+            .join(', '),
+        })
+      : this.#translation.translate('board.empty');
+    const state = this.isSelected(row, column)
+      ? this.#translation.translate('board.selectedCell')
+      : this.collapsing() && this.isSelectable(row, column)
+      ? this.#translation.translate('board.collapseOption')
+      : '';
+    const cell = this.#translation.translate('board.cell', {
+      content,
+      row: row + 1,
+      column: column + 1,
+    });
+    return `${cell}${state}.`;
+  }
+
+  constructor() {
+    /**
+     * Effect 1:
+     * Whenever the step changes, updates whose turn it is (actualMarkup),
+     * starting from the first markup.
+     * Skipped in read-only mode.
+     */
+    effect(() => {
+      if (this.step() && !this.readonlyBoard()) {
+        this.#store.dispatch(
+          modifyGameInfo({
+            actualMarkup: markupByStep(this.step(), this.#firstMarkup()),
+          })
+        );
+      }
+    });
+
+    /**
+     * Effect 2:
+     * Drops the unfinished turn (chosen first cell and collapse)
+     * whenever the stored board changes, e.g. after undo/redo or a new game.
+     */
+    effect(() => {
+      this.#storedBoard();
+      untracked(() => {
+        this.firstCell.set(null);
+        this.collapseChoice.set(null);
+      });
+    });
+  }
+
+  /**
+   * Handles a click on a cell, depending on the phase of the turn:
+   *  - while a cycle is pending, collapses its mark into the cell
+   *    (the turn ends right away when the collapse decides the game),
+   *  - with a single open cell left, places a classical mark into it,
+   *  - otherwise chooses the first cell of the spooky mark, cancels it
+   *    when clicked again, or completes the mark with a second cell.
+   *
+   * @param row Row of the clicked cell.
+   * @param column Column of the clicked cell.
+   */
+  protected select(row: number, column: number): void {
+    if (!this.clickPermission() || !this.isSelectable(row, column)) return;
+    const cell = { row, column };
+
+    if (this.collapsing()) {
+      this.collapseChoice.set(cell);
+      if (evaluateQuantumBoard(this.position()).winner) this.playTurn(cell);
+      return;
+    }
+
+    if (openQuantumCells(this.position()).length === 1) {
+      this.playTurn(cell);
+      return;
+    }
+
+    const first = this.firstCell();
+    if (!first) {
+      this.firstCell.set(cell);
+    } else if (sameCell(first, cell)) {
+      this.firstCell.set(null);
+    } else {
+      this.playTurn(first, cell);
+    }
+  }
+
+  /**
+   * Completes the turn of the current player.
+   *
+   * This method:
+   *  - builds the move record from the chosen collapse and cells,
+   *  - plays it on the stored quantum board,
+   *  - stores the quantum board, its classical marks, the last move
+   *    and the incremented step,
+   *  - records the move in the move history,
+   *  - clears the unfinished turn.
+   *
+   * @param cell Cell of the mark (the first cell of a spooky mark).
+   * @param entangled Second cell of a spooky mark, omitted for a classical mark
+   *   or a turn ended by its collapse.
+   */
+  private playTurn(cell: LastMove, entangled?: LastMove): void {
+    const markup = this.#store.selectSignal(selectActualMarkup)()!;
+    const collapse = this.collapseChoice();
+    const move: MoveRecord = {
+      ...cell,
+      markup,
+      timestamp: Date.now(),
+      ...(entangled ? { entangled } : {}),
+      ...(collapse ? { collapse } : {}),
+    };
+    const board = playQuantumTurn(this.quantumBoard(), move, this.step() + 1);
+
+    this.#store.dispatch(
+      modifyGameInfo({
+        actualBoard: classicalBoardOf(board),
+        quantumBoard: board,
+        lastMove: cell,
+        actualStep: this.step() + 1,
+      })
+    );
+    this.#store.dispatch(recordGameMove(move));
+    this.firstCell.set(null);
+    this.collapseChoice.set(null);
+  }
+}
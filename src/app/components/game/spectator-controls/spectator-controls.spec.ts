@@ -0,0 +1,128 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { SpectatorControls } from './spectator-controls';
+import {
+  InputSignal,
+  provideZonelessChangeDetection,
+  signal,
+  WritableSignal,
+} from '@angular/core';
+import { By } from '@angular/platform-browser';
+import { AI_MOVE_DELAY_RANGE } from '../../../utils/constants/ai-move-delay.constant';
+
+/**
+ * @fileoverview
+ * Unit tests for the SpectatorControls component.
+ *
+ * The tests verify:
+ * - Play/pause button label and emitted toggle event
+ * - Step button availability and emitted step event
+ * - Delay slider limits and emitted delay value
+ * - Disabled controls once the game is decided
+ */
+
+describe('SpectatorControls', () => {
+  /** The SpectatorControls component instance under test. */
+  let component: SpectatorControls;
+
+  /** Angular test fixture for the SpectatorControls component. */
+  let fixture: ComponentFixture<SpectatorControls>;
+
+  /** Writable signal replacing the `paused` input. */
+  let pausedSignal: WritableSignal<boolean>;
+
+  /** Writable signal replacing the `finished` input. */
+  let finishedSignal: WritableSignal<boolean>;
+
+  /**
+   * Returns the rendered button with the given ARIA label.
+   *
+   * @param label ARIA label of the button.
+   */
+  const getButton = (label: string) =>
+    fixture.debugElement.query(By.css(`button[aria-label="${label}"]`));
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [SpectatorControls],
+      providers: [provideZonelessChangeDetection()],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(SpectatorControls);
+    component = fixture.componentInstance;
+
+    pausedSignal = signal(true);
+    finishedSignal = signal(false);
+    (component as any).paused =
+      pausedSignal as unknown as InputSignal<boolean>;
+    (component as any).finished =
+      finishedSignal as unknown as InputSignal<boolean>;
+    (component as any).delay = signal(1000) as unknown as InputSignal<number>;
+
+    fixture.detectChanges();
+  });
+
+  /**
+   * HTML tests
+   */
+  describe('HTML:', () => {
+    /**
+     * Verifies that the play button emits the toggle event
+     * and turns into a pause button while playing.
+     */
+    it('Play button should emit the toggle event and follow the paused state', () => {
+      spyOn(component.toggleEvent, 'emit');
+
+      getButton('Play AI game.').triggerEventHandler('click');
+      expect(component.toggleEvent.emit).toHaveBeenCalled();
+
+      pausedSignal.set(false);
+      fixture.detectChanges();
+
+      expect(getButton('Play AI game.')).toBeNull();
+      expect(getButton('Pause AI game.')).not.toBeNull();
+    });
+
+    /**
+     * Verifies that a single move can only be requested while paused.
+     */
+    it('Step button should emit the step event only while paused', () => {
+      spyOn(component.stepEvent, 'emit');
+
+      getButton('Next AI move.').triggerEventHandler('click');
+      expect(component.stepEvent.emit).toHaveBeenCalled();
+
+      pausedSignal.set(false);
+      fixture.detectChanges();
+
+      expect(getButton('Next AI move.').nativeElement.disabled).toBeTrue();
+    });
+
+    /**
+     * Verifies that both buttons are disabled once the game is decided.
+     */
+    it('Should disable the buttons when the game is finished', () => {
+      finishedSignal.set(true);
+      fixture.detectChanges();
+
+      expect(getButton('Play AI game.').nativeElement.disabled).toBeTrue();
+      expect(getButton('Next AI move.').nativeElement.disabled).toBeTrue();
+    });
+
+    /**
+     * Verifies the slider limits and that moving it emits the new delay as a number.
+     */
+    it('Delay slider should emit the chosen delay', () => {
+      spyOn(component.delayEvent, 'emit');
+      const slider = fixture.debugElement.query(By.css('input[type="range"]'))
+        .nativeElement as HTMLInputElement;
+
+      expect(Number(slider.min)).toBe(AI_MOVE_DELAY_RANGE.min);
+      expect(Number(slider.max)).toBe(AI_MOVE_DELAY_RANGE.max);
+
+      slider.value = '500';
+      slider.dispatchEvent(new Event('change'));
+
+      expect(component.delayEvent.emit).toHaveBeenCalledWith(500);
+    });
+  });
+});
@@ -0,0 +1,61 @@
+import {
+  Component,
+  inject,
+  input,
+  InputSignal,
+  output,
+  OutputEmitterRef,
+} from '@angular/core';
+import { AI_MOVE_DELAY_RANGE } from '../../../utils/constants/ai-move-delay.constant';
+import { Translation } from '../../../services/translation.service';
+
+/**
+ * SpectatorControls component drives a computer-vs-computer game.
+ *
+ * The component:
+ *  - starts and pauses the automatic play of the two AIs,
+ *  - lets the user request a single AI move while paused,
+ *  - provides a slider for the delay between two AI moves.
+ *
+ * It holds no state itself: every change is emitted to the parent game.
+ */
+@Component({
+  selector: 'div[appSpectatorControls]',
+  imports: [],
+  templateUrl: './spectator-controls.html',
+  styleUrl: './spectator-controls.scss',
+})
+export class SpectatorControls {
+  /** Whether the automatic play is paused. */
+  paused: InputSignal<boolean> = input.required();
+
+  /** Whether the game is decided, disabling play and step. */
+  finished: InputSignal<boolean> = input.required();
+
+  /** Current delay between two AI moves in milliseconds. */
+  delay: InputSignal<number> = input.required();
+
+  /** Event emitted when the user starts or pauses the automatic play. */
+  toggleEvent: OutputEmitterRef<void> = output();
+
+  /** Event emitted when the user requests a single AI move. */
+  stepEvent: OutputEmitterRef<void> = output();
+
+  /** Event emitted with the new delay when the slider is moved. */
+  delayEvent: OutputEmitterRef<number> = output();
+
+  /** Limits of the delay slider. */
+  protected readonly range = AI_MOVE_DELAY_RANGE;
+
+  /** Translation service for the labels of the controls */
+  protected translation: Translation = inject(Translation);
+
+  /**
+   * Emits the delay chosen on the slider as a number.
+   *
+   * @param event Input event of the range element.
+   */
+  protected changeDelay(event: Event): void {
+    this.delayEvent.emit(Number((event.target as HTMLInputElement).value));
+  }
+}
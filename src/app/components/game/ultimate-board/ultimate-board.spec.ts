@@ -0,0 +1,265 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { UltimateBoard } from './ultimate-board';
+import {
+  InputSignal,
+  provideZonelessChangeDetection,
+  signal,
+  WritableSignal,
+} from '@angular/core';
+import { Store } from '@ngrx/store';
+import { provideMockStore } from '@ngrx/store/testing';
+import { By } from '@angular/platform-browser';
+import { createBoard } from '../../../utils/test/functions/creators.functions';
+import { LastMove } from '../../../utils/interfaces/last-move.interface';
+import { GameInfo } from '../../../utils/interfaces/game-info.interface';
+import { NestedBoard } from '../../../utils/interfaces/nested-board.interface';
+import {
+  selectActualBoard,
+  selectActualMarkup,
+  selectUltimateBoard,
+} from '../../../store/selectors/game-info.selector';
+import { selectFirstMarkup } from '../../../store/selectors/game-settings.selector';
+import { modifyGameInfo } from '../../../store/actions/game-info-modify.action';
+import { recordGameMove } from '../../../store/actions/game-info-move-record.action';
+import { ultimateBoardOf } from '../../../utils/functions/ultimate.function';
+
+/**
+ * @fileoverview
+ * Unit tests for the `UltimateBoard` component, which renders the board of the
+ * Ultimate variant: a 3x3 meta-board of 3x3 sub-boards.
+ *
+ * Covers:
+ *  - rendering of the 81 cells grouped into 9 sub-boards,
+ *  - highlighting of the playable and claimed sub-boards,
+ *  - applying legal moves only,
+ *  - dispatching both boards and the move record,
+ *  - read-only mode used by the replay viewer.
+ */
+
+describe('UltimateBoard', () => {
+  /** Instance of the UltimateBoard component under test. */
+  let component: UltimateBoard;
+
+  /** Angular test fixture providing access to the component instance and DOM. */
+  let fixture: ComponentFixture<UltimateBoard>;
+
+  /** Writable signal mocking the flat board selected from the NgRx store. */
+  let actualBoardSignal: WritableSignal<string[][] | undefined>;
+
+  /** Writable signal mocking the nested board selected from the NgRx store. */
+  let ultimateBoardSignal: WritableSignal<NestedBoard | null>;
+
+  /** Injected NgRx Store instance, spied and controlled during tests. */
+  let store: Store;
+
+  /**
+   * Stores a flat board and its nested view as if the given move had just been played.
+   *
+   * @param board Flat 9x9 board.
+   * @param lastMove Last move on the flat board.
+   */
+  const setBoards = (board: string[][], lastMove?: LastMove) => {
+    actualBoardSignal.set(board);
+    ultimateBoardSignal.set(ultimateBoardOf(board, lastMove));
+  };
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [UltimateBoard],
+      providers: [
+        provideZonelessChangeDetection(),
+        provideMockStore({
+          initialState: {},
+        }),
+      ],
+    }).compileComponents();
+
+    store = TestBed.inject(Store);
+
+    actualBoardSignal = signal<string[][] | undefined>(undefined);
+    ultimateBoardSignal = signal<NestedBoard | null>(null);
+
+    spyOn(store, 'selectSignal').and.callFake(((selector: any) => {
+      if (selector === selectActualBoard) {
+        return actualBoardSignal;
+      } else if (selector === selectUltimateBoard) {
+        return ultimateBoardSignal;
+      } else if (selector === selectActualMarkup) {
+        return signal('o');
+      } else if (selector === selectFirstMarkup) {
+        return signal('o');
+      }
+      return signal(undefined);
+    }) as typeof store.selectSignal);
+
+    fixture = TestBed.createComponent(UltimateBoard);
+    component = fixture.componentInstance;
+
+    component['step'] = signal(0) as unknown as InputSignal<number>;
+
+    component['clickPermission'] = signal(
+      true
+    ) as unknown as InputSignal<boolean>;
+
+    component['lastMove'] = signal(undefined) as unknown as InputSignal<
+      LastMove | undefined
+    >;
+
+    fixture.detectChanges();
+  });
+
+  describe('HTML:', () => {
+    /**
+     * Verifies that the board renders 9 sub-boards of 9 cells each.
+     */
+    it('Should render 81 cells grouped into 9 sub-boards', () => {
+      const subBoards = fixture.debugElement.queryAll(By.css('.own-sub-board'));
+
+      expect(subBoards.length).toBe(9);
+      expect(fixture.debugElement.queryAll(By.css('button')).length).toBe(81);
+      subBoards.forEach((subBoard) =>
+        expect(subBoard.queryAll(By.css('button')).length).toBe(9)
+      );
+    });
+
+    /**
+     * Verifies that only the sub-board the last move sends the next player to is highlighted.
+     */
+    it('Should highlight only the active sub-board', () => {
+      const board = createBoard(9);
+      board[0][4] = 'o';
+      setBoards(board, { row: 0, column: 4 });
+      fixture.detectChanges();
+
+      const playable = fixture.debugElement.queryAll(
+        By.css('.own-playable-sub-board')
+      );
+
+      expect(playable.length).toBe(1);
+      expect(playable[0].attributes['aria-label']).toBe(
+        'Board at row 1, column 2, next move allowed here.'
+      );
+    });
+
+    /**
+     * Verifies that a claimed sub-board is marked with its owner.
+     */
+    it('Should mark a claimed sub-board with its owner', () => {
+      const board = createBoard(9);
+      board[0][0] = 'x';
+      board[1][1] = 'x';
+      board[2][2] = 'x';
+      setBoards(board, { row: 2, column: 2 });
+      fixture.detectChanges();
+
+      const claimed = fixture.debugElement.queryAll(
+        By.css('.own-claimed-sub-board')
+      );
+
+      expect(claimed.length).toBe(1);
+      expect(claimed[0].query(By.css('.own-claim')).nativeElement.textContent).toBe(
+        'X'
+      );
+    });
+  });
+
+  describe('Effects:', () => {
+    /**
+     * Verifies that a legal incoming move is applied.
+     */
+    it('Should call setCell when `lastMove` is a legal move', () => {
+      spyOn<any>(component, 'setCell');
+
+      const lastMoveSignal = component['lastMove'] as unknown as WritableSignal<
+        GameInfo['lastMove']
+      >;
+      lastMoveSignal.set({ row: 4, column: 4 });
+      fixture.detectChanges();
+
+      expect(component['setCell']).toHaveBeenCalledWith({ row: 4, column: 4 });
+    });
+
+    /**
+     * Verifies that a move outside the active sub-board is not applied.
+     */
+    it('Should not call setCell when `lastMove` is outside the active sub-board', () => {
+      const board = createBoard(9);
+      board[0][0] = 'o';
+      setBoards(board, { row: 0, column: 0 });
+      spyOn<any>(component, 'setCell');
+
+      const lastMoveSignal = component['lastMove'] as unknown as WritableSignal<
+        GameInfo['lastMove']
+      >;
+      lastMoveSignal.set({ row: 4, column: 4 });
+      fixture.detectChanges();
+
+      expect(component['setCell']).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Component methods:', () => {
+    /**
+     * Verifies that `setCell` stores both boards with the incremented step
+     * and records the move.
+     */
+    it('[setCell] should dispatch both boards, the step and the move record', () => {
+      spyOn(store, 'dispatch');
+      spyOn(Date, 'now').and.returnValue(1234);
+
+      component['setCell']({ row: 3, column: 5 });
+
+      const board = createBoard(9);
+      board[3][5] = 'o';
+
+      expect(store.dispatch).toHaveBeenCalledWith(
+        modifyGameInfo({
+          actualBoard: board,
+          ultimateBoard: ultimateBoardOf(board, { row: 3, column: 5 }),
+          actualStep: 1,
+        })
+      );
+      expect(store.dispatch).toHaveBeenCalledWith(
+        recordGameMove({ row: 3, column: 5, markup: 'o', timestamp: 1234 })
+      );
+    });
+
+    /**
+     * Verifies that cell labels describe the position inside the sub-board.
+     */
+    it('[getAriaLabelText] should describe the cell and its sub-board', () => {
+      const board = createBoard(9);
+      board[4][7] = 'x';
+      setBoards(board, { row: 4, column: 7 });
+
+      expect(component['getAriaLabelText'](4, 7)).toBe(
+        'cross at row 2, column 2 of board at row 2, column 3.'
+      );
+    });
+  });
+
+  describe('Read-only mode:', () => {
+    /**
+     * Verifies that the provided nested board is rendered
+     * and that step changes do not write anything to the store.
+     */
+    it('Should render the read-only board without dispatching actions', () => {
+      const dispatchSpy = spyOn(store, 'dispatch');
+      const board = createBoard(9);
+      board[8][8] = 'x';
+      const readonlyBoard = ultimateBoardOf(board, { row: 8, column: 8 });
+
+      component['readonlyBoard'] = signal(
+        readonlyBoard
+      ) as unknown as InputSignal<NestedBoard | undefined>;
+
+      const stepSignal = component['step'] as unknown as WritableSignal<number>;
+      stepSignal.set(1);
+      fixture.detectChanges();
+
+      expect(component['nestedBoard']()).toEqual(readonlyBoard);
+      expect(dispatchSpy).not.toHaveBeenCalled();
+    });
+  });
+});
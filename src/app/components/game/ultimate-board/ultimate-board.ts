@@ -0,0 +1,329 @@
+import {
+  Component,
+  computed,
+  effect,
+  HostBinding,
+  inject,
+  input,
+  InputSignal,
+  OnInit,
+  Signal,
+  untracked,
+} from '@angular/core';
+import { Store } from '@ngrx/store';
+import { GameFieldCell } from '../game-field-cell/game-field-cell';
+import { LastMove } from '../../../utils/interfaces/last-move.interface';
+import { GameInfo } from '../../../utils/interfaces/game-info.interface';
+import { NestedBoard } from '../../../utils/interfaces/nested-board.interface';
+import {
+  selectActualBoard,
+  selectActualMarkup,
+  selectUltimateBoard,
+} from '../../../store/selectors/game-info.selector';
+import { selectFirstMarkup } from '../../../store/selectors/game-settings.selector';
+import { modifyGameInfo } from '../../../store/actions/game-info-modify.action';
+import { recordGameMove } from '../../../store/actions/game-info-move-record.action';
+import { markupByStep } from '../../../utils/functions/turn-order.function';
+import { boardAfterMoves } from '../../../utils/functions/move-history.function';
+import {
+  evaluateUltimateBoard,
+  isLegalUltimateMove,
+  isPlayableSubBoard,
+  ultimateBoardOf,
+} from '../../../utils/functions/ultimate.function';
+import {
+  ULTIMATE_BOARD_SIDE,
+  ULTIMATE_SIZE,
+} from '../../../utils/constants/ultimate.constant';
+
+/**
+ * UltimateBoard component renders the board of the Ultimate variant:
+ * a 3x3 meta-board whose fields are 3x3 sub-boards of `GameFieldCell`s.
+ *
+ * The component:
+ *  - shows the nested board stored next to the flat 9x9 board in NgRx,
+ *  - highlights the sub-boards the next move may be played in,
+ *    and only lets the cells of those sub-boards be clicked,
+ *  - marks claimed sub-boards with their owner,
+ *  - highlights the sub-boards of the winning meta-line,
+ *  - applies incoming moves (`lastMove`) to both boards and records them
+ *    in the move history.
+ *
+ * Cells use the coordinates of the flat board, so moves, the move history
+ * and the last move emphasis work the same way as on the classic `Board`.
+ *
+ * When `readonlyBoard` is provided (e.g. in the replay viewer), the component
+ * only renders that board: the store is neither read nor written.
+ */
+@Component({
+  selector: 'section[appUltimateBoard]',
+  imports: [GameFieldCell],
+  templateUrl: './ultimate-board.html',
+  styleUrl: './ultimate-board.scss',
+})
+export class UltimateBoard implements OnInit {
+  /** Injected NgRx store instance. */
+  #store: Store = inject(Store);
+
+  /** Flat 9x9 board stored in NgRx (NgRx -> signal). */
+  #storedBoard = this.#store.selectSignal(selectActualBoard);
+
+  /** Nested board stored in NgRx (NgRx -> signal). */
+  #storedNestedBoard = this.#store.selectSignal(selectUltimateBoard);
+
+  /** Markup making the first move of the game (NgRx -> signal). */
+  #firstMarkup = this.#store.selectSignal(selectFirstMarkup);
+
+  /** Whether clicking cells is currently allowed. */
+  clickPermission: InputSignal<boolean> = input.required();
+
+  /** The last move performed on the flat board (e.g. by the AI or a click). */
+  lastMove: InputSignal<LastMove | undefined> = input.required();
+
+  /** Used to detect changes in lastMove. */
+  private previousLastMove: LastMove | undefined;
+
+  /** Current step number from parent or store. */
+  step: InputSignal<number> = input.required();
+
+  /**
+   * Nested board to render in read-only mode.
+   * When set, it replaces the stored board and no moves are applied or dispatched.
+   */
+  readonlyBoard: InputSignal<NestedBoard | undefined> = input<
+    NestedBoard | undefined
+  >(undefined);
+
+  /** Sub-boards of the winning meta-line (meta-board coordinates). */
+  winningLine: InputSignal<GameInfo['winningLine']> =
+    input<GameInfo['winningLine']>(null);
+
+  /** Number of rows and columns of the meta-board and of each sub-board. */
+  protected readonly size = ULTIMATE_SIZE;
+
+  /**
+   * Nested board shown by the component.
+   * Falls back to the nested view of the stored flat board
+   * (an empty board before the first move).
+   */
+  protected nestedBoard: Signal<NestedBoard> = computed(
+    () =>
+      this.readonlyBoard() ??
+      this.#storedNestedBoard() ??
+      ultimateBoardOf(this.#storedBoard() ?? [], this.lastMove())
+  );
+
+  /** Whether the meta-board is already decided (won or drawn). */
+  #decided: Signal<boolean> = computed(
+    () => !!evaluateUltimateBoard(this.nestedBoard()).winner
+  );
+
+  /**
+   * Normalizes a raw cell content string to a valid `GameInfo['actualMarkup']` value.
+   *
+   * @param content Raw cell content value.
+   * @returns The content cast as a game markup.
+   */
+  protected formatFieldContent(content: string): GameInfo['actualMarkup'] {
+    return content as GameInfo['actualMarkup'];
+  }
+
+  /**
+   * Checks whether the next move may be played in a sub-board.
+   * Used to highlight the legal sub-boards.
+   *
+   * @param boardRow Row of the sub-board on the meta-board.
+   * @param boardColumn Column of the sub-board on the meta-board.
+   * @returns `true` while the game is undecided and the sub-board is playable.
+   */
+  protected isPlayable(boardRow: number, boardColumn: number): boolean {
+    return (
+      !this.#decided() &&
+      isPlayableSubBoard(this.nestedBoard(), {
+        row: boardRow,
+        column: boardColumn,
+      })
+    );
+  }
+
+  /**
+   * Checks whether a cell of the flat board is a legal next move.
+   *
+   * @param row Row of the cell on the flat board.
+   * @param column Column of the cell on the flat board.
+   * @returns `true` while the game is undecided and the cell may be played.
+   */
+  protected isLegal(row: number, column: number): boolean {
+    return (
+      !this.#decided() &&
+      isLegalUltimateMove(this.nestedBoard(), { row, column })
+    );
+  }
+
+  /**
+   * Checks whether a sub-board belongs to the winning meta-line.
+   *
+   * @param boardRow Row of the sub-board on the meta-board.
+   * @param boardColumn Column of the sub-board on the meta-board.
+   * @returns `true` if the sub-board is part of the winning line.
+   */
+  protected isWinningBoard(boardRow: number, boardColumn: number): boolean {
+    return !!this.winningLine()?.some(
+      (board) => board.row === boardRow && board.column === boardColumn
+    );
+  }
+
+  /**
+   * Lays the sub-boards out on a square 3x3 grid,
+   * with a wider gap than between the cells of a sub-board.
+   */
+  @HostBinding('style')
+  get gridTemplate(): Partial<CSSStyleDeclaration> {
+    return {
+      gridTemplateRows: `repeat(${ULTIMATE_SIZE}, 1fr)`,
+      gridTemplateColumns: `repeat(${ULTIMATE_SIZE}, 1fr)`,
+      aspectRatio: '1',
+      gap: 'max(8px, 0.6vw)',
+    };
+  }
+
+  /**
+   * Screen-reader description of the winning meta-line,
+   * e.g. "Winning line of cross: board row 1, column 1; board row 2, column 2; board row 3, column 3."
+   * `null` while nobody has won.
+   */
+  @HostBinding('attr.aria-description')
+  get winningLineDescription(): string | null {
+    const line = this.winningLine();
+    if (!line?.length) return null;
+
+    const owner = this.nestedBoard().claimed[line[0].row]?.[line[0].column];
+    const boards = line
+      .map((board) => `board row ${board.row + 1}, column ${board.column + 1}`)
+      .join('; ');
+    return `Winning line of ${owner === 'x' ? 'cross' : 'circle'}: ${boards}.`;
+  }
+
+  /**
+   * Returns a descriptive aria-label of a sub-board for screen readers,
+   * including its owner or whether the next move may be played in it.
+   *
+   * @param boardRow Row of the sub-board on the meta-board.
+   * @param boardColumn Column of the sub-board on the meta-board.
+   * @returns A descriptive accessibility label.
+   */
+  protected getSubBoardLabel(boardRow: number, boardColumn: number): string {
+    const owner = this.nestedBoard().claimed[boardRow][boardColumn];
+    const state =
+      owner === 'draw'
+        ? ', drawn'
+        : owner
+        ? `, won by ${owner === 'x' ? 'cross' : 'circle'}`
+        : this.isPlayable(boardRow, boardColumn)
+        ? ', next move allowed here'
+        : '';
+    return `Board at row ${boardRow + 1}, column ${boardColumn + 1}${state}.`;
+  }
+
+  /**
+   * Returns a descriptive aria-label of a cell for screen readers,
+   * indicating its content and its position inside its sub-board.
+   *
+   * @param row Row of the cell on the flat board.
+   * @param column Column of the cell on the flat board.
+   * @returns A descriptive accessibility label.
+   */
+  protected getAriaLabelText(row: number, column: number): string {
+    const boardRow = Math.floor(row / ULTIMATE_SIZE);
+    const boardColumn = Math.floor(column / ULTIMATE_SIZE);
+    const content =
+      this.nestedBoard().subBoards[boardRow][boardColumn][
+        row % ULTIMATE_SIZE
+      ][column % ULTIMATE_SIZE];
+    const contentName = !content
+      ? 'empty'
+      : content === 'x'
+      ? 'cross'
+      : 'circle';
+    return `${contentName} at row ${(row % ULTIMATE_SIZE) + 1}, column ${
+      (column % ULTIMATE_SIZE) + 1
+    } of board at row ${boardRow + 1}, column ${boardColumn + 1}.`;
+  }
+
+  /** Stores the initial lastMove when the component initializes. */
+  ngOnInit(): void {
+    this.previousLastMove = this.lastMove();
+  }
+
+  constructor() {
+    /**
+     * Effect 1:
+     * Whenever the step changes, updates whose turn it is (actualMarkup),
+     * starting from the first markup.
+     * Skipped in read-only mode.
+     */
+    effect(() => {
+      if (this.step() && !this.readonlyBoard()) {
+        this.#store.dispatch(
+          modifyGameInfo({
+            actualMarkup: markupByStep(this.step(), this.#firstMarkup()),
+          })
+        );
+      }
+    });
+
+    /**
+     * Effect 2:
+     * When lastMove changes externally, the move is applied.
+     * Moves that are not legal on the stored board (e.g. after undo/redo,
+     * where the reducer already rebuilt both boards) are not applied again.
+     * Skipped in read-only mode.
+     */
+    effect(() => {
+      const lastMove = this.lastMove();
+      if (this.readonlyBoard()) return;
+      if (lastMove && lastMove !== this.previousLastMove) {
+        const nestedBoard = untracked(() => this.nestedBoard());
+        if (!isLegalUltimateMove(nestedBoard, lastMove)) {
+          this.previousLastMove = lastMove;
+          return;
+        }
+        this.setCell({ row: lastMove.row, column: lastMove.column });
+      }
+    });
+  }
+
+  /**
+   * Writes the current player's markup into a cell of the flat board.
+   *
+   * This method:
+   *  - writes the markup on a copy of the stored flat board,
+   *  - rebuilds the nested board, claiming a sub-board completed by the move
+   *    and sending the next player to the matching sub-board,
+   *  - stores both boards together with the incremented step,
+   *  - records the move in the move history,
+   *  - tracks lastMove to prevent duplicate writes via effects.
+   *
+   * @param coordinates Cell of the flat board where the symbol should be placed.
+   */
+  protected setCell(coordinates: LastMove): void {
+    const markup = this.#store.selectSignal(selectActualMarkup)()!;
+    const board = (
+      this.#storedBoard() ??
+      boardAfterMoves(ULTIMATE_BOARD_SIDE, ULTIMATE_BOARD_SIDE, [])
+    ).map((row) => [...row]);
+    board[coordinates.row][coordinates.column] = markup;
+
+    this.#store.dispatch(
+      modifyGameInfo({
+        actualBoard: board,
+        ultimateBoard: ultimateBoardOf(board, coordinates),
+        actualStep: this.step() + 1,
+      })
+    );
+    this.#store.dispatch(
+      recordGameMove({ ...coordinates, markup, timestamp: Date.now() })
+    );
+    this.previousLastMove = this.lastMove();
+  }
+}
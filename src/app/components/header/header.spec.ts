@@ -7,6 +7,7 @@ import { HttpClientTestingModule } from '@angular/common/http/testing';
 import { By } from '@angular/platform-browser';
 import { GameInfo } from '../../utils/interfaces/game-info.interface';
 import { reserGameInfo } from '../../store/actions/game-info-reset.action';
+import '../../app.variants';
 
 /**
  * @fileoverview
@@ -2,10 +2,11 @@ import { Component, inject, Signal } from '@angular/core';
 import { Store } from '@ngrx/store';
 import { NavBar } from './nav-bar/nav-bar';
 import {
-  selectGameWinner,
+  selectResultWinner,
 } from '../../store/selectors/game-info.selector';
 import { GameInfo } from '../../utils/interfaces/game-info.interface';
 import { reserGameInfo } from '../../store/actions/game-info-reset.action';
+import { Translation } from '../../services/translation.service';
 
 /**
  * @component Header
@@ -30,14 +31,18 @@ export class Header {
   /** Global NgRx store instance */
   #store: Store = inject(Store);
 
+  /** Translation service for the title and the result */
+  protected translation: Translation = inject(Translation);
+
   /**
    * Reactive signal exposing the winner of the current game.
    *
    * The value is derived directly from the global store selector and
    * updates automatically when the application state changes.
+   * Under the misère rule it is the side that did not complete the line.
    */
   get winner(): Signal<GameInfo['winner']> {
-    return this.#store.selectSignal(selectGameWinner);
+    return this.#store.selectSignal(selectResultWinner);
   }
 
   /**
@@ -1,5 +1,6 @@
 import { ComponentFixture, TestBed } from '@angular/core/testing';
 import { NavBar } from './nav-bar';
+import { BoardImageExport } from '../../../services/board-image-export.service';
 import {
   provideZonelessChangeDetection,
   signal,
@@ -12,7 +13,7 @@ import {
   createUser,
 } from '../../../utils/test/functions/creators.functions';
 import { SavedGame } from '../../../utils/interfaces/saved-game.interface';
-import { provideMockStore } from '@ngrx/store/testing';
+import { MockStore, provideMockStore } from '@ngrx/store/testing';
 import { HttpClientTestingModule } from '@angular/common/http/testing';
 import { By } from '@angular/platform-browser';
 import { RouterService } from '../../../services/router.service';
@@ -32,6 +33,12 @@ import { GameInfo } from '../../../utils/interfaces/game-info.interface';
 import { Http } from '../../../services/http.service';
 import { GameSettings } from '../../../utils/interfaces/game-settings.interface';
 import { Functions } from '../../../services/functions.service';
+import { MoveRecord } from '../../../utils/interfaces/move-record.interface';
+import { undoGameMove } from '../../../store/actions/game-info-undo.action';
+import { redoGameMove } from '../../../store/actions/game-info-redo.action';
+import { reserGameInfo } from '../../../store/actions/game-info-reset.action';
+import { Translation } from '../../../services/translation.service';
+import '../../../app.variants';
 
 /**
  * @fileoverview
@@ -138,7 +145,16 @@ describe('NavBar', () => {
 
       /*Expected SVG path prefixes (first 4 characters) for buttons
         visible when the user is logged out*/
-      const displayedIconPathPrefixes = ['M380', 'M189', 'm370', 'M480'];
+      const displayedIconPathPrefixes = [
+        'M380',
+        'M189',
+        'm370',
+        'M480',
+        'M360',
+        'M200',
+        'M680',
+        'M200',
+      ];
 
       // Validate that the number of rendered buttons matches expectations
       expect(buttons.length).toBe(displayedIconPathPrefixes.length);
@@ -181,6 +197,10 @@ describe('NavBar', () => {
         'M840',
         'm370',
         'M200',
+        'M360',
+        'M200',
+        'M680',
+        'M200',
       ];
 
       fixture.detectChanges();
@@ -598,6 +618,680 @@ describe('NavBar', () => {
     });
   });
 
+  /**
+   * Test suite for the undo and redo buttons.
+   * The buttons are only rendered on the game page when history is available.
+   */
+  describe('Undo and redo buttons:', () => {
+    let dispatchSpy: jasmine.Spy;
+
+    /** Two recorded moves used as move and redo history. */
+    const moves: MoveRecord[] = [
+      { row: 0, column: 0, markup: 'o', timestamp: 1 },
+      { row: 1, column: 1, markup: 'x', timestamp: 2 },
+    ];
+
+    /**
+     * Sets the history related part of the store state and renders the component.
+     *
+     * @param opponent Selected opponent type.
+     * @param actualStep Current step of the game.
+     * @param sides Chosen markup and first move (defaults to the store state).
+     */
+    const render = (
+      opponent: GameSettings['opponent'],
+      actualStep: number,
+      sides: Partial<Pick<GameSettings, 'playerMarkup' | 'firstMove'>> = {}
+    ) => {
+      const mockStore = TestBed.inject(MockStore);
+      const current = state as { gameInfo: GameInfo; gameSettings: GameSettings };
+      mockStore.setState({
+        gameInfo: {
+          ...current.gameInfo,
+          actualStep,
+          moveHistory: moves,
+          redoHistory: moves,
+        },
+        gameSettings: { ...current.gameSettings, opponent, ...sides },
+      });
+
+      fixture = TestBed.createComponent(NavBar);
+      component = fixture.componentInstance;
+      fixture.detectChanges();
+    };
+
+    /**
+     * Returns the rendered button with the given ARIA label.
+     *
+     * @param label ARIA label of the button.
+     */
+    const getButton = (label: string) =>
+      fixture.debugElement.query(By.css(`button[aria-label="${label}"]`));
+
+    beforeEach(() => {
+      spyOnProperty(themeService, 'mode', 'get').and.returnValue('light');
+      spyOnProperty(authService, 'user').and.returnValue(signal(undefined));
+      dispatchSpy = spyOn(store, 'dispatch');
+      currentEnPoint.set('tic-tac-toe');
+    });
+
+    /**
+     * Verifies that a two player game takes back and replays a single move.
+     */
+    it('Should undo and redo one move against a player', () => {
+      render('player', 2);
+
+      getButton('Undo last move.').triggerEventHandler('click');
+      getButton('Redo move.').triggerEventHandler('click');
+
+      expect(getCallsArray(dispatchSpy.calls.all())).toEqual([
+        undoGameMove({
+          moves: 1,
+          winLength: 3,
+          firstMarkup: 'o',
+          players: 2,
+          variant: 'classic',
+        }),
+        redoGameMove({
+          moves: 1,
+          winLength: 3,
+          firstMarkup: 'o',
+          players: 2,
+          variant: 'classic',
+        }),
+      ]);
+    });
+
+    /**
+     * Verifies that the player's move and the computer's reply
+     * are taken back and replayed together.
+     */
+    it('Should undo and redo two moves against the computer', () => {
+      render('computer', 2);
+
+      getButton('Undo last move.').triggerEventHandler('click');
+      getButton('Redo move.').triggerEventHandler('click');
+
+      expect(getCallsArray(dispatchSpy.calls.all())).toEqual([
+        undoGameMove({
+          moves: 2,
+          winLength: 3,
+          firstMarkup: 'o',
+          players: 2,
+          variant: 'classic',
+        }),
+        redoGameMove({
+          moves: 2,
+          winLength: 3,
+          firstMarkup: 'o',
+          players: 2,
+          variant: 'classic',
+        }),
+      ]);
+    });
+
+    /**
+     * Verifies that the history follows the chosen sides:
+     * playing as 'x' against an opening computer, odd steps are the player's turns.
+     */
+    it('Should follow the chosen sides when the computer moves first', () => {
+      render('computer', 1, { playerMarkup: 'x', firstMove: 'computer' });
+
+      getButton('Undo last move.').triggerEventHandler('click');
+
+      expect(getCallsArray(dispatchSpy.calls.all())).toEqual([
+        undoGameMove({
+          moves: 2,
+          winLength: 3,
+          firstMarkup: 'o',
+          players: 2,
+          variant: 'classic',
+        }),
+      ]);
+
+      render('computer', 2, { playerMarkup: 'x', firstMove: 'computer' });
+
+      expect(getButton('Undo last move.')).toBeNull();
+    });
+
+    /**
+     * Verifies that games watched in spectator mode have no history controls.
+     */
+    it('Should hide the buttons in spectator mode', () => {
+      render('spectator', 2);
+
+      expect(getButton('Undo last move.')).toBeNull();
+      expect(getButton('Redo move.')).toBeNull();
+    });
+
+    /**
+     * Verifies that a decided game can not be taken back,
+     * so its counted result can not be played again.
+     */
+    it('Should hide the buttons once the game is decided', () => {
+      render('player', 2);
+      const mockStore = TestBed.inject(MockStore);
+      const current = state as { gameInfo: GameInfo; gameSettings: GameSettings };
+      mockStore.setState({
+        gameInfo: {
+          ...current.gameInfo,
+          actualStep: 2,
+          moveHistory: moves,
+          redoHistory: moves,
+          winner: 'o',
+        },
+        gameSettings: { ...current.gameSettings, opponent: 'player' },
+      });
+      fixture.detectChanges();
+
+      expect(getButton('Undo last move.')).toBeNull();
+      expect(getButton('Redo move.')).toBeNull();
+    });
+
+    /**
+     * Verifies that the history cannot be changed while the computer is about to move.
+     */
+    it('Should hide the buttons while the computer is about to move', () => {
+      render('computer', 1);
+
+      expect(getButton('Undo last move.')).toBeNull();
+      expect(getButton('Redo move.')).toBeNull();
+    });
+  });
+
+  /**
+   * Test suite for the copy, paste and share buttons.
+   * The game is exchanged with the clipboard as a text game record,
+   * the position as a link.
+   */
+  describe('Copy, paste and share buttons:', () => {
+    let dispatchSpy: jasmine.Spy;
+
+    /** Record of a 3x3 classic game won by 'o' on its third move. */
+    const record = [
+      '[Variant "classic"]',
+      '[Size "3x3"]',
+      '[WinLength "3"]',
+      '[Players "2"]',
+      '[FirstMarkup "O"]',
+      '[Difficulty "easy"]',
+      '[Result "O"]',
+      '[Date "2026-10-19"]',
+      '',
+      '1. a1 b1 2. a2 b2 3. a3',
+      '',
+    ].join('\n');
+
+    /**
+     * Returns the rendered button with the given ARIA label.
+     *
+     * @param label ARIA label of the button.
+     */
+    const getButton = (label: string) =>
+      fixture.debugElement.query(By.css(`button[aria-label="${label}"]`));
+
+    beforeEach(() => {
+      spyOnProperty(themeService, 'mode', 'get').and.returnValue('light');
+      spyOnProperty(authService, 'user').and.returnValue(signal(undefined));
+      spyOn(snackbarService, 'addElement');
+      dispatchSpy = spyOn(store, 'dispatch');
+      currentEnPoint.set('tic-tac-toe');
+
+      const mockStore = TestBed.inject(MockStore);
+      const current = state as { gameInfo: GameInfo; gameSettings: GameSettings };
+      mockStore.setState({
+        gameInfo: {
+          ...current.gameInfo,
+          moveHistory: [
+            { row: 1, column: 1, markup: 'o', timestamp: 1 },
+            { row: 0, column: 2, markup: 'x', timestamp: 2 },
+          ],
+        },
+        gameSettings: { ...current.gameSettings, hardness: 3 },
+      });
+
+      fixture = TestBed.createComponent(NavBar);
+      component = fixture.componentInstance;
+      fixture.detectChanges();
+    });
+
+    /**
+     * Verifies that the buttons are only rendered on the game page.
+     */
+    it('Should hide the buttons outside the game page', () => {
+      currentEnPoint.set('account');
+      fixture.detectChanges();
+
+      expect(getButton('Copy game.')).toBeNull();
+      expect(getButton('Paste game.')).toBeNull();
+      expect(getButton('Copy link to position.')).toBeNull();
+      expect(getButton('Export board image.')).toBeNull();
+    });
+
+    /**
+     * Verifies that the buttons are labelled in the chosen language.
+     */
+    it('Should label the buttons in the chosen language', () => {
+      const translation = TestBed.inject(Translation);
+      // The language switch must not be persisted for the other tests
+      spyOn(localStorage, 'setItem');
+
+      translation.language = 'hu';
+      fixture.detectChanges();
+
+      expect(getButton('Játék másolása.')).not.toBeNull();
+      expect(getButton('Játék beillesztése.')).not.toBeNull();
+      expect(getButton('Copy game.')).toBeNull();
+
+      translation.language = 'en';
+    });
+
+    /**
+     * Verifies that a link to the current position is copied to the clipboard.
+     */
+    it('Should copy a link to the current position', async () => {
+      const writeSpy = spyOn(navigator.clipboard, 'writeText').and.resolveTo();
+
+      getButton('Copy link to position.').triggerEventHandler('click');
+      await fixture.whenStable();
+
+      const link = new URL(writeSpy.calls.mostRecent().args[0]);
+      expect(link.pathname).toMatch(/\/tic-tac-toe$/);
+      expect(link.searchParams.get('position')).toMatch(
+        /^classic\.3x3\.3\.-\.2\.o\./
+      );
+      expect(snackbarService.addElement).toHaveBeenCalledWith(
+        'Link copied to clipboard',
+        false
+      );
+    });
+
+    /**
+     * Verifies that quantum positions, kept in the move list only, are not shared.
+     */
+    it('Should hide the share button in quantum games', () => {
+      const mockStore = TestBed.inject(MockStore);
+      const current = state as { gameInfo: GameInfo; gameSettings: GameSettings };
+      mockStore.setState({
+        ...current,
+        gameSettings: {
+          ...current.gameSettings,
+          opponent: 'player',
+          variant: 'quantum',
+        },
+      });
+      fixture.detectChanges();
+
+      expect(getButton('Copy link to position.')).toBeNull();
+      expect(getButton('Copy game.')).not.toBeNull();
+    });
+
+    /**
+     * Verifies that the current game is written to the clipboard as a record.
+     */
+    it('Should copy the current game as a text record', async () => {
+      const writeSpy = spyOn(navigator.clipboard, 'writeText').and.resolveTo();
+
+      getButton('Copy game.').triggerEventHandler('click');
+      await fixture.whenStable();
+
+      const text = writeSpy.calls.mostRecent().args[0];
+      expect(text).toContain('[Variant "classic"]\n[Size "3x3"]');
+      expect(text).toContain('[Difficulty "medium"]\n[Result "*"]');
+      expect(text).toMatch(/\[Date "\d{4}-\d{2}-\d{2}"\]\n\n1\. b2 c1\n$/);
+      expect(snackbarService.addElement).toHaveBeenCalledWith(
+        'Game copied to clipboard',
+        false
+      );
+    });
+
+    /**
+     * Verifies that a failing clipboard is reported.
+     */
+    it('Should report a failed copy', async () => {
+      spyOn(navigator.clipboard, 'writeText').and.rejectWith(new Error());
+
+      getButton('Copy game.').triggerEventHandler('click');
+      await fixture.whenStable();
+
+      expect(snackbarService.addElement).toHaveBeenCalledWith(
+        'Game copying failed',
+        true
+      );
+    });
+
+    /**
+     * Verifies that a pasted record replaces the settings and the position.
+     */
+    it('Should load a pasted game record', async () => {
+      spyOn(navigator.clipboard, 'readText').and.resolveTo(record);
+
+      getButton('Paste game.').triggerEventHandler('click');
+      await fixture.whenStable();
+
+      const [settings, info] = getCallsArray(dispatchSpy.calls.all());
+      expect(settings).toEqual(
+        jasmine.objectContaining({
+          variant: 'classic',
+          rows: 3,
+          columns: 3,
+          winLength: 3,
+          hardness: 2,
+          opponent: 'player',
+          playerMarkup: 'o',
+          firstMove: 'human',
+        })
+      );
+      expect(info).toEqual(
+        jasmine.objectContaining({
+          actualBoard: [
+            ['o', 'x', ''],
+            ['o', 'x', ''],
+            ['o', '', ''],
+          ],
+          actualStep: 5,
+          lastMove: { row: 2, column: 0 },
+          winner: 'o',
+          started: false,
+          redoHistory: [],
+        })
+      );
+      expect(snackbarService.addElement).toHaveBeenCalledWith(
+        'Game pasted from clipboard',
+        false
+      );
+    });
+
+    /**
+     * Verifies that an invalid record is reported and the game is kept.
+     */
+    it('Should report an invalid game record', async () => {
+      spyOn(navigator.clipboard, 'readText').and.resolveTo(
+        record.replace('a3', 'b1')
+      );
+
+      getButton('Paste game.').triggerEventHandler('click');
+      await fixture.whenStable();
+
+      expect(dispatchSpy).not.toHaveBeenCalled();
+      expect(snackbarService.addElement).toHaveBeenCalledWith(
+        'Invalid game record: Illegal move: b1',
+        true
+      );
+    });
+
+    /**
+     * Verifies that the problem of an invalid record is reported
+     * in the chosen language.
+     */
+    it('Should report an invalid game record in the chosen language', async () => {
+      const translation = TestBed.inject(Translation);
+      // The language switch must not be persisted for the other tests
+      spyOn(localStorage, 'setItem');
+      spyOn(navigator.clipboard, 'readText').and.resolveTo(
+        record.replace('a3', 'b1')
+      );
+      translation.language = 'hu';
+      fixture.detectChanges();
+
+      getButton('Játék beillesztése.').triggerEventHandler('click');
+      await fixture.whenStable();
+      translation.language = 'en';
+
+      expect(dispatchSpy).not.toHaveBeenCalled();
+      expect(snackbarService.addElement).toHaveBeenCalledWith(
+        'Érvénytelen játékleírás: Szabálytalan lépés: b1',
+        true
+      );
+    });
+
+    /**
+     * Verifies that an unreadable clipboard is reported and the game is kept.
+     */
+    it('Should report a failed clipboard read', async () => {
+      spyOn(navigator.clipboard, 'readText').and.rejectWith(
+        new Error('Read permission denied')
+      );
+
+      getButton('Paste game.').triggerEventHandler('click');
+      await fixture.whenStable();
+
+      expect(dispatchSpy).not.toHaveBeenCalled();
+      expect(snackbarService.addElement).toHaveBeenCalledWith(
+        'Game pasting failed',
+        true
+      );
+    });
+  });
+
+  /**
+   * Tests of the button exporting the current board as an image.
+   */
+  describe('Export button:', () => {
+    /** Spy of the image download. */
+    let downloadSpy: jasmine.Spy;
+
+    /**
+     * Returns the rendered export button.
+     */
+    const getButton = () =>
+      fixture.debugElement.query(
+        By.css('button[aria-label="Export board image."]')
+      );
+
+    beforeEach(() => {
+      spyOnProperty(themeService, 'mode', 'get').and.returnValue('light');
+      spyOnProperty(authService, 'user').and.returnValue(signal(undefined));
+      spyOn(snackbarService, 'addElement');
+      downloadSpy = spyOn(TestBed.inject(BoardImageExport), 'download');
+      currentEnPoint.set('tic-tac-toe');
+
+      const mockStore = TestBed.inject(MockStore);
+      const current = state as { gameInfo: GameInfo; gameSettings: GameSettings };
+      mockStore.setState({
+        gameInfo: {
+          ...current.gameInfo,
+          actualBoard: [
+            ['o', 'x', ''],
+            ['', 'o', ''],
+            ['', '', ''],
+          ],
+          lastMove: { row: 1, column: 1 },
+          winningLine: null,
+        },
+        gameSettings: current.gameSettings,
+      });
+
+      fixture = TestBed.createComponent(NavBar);
+      component = fixture.componentInstance;
+      fixture.detectChanges();
+    });
+
+    /**
+     * Verifies that the board is downloaded in the chosen format
+     * with the chosen marks.
+     */
+    it('Should download the board image chosen in the export dialog', async () => {
+      spyOn(dialogService, 'open').and.resolveTo({
+        imageFormat: 'png',
+        coordinates: true,
+        markLastMove: true,
+        markWinningLine: false,
+      });
+      downloadSpy.and.resolveTo();
+
+      getButton().triggerEventHandler('click');
+      await fixture.whenStable();
+
+      expect(dialogService.open).toHaveBeenCalledOnceWith('export', {
+        title: 'Export image',
+        content: 'export',
+      });
+      const [svg, fileName, format] = downloadSpy.calls.mostRecent().args;
+      expect(svg).toMatch(/^<svg /);
+      expect(svg).toContain('>a</text>');
+      expect(svg).toContain('stroke-width="6"/>');
+      expect(fileName).toBe('tic-tac-toe');
+      expect(format).toBe('png');
+      expect(snackbarService.addElement).toHaveBeenCalledWith(
+        'Board image exported',
+        false
+      );
+    });
+
+    /**
+     * Verifies that closing the dialog downloads nothing.
+     */
+    it('Should not download anything when the dialog is closed', async () => {
+      spyOn(dialogService, 'open').and.resolveTo('CLOSE_EVENT');
+
+      getButton().triggerEventHandler('click');
+      await fixture.whenStable();
+
+      expect(downloadSpy).not.toHaveBeenCalled();
+      expect(snackbarService.addElement).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Verifies that a failed download is reported.
+     */
+    it('Should report a failed export', async () => {
+      spyOn(dialogService, 'open').and.resolveTo({
+        imageFormat: 'png',
+        coordinates: false,
+        markLastMove: false,
+        markWinningLine: false,
+      });
+      downloadSpy.and.rejectWith(new Error('PNG rendering failed'));
+
+      getButton().triggerEventHandler('click');
+      await fixture.whenStable();
+
+      expect(snackbarService.addElement).toHaveBeenCalledWith(
+        'Board image export failed',
+        true
+      );
+    });
+  });
+
+  /**
+   * Tests the global Alt hotkeys of the game page.
+   */
+  describe('Hotkeys:', () => {
+    let dispatchSpy: jasmine.Spy;
+
+    /**
+     * Presses a key of the document.
+     *
+     * @param code Value of `KeyboardEvent.code`.
+     * @param modifiers Modifier keys held (Alt by default).
+     * @returns The dispatched event.
+     */
+    const press = (
+      code: string,
+      modifiers: KeyboardEventInit = { altKey: true }
+    ) => {
+      const event = new KeyboardEvent('keydown', {
+        code,
+        ...modifiers,
+        bubbles: true,
+        cancelable: true,
+      });
+      document.dispatchEvent(event);
+      return event;
+    };
+
+    /**
+     * Renders the component in a two player game with two recorded moves.
+     */
+    const render = () => {
+      const mockStore = TestBed.inject(MockStore);
+      const current = state as { gameInfo: GameInfo; gameSettings: GameSettings };
+      mockStore.setState({
+        gameInfo: {
+          ...current.gameInfo,
+          actualStep: 2,
+          moveHistory: [
+            { row: 0, column: 0, markup: 'o', timestamp: 1 },
+            { row: 1, column: 1, markup: 'x', timestamp: 2 },
+          ],
+        },
+        gameSettings: { ...current.gameSettings, opponent: 'player' },
+      });
+
+      fixture = TestBed.createComponent(NavBar);
+      component = fixture.componentInstance;
+      fixture.detectChanges();
+    };
+
+    beforeEach(() => {
+      spyOnProperty(themeService, 'mode', 'get').and.returnValue('light');
+      spyOnProperty(authService, 'user').and.returnValue(signal(testUser));
+      dispatchSpy = spyOn(store, 'dispatch');
+      currentEnPoint.set('tic-tac-toe');
+      render();
+    });
+
+    /**
+     * Verifies that the hotkeys run the new game, save and undo actions.
+     */
+    it('Should start a new game, save and undo with Alt hotkeys', () => {
+      const openSpy = spyOn(dialogService, 'open').and.resolveTo('CLOSE_EVENT');
+
+      expect(press('KeyN').defaultPrevented).toBeTrue();
+      press('KeyS');
+      press('KeyZ');
+
+      expect(getCallsArray(dispatchSpy.calls.all())).toEqual([
+        reserGameInfo(),
+        undoGameMove({
+          moves: 1,
+          winLength: 3,
+          firstMarkup: 'o',
+          players: 2,
+          variant: 'classic',
+        }),
+      ]);
+      expect(openSpy).toHaveBeenCalledOnceWith('save', {
+        title: 'Save game',
+        content: 'save',
+      });
+    });
+
+    /**
+     * Verifies that the hotkeys are ignored without Alt, with Ctrl,
+     * while a dialog is open and off the game page.
+     */
+    it('Should ignore the hotkeys when they do not apply', () => {
+      const plain = press('KeyN', {});
+      press('KeyN', { altKey: true, ctrlKey: true });
+
+      dialogService.actualContent = 'save';
+      press('KeyN');
+      dialogService.actualContent = undefined;
+
+      currentEnPoint.set('account');
+      press('KeyZ');
+
+      expect(plain.defaultPrevented).toBeFalse();
+      expect(dispatchSpy).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Verifies that the shortcuts are announced on their buttons.
+     */
+    it('Should announce the shortcuts of the undo and save buttons', () => {
+      const shortcutOf = (label: string) =>
+        fixture.debugElement
+          .query(By.css(`button[aria-label="${label}"]`))
+          .nativeElement.getAttribute('aria-keyshortcuts');
+
+      expect(shortcutOf('Undo last move.')).toBe('Alt+Z');
+      expect(shortcutOf('Open save dialog.')).toBe('Alt+S');
+      expect(shortcutOf('Copy game.')).toBeNull();
+    });
+  });
+
   /**
    * Test suite covering component methods that are available
    * when an authenticated user is present.
@@ -666,7 +1360,12 @@ describe('NavBar', () => {
 
           // Prepare base game state and settings
           gameInfo = createGameInfo();
-          gameSettings = generateRandomGameSettingObject();
+          gameSettings = {
+            ...generateRandomGameSettingObject(),
+            variant: 'classic',
+            misere: false,
+            players: 2,
+          };
 
           // Mock dialog confirmation with a valid game name
           spyOn(dialogService, 'open').and.returnValue(
@@ -687,10 +1386,28 @@ describe('NavBar', () => {
             name: gameInfo.loadedGameName,
             board: gameInfo.actualBoard,
             lastMove: gameInfo.lastMove,
+            moves: gameInfo.moveHistory ?? [],
             status: 'not_started',
             difficulty: helperService.numberToDifficulty(gameSettings.hardness),
             opponent: gameSettings.opponent,
-            size: gameSettings.size,
+            size: Math.max(gameSettings.rows, gameSettings.columns),
+            rows: gameSettings.rows,
+            columns: gameSettings.columns,
+            winLength: Math.min(
+              gameSettings.winLength,
+              Math.max(gameSettings.rows, gameSettings.columns)
+            ),
+            playerMarkup: gameSettings.playerMarkup,
+            firstMove: gameSettings.firstMove,
+            timeControl: gameSettings.timeControl,
+            playerSpentTime: gameInfo.playerSpentTime,
+            timeout: gameInfo.timeout ?? null,
+            variant: 'classic',
+            gravity: gameSettings.gravity,
+            vanishing: gameSettings.vanishing,
+            misere: gameSettings.misere,
+            markOrder: gameInfo.markOrder ?? null,
+            players: 2,
           };
         });
 
@@ -718,16 +1435,12 @@ describe('NavBar', () => {
                 }
               }) as typeof store.selectSignal);
 
-              // Derive game status from winner
-              switch (winner) {
-                case 'o':
-                  body.status = 'won';
-                  break;
-                case 'x':
-                  body.status = 'lost';
-                  break;
-                case 'draw':
-                  body.status = 'draw';
+              // Derive game status from winner, seen from the player's markup
+              if (winner === 'draw') {
+                body.status = 'draw';
+              } else if (winner) {
+                body.status =
+                  winner === gameSettings.playerMarkup ? 'won' : 'lost';
               }
 
               const button = fixture.debugElement.queryAll(By.css('button'))[3];
@@ -754,6 +1467,124 @@ describe('NavBar', () => {
               }
             });
 
+            // Under the misère rule the side completing the line loses
+            if (winner === 'x' || winner === 'o')
+              it(`should save a misère game completed by '${winner}' from the other side's point of view`, async () => {
+                const misereSettings = { ...gameSettings, misere: true };
+                selectSignalSpy.and.callFake(((selector: any) => {
+                  switch (selector) {
+                    case selectGameInfo:
+                      return signal({ ...gameInfo, winner, timeout: null });
+                    case selectGameSettings:
+                      return signal(misereSettings);
+                    default:
+                      return signal(undefined);
+                  }
+                }) as typeof store.selectSignal);
+
+                const button = fixture.debugElement.queryAll(By.css('button'))[3];
+                button.triggerEventHandler('click');
+
+                fixture.detectChanges();
+                await fixture.whenStable();
+                await new Promise((response) => setTimeout(response, 0));
+
+                expect(requestSpy).toHaveBeenCalledWith(
+                  'post',
+                  'game/create-game',
+                  {
+                    ...body,
+                    status: winner === gameSettings.playerMarkup ? 'lost' : 'won',
+                    timeout: null,
+                    misere: true,
+                  },
+                  { maxRetries: 3, initialDelay: 100 }
+                );
+              });
+
+            // In a three-player game every other side's win is a loss of the player
+            if (winner === 'x')
+              it('should save a three-player game won by the triangle as lost', async () => {
+                const threePlayerSettings: GameSettings = {
+                  ...gameSettings,
+                  opponent: 'player',
+                  playerMarkup: 'o',
+                  rows: 5,
+                  columns: 5,
+                  misere: true,
+                  players: 3,
+                };
+                selectSignalSpy.and.callFake(((selector: any) => {
+                  switch (selector) {
+                    case selectGameInfo:
+                      return signal({ ...gameInfo, winner: 't', timeout: null });
+                    case selectGameSettings:
+                      return signal(threePlayerSettings);
+                    default:
+                      return signal(undefined);
+                  }
+                }) as typeof store.selectSignal);
+
+                const button = fixture.debugElement.queryAll(By.css('button'))[3];
+                button.triggerEventHandler('click');
+
+                fixture.detectChanges();
+                await fixture.whenStable();
+                await new Promise((response) => setTimeout(response, 0));
+
+                // The misère rule is ignored with three players
+                expect(requestSpy).toHaveBeenCalledWith(
+                  'post',
+                  'game/create-game',
+                  jasmine.objectContaining({
+                    status: 'lost',
+                    opponent: 'player',
+                    misere: false,
+                    players: 3,
+                  }),
+                  { maxRetries: 3, initialDelay: 100 }
+                );
+              });
+
+            // Ultimate games are saved on their flat 9x9 board
+            if (!winner)
+              it('should save an Ultimate game with its flat board dimensions', async () => {
+                selectSignalSpy.and.callFake(((selector: any) => {
+                  switch (selector) {
+                    case selectGameInfo:
+                      return signal({ ...gameInfo, winner });
+                    case selectGameSettings:
+                      return signal({ ...gameSettings, variant: 'ultimate' });
+                    default:
+                      return signal(undefined);
+                  }
+                }) as typeof store.selectSignal);
+
+                const button = fixture.debugElement.queryAll(By.css('button'))[3];
+                button.triggerEventHandler('click');
+
+                fixture.detectChanges();
+                await fixture.whenStable();
+                await new Promise((response) => setTimeout(response, 0));
+
+                expect(requestSpy).toHaveBeenCalledWith(
+                  'post',
+                  'game/create-game',
+                  {
+                    ...body,
+                    size: 9,
+                    rows: 9,
+                    columns: 9,
+                    winLength: 3,
+                    variant: 'ultimate',
+                    gravity: false,
+                    vanishing: false,
+                    misere: false,
+                  },
+                  { maxRetries: 3, initialDelay: 100 }
+                );
+              });
+
             // Additional checks for ongoing games without a winner
             if (!winner)
               for (const actualStep of [undefined, 0, randomBetween(1, 81)]) {
@@ -1,4 +1,10 @@
-import { Component, computed, inject, Signal } from '@angular/core';
+import {
+  Component,
+  computed,
+  HostListener,
+  inject,
+  Signal,
+} from '@angular/core';
 import { HeaderButton } from './header-button/header-button';
 
 import { Theme } from '../../../services/theme.service';
@@ -11,11 +17,56 @@ import { reserGameInfo } from '../../../store/actions/game-info-reset.action';
 import { Auth } from '../../../services/auth.service';
 import { SnackBarHandler } from '../../../services/snack-bar-handler.service';
 import { DialogTriggerButton } from '../../../utils/interfaces/dialog-trigger-button.interface';
-import { selectGameInfo } from '../../../store/selectors/game-info.selector';
-import { selectGameSettings } from '../../../store/selectors/game-settings.selector';
+import {
+  selectActualStep,
+  selectGameInfo,
+  selectGameWinner,
+  selectMoveHistory,
+  selectRedoHistory,
+} from '../../../store/selectors/game-info.selector';
+import {
+  selectFirstMarkup,
+  selectGameOpponent,
+  selectGameSettings,
+  selectGameWinLength,
+  selectPlayedVariant,
+  selectPlayerCount,
+  selectPlayerMarkup,
+} from '../../../store/selectors/game-settings.selector';
 import { Functions } from '../../../services/functions.service';
 import { Http } from '../../../services/http.service';
 import { resetGameInfoResults } from '../../../store/actions/game-info-results-reset.action';
+import { undoGameMove } from '../../../store/actions/game-info-undo.action';
+import { redoGameMove } from '../../../store/actions/game-info-redo.action';
+import {
+  markupByStep,
+  playerCountOf,
+} from '../../../utils/functions/turn-order.function';
+import { resultWinner } from '../../../utils/functions/misere.function';
+import {
+  gameRecordOf,
+  parseGameRecord,
+  recordPosition,
+  serializeGameRecord,
+} from '../../../utils/functions/game-record.function';
+import {
+  encodeSharedPosition,
+  sharedPositionOf,
+} from '../../../utils/functions/share-link.function';
+import { SHARE_LINK_PARAM } from '../../../utils/constants/share-link.constant';
+import { GameRecord } from '../../../utils/interfaces/game-record.interface';
+import { GameInfo } from '../../../utils/interfaces/game-info.interface';
+import { modifyGameInfo } from '../../../store/actions/game-info-modify.action';
+import {
+  gameVariant,
+  playedVariant,
+} from '../../../utils/functions/variant.function';
+import { BoardImageExport } from '../../../services/board-image-export.service';
+import { BoardImageSettings } from '../../../utils/interfaces/board-image-settings.interface';
+import { boardImageSvg } from '../../../utils/functions/board-image.function';
+import { BOARD_IMAGE_FILE_NAME } from '../../../utils/constants/board-image.constant';
+import { HOTKEYS } from '../../../utils/constants/hotkey.constant';
+import { Translation } from '../../../services/translation.service';
 
 @Component({
   selector: 'div[appNavbar]',
@@ -48,6 +99,12 @@ export class NavBar {
   /** Service responsible for displaying snackbar notifications for user feedback */
   #snackbarHandler: SnackBarHandler = inject(SnackBarHandler);
 
+  /** Downloads board images as SVG or PNG files */
+  #imageExport: BoardImageExport = inject(BoardImageExport);
+
+  /** Translation service for the dialog titles and notifications */
+  #translation: Translation = inject(Translation);
+
   /**
    * Reactive signal indicating whether a user is currently logged in.
    * Computed from the Auth service user signal.
@@ -56,11 +113,73 @@ export class NavBar {
     return !!this.#auth.user();
   });
 
+  /** Moves played in the current game (NgRx -> signal) */
+  #moveHistory = this.#store.selectSignal(selectMoveHistory);
+
+  /** Moves taken back by undo that can be replayed (NgRx -> signal) */
+  #redoHistory = this.#store.selectSignal(selectRedoHistory);
+
+  /** Current step of the game (NgRx -> signal) */
+  #step = this.#store.selectSignal(selectActualStep);
+
+  /** Winner of the current game, if decided (NgRx -> signal) */
+  #winner = this.#store.selectSignal(selectGameWinner);
+
+  /** Selected opponent type (NgRx -> signal) */
+  #opponent = this.#store.selectSignal(selectGameOpponent);
+
+  /** Number of marks in a row needed to win (NgRx -> signal) */
+  #winLength = this.#store.selectSignal(selectGameWinLength);
+
+  /** Markup the human player plays with (NgRx -> signal) */
+  #playerMarkup = this.#store.selectSignal(selectPlayerMarkup);
+
+  /** Markup making the first move of the game (NgRx -> signal) */
+  #firstMarkup = this.#store.selectSignal(selectFirstMarkup);
+
+  /** Number of players seated in the game (NgRx -> signal) */
+  #players = this.#store.selectSignal(selectPlayerCount);
+
+  /** Variant the game is played with (NgRx -> signal) */
+  #variant = this.#store.selectSignal(selectPlayedVariant);
+
+  /** Whether the markup to move on the current step is the player's one */
+  #playerTurn: Signal<boolean> = computed(
+    () =>
+      markupByStep(this.#step() ?? 0, this.#firstMarkup()) ===
+      this.#playerMarkup()
+  );
+
+  /**
+   * Whether moves can currently be taken back or replayed.
+   * Against the computer, history changes are blocked while the computer
+   * is about to move (computer's turn).
+   * Decided games are locked: their result is already counted,
+   * so taking back and replaying the last move would count it again.
+   * Games watched in spectator mode have no history controls.
+   */
+  #historyAvailable: Signal<boolean> = computed(() => {
+    if (this.#router.currentEndpoint() !== 'tic-tac-toe') return false;
+    if (this.#opponent() === 'spectator' || this.#winner()) return false;
+    return this.#opponent() !== 'computer' || this.#playerTurn();
+  });
+
+  /**
+   * Number of moves handled by a single undo/redo.
+   * Against the computer the player's move and the computer's reply
+   * are taken back (and replayed) together.
+   */
+  #historyStep: Signal<number> = computed(() => {
+    return this.#opponent() === 'computer' ? 2 : 1;
+  });
+
   /** Button configuration for toggling between light and dark theme */
   readonly #themeButton: Signal<DialogTriggerButton> = computed(() => {
     const mode = this.#theme.mode === 'light' ? 'dark' : 'light';
     return {
-      ariaLabel: `${mode} mode.`,
+      ariaLabel: this.#translation.translate(
+        mode === 'light' ? 'navBar.lightMode' : 'navBar.darkMode'
+      ),
       iconPath:
         mode === 'light'
           ? 'M440-760v-160h80v160h-80Zm266 110-55-55 112-115 56 57-113 113Zm54 210v-80h160v80H760ZM440-40v-160h80v160h-80ZM254-652 140-763l57-56 113 113-56 54Zm508 512L651-255l54-54 114 110-57 59ZM40-440v-80h160v80H40Zm157 300-56-57 112-112 29 27 29 28-114 114Zm283-100q-100 0-170-70t-70-170q0-100 70-170t170-70q100 0 170 70t70 170q0 100-70 170t-170 70Zm0-80q66 0 113-47t47-113q0-66-47-113t-113-47q-66 0-113 47t-47 113q0 66 47 113t113 47Zm0-160Z'
@@ -75,14 +194,14 @@ export class NavBar {
   /** Button configuration for opening the game settings dialog */
   readonly #gameSettingsButton: Signal<DialogTriggerButton> = computed(() => {
     return {
-      ariaLabel: 'Open game settings dialog.',
+      ariaLabel: this.#translation.translate('navBar.gameSettings'),
       iconPath:
         'M189-160q-60 0-102.5-43T42-307q0-9 1-18t3-18l84-336q14-54 57-87.5t98-33.5h390q55 0 98 33.5t57 87.5l84 336q2 9 3.5 18.5T919-306q0 61-43.5 103.5T771-160q-42 0-78-22t-54-60l-28-58q-5-10-15-15t-21-5H385q-11 0-21 5t-15 15l-28 58q-18 38-54 60t-78 22Zm3-80q19 0 34.5-10t23.5-27l28-57q15-31 44-48.5t63-17.5h190q34 0 63 18t45 48l28 57q8 17 23.5 27t34.5 10q28 0 48-18.5t21-46.5q0 1-2-19l-84-335q-7-27-28-44t-49-17H285q-28 0-49.5 17T208-659l-84 335q-2 6-2 18 0 28 20.5 47t49.5 19Zm348-280q17 0 28.5-11.5T580-560q0-17-11.5-28.5T540-600q-17 0-28.5 11.5T500-560q0 17 11.5 28.5T540-520Zm80-80q17 0 28.5-11.5T660-640q0-17-11.5-28.5T620-680q-17 0-28.5 11.5T580-640q0 17 11.5 28.5T620-600Zm0 160q17 0 28.5-11.5T660-480q0-17-11.5-28.5T620-520q-17 0-28.5 11.5T580-480q0 17 11.5 28.5T620-440Zm80-80q17 0 28.5-11.5T740-560q0-17-11.5-28.5T700-600q-17 0-28.5 11.5T660-560q0 17 11.5 28.5T700-520Zm-360 60q13 0 21.5-8.5T370-490v-40h40q13 0 21.5-8.5T440-560q0-13-8.5-21.5T410-590h-40v-40q0-13-8.5-21.5T340-660q-13 0-21.5 8.5T310-630v40h-40q-13 0-21.5 8.5T240-560q0 13 8.5 21.5T270-530h40v40q0 13 8.5 21.5T340-460Zm140-20Z',
       action: async () => {
         const dialogResult = await this.#dialog.open<
           GameSettings | 'CLOSE_EVENT'
         >('game_setting', {
-          title: 'Game setup',
+          title: this.#translation.translate('dialog.gameSettings'),
           content: 'game_setting',
           buttons: [
             { button: 'trigger', name: 'accept', triggerValue: 'form' },
@@ -91,18 +210,67 @@ export class NavBar {
         if (dialogResult && dialogResult !== 'CLOSE_EVENT') {
           this.#store.dispatch(modifyGameSettings(dialogResult));
           this.#store.dispatch(reserGameInfo());
-          this.#snackbarHandler.addElement('Game settings saved', false);
+          this.#snackbarHandler.addElement(
+            this.#translation.translate('snackbar.gameSettingsSaved'),
+            false
+          );
         }
       },
       condition: this.#router.currentEndpoint() === 'tic-tac-toe',
     };
   });
 
+  /** Button configuration for taking back the last move(s) */
+  readonly #undoButton: Signal<DialogTriggerButton> = computed(() => {
+    return {
+      ariaLabel: this.#translation.translate('navBar.undo'),
+      iconPath:
+        'M280-200v-80h284q63 0 109.5-40T720-420q0-60-46.5-100T564-560H312l104 104-56 56-200-200 200-200 56 56-104 104h252q97 0 166.5 63T800-420q0 94-69.5 157T564-200H280Z',
+      action: () => {
+        this.#store.dispatch(
+          undoGameMove({
+            moves: this.#historyStep(),
+            winLength: this.#winLength(),
+            firstMarkup: this.#firstMarkup(),
+            players: this.#players(),
+            variant: this.#variant(),
+          })
+        );
+      },
+      condition: this.#historyAvailable() && !!this.#moveHistory()?.length,
+      keyShortcut: HOTKEYS.undo.label,
+    };
+  });
+
+  /** Button configuration for replaying the last undone move(s) */
+  readonly #redoButton: Signal<DialogTriggerButton> = computed(() => {
+    return {
+      ariaLabel: this.#translation.translate('navBar.redo'),
+      iconPath:
+        'M396-200q-97 0-166.5-63T160-420q0-94 69.5-157T396-640h252L544-744l56-56 200 200-200 200-56-56 104-104H396q-63 0-109.5 40T240-420q0 60 46.5 100T396-280h284v80H396Z',
+      action: () => {
+        this.#store.dispatch(
+          redoGameMove({
+            moves: this.#historyStep(),
+            winLength: this.#winLength(),
+            firstMarkup: this.#firstMarkup(),
+            players: this.#players(),
+            variant: this.#variant(),
+          })
+        );
+      },
+      condition: this.#historyAvailable() && !!this.#redoHistory()?.length,
+    };
+  });
+
   /** Button configuration for navigation between account and game pages */
   readonly #navigateButton: Signal<DialogTriggerButton> = computed(() => {
     return {
-      ariaLabel:
-        this.#router.currentEndpoint() === 'account' ? 'account' : 'back',
+      ariaLabel: this.#translation.translate(
+        this.#router.currentEndpoint() === 'account'
+          ? 'navBar.account'
+          : 'navBar.back'
+      ),
       iconPath:
         this.#router.currentEndpoint() === 'account'
           ? 'm480-320 56-56-64-64h168v-80H472l64-64-56-56-160 160 160 160Zm0 240q-83 0-156-31.5T197-197q-54-54-85.5-127T80-480q0-83 31.5-156T197-763q54-54 127-85.5T480-880q83 0 156 31.5T763-763q54 54 85.5 127T880-480q0 83-31.5 156T763-197q-54 54-127 85.5T480-80Zm0-80q134 0 227-93t93-227q0-134-93-227t-227-93q-134 0-227 93t-93 227q0 134 93 227t227 93Zm0-320Z'
@@ -125,30 +293,45 @@ export class NavBar {
   /** Button configuration for opening the save game dialog */
   readonly #saveButton: Signal<DialogTriggerButton> = computed(() => {
     return {
-      ariaLabel: 'Open save dialog.',
+      ariaLabel: this.#translation.translate('navBar.save'),
       iconPath:
         'M840-680v480q0 33-23.5 56.5T760-120H200q-33 0-56.5-23.5T120-200v-560q0-33 23.5-56.5T200-840h480l160 160Zm-80 34L646-760H200v560h560v-446ZM480-240q50 0 85-35t35-85q0-50-35-85t-85-35q-50 0-85 35t-35 85q0 50 35 85t85 35ZM240-560h360v-160H240v160Zm-40-86v446-560 114Z',
       action: async () => {
         const dialogResult = await this.#dialog.open<
           { gameName: string } | 'CLOSE_EVENT'
         >('save', {
-          title: 'Save game',
+          title: this.#translation.translate('dialog.save'),
           content: 'save',
         });
         if (dialogResult && dialogResult !== 'CLOSE_EVENT') {
           const gameInfo = this.#store.selectSignal(selectGameInfo)();
           const gameSetting = this.#store.selectSignal(selectGameSettings)();
+          const variant = playedVariant(gameSetting);
+          // Fixed boards of a variant (e.g. the flat 9x9 board of Ultimate games)
+          // replace the dimensions of the settings
+          const rules = gameVariant(variant);
+          const { rows, columns, winLength } = rules.dimensions(gameSetting);
+          const players = playerCountOf(gameSetting);
+          // Under the misère rule (two players only) the side completing a line loses
+          const misere =
+            rules.optionalRules && players === 2 && gameSetting.misere;
+          const winner = resultWinner(
+            gameInfo.winner,
+            misere,
+            gameInfo.timeout
+          );
           let status;
-          if (gameInfo.winner) {
-            switch (gameInfo.winner) {
-              case 'o':
+          if (winner) {
+            // Wins are counted from the point of view of the player's markup
+            switch (winner) {
+              case gameSetting.playerMarkup:
                 status = 'won';
                 break;
-              case 'x':
-                status = 'lost';
-                break;
               case 'draw':
                 status = 'draw';
+                break;
+              default:
+                status = 'lost';
             }
           } else {
             switch (gameInfo.actualStep) {
@@ -165,12 +348,28 @@ export class NavBar {
             name: dialogResult!.gameName,
             board: gameInfo.actualBoard,
             lastMove: gameInfo.lastMove,
+            moves: gameInfo.moveHistory ?? [],
             status,
             difficulty: this.#helperFunctions.numberToDifficulty(
               gameSetting.hardness
             ),
             opponent: gameSetting.opponent,
-            size: gameSetting.size,
+            // Kept for readers of square boards only (e.g. older clients)
+            size: Math.max(rows, columns),
+            rows,
+            columns,
+            winLength,
+            playerMarkup: gameSetting.playerMarkup,
+            firstMove: gameSetting.firstMove,
+            timeControl: gameSetting.timeControl,
+            playerSpentTime: gameInfo.playerSpentTime,
+            timeout: gameInfo.timeout ?? null,
+            variant,
+            gravity: rules.optionalRules && gameSetting.gravity,
+            vanishing: rules.optionalRules && gameSetting.vanishing,
+            misere,
+            markOrder: gameInfo.markOrder ?? null,
+            players,
           };
 
           try {
@@ -182,38 +381,250 @@ export class NavBar {
             );
             if ((result as any).userId) {
               this.#snackbarHandler.addElement(
-                'Game saved successfully',
+                this.#translation.translate('snackbar.gameSaved'),
                 false
               );
             } else {
-              this.#snackbarHandler.addElement('Game saving failed', true);
+              this.#snackbarHandler.addElement(
+                this.#translation.translate('snackbar.gameSavingFailed'),
+                true
+              );
             }
           } catch (error) {
-            this.#snackbarHandler.addElement('Game saving failed', true);
+            this.#snackbarHandler.addElement(
+              this.#translation.translate('snackbar.gameSavingFailed'),
+              true
+            );
           }
         }
       },
       condition:
         !!this.#auth.user() && this.#router.currentEndpoint() === 'tic-tac-toe',
+      keyShortcut: HOTKEYS.save.label,
+    };
+  });
+
+  /** Button configuration for copying the current game as a text record */
+  readonly #copyButton: Signal<DialogTriggerButton> = computed(() => {
+    return {
+      ariaLabel: this.#translation.translate('navBar.copy'),
+      iconPath:
+        'M360-240q-33 0-56.5-23.5T280-320v-480q0-33 23.5-56.5T360-880h360q33 0 56.5 23.5T800-800v480q0 33-23.5 56.5T720-240H360Zm0-80h360v-480H360v480ZM200-80q-33 0-56.5-23.5T120-160v-560h80v560h440v80H200Zm160-240v-480 480Z',
+      action: async () => {
+        const gameSetting = this.#store.selectSignal(selectGameSettings)();
+        const record = gameRecordOf(
+          gameSetting,
+          this.#store.selectSignal(selectGameInfo)(),
+          this.#helperFunctions.numberToDifficulty(gameSetting.hardness),
+          new Date()
+        );
+        try {
+          await navigator.clipboard.writeText(serializeGameRecord(record));
+          this.#snackbarHandler.addElement(
+            this.#translation.translate('snackbar.gameCopied'),
+            false
+          );
+        } catch {
+          this.#snackbarHandler.addElement(
+            this.#translation.translate('snackbar.gameCopyingFailed'),
+            true
+          );
+        }
+      },
+      condition: this.#router.currentEndpoint() === 'tic-tac-toe',
+    };
+  });
+
+  /** Button configuration for loading a game record from the clipboard */
+  readonly #pasteButton: Signal<DialogTriggerButton> = computed(() => {
+    return {
+      ariaLabel: this.#translation.translate('navBar.paste'),
+      iconPath:
+        'M200-120q-33 0-56.5-23.5T120-200v-560q0-33 23.5-56.5T200-840h167q11-35 43-57.5t70-22.5q40 0 71.5 22.5T594-840h166q33 0 56.5 23.5T840-760v560q0 33-23.5 56.5T760-120H200Zm0-80h560v-560h-80v120H280v-120h-80v560Zm280-560q17 0 28.5-11.5T520-800q0-17-11.5-28.5T480-840q-17 0-28.5 11.5T440-800q0 17 11.5 28.5T480-760Z',
+      action: async () => {
+        let text: string;
+        try {
+          text = await navigator.clipboard.readText();
+        } catch {
+          this.#snackbarHandler.addElement(
+            this.#translation.translate('snackbar.gamePastingFailed'),
+            true
+          );
+          return;
+        }
+
+        let record: GameRecord;
+        let position: GameInfo;
+        try {
+          record = parseGameRecord(text);
+          position = recordPosition(record);
+        } catch (error) {
+          this.#snackbarHandler.addElement(
+            this.#translation.translate('snackbar.invalidGameRecord', {
+              message: this.#translation.translateError(error),
+            }),
+            true
+          );
+          return;
+        }
+
+        this.#store.dispatch(
+          modifyGameSettings({
+            variant: record.variant,
+            // Fixed boards (e.g. Ultimate, quantum, Order and Chaos)
+            // keep the dimensions of the classic settings
+            ...(!gameVariant(record.variant).fixedBoard
+              ? {
+                  rows: record.rows,
+                  columns: record.columns,
+                  winLength: record.winLength,
+                }
+              : {}),
+            gravity: record.gravity,
+            vanishing: record.vanishing,
+            misere: record.misere,
+            players: record.players,
+            hardness: this.#helperFunctions.difficultyToNumber(
+              record.difficulty
+            ),
+            // Records hold positions only, so they are continued by
+            // local players, who can play every variant in the chosen order
+            opponent: 'player',
+            playerMarkup: record.firstMarkup,
+            firstMove: 'human',
+            timeControl: 'none',
+          })
+        );
+        this.#store.dispatch(
+          modifyGameInfo({
+            actualBoard: position.actualBoard,
+            ultimateBoard: position.ultimateBoard,
+            quantumBoard: position.quantumBoard,
+            markOrder: position.markOrder,
+            actualStep: position.actualStep,
+            actualMarkup: position.actualMarkup,
+            lastMove: position.lastMove,
+            winner: position.winner,
+            winningLine: position.winningLine,
+            timeout: null,
+            started: false,
+            playerSpentTime: { player_X: 0, player_O: 0 },
+            loadedGameName: undefined,
+            moveHistory: position.moveHistory,
+            redoHistory: [],
+          })
+        );
+        this.#snackbarHandler.addElement(
+          this.#translation.translate('snackbar.gamePasted'),
+          false
+        );
+      },
+      condition: this.#router.currentEndpoint() === 'tic-tac-toe',
+    };
+  });
+
+  /** Button configuration for copying a link to the current position */
+  readonly #shareButton: Signal<DialogTriggerButton> = computed(() => {
+    return {
+      ariaLabel: this.#translation.translate('navBar.share'),
+      iconPath:
+        'M680-80q-50 0-85-35t-35-85q0-6 3-28L282-392q-16 15-37 23.5t-45 8.5q-50 0-85-35t-35-85q0-50 35-85t85-35q24 0 45 8.5t37 23.5l281-164q-2-7-2.5-13.5T560-760q0-50 35-85t85-35q50 0 85 35t35 85q0 50-35 85t-85 35q-24 0-45-8.5T598-672L317-508q2 7 2.5 13.5t.5 14.5q0 8-.5 14.5T317-452l281 164q16-15 37-23.5t45-8.5q50 0 85 35t35 85q0 50-35 85t-85 35Zm0-640q17 0 28.5-11.5T720-760q0-17-11.5-28.5T680-800q-17 0-28.5 11.5T640-760q0 17 11.5 28.5T680-720ZM200-440q17 0 28.5-11.5T240-480q0-17-11.5-28.5T200-520q-17 0-28.5 11.5T160-480q0 17 11.5 28.5T200-440Zm480 280q17 0 28.5-11.5T720-200q0-17-11.5-28.5T680-240q-17 0-28.5 11.5T640-200q0 17 11.5 28.5T680-160Zm0-600ZM200-480Zm480 280Z',
+      action: async () => {
+        const position = sharedPositionOf(
+          this.#store.selectSignal(selectGameSettings)(),
+          this.#store.selectSignal(selectGameInfo)()
+        );
+        const link = this.#router.linkTo(['tic-tac-toe'], {
+          [SHARE_LINK_PARAM]: encodeSharedPosition(position),
+        });
+        try {
+          await navigator.clipboard.writeText(link);
+          this.#snackbarHandler.addElement(
+            this.#translation.translate('snackbar.linkCopied'),
+            false
+          );
+        } catch {
+          this.#snackbarHandler.addElement(
+            this.#translation.translate('snackbar.linkCopyingFailed'),
+            true
+          );
+        }
+      },
+      // Spooky marks are only kept in the move list, so positions of variants
+      // placing them (e.g. quantum) can not be written as a board
+      condition:
+        this.#router.currentEndpoint() === 'tic-tac-toe' &&
+        !gameVariant(this.#variant()).spookyMarks,
+    };
+  });
+
+  /** Button configuration for exporting the current board as an image */
+  readonly #exportButton: Signal<DialogTriggerButton> = computed(() => {
+    return {
+      ariaLabel: this.#translation.translate('navBar.export'),
+      iconPath:
+        'M200-120q-33 0-56.5-23.5T120-200v-560q0-33 23.5-56.5T200-840h560q33 0 56.5 23.5T840-760v560q0 33-23.5 56.5T760-120H200Zm0-80h560v-560H200v560Zm40-80h480L570-480 450-320l-90-120-120 160Zm-40 80v-560 560Z',
+      action: async () => {
+        const dialogResult = await this.#dialog.open<
+          BoardImageSettings | 'CLOSE_EVENT'
+        >('export', {
+          title: this.#translation.translate('dialog.export'),
+          content: 'export',
+        });
+        if (dialogResult && dialogResult !== 'CLOSE_EVENT') {
+          const gameInfo = this.#store.selectSignal(selectGameInfo)();
+          const svg = boardImageSvg(
+            {
+              board: gameInfo.actualBoard ?? [],
+              layout: gameVariant(this.#variant()).layout,
+              lastMove: gameInfo.lastMove,
+              winningLine: gameInfo.winningLine ?? null,
+              primaryColor: this.#theme.primaryColor ?? '',
+              accentColor: this.#theme.accentColor ?? '',
+            },
+            dialogResult
+          );
+          try {
+            await this.#imageExport.download(
+              svg,
+              BOARD_IMAGE_FILE_NAME,
+              dialogResult.imageFormat
+            );
+            this.#snackbarHandler.addElement(
+              this.#translation.translate('snackbar.imageExported'),
+              false
+            );
+          } catch {
+            this.#snackbarHandler.addElement(
+              this.#translation.translate('snackbar.imageExportFailed'),
+              true
+            );
+          }
+        }
+      },
+      condition: this.#router.currentEndpoint() === 'tic-tac-toe',
     };
   });
 
   /** Button configuration for opening the settings dialog */
   readonly #settingsButton: Signal<DialogTriggerButton> = computed(() => {
     return {
-      ariaLabel: 'Open settings dialog.',
+      ariaLabel: this.#translation.translate('navBar.settings'),
       iconPath:
         'm370-80-16-128q-13-5-24.5-12T307-235l-119 50L78-375l103-78q-1-7-1-13.5v-27q0-6.5 1-13.5L78-585l110-190 119 50q11-8 23-15t24-12l16-128h220l16 128q13 5 24.5 12t22.5 15l119-50 110 190-103 78q1 7 1 13.5v27q0 6.5-2 13.5l103 78-110 190-118-50q-11 8-23 15t-24 12L590-80H370Zm70-80h79l14-106q31-8 57.5-23.5T639-327l99 41 39-68-86-65q5-14 7-29.5t2-31.5q0-16-2-31.5t-7-29.5l86-65-39-68-99 42q-22-23-48.5-38.5T533-694l-13-106h-79l-14 106q-31 8-57.5 23.5T321-633l-99-41-39 68 86 64q-5 15-7 30t-2 32q0 16 2 31t7 30l-86 65 39 68 99-42q22 23 48.5 38.5T427-266l13 106Zm42-180q58 0 99-41t41-99q0-58-41-99t-99-41q-59 0-99.5 41T342-480q0 58 40.5 99t99.5 41Zm-2-140Z',
       action: async () => {
         const dialogResult = await this.#dialog.open<true | 'CLOSE_EVENT'>(
           'setting',
           {
-            title: 'Settings',
+            title: this.#translation.translate('dialog.settings'),
             content: 'setting',
           }
         );
         if (dialogResult && dialogResult !== 'CLOSE_EVENT') {
-          this.#snackbarHandler.addElement('Settings updated', false);
+          this.#snackbarHandler.addElement(
+            this.#translation.translate('snackbar.settingsUpdated'),
+            false
+          );
         }
       },
       condition: true,
@@ -223,7 +634,7 @@ export class NavBar {
   /** Button configuration for opening the authentication dialog */
   readonly #authButton: Signal<DialogTriggerButton> = computed(() => {
     return {
-      ariaLabel: 'Login',
+      ariaLabel: this.#translation.translate('navBar.login'),
       iconPath:
         'M480-120v-80h280v-560H480v-80h280q33 0 56.5 23.5T840-760v560q0 33-23.5 56.5T760-120H480Zm-80-160-55-58 102-102H120v-80h327L345-622l55-58 200 200-200 200Z',
       action: async () => {
@@ -235,7 +646,7 @@ export class NavBar {
             }
           | 'CLOSE_EVENT'
         >('login', {
-          title: 'Login',
+          title: this.#translation.translate('dialog.login'),
           content: '',
         });
 
@@ -246,9 +657,15 @@ export class NavBar {
             dialogResult.rePassword
           );
           if (user) {
-            this.#snackbarHandler.addElement('Registration successful', false);
+            this.#snackbarHandler.addElement(
+              this.#translation.translate('snackbar.registrationSuccessful'),
+              false
+            );
           } else {
-            this.#snackbarHandler.addElement('Registration failed', true);
+            this.#snackbarHandler.addElement(
+              this.#translation.translate('snackbar.registrationFailed'),
+              true
+            );
           }
         } else if (
           dialogResult !== 'CLOSE_EVENT' &&
@@ -261,9 +678,15 @@ export class NavBar {
           );
           if (user) {
             this.#auth.user = user;
-            this.#snackbarHandler.addElement('Logged in successfully', false);
+            this.#snackbarHandler.addElement(
+              this.#translation.translate('snackbar.loggedIn'),
+              false
+            );
           } else {
-            this.#snackbarHandler.addElement('Login failed', true);
+            this.#snackbarHandler.addElement(
+              this.#translation.translate('snackbar.loginFailed'),
+              true
+            );
           }
         }
       },
@@ -274,18 +697,24 @@ export class NavBar {
   /** Button configuration for logging out the authenticated user */
   readonly #logoutButton: Signal<DialogTriggerButton> = computed(() => {
     return {
-      ariaLabel: 'Logout',
+      ariaLabel: this.#translation.translate('navBar.logout'),
       iconPath:
         'M200-120q-33 0-56.5-23.5T120-200v-560q0-33 23.5-56.5T200-840h280v80H200v560h280v80H200Zm440-160-55-58 102-102H360v-80h327L585-622l55-58 200 200-200 200Z',
       action: async () => {
         const dialogResult = await this.#dialog.open<true | 'CLOSE_EVENT'>(
           'message',
           {
-            title: 'Logout',
-            content: 'Do you sure quit?',
+            title: this.#translation.translate('dialog.logout'),
+            content: this.#translation.translate('dialog.logoutQuestion'),
             buttons: [
-              { button: 'accept', name: 'Logout' },
-              { button: 'reject', name: 'Back' },
+              {
+                button: 'accept',
+                name: this.#translation.translate('button.logout'),
+              },
+              {
+                button: 'reject',
+                name: this.#translation.translate('button.back'),
+              },
             ],
           }
         );
@@ -297,16 +726,22 @@ export class NavBar {
               this.#store.dispatch(modifyGameSettings({ opponent: 'player' }));
               this.#auth.user = undefined;
               this.#snackbarHandler.addElement(
-                'Logged out successfully',
+                this.#translation.translate('snackbar.loggedOut'),
                 false
               );
               this.#store.dispatch(resetGameInfoResults());
               this.#store.dispatch(reserGameInfo());
             } else {
-              this.#snackbarHandler.addElement('Logout failed', true);
+              this.#snackbarHandler.addElement(
+                this.#translation.translate('snackbar.logoutFailed'),
+                true
+              );
             }
           } catch (error) {
-            this.#snackbarHandler.addElement('Logout failed', true);
+            this.#snackbarHandler.addElement(
+              this.#translation.translate('snackbar.logoutFailed'),
+              true
+            );
           }
         }
       },
@@ -319,11 +754,62 @@ export class NavBar {
     this.#navigateButton(),
     this.#themeButton(),
     this.#gameSettingsButton(),
+    this.#undoButton(),
+    this.#redoButton(),
     this.#saveButton(),
     this.#settingsButton(),
     this.#authButton(),
     this.#logoutButton(),
+    this.#copyButton(),
+    this.#pasteButton(),
+    this.#shareButton(),
+    this.#exportButton(),
   ]);
 
+  /**
+   * Global hotkeys of the game page (see `HOTKEYS`), pressed with Alt:
+   *  - new game → resets the current game,
+   *  - save → opens the save dialog,
+   *  - undo → takes back the last move(s).
+   *
+   * Ignored while a dialog is open, with Ctrl/Meta held, off the game page
+   * and whenever the matching button is not available.
+   *
+   * @param event Keydown event of the document.
+   */
+  @HostListener('document:keydown', ['$event'])
+  onHotkey(event: Event): void {
+    const keyboardEvent = event as KeyboardEvent;
+    if (
+      !keyboardEvent.altKey ||
+      keyboardEvent.ctrlKey ||
+      keyboardEvent.metaKey ||
+      this.#dialog.actualContent() ||
+      this.#router.currentEndpoint() !== 'tic-tac-toe'
+    ) {
+      return;
+    }
+
+    let button: DialogTriggerButton;
+    switch (keyboardEvent.code) {
+      case HOTKEYS.newGame.code:
+        event.preventDefault();
+        this.#store.dispatch(reserGameInfo());
+        return;
+      case HOTKEYS.save.code:
+        button = this.#saveButton();
+        break;
+      case HOTKEYS.undo.code:
+        button = this.#undoButton();
+        break;
+      default:
+        return;
+    }
+
+    event.preventDefault();
+    if (button.condition) {
+      button.action();
+    }
+  }
 
 }
@@ -0,0 +1,72 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideZonelessChangeDetection } from '@angular/core';
+import { By } from '@angular/platform-browser';
+
+import { LiveRegion } from './live-region';
+import { Announcer } from '../../services/announcer.service';
+import { ANNOUNCER_DELAY } from '../../utils/constants/announcer.constant';
+
+/**
+ * @fileoverview
+ * Unit tests for the LiveRegion component.
+ *
+ * Covers:
+ * - HTML rendering: a polite status region and an assertive alert region
+ * - The messages of the `Announcer` service are rendered in their region
+ */
+
+describe('LiveRegion', () => {
+  /** Fixture providing access to the rendered template. */
+  let fixture: ComponentFixture<LiveRegion>;
+
+  /** Service holding the announced messages. */
+  let announcer: Announcer;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [LiveRegion],
+      providers: [provideZonelessChangeDetection()],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(LiveRegion);
+    announcer = TestBed.inject(Announcer);
+    fixture.detectChanges();
+  });
+
+  /**
+   * Returns the live region with the given politeness.
+   *
+   * @param politeness Value of the `aria-live` attribute.
+   */
+  const region = (politeness: string) =>
+    fixture.debugElement.query(By.css(`[aria-live="${politeness}"]`))
+      .nativeElement as HTMLDivElement;
+
+  /**
+   * Ensures that both regions are rendered with their roles and are atomic.
+   */
+  it('Should render a polite and an assertive live region', () => {
+    expect(region('polite').getAttribute('role')).toBe('status');
+    expect(region('assertive').getAttribute('role')).toBe('alert');
+    expect(region('polite').getAttribute('aria-atomic')).toBe('true');
+    expect(region('assertive').getAttribute('aria-atomic')).toBe('true');
+  });
+
+  /**
+   * Ensures that the announced messages are rendered in their region.
+   */
+  it('Should render the announced messages', () => {
+    jasmine.clock().install();
+    try {
+      announcer.announce('Your turn.');
+      announcer.announce('You won.', 'assertive');
+      jasmine.clock().tick(ANNOUNCER_DELAY);
+      fixture.detectChanges();
+
+      expect(region('polite').textContent).toBe('Your turn.');
+      expect(region('assertive').textContent).toBe('You won.');
+    } finally {
+      jasmine.clock().uninstall();
+    }
+  });
+});
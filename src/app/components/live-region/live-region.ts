@@ -0,0 +1,29 @@
+import { Component, inject, Signal } from '@angular/core';
+import { Announcer } from '../../services/announcer.service';
+
+/**
+ * @component LiveRegion
+ *
+ * Visually hidden aria-live regions reading out the messages
+ * of the `Announcer` service: a polite one for moves, turns and notices,
+ * and an assertive one for results, low time and errors.
+ *
+ * Rendered once by the root component and never removed,
+ * since screen readers only follow regions present before their content changes.
+ */
+@Component({
+  selector: 'app-live-region',
+  imports: [],
+  templateUrl: './live-region.html',
+  styleUrl: './live-region.scss',
+})
+export class LiveRegion {
+  /** Service holding the announced messages. */
+  #announcer: Announcer = inject(Announcer);
+
+  /** Message of the polite live region. */
+  protected polite: Signal<string> = this.#announcer.polite;
+
+  /** Message of the assertive live region. */
+  protected assertive: Signal<string> = this.#announcer.assertive;
+}
@@ -2,6 +2,7 @@ import { Component, inject, OnDestroy, OnInit } from '@angular/core';
 
 import { SnackElement } from './snack-element/snack-element';
 import { SnackBarHandler } from '../../services/snack-bar-handler.service';
+import { Translation } from '../../services/translation.service';
 
 /**
  * Visual container component responsible for displaying active snackbar messages.
@@ -38,6 +39,9 @@ export class SnackBar implements OnInit, OnDestroy {
    */
   #interval!: ReturnType<typeof setInterval>;
 
+  /** Translation service for the label of the message list */
+  protected translation: Translation = inject(Translation);
+
   /**
    * Reactive list of snackbar items retrieved from the handler service.
    * The template can subscribe to this signal to update the UI in real time.
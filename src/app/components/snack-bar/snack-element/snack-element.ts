@@ -2,11 +2,13 @@ import {
   Component,
   EventEmitter,
   HostBinding,
+  inject,
   input,
   InputSignal,
   Output,
 } from '@angular/core';
 import { snackbarTemplate } from '../../../utils/interfaces/snackbar.interface';
+import { Translation } from '../../../services/translation.service';
 
 /**
  * Single snackbar UI element responsible for rendering the visual appearance
@@ -42,6 +44,9 @@ export class SnackElement {
    */
   @Output() closeEvent = new EventEmitter<number>();
 
+  /** Translation service for the label of the close button */
+  protected translation: Translation = inject(Translation);
+
   /**
    * Optional interval reference should the component require
    * local timing logic in the future. Currently cleared when
@@ -0,0 +1,67 @@
+import { Injectable, Signal, signal, WritableSignal } from '@angular/core';
+import { ANNOUNCER_DELAY } from '../utils/constants/announcer.constant';
+import { AnnouncerPoliteness } from '../utils/types/announcer-politeness.type';
+
+/**
+ * @service Announcer
+ *
+ * Holds the messages of the screen-reader live regions
+ * rendered by the `LiveRegion` component.
+ *
+ * - Polite messages are read when the screen reader is idle,
+ *   assertive ones interrupt the current speech.
+ * - A region is cleared when a message arrives and filled after
+ *   `ANNOUNCER_DELAY`, so the same message is read again when repeated.
+ * - Messages arriving within the delay are joined into one announcement,
+ *   e.g. a move and the next turn:
+ *   "Computer placed cross at row 2, column 3. Your turn."
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class Announcer {
+  /** Current message of each live region. */
+  #messages: Record<AnnouncerPoliteness, WritableSignal<string>> = {
+    polite: signal(''),
+    assertive: signal(''),
+  };
+
+  /** Messages waiting to be written into each live region. */
+  #pending: Record<AnnouncerPoliteness, string[]> = {
+    polite: [],
+    assertive: [],
+  };
+
+  /** Pending timers writing the waiting messages, per live region. */
+  #timeouts: Partial<
+    Record<AnnouncerPoliteness, ReturnType<typeof setTimeout>>
+  > = {};
+
+  /** Read-only message of the polite live region. */
+  get polite(): Signal<string> {
+    return this.#messages.polite.asReadonly();
+  }
+
+  /** Read-only message of the assertive live region. */
+  get assertive(): Signal<string> {
+    return this.#messages.assertive.asReadonly();
+  }
+
+  /**
+   * Announces a message to screen-reader users.
+   *
+   * @param message - Text to read out, ending with a full stop.
+   * @param politeness - Live region of the message (polite by default).
+   */
+  announce(message: string, politeness: AnnouncerPoliteness = 'polite'): void {
+    this.#pending[politeness].push(message);
+    if (this.#timeouts[politeness] !== undefined) return;
+
+    this.#messages[politeness].set('');
+    this.#timeouts[politeness] = setTimeout(() => {
+      this.#messages[politeness].set(this.#pending[politeness].join(' '));
+      this.#pending[politeness] = [];
+      delete this.#timeouts[politeness];
+    }, ANNOUNCER_DELAY);
+  }
+}
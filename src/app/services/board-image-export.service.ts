@@ -0,0 +1,74 @@
+import { DOCUMENT, inject, Injectable } from '@angular/core';
+import { BoardImageFormat } from '../utils/types/board-image-format.type';
+import { BOARD_IMAGE_REVOKE_DELAY } from '../utils/constants/board-image.constant';
+
+/**
+ * @service BoardImageExport
+ *
+ * Downloads board images written by `boardImageSvg`.
+ *
+ * - SVG images are saved as they are.
+ * - PNG images are drawn from the SVG onto a canvas of the same size.
+ *
+ * The download is started through a temporary object URL and link.
+ * The URL is revoked once `BOARD_IMAGE_REVOKE_DELAY` has passed after
+ * the click, as the browser only reads the file after the click returns.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class BoardImageExport {
+  /** Reference to the global `document` object. */
+  #document = inject(DOCUMENT);
+
+  /**
+   * Downloads a board image in the chosen format.
+   *
+   * @param svg - SVG markup of the image.
+   * @param fileName - Name of the file, without its extension.
+   * @param format - File format of the download.
+   * @throws Error if the PNG image could not be drawn.
+   */
+  async download(
+    svg: string,
+    fileName: string,
+    format: BoardImageFormat
+  ): Promise<void> {
+    const blob =
+      format === 'png'
+        ? await this.pngOf(svg)
+        : new Blob([svg], { type: 'image/svg+xml' });
+    const url = URL.createObjectURL(blob);
+    const link = this.#document.createElement('a');
+    link.href = url;
+    link.download = `${fileName}.${format}`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), BOARD_IMAGE_REVOKE_DELAY);
+  }
+
+  /**
+   * Draws an SVG image onto a canvas and returns it as a PNG file.
+   *
+   * @param svg - SVG markup of the image (with its own width and height).
+   * @returns The PNG file of the image.
+   * @throws Error if the canvas could not be turned into a PNG file.
+   */
+  private async pngOf(svg: string): Promise<Blob> {
+    const image = this.#document.createElement('img');
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+    await image.decode();
+
+    const canvas = this.#document.createElement('canvas');
+    canvas.width = image.naturalWidth;
+    canvas.height = image.naturalHeight;
+    canvas.getContext('2d')?.drawImage(image, 0, 0);
+
+    return new Promise((resolve, reject) =>
+      canvas.toBlob(
+        (blob) =>
+          blob ? resolve(blob) : reject(new Error('PNG rendering failed')),
+        'image/png'
+      )
+    );
+  }
+}
@@ -226,8 +226,10 @@ export class FormError {
    * Returns the first matching error message from the control's current errors,
    * according to the order defined in ERROR_MESSAGES.
    *
+   * The message is returned as its message key, translated when shown.
+   *
    * @param control - The form control to check.
-   * @returns The first error message, or undefined if there are no errors.
+   * @returns The key of the first error message, or undefined if there are no errors.
    */
   getPrimaryError(control: AbstractControl): ErrorValues | undefined {
     const errorKeys = control.errors ? Object.keys(control.errors) : [];
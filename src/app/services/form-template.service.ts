@@ -3,13 +3,59 @@ import { FieldKey } from '../utils/types/dialog-form-field-model.type';
 import { Auth } from './auth.service';
 import { Store } from '@ngrx/store';
 import {
+  selectFirstMove,
+  selectGameAiEngine,
+  selectGameColumns,
   selectGameHardness,
   selectGameOpponent,
-  selectGameSize,
+  selectGameRows,
+  selectGameSecondHardness,
+  selectGameTimeControl,
+  selectGameVariant,
+  selectGameGravity,
+  selectGameVanishing,
+  selectGameMisere,
+  selectGamePlayers,
+  selectGameWinLength,
+  selectPlayerMarkup,
 } from '../store/selectors/game-settings.selector';
 import { FormField } from '../utils/interfaces/form-field-template.interface';
 import { DialogStructure } from '../utils/interfaces/dialog-structure.interface';
 import { HARNESS_VALUES } from '../utils/constants/hardness.constant';
+import {
+  AI_ENGINE_LABELS,
+  AI_ENGINES,
+} from '../utils/constants/ai-engine.constant';
+import {
+  PLAYER_MARKUP_LABELS,
+  PLAYER_MARKUPS,
+} from '../utils/constants/player-markup.constant';
+import {
+  FIRST_MOVE_LABELS,
+  FIRST_MOVES,
+} from '../utils/constants/first-move.constant';
+import {
+  OPPONENT_LABELS,
+  OPPONENTS,
+} from '../utils/constants/opponent.constant';
+import {
+  TIME_CONTROL_LABELS,
+  TIME_CONTROLS,
+} from '../utils/constants/time-control.constant';
+import { registeredVariants } from '../utils/functions/variant.function';
+import { DEFAULT_VARIANT } from '../utils/constants/variant.constant';
+import { PLAYER_COUNTS } from '../utils/constants/player-count.constant';
+import {
+  BOARD_IMAGE_FORMAT_LABELS,
+  BOARD_IMAGE_FORMATS,
+} from '../utils/constants/board-image.constant';
+import { SWITCH_LABELS } from '../utils/constants/switch.constant';
+import {
+  LANGUAGE_NAMES,
+  LANGUAGES,
+} from '../utils/constants/language.constant';
+import { Translation } from './translation.service';
+import { MessageKey } from '../utils/types/message-key.type';
 
 /**
  * @service FormTemplate
@@ -19,6 +65,8 @@ import { HARNESS_VALUES } from '../utils/constants/hardness.constant';
  *
  * Each form field automatically updates its `baseValue` from the latest state
  * in the store or authentication service, making the form reactive to state changes.
+ * Titles, option names and button names are translated into the chosen
+ * language and follow a language switch.
  */
 @Injectable({
   providedIn: 'root',
@@ -30,6 +78,9 @@ export class FormTemplate {
   /** NgRx Store service for reactive state selection */
   #store: Store = inject(Store);
 
+  /** Translation service for the titles and button names */
+  #translation: Translation = inject(Translation);
+
   /** Reactive structure for game settings form fields */
   readonly #gameSettingsStructure: Signal<{
     structure: FormField[];
@@ -40,31 +91,132 @@ export class FormTemplate {
       /** Form fields for game settings */
       structure: [
         {
-          key: 'size',
-          title: 'Board Size',
+          key: 'variant',
+          title: this.#translation.translate('field.variant'),
           type: 'select',
-          model: 'size',
+          model: 'variant',
+          // Every registered rule set; fixed boards (e.g. Ultimate) ignore the fields below
+          options: registeredVariants().map((variant) => variant.id),
+          optionLabels: Object.fromEntries(
+            registeredVariants().map((variant) => [
+              variant.id,
+              this.#translation.translate(variant.name),
+            ])
+          ),
+          baseValue:
+            this.#store.selectSignal(selectGameVariant)() ?? DEFAULT_VARIANT,
+          valueType: 'string',
+        },
+        {
+          key: 'rows',
+          title: this.#translation.translate('field.rows'),
+          type: 'select',
+          model: 'rows',
           options: [3, 4, 5, 6, 7, 8, 9],
           // Reactive value from store
-          baseValue: this.#store.selectSignal(selectGameSize)(),
+          baseValue: this.#store.selectSignal(selectGameRows)(),
           valueType: 'number',
         },
+        {
+          key: 'columns',
+          title: this.#translation.translate('field.columns'),
+          type: 'select',
+          model: 'columns',
+          options: [3, 4, 5, 6, 7, 8, 9],
+          baseValue: this.#store.selectSignal(selectGameColumns)(),
+          valueType: 'number',
+        },
+        {
+          key: 'winLength',
+          title: this.#translation.translate('field.winLength'),
+          type: 'select',
+          model: 'winLength',
+          // Capped at the longer board side when the game is evaluated
+          options: [3, 4, 5],
+          baseValue: this.#store.selectSignal(selectGameWinLength)(),
+          valueType: 'number',
+        },
+        {
+          key: 'gravity',
+          title: this.#translation.translate('field.gravity'),
+          type: 'select',
+          model: 'gravity',
+          // Marks drop to the lowest empty cell of the clicked column (classic variant only)
+          options: [false, true],
+          optionLabels: this.optionLabels(SWITCH_LABELS),
+          baseValue: this.#store.selectSignal(selectGameGravity)() ?? false,
+          valueType: 'boolean',
+        },
+        {
+          key: 'vanishing',
+          title: this.#translation.translate('field.vanishing'),
+          type: 'select',
+          model: 'vanishing',
+          // Each player keeps at most win length marks, the oldest one vanishes (classic variant only)
+          options: [false, true],
+          optionLabels: this.optionLabels(SWITCH_LABELS),
+          baseValue: this.#store.selectSignal(selectGameVanishing)() ?? false,
+          valueType: 'boolean',
+        },
+        {
+          key: 'misere',
+          title: this.#translation.translate('field.misere'),
+          type: 'select',
+          model: 'misere',
+          // Whoever completes a line loses (classic variant only)
+          options: [false, true],
+          optionLabels: this.optionLabels(SWITCH_LABELS),
+          baseValue: this.#store.selectSignal(selectGameMisere)() ?? false,
+          valueType: 'boolean',
+        },
         {
           key: 'opponent',
-          title: 'Opponent Type',
+          title: this.#translation.translate('field.opponent'),
           type: 'select',
           model: 'opponent',
-          // Only show 'computer' if user is logged in
-          options: this.#auth.user() ? ['computer', 'player'] : ['player'],
+          // Only show the AI modes if user is logged in
+          options: this.#auth.user() ? [...OPPONENTS] : ['player'],
+          optionLabels: this.optionLabels(OPPONENT_LABELS),
           baseValue:
             (this.#auth.user() &&
               this.#store.selectSignal(selectGameOpponent)()) ??
             'player',
           valueType: 'string',
         },
+        {
+          key: 'players',
+          title: this.#translation.translate('field.players'),
+          type: 'select',
+          model: 'players',
+          // A third player only joins local classic games on boards of at least 5x5
+          options: [...PLAYER_COUNTS],
+          baseValue: this.#store.selectSignal(selectGamePlayers)() ?? 2,
+          valueType: 'number',
+        },
+        {
+          key: 'playerMarkup',
+          title: this.#translation.translate('field.playerMarkup'),
+          type: 'select',
+          model: 'playerMarkup',
+          options: [...PLAYER_MARKUPS],
+          optionLabels: this.optionLabels(PLAYER_MARKUP_LABELS),
+          baseValue: this.#store.selectSignal(selectPlayerMarkup)() ?? 'o',
+          valueType: 'string',
+        },
+        {
+          key: 'firstMove',
+          title: this.#translation.translate('field.firstMove'),
+          type: 'select',
+          model: 'firstMove',
+          // Only relevant against the computer, in two-player mode the chosen markup starts
+          options: [...FIRST_MOVES],
+          optionLabels: this.optionLabels(FIRST_MOVE_LABELS),
+          baseValue: this.#store.selectSignal(selectFirstMove)() ?? 'human',
+          valueType: 'string',
+        },
         {
           key: 'hardness',
-          title: 'Difficulty',
+          title: this.#translation.translate('field.hardness'),
           type: 'range',
           model: 'hardness',
           min: 1,
@@ -72,220 +224,383 @@ export class FormTemplate {
           baseValue: this.#store.selectSignal(selectGameHardness)(),
           valueType: 'number',
         },
+        {
+          key: 'secondHardness',
+          title: this.#translation.translate('field.secondHardness'),
+          type: 'range',
+          model: 'secondHardness',
+          // Level of the AI playing 'x' in spectator mode
+          min: 1,
+          max: HARNESS_VALUES.length,
+          baseValue: this.#store.selectSignal(selectGameSecondHardness)() ?? 1,
+          valueType: 'number',
+        },
+        {
+          key: 'aiEngine',
+          title: this.#translation.translate('field.aiEngine'),
+          type: 'select',
+          model: 'aiEngine',
+          options: [...AI_ENGINES],
+          optionLabels: this.optionLabels(AI_ENGINE_LABELS),
+          baseValue: this.#store.selectSignal(selectGameAiEngine)() ?? 'server',
+          valueType: 'string',
+        },
+        {
+          key: 'timeControl',
+          title: this.#translation.translate('field.timeControl'),
+          type: 'select',
+          model: 'timeControl',
+          // Limits of each option are defined in TIME_CONTROL_PRESETS
+          options: [...TIME_CONTROLS],
+          optionLabels: this.optionLabels(TIME_CONTROL_LABELS),
+          baseValue: this.#store.selectSignal(selectGameTimeControl)() ?? 'none',
+          valueType: 'string',
+        },
       ],
 
       /** Buttons for the form */
       buttons: [
-        { button: 'trigger', name: 'Accept', triggerValue: 'form' },
-        { button: 'reject', name: 'Reject' },
+        {
+          button: 'trigger',
+          name: this.#translation.translate('button.accept'),
+          triggerValue: 'form',
+        },
+        {
+          button: 'reject',
+          name: this.#translation.translate('button.reject'),
+        },
       ],
 
       /** Title for the dialog */
-      title: 'Game settings',
+      title: this.#translation.translate('dialog.gameSettings'),
     };
   });
 
   /** Save game form structure */
-  readonly #saveStructure: {
+  readonly #saveStructure: Signal<{
     structure: FormField[];
     buttons: DialogStructure['buttons'];
     title: string;
-  } = {
-    structure: [
-      {
-        key: 'gameName',
-        title: 'Game Name',
-        type: 'text',
-        model: 'gameName',
-        errorKeys: ['required'],
-        valueType: 'string',
-      },
-    ],
+  }> = computed(() => {
+    return {
+      structure: [
+        {
+          key: 'gameName',
+          title: this.#translation.translate('field.gameName'),
+          type: 'text',
+          model: 'gameName',
+          errorKeys: ['required'],
+          valueType: 'string',
+        },
+      ],
 
-    buttons: [
-      { button: "trigger", name: 'Save', triggerValue:'form' },
-      { button: 'reject', name: 'Cancel' },
-    ],
-    title: 'Save game',
-  };
+      buttons: [
+        {
+          button: 'trigger',
+          name: this.#translation.translate('button.save'),
+          triggerValue: 'form',
+        },
+        {
+          button: 'reject',
+          name: this.#translation.translate('button.cancel'),
+        },
+      ],
+      title: this.#translation.translate('dialog.save'),
+    };
+  });
 
-  /** Theme settings form structure */
-  readonly #settingStructure: {
+  /** Theme and language settings form structure */
+  readonly #settingStructure: Signal<{
     structure: FormField[];
     buttons: DialogStructure['buttons'];
     title: string;
-  } = {
-    structure: [
-      {
-        key: 'primaryColor',
-        title: 'Primary Color',
-        type: 'color',
-        model: 'primaryColor',
-        valueType: 'string',
-      },
-      {
-        key: 'accentColor',
-        title: 'Accent Color',
-        type: 'color',
-        model: 'accentColor',
-        valueType: 'string',
-      },
-    ],
+  }> = computed(() => {
+    return {
+      structure: [
+        {
+          key: 'primaryColor',
+          title: this.#translation.translate('field.primaryColor'),
+          type: 'color',
+          model: 'primaryColor',
+          valueType: 'string',
+        },
+        {
+          key: 'accentColor',
+          title: this.#translation.translate('field.accentColor'),
+          type: 'color',
+          model: 'accentColor',
+          valueType: 'string',
+        },
+        {
+          key: 'language',
+          title: this.#translation.translate('field.language'),
+          type: 'select',
+          model: 'language',
+          options: [...LANGUAGES],
+          // Languages are listed by their own name
+          optionLabels: LANGUAGE_NAMES,
+          valueType: 'string',
+        },
+      ],
 
-    buttons: [
-      { button: 'accept', name: 'Apply', triggerValue: 'form' },
-      { button: 'trigger', name: 'Cancel', triggerValue: 'reset' },
-    ],
-    title: 'Settings',
-  };
+      buttons: [
+        {
+          button: 'accept',
+          name: this.#translation.translate('button.apply'),
+          triggerValue: 'form',
+        },
+        {
+          button: 'trigger',
+          name: this.#translation.translate('button.cancel'),
+          triggerValue: 'reset',
+        },
+      ],
+      title: this.#translation.translate('dialog.settings'),
+    };
+  });
 
   /** Login form structure */
-  readonly #loginStructure: {
+  readonly #loginStructure: Signal<{
     structure: FormField[];
     buttons: DialogStructure['buttons'];
     title: string;
-  } = {
-    structure: [
-      {
-        key: 'email',
-        title: 'Email Address',
-        type: 'email',
-        model: 'email',
-        errorKeys: ['required', 'invalidEmail', 'emailDoesNotExist'],
-        valueType: 'string',
-      },
-      {
-        key: 'password',
-        title: 'Password',
-        type: 'password',
-        model: 'password',
-        errorKeys: ['required', 'shortPassword', 'longPassword'],
-        valueType: 'string',
-      },
-    ],
+  }> = computed(() => {
+    return {
+      structure: [
+        {
+          key: 'email',
+          title: this.#translation.translate('field.email'),
+          type: 'email',
+          model: 'email',
+          errorKeys: ['required', 'invalidEmail', 'emailDoesNotExist'],
+          valueType: 'string',
+        },
+        {
+          key: 'password',
+          title: this.#translation.translate('field.password'),
+          type: 'password',
+          model: 'password',
+          errorKeys: ['required', 'shortPassword', 'longPassword'],
+          valueType: 'string',
+        },
+      ],
 
-    buttons: [
-      { button: 'trigger', name: 'Login', triggerValue: 'form' },
-      {
-        button: 'trigger',
-        name: 'Registration',
-        triggerValue: 'change:registration',
-      },
-      { button: 'reject', name: 'Cancel' },
-    ],
-    title: 'Login',
-  };
+      buttons: [
+        {
+          button: 'trigger',
+          name: this.#translation.translate('button.login'),
+          triggerValue: 'form',
+        },
+        {
+          button: 'trigger',
+          name: this.#translation.translate('button.registration'),
+          triggerValue: 'change:registration',
+        },
+        {
+          button: 'reject',
+          name: this.#translation.translate('button.cancel'),
+        },
+      ],
+      title: this.#translation.translate('dialog.login'),
+    };
+  });
 
   /** Registration form structure */
-  readonly #registrationStructure: {
+  readonly #registrationStructure: Signal<{
     structure: FormField[];
     buttons: DialogStructure['buttons'];
     title: string;
-  } = {
-    structure: [
-      {
-        key: 'email',
-        title: 'Email Address',
-        type: 'email',
-        model: 'email',
-        errorKeys: ['required', 'invalidEmail', 'emailInUse'],
-        valueType: 'string',
-      },
-      {
-        key: 'password',
-        title: 'Password',
-        type: 'password',
-        model: 'password',
-        errorKeys: ['required', 'shortPassword', 'longPassword'],
-        valueType: 'string',
-      },
-      {
-        key: 'rePassword',
-        title: 'Confirm Password',
-        type: 'password',
-        model: 'rePassword',
-        errorKeys: ['required', 'shortPassword', 'longPassword'],
-        valueType: 'string',
-      },
-    ],
+  }> = computed(() => {
+    return {
+      structure: [
+        {
+          key: 'email',
+          title: this.#translation.translate('field.email'),
+          type: 'email',
+          model: 'email',
+          errorKeys: ['required', 'invalidEmail', 'emailInUse'],
+          valueType: 'string',
+        },
+        {
+          key: 'password',
+          title: this.#translation.translate('field.password'),
+          type: 'password',
+          model: 'password',
+          errorKeys: ['required', 'shortPassword', 'longPassword'],
+          valueType: 'string',
+        },
+        {
+          key: 'rePassword',
+          title: this.#translation.translate('field.rePassword'),
+          type: 'password',
+          model: 'rePassword',
+          errorKeys: ['required', 'shortPassword', 'longPassword'],
+          valueType: 'string',
+        },
+      ],
 
-    buttons: [
-      { button: 'trigger', name: 'Register', triggerValue: 'form' },
-      { button: 'trigger', name: 'Login', triggerValue: 'change:login' },
-      { button: 'reject', name: 'Cancel' },
-    ],
-    title: 'Registration',
-  };
+      buttons: [
+        {
+          button: 'trigger',
+          name: this.#translation.translate('button.register'),
+          triggerValue: 'form',
+        },
+        {
+          button: 'trigger',
+          name: this.#translation.translate('button.login'),
+          triggerValue: 'change:login',
+        },
+        {
+          button: 'reject',
+          name: this.#translation.translate('button.cancel'),
+        },
+      ],
+      title: this.#translation.translate('dialog.registration'),
+    };
+  });
 
   /** Email change form structure */
-  readonly #emailChange: {
+  readonly #emailChange: Signal<{
     structure: FormField[];
     buttons: DialogStructure['buttons'];
     title: string;
-  } = {
-    title: 'Change email',
-    structure: [
-      {
-        key: 'email',
-        title: 'Old email',
-        type: 'email',
-        model: 'email',
-        errorKeys: ['required', 'invalidEmail', 'notCurrentUserEmail'],
-        valueType: 'string',
-      },
-      {
-        key: 'newEmail',
-        title: 'New email',
-        type: 'email',
-        model: 'newEmail',
-        errorKeys: ['required', 'invalidEmail', 'emailInUse'],
-        valueType: 'string',
-      },
-    ],
-    buttons: [
-      { button: 'trigger', name: 'Change', triggerValue: 'form' },
-      { button: 'reject', name: 'Back' },
-    ],
-  };
+  }> = computed(() => {
+    return {
+      title: this.#translation.translate('dialog.emailChange'),
+      structure: [
+        {
+          key: 'email',
+          title: this.#translation.translate('field.oldEmail'),
+          type: 'email',
+          model: 'email',
+          errorKeys: ['required', 'invalidEmail', 'notCurrentUserEmail'],
+          valueType: 'string',
+        },
+        {
+          key: 'newEmail',
+          title: this.#translation.translate('field.newEmail'),
+          type: 'email',
+          model: 'newEmail',
+          errorKeys: ['required', 'invalidEmail', 'emailInUse'],
+          valueType: 'string',
+        },
+      ],
+      buttons: [
+        {
+          button: 'trigger',
+          name: this.#translation.translate('button.change'),
+          triggerValue: 'form',
+        },
+        { button: 'reject', name: this.#translation.translate('button.back') },
+      ],
+    };
+  });
 
   /** Password change form structure */
-  readonly #passwordChange: {
+  readonly #passwordChange: Signal<{
     structure: FormField[];
     buttons: DialogStructure['buttons'];
     title: string;
-  } = {
-    title: 'Change password',
-    structure: [
-      {
-        key: 'password',
-        title: 'Old password',
-        type: 'password',
-        model: 'password',
-        errorKeys: ['required', 'shortPassword', 'notCurrentUserPassword'],
-        valueType: 'string',
-      },
-      {
-        key: 'newPassword',
-        title: 'New password',
-        type: 'password',
-        model: 'newPassword',
-        errorKeys: ['required', 'shortPassword'],
-        valueType: 'string',
-      },
-      {
-        key: 'rePassword',
-        title: 'New password again',
-        type: 'password',
-        model: 'rePassword',
-        errorKeys: ['required', 'shortPassword'],
-        valueType: 'string',
-      },
-    ],
-    buttons: [
-      { button: 'trigger', name: 'Change', triggerValue: 'form' },
-      { button: 'reject', name: 'Back' },
-    ],
-  };
+  }> = computed(() => {
+    return {
+      title: this.#translation.translate('dialog.passwordChange'),
+      structure: [
+        {
+          key: 'password',
+          title: this.#translation.translate('field.oldPassword'),
+          type: 'password',
+          model: 'password',
+          errorKeys: ['required', 'shortPassword', 'notCurrentUserPassword'],
+          valueType: 'string',
+        },
+        {
+          key: 'newPassword',
+          title: this.#translation.translate('field.newPassword'),
+          type: 'password',
+          model: 'newPassword',
+          errorKeys: ['required', 'shortPassword'],
+          valueType: 'string',
+        },
+        {
+          key: 'rePassword',
+          title: this.#translation.translate('field.newPasswordAgain'),
+          type: 'password',
+          model: 'rePassword',
+          errorKeys: ['required', 'shortPassword'],
+          valueType: 'string',
+        },
+      ],
+      buttons: [
+        {
+          button: 'trigger',
+          name: this.#translation.translate('button.change'),
+          triggerValue: 'form',
+        },
+        { button: 'reject', name: this.#translation.translate('button.back') },
+      ],
+    };
+  });
+
+  /** Board image export form structure */
+  readonly #exportStructure: Signal<{
+    structure: FormField[];
+    buttons: DialogStructure['buttons'];
+    title: string;
+  }> = computed(() => {
+    return {
+      structure: [
+        {
+          key: 'imageFormat',
+          title: this.#translation.translate('field.imageFormat'),
+          type: 'select',
+          model: 'imageFormat',
+          options: [...BOARD_IMAGE_FORMATS],
+          optionLabels: this.optionLabels(BOARD_IMAGE_FORMAT_LABELS),
+          valueType: 'string',
+        },
+        {
+          key: 'coordinates',
+          title: this.#translation.translate('field.coordinates'),
+          type: 'select',
+          model: 'coordinates',
+          options: [false, true],
+          optionLabels: this.optionLabels(SWITCH_LABELS),
+          valueType: 'boolean',
+        },
+        {
+          key: 'markLastMove',
+          title: this.#translation.translate('field.markLastMove'),
+          type: 'select',
+          model: 'markLastMove',
+          options: [false, true],
+          optionLabels: this.optionLabels(SWITCH_LABELS),
+          valueType: 'boolean',
+        },
+        {
+          key: 'markWinningLine',
+          title: this.#translation.translate('field.markWinningLine'),
+          type: 'select',
+          model: 'markWinningLine',
+          options: [false, true],
+          optionLabels: this.optionLabels(SWITCH_LABELS),
+          valueType: 'boolean',
+        },
+      ],
+
+      buttons: [
+        {
+          button: 'trigger',
+          name: this.#translation.translate('button.export'),
+          triggerValue: 'form',
+        },
+        {
+          button: 'reject',
+          name: this.#translation.translate('button.cancel'),
+        },
+      ],
+      title: this.#translation.translate('dialog.export'),
+    };
+  });
 
   /** Map linking form field keys to their structures, buttons and title */
   #formFieldMap = computed(
@@ -299,12 +614,13 @@ export class FormTemplate {
         }
       >([
         ['game_setting', this.#gameSettingsStructure()],
-        ['save', this.#saveStructure],
-        ['setting', this.#settingStructure],
-        ['login', this.#loginStructure],
-        ['registration', this.#registrationStructure],
-        ['email_change', this.#emailChange],
-        ['password_change', this.#passwordChange],
+        ['save', this.#saveStructure()],
+        ['setting', this.#settingStructure()],
+        ['login', this.#loginStructure()],
+        ['registration', this.#registrationStructure()],
+        ['email_change', this.#emailChange()],
+        ['password_change', this.#passwordChange()],
+        ['export', this.#exportStructure()],
       ])
   );
 
@@ -334,4 +650,21 @@ export class FormTemplate {
   getTitleByFieldKey(fieldKey: FieldKey): string {
     return this.formFieldMap.get(fieldKey)!.title;
   }
+
+  /**
+   * Translates the names of the options of a select field.
+   *
+   * @param keys - Catalog keys of the option names, by the option values.
+   * @returns The option names in the chosen language, by the option values.
+   */
+  private optionLabels(
+    keys: Record<string, MessageKey>
+  ): Record<string, string> {
+    return Object.fromEntries(
+      Object.entries(keys).map(([option, key]) => [
+        option,
+        this.#translation.translate(key),
+      ])
+    );
+  }
 }
@@ -3,6 +3,10 @@ import { Injectable } from '@angular/core';
 import { FieldKey } from '../utils/types/dialog-form-field-model.type';
 import { FormField } from '../utils/interfaces/form-field-template.interface';
 import { Hardness } from '../utils/types/hardness.type';
+import { markupByTurn } from '../utils/functions/turn-order.function';
+import { Markup } from '../utils/types/markup.type';
+import { PlayerMarkup } from '../utils/types/player-markup.type';
+import { PlayerCount } from '../utils/types/player-count.type';
 
 @Injectable({
   providedIn: 'root',
@@ -162,16 +166,22 @@ export class Functions {
   }
 
   /**
-   * Determines the markup ('o' or 'x') based on the actual step number.
+   * Determines the markup ('o', 'x' or 't') based on the actual step number.
    *
    * Logic:
-   *  - If step is even → returns 'o'
-   *  - If step is odd → returns 'x'
+   *  - Two players: even steps → the first markup, odd steps → the other markup
+   *  - Three players: the markups rotate, the triangle moving third
    *
    * @param {number} step - The current step number in the game.
-   * @returns {'o' | 'x'} - The markup character representing the next player.
+   * @param {PlayerMarkup} firstMarkup - The markup making the first move (default 'o').
+   * @param {PlayerCount} players - The number of players (default 2).
+   * @returns {Markup} - The markup character representing the next player.
    */
-  markupByStep(step: number): 'o' | 'x' {
-    return step % 2 === 0 ? 'o' : 'x';
+  markupByStep(
+    step: number,
+    firstMarkup: PlayerMarkup = 'o',
+    players: PlayerCount = 2
+  ): Markup {
+    return markupByTurn(step, firstMarkup, players);
   }
 }
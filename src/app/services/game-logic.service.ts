@@ -3,6 +3,15 @@ import { Functions } from './functions.service';
 import { Http } from './http.service';
 import { AiMove } from '../utils/interfaces/ai-move.interface';
 import { LastMove } from '../utils/interfaces/last-move.interface';
+import { MarkOrder } from '../utils/interfaces/mark-order.interface';
+import { BoardEvaluation } from '../utils/interfaces/board-evaluation.interface';
+import {
+  defaultWinLength,
+  evaluateBoard,
+} from '../utils/functions/game-rules.function';
+import { LocalAi } from './local-ai.service';
+import { AiEngine } from '../utils/types/ai-engine.type';
+import { Hardness } from '../utils/types/hardness.type';
 
 /**
  * @service GameLogic
@@ -10,7 +19,10 @@ import { LastMove } from '../utils/interfaces/last-move.interface';
  * Handles the core logic of a Tic-Tac-Toe game.
  * Responsibilities include:
  * - Interfacing with the backend for AI move computation
- * - Checking for a winner on the board
+ * - Falling back to the offline {@link LocalAi} when the backend fails
+ * - Checking for a winner on the board with the local rules engine
+ * - Computing offline-only moves for the variants the backend does not know
+ * - Optionally cross-checking local results against the backend
  * - Providing difficulty translation via helper functions
  */
 @Injectable({
@@ -23,48 +35,145 @@ export class GameLogic {
   /** Injected helper service providing generic utility functions (e.g., difficulty conversion). */
   #helperFunctions: Functions = inject(Functions);
 
+  /** Offline AI used when the backend is unreachable or the local engine is selected. */
+  #localAi: LocalAi = inject(LocalAi);
+
   /**
-   * Requests the backend to calculate the AI's next move.
+   * Calculates the AI's next move.
+   *
+   * With the `'server'` engine the backend is asked first; if the request
+   * ultimately fails, the move is computed by {@link LocalAi} instead.
+   * With the `'local'` engine the backend is never contacted, and neither is it
+   * with the gravity, the vanishing or the misère rule, which the backend does not know.
    *
    * @param board Current game board as a 2D array of strings
    * @param markup The AI's symbol ('x' or 'o')
    * @param hardness Difficulty level (numeric, e.g., 1–4)
    * @param lastMove The last move played in the game
+   * @param winLength Number of marks in a row needed to win (default: {@link defaultWinLength})
+   * @param engine The engine used to compute the move (default: 'server')
+   * @param gravity Whether marks drop to the lowest empty cell of a column (default: false)
+   * @param markOrder Placement order of the marks with the vanishing rule,
+   *  `null` without it (default: null)
+   * @param misere Whether completing a line loses instead of winning (default: false)
    * @returns Promise resolving to an {@link aiMove} object or `undefined` if no move is possible
    */
   async aiMove(
     board: string[][],
     markup: 'x' | 'o',
     hardness: number,
-    lastMove: LastMove
+    lastMove: LastMove,
+    winLength: number = defaultWinLength(board.length, board[0]?.length),
+    engine: AiEngine = 'server',
+    gravity = false,
+    markOrder: MarkOrder | null = null,
+    misere = false
   ): Promise<AiMove | undefined> {
-    return await this.#httpHandler.request<AiMove>(
-      'post',
-      'game/ai-move',
-      {
-        board,
-        markup,
-        hardness: this.#helperFunctions.numberToDifficulty(hardness),
-        lastMove,
-      },
-      { maxRetries: 5, initialDelay: 700 }
+    const difficulty = this.#helperFunctions.numberToDifficulty(hardness);
+
+    if (engine === 'server' && !gravity && !markOrder && !misere) {
+      const result = await this.#httpHandler.request<AiMove>(
+        'post',
+        'game/ai-move',
+        {
+          board,
+          markup,
+          hardness: difficulty,
+          lastMove,
+          winLength,
+          rows: board.length,
+          columns: board[0]?.length ?? 0,
+        },
+        { maxRetries: 5, initialDelay: 700 }
+      );
+      if (result) return result;
+    }
+
+    return this.#localAi.move(
+      board,
+      markup,
+      difficulty,
+      winLength,
+      gravity,
+      markOrder,
+      misere
+    );
+  }
+
+  /**
+   * Calculates the AI's next move with the offline {@link LocalAi} only.
+   * Used by the variants the backend does not know (e.g. Ultimate), which
+   * pick the matching method of the engine themselves.
+   *
+   * @param hardness Difficulty level (numeric, e.g., 1–4)
+   * @param compute Computes the move with the offline engine at the translated difficulty
+   * @returns An {@link AiMove} object or `undefined` if no move is possible
+   */
+  localAiMove(
+    hardness: number,
+    compute: (localAi: LocalAi, difficulty: Hardness) => AiMove | undefined
+  ): AiMove | undefined {
+    return compute(
+      this.#localAi,
+      this.#helperFunctions.numberToDifficulty(hardness)
     );
   }
 
   /**
-   * Checks the current board for a winner or draw.
+   * Evaluates the board locally with the rules engine.
+   * No network request is made, so the result is always available.
+   *
+   * @param board Current game board as a 2D array of strings
+   * @param winLength Number of marks in a row needed to win (default: {@link defaultWinLength})
+   * @returns A {@link BoardEvaluation} containing the winner and the winning line
+   */
+  evaluateBoard(
+    board: string[][],
+    winLength: number = defaultWinLength(board.length, board[0]?.length)
+  ): BoardEvaluation {
+    return evaluateBoard(board, winLength);
+  }
+
+  /**
+   * Compares a local evaluation with the backend's `game/check-board` answer.
+   * Disagreements are only reported by the resolved value,
+   * they never override the local result.
+   *
+   * @param board The evaluated game board
+   * @param evaluation The local evaluation of the same board
+   * @param winLength Number of marks in a row needed to win (default: {@link defaultWinLength})
+   * @returns Promise resolving to `true` if both agree, `false` if they differ,
+   *  or `undefined` if the backend could not be reached
+   */
+  async crossCheckWinner(
+    board: string[][],
+    evaluation: BoardEvaluation,
+    winLength: number = defaultWinLength(board.length, board[0]?.length)
+  ): Promise<boolean | undefined> {
+    const response = await this.hasWinner(board, winLength);
+    if (!response) return undefined;
+
+    return (response.winner ?? null) === evaluation.winner;
+  }
+
+  /**
+   * Checks the current board for a winner or draw on the backend.
    *
    * @param board Current game board as a 2D array of strings
+   * @param winLength Number of marks in a row needed to win (default: {@link defaultWinLength})
    * @returns Promise resolving to an object containing:
    *  - `winner`: 'x', 'o', 'draw', or null if the game is ongoing
    */
-  async hasWinner(board: string[][]) {
+  async hasWinner(
+    board: string[][],
+    winLength: number = defaultWinLength(board.length, board[0]?.length)
+  ) {
     return await this.#httpHandler.request<{
       winner: 'draw' | 'x' | 'o' | null;
     }>(
       'post',
       'game/check-board',
-      { board },
+      { board, winLength, rows: board.length, columns: board[0]?.length ?? 0 },
       { maxRetries: 3, initialDelay: 200 }
     );
   }
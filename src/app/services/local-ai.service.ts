@@ -0,0 +1,721 @@
+import { Injectable } from '@angular/core';
+import { AiMove } from '../utils/interfaces/ai-move.interface';
+import { LastMove } from '../utils/interfaces/last-move.interface';
+import { Hardness } from '../utils/types/hardness.type';
+import {
+  defaultWinLength,
+  evaluateBoard,
+  findWinningLine,
+  longestLine,
+} from '../utils/functions/game-rules.function';
+import { gravityMoves } from '../utils/functions/gravity.function';
+import {
+  evaluateUltimateBoard,
+  legalUltimateMoves,
+  subBoardOf,
+  ultimateBoardOf,
+} from '../utils/functions/ultimate.function';
+import { placeVanishingMark } from '../utils/functions/vanishing.function';
+import { NestedBoard } from '../utils/interfaces/nested-board.interface';
+import { MarkOrder } from '../utils/interfaces/mark-order.interface';
+import { AiRules } from '../utils/interfaces/ai-rules.interface';
+import { ULTIMATE_SIZE } from '../utils/constants/ultimate.constant';
+
+/**
+ * @service LocalAi
+ *
+ * Offline AI opponent that plays by the same {@link AiMove} contract as the
+ * backend `game/ai-move` endpoint.
+ *
+ * Strength levels (mapped from `HARNESS_VALUES`):
+ * - `very_easy` → a random empty cell
+ * - `easy`      → wins or blocks an immediate line, otherwise random
+ * - `medium`    → shallow heuristic search (two plies)
+ * - `hard`      → perfect minimax with alpha-beta on 3x3,
+ *                 deeper heuristic search on larger boards
+ *
+ * Used by {@link GameLogic} as a fallback when the backend is unreachable,
+ * or directly when the local engine is selected in the game settings.
+ * With the gravity rule only the lowest empty cell of each column is played.
+ * With the vanishing rule the search removes and restores the oldest marks
+ * the same way the board does. Under the misère rule the AI avoids lines:
+ * `easy` never completes one while it has another choice, the searches
+ * count a line as a loss of its owner.
+ *
+ * Ultimate games are always played by {@link ultimateMove}, which scores the
+ * legal moves by the sub-boards they claim, block or hand to the opponent.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class LocalAi {
+  /** Score assigned to a won position before depth adjustment. */
+  readonly #winScore = 1_000_000;
+
+  /** Maximum number of candidate moves examined per node on large boards. */
+  readonly #maxCandidates = 12;
+
+  /**
+   * Computes the AI's next move and returns it in the backend's `AiMove` shape.
+   *
+   * @param board Current game board as a 2D array of strings
+   * @param markup The AI's symbol ('x' or 'o')
+   * @param hardness Difficulty level as a `Hardness` value
+   * @param winLength Number of marks in a row needed to win, capped at the longer board side
+   *  (default: {@link defaultWinLength})
+   * @param gravity Whether marks drop to the lowest empty cell of a column (default: false)
+   * @param markOrder Placement order of the marks with the vanishing rule,
+   *  `null` without it (default: null)
+   * @param misere Whether completing a line loses instead of winning (default: false)
+   * @returns The resulting {@link AiMove}, or `undefined` if the board has no empty cell
+   *  or the game is already decided
+   */
+  move(
+    board: string[][],
+    markup: 'x' | 'o',
+    hardness: Hardness,
+    winLength: number = defaultWinLength(board.length, board[0]?.length),
+    gravity = false,
+    markOrder: MarkOrder | null = null,
+    misere = false
+  ): AiMove | undefined {
+    winLength = Math.min(winLength, longestLine(board));
+    if (evaluateBoard(board, winLength).winner) return undefined;
+
+    const choice = this.chooseMove(board, markup, hardness, winLength, {
+      gravity,
+      markOrder: markOrder && { x: [...markOrder.x], o: [...markOrder.o] },
+      misere,
+    });
+    if (!choice) return undefined;
+
+    const newBoard = markOrder
+      ? placeVanishingMark(board, markOrder, choice, markup, winLength).board
+      : board.map((row) => [...row]);
+    newBoard[choice.row][choice.column] = markup;
+
+    return {
+      winner: evaluateBoard(newBoard, winLength).winner,
+      region: null,
+      lastMove: choice,
+      board: newBoard,
+    };
+  }
+
+  /**
+   * Computes the AI's next move in an Ultimate game
+   * and returns it in the backend's `AiMove` shape.
+   *
+   * Strength levels:
+   * - `very_easy` → a random legal move
+   * - `easy`      → wins the game, claims or blocks a sub-board, otherwise random
+   * - `medium`    → also avoids replies that win the game or claim a sub-board
+   * - `hard`      → also avoids giving the opponent a free choice of sub-board
+   *                 and prefers central cells
+   *
+   * @param board Flat 9x9 board of the Ultimate game
+   * @param markup The AI's symbol ('x' or 'o')
+   * @param hardness Difficulty level as a `Hardness` value
+   * @param lastMove The last move on the flat board, deciding the active sub-board
+   * @returns The resulting {@link AiMove}, or `undefined` if no legal move exists
+   *  or the game is already decided
+   */
+  ultimateMove(
+    board: string[][],
+    markup: 'x' | 'o',
+    hardness: Hardness,
+    lastMove?: LastMove
+  ): AiMove | undefined {
+    const ultimate = ultimateBoardOf(board, lastMove);
+    if (evaluateUltimateBoard(ultimate).winner) return undefined;
+
+    const moves = legalUltimateMoves(ultimate);
+    if (!moves.length) return undefined;
+
+    let choice = this.randomElement(moves);
+    if (hardness !== 'very_easy') {
+      let bestScore = -Infinity;
+      let bestMoves: LastMove[] = [];
+      for (const move of moves) {
+        const score = this.scoreUltimateMove(
+          board,
+          ultimate,
+          move,
+          markup,
+          hardness
+        );
+        if (score > bestScore) {
+          bestScore = score;
+          bestMoves = [move];
+        } else if (score === bestScore) {
+          bestMoves.push(move);
+        }
+      }
+      choice = this.randomElement(bestMoves);
+    }
+
+    const newBoard = board.map((row) => [...row]);
+    newBoard[choice.row][choice.column] = markup;
+
+    return {
+      winner: evaluateUltimateBoard(ultimateBoardOf(newBoard, choice)).winner,
+      region: null,
+      lastMove: choice,
+      board: newBoard,
+    };
+  }
+
+  /**
+   * Scores a legal move of an Ultimate game from the mover's point of view.
+   *
+   * - Winning the game outweighs everything, claiming a sub-board comes next,
+   *   then blocking a sub-board the opponent could claim with the same cell.
+   * - From `medium` on, the opponent's best reply is subtracted:
+   *   a reply winning the game or claiming a sub-board is penalized.
+   * - On `hard`, sending the opponent to a decided sub-board (a free choice)
+   *   is penalized and central cells and sub-boards are preferred.
+   *
+   * @param board Flat 9x9 board before the move
+   * @param ultimate Nested view of the same board
+   * @param move The scored move on the flat board
+   * @param markup The mover's symbol
+   * @param hardness Difficulty level
+   * @returns Score of the move (higher is better)
+   */
+  private scoreUltimateMove(
+    board: string[][],
+    ultimate: NestedBoard,
+    move: LastMove,
+    markup: 'x' | 'o',
+    hardness: Hardness
+  ): number {
+    const opponent = this.opponentOf(markup);
+    const target = subBoardOf(move);
+    const work = board.map((row) => [...row]);
+
+    work[move.row][move.column] = opponent;
+    const blocks =
+      ultimateBoardOf(work).claimed[target.row][target.column] === opponent;
+
+    work[move.row][move.column] = markup;
+    const after = ultimateBoardOf(work, move);
+    if (evaluateUltimateBoard(after).winner === markup) return this.#winScore;
+
+    let score = 0;
+    if (after.claimed[target.row][target.column] === markup) score += 100;
+    if (blocks) score += 50;
+    if (hardness === 'easy') return score;
+
+    let worstReply = 0;
+    for (const reply of legalUltimateMoves(after)) {
+      const replyBoard = work.map((row) => [...row]);
+      replyBoard[reply.row][reply.column] = opponent;
+      const replied = ultimateBoardOf(replyBoard, reply);
+      const replyTarget = subBoardOf(reply);
+      if (evaluateUltimateBoard(replied).winner === opponent) {
+        worstReply = this.#winScore / 2;
+        break;
+      }
+      if (replied.claimed[replyTarget.row][replyTarget.column] === opponent) {
+        worstReply = Math.max(worstReply, 80);
+      }
+    }
+    score -= worstReply;
+    if (hardness === 'medium') return score;
+
+    const center = Math.floor(ULTIMATE_SIZE / 2);
+    if (!after.activeBoard) score -= 20;
+    if (
+      move.row % ULTIMATE_SIZE === center &&
+      move.column % ULTIMATE_SIZE === center
+    ) {
+      score += 3;
+    }
+    if (target.row === center && target.column === center) score += 2;
+    return score;
+  }
+
+  /**
+   * Selects a move according to the requested strength level.
+   *
+   * @param board Current game board
+   * @param markup The AI's symbol
+   * @param hardness Difficulty level
+   * @param winLength Number of marks in a row needed to win
+   * @param rules Rules of the game (the mark order is mutated and restored during the search)
+   * @returns The chosen cell, or `undefined` if no empty cell exists
+   */
+  private chooseMove(
+    board: string[][],
+    markup: 'x' | 'o',
+    hardness: Hardness,
+    winLength: number,
+    rules: AiRules
+  ): LastMove | undefined {
+    const playableCells = this.playableCells(board, rules.gravity);
+    if (!playableCells.length) return undefined;
+
+    switch (hardness) {
+      case 'very_easy':
+        return this.randomElement(playableCells);
+      case 'easy':
+        if (rules.misere) {
+          return this.randomSafeMove(board, markup, winLength, rules);
+        }
+        return (
+          this.findImmediateWin(board, markup, winLength, rules) ??
+          this.findImmediateWin(
+            board,
+            this.opponentOf(markup),
+            winLength,
+            rules
+          ) ??
+          this.randomElement(playableCells)
+        );
+      case 'medium':
+        return this.searchBestMove(board, markup, winLength, 2, rules);
+      case 'hard':
+        return this.cellCount(board) <= 9
+          ? this.searchBestMove(
+              board,
+              markup,
+              winLength,
+              rules.markOrder ? 6 : this.emptyCells(board).length,
+              rules
+            )
+          : this.searchBestMove(board, markup, winLength, 3, rules);
+    }
+  }
+
+  /**
+   * Runs an alpha-beta negamax search from the AI's point of view
+   * and returns one of the best scoring moves.
+   *
+   * @param board Current game board
+   * @param markup The AI's symbol
+   * @param winLength Number of marks in a row needed to win
+   * @param depth Search depth in plies
+   * @param rules Rules of the game (the mark order is mutated and restored during the search)
+   * @returns The best move found
+   */
+  private searchBestMove(
+    board: string[][],
+    markup: 'x' | 'o',
+    winLength: number,
+    depth: number,
+    rules: AiRules
+  ): LastMove {
+    const work = board.map((row) => [...row]);
+    const candidates = this.candidateMoves(work, markup, winLength, rules);
+
+    let bestScore = -Infinity;
+    let bestMoves: LastMove[] = [];
+
+    for (const move of candidates) {
+      const removed = this.place(work, move, markup, rules.markOrder, winLength);
+      // Full window at the root, so equal scores are exact and not pruned bounds
+      const score = -this.negamax(
+        work,
+        this.opponentOf(markup),
+        winLength,
+        depth - 1,
+        1,
+        -Infinity,
+        Infinity,
+        rules
+      );
+      this.takeBack(work, move, markup, rules.markOrder, removed);
+
+      if (score > bestScore) {
+        bestScore = score;
+        bestMoves = [move];
+      } else if (score === bestScore) {
+        bestMoves.push(move);
+      }
+    }
+
+    return this.randomElement(bestMoves);
+  }
+
+  /**
+   * Negamax with alpha-beta pruning.
+   * Scores are always returned from the perspective of the player to move.
+   *
+   * @param board Working board (mutated and restored during the search)
+   * @param markup Symbol of the player to move
+   * @param winLength Number of marks in a row needed to win
+   * @param depth Remaining depth in plies
+   * @param ply Distance from the root (prefers quicker wins, slower losses)
+   * @param alpha Lower search bound
+   * @param beta Upper search bound
+   * @param rules Rules of the game (the mark order is mutated and restored during the search)
+   * @returns Score of the position for the player to move
+   */
+  private negamax(
+    board: string[][],
+    markup: 'x' | 'o',
+    winLength: number,
+    depth: number,
+    ply: number,
+    alpha: number,
+    beta: number,
+    rules: AiRules
+  ): number {
+    // The previous player has just moved; a line now means the mover lost
+    // (or won, under the misère rule)
+    if (findWinningLine(board, winLength)) {
+      return rules.misere ? this.#winScore - ply : -(this.#winScore - ply);
+    }
+    if (this.emptyCells(board).length === 0) return 0;
+    if (depth <= 0) {
+      // A line the player to move can complete right away outweighs any heuristic
+      if (
+        !rules.misere &&
+        this.findImmediateWin(board, markup, winLength, rules)
+      ) {
+        return this.#winScore - ply - 1;
+      }
+      return this.heuristic(board, markup, winLength, rules.misere);
+    }
+
+    let best = -Infinity;
+    for (const move of this.candidateMoves(board, markup, winLength, rules)) {
+      const removed = this.place(board, move, markup, rules.markOrder, winLength);
+      const score = -this.negamax(
+        board,
+        this.opponentOf(markup),
+        winLength,
+        depth - 1,
+        ply + 1,
+        -beta,
+        -alpha,
+        rules
+      );
+      this.takeBack(board, move, markup, rules.markOrder, removed);
+
+      best = Math.max(best, score);
+      alpha = Math.max(alpha, score);
+      if (alpha >= beta) break;
+    }
+    return best;
+  }
+
+  /**
+   * Static evaluation of a position for the given player.
+   *
+   * Every window of `winLength` cells in all four directions is scored:
+   * windows holding only one player's marks count `10^marks`,
+   * mixed windows count nothing. Opponent threats weigh slightly more,
+   * since the opponent may be able to complete them first.
+   * Under the misère rule the score is negated, so open lines become a burden.
+   *
+   * @param board Board to evaluate
+   * @param markup Player whose point of view is used
+   * @param winLength Number of marks in a row needed to win
+   * @param misere Whether completing a line loses (default: false)
+   * @returns Heuristic score (positive is good for `markup`)
+   */
+  private heuristic(
+    board: string[][],
+    markup: 'x' | 'o',
+    winLength: number,
+    misere = false
+  ): number {
+    const opponent = this.opponentOf(markup);
+    const directions = [
+      [0, 1],
+      [1, 0],
+      [1, 1],
+      [1, -1],
+    ];
+    let score = 0;
+
+    for (let row = 0; row < board.length; row++) {
+      for (let column = 0; column < board[row].length; column++) {
+        for (const [rowStep, columnStep] of directions) {
+          const endRow = row + rowStep * (winLength - 1);
+          const endColumn = column + columnStep * (winLength - 1);
+          if (board[endRow]?.[endColumn] === undefined) continue;
+
+          let own = 0;
+          let foreign = 0;
+          for (let i = 0; i < winLength; i++) {
+            const cell = board[row + rowStep * i][column + columnStep * i];
+            if (cell === markup) own++;
+            else if (cell === opponent) foreign++;
+          }
+
+          if (own && !foreign) score += Math.pow(10, own);
+          else if (foreign && !own) score -= 1.5 * Math.pow(10, foreign);
+        }
+      }
+    }
+
+    return misere ? -score : score;
+  }
+
+  /**
+   * Returns the moves worth examining in a search node.
+   *
+   * - On 3x3 boards every empty cell is a candidate.
+   * - With the gravity rule the lowest empty cell of every column is a candidate
+   *   (at most one per column, so no further pruning is needed).
+   * - On larger boards only empty cells next to an existing mark are kept
+   *   (the center is used on an empty board), ordered by immediate
+   *   wins, blocks and heuristic value, and capped for performance.
+   * - Under the misère rule every empty cell is kept, since keeping away from
+   *   the marks is the point, and cells completing an own line come last.
+   *
+   * @param board Current board
+   * @param markup Symbol of the player to move
+   * @param winLength Number of marks in a row needed to win
+   * @param rules Rules of the game (the mark order is mutated and restored during the search)
+   * @returns Ordered candidate moves
+   */
+  private candidateMoves(
+    board: string[][],
+    markup: 'x' | 'o',
+    winLength: number,
+    rules: AiRules
+  ): LastMove[] {
+    if (rules.gravity) return gravityMoves(board);
+    const emptyCells = this.emptyCells(board);
+    if (this.cellCount(board) <= 9) return emptyCells;
+
+    if (emptyCells.length === this.cellCount(board)) {
+      return [
+        {
+          row: Math.floor(board.length / 2),
+          column: Math.floor(board[0].length / 2),
+        },
+      ];
+    }
+
+    const neighbours = rules.misere
+      ? emptyCells
+      : emptyCells.filter((cell) => this.hasNeighbour(board, cell));
+
+    const opponent = this.opponentOf(markup);
+    const scored = neighbours.map((cell) => {
+      let removed = this.place(board, cell, markup, rules.markOrder, winLength);
+      const wins = !!findWinningLine(board, winLength);
+      const attack = this.heuristic(board, markup, winLength, rules.misere);
+      this.takeBack(board, cell, markup, rules.markOrder, removed);
+      removed = this.place(board, cell, opponent, rules.markOrder, winLength);
+      const blocks = !!findWinningLine(board, winLength);
+      this.takeBack(board, cell, opponent, rules.markOrder, removed);
+
+      if (rules.misere) {
+        return { cell, score: (wins ? -2 * this.#winScore : 0) + attack };
+      }
+      return {
+        cell,
+        score: (wins ? 2 * this.#winScore : 0) + (blocks ? this.#winScore : 0) + attack,
+      };
+    });
+
+    return scored
+      .sort((a, b) => b.score - a.score)
+      .slice(0, this.#maxCandidates)
+      .map((element) => element.cell);
+  }
+
+  /**
+   * Finds a move that immediately completes a line for the given player.
+   *
+   * @param board Current board
+   * @param markup Player to check
+   * @param winLength Number of marks in a row needed to win
+   * @param rules Rules of the game (the mark order is mutated and restored during the search)
+   * @returns The winning cell, or `undefined` if none exists
+   */
+  private findImmediateWin(
+    board: string[][],
+    markup: 'x' | 'o',
+    winLength: number,
+    rules: AiRules
+  ): LastMove | undefined {
+    const work = board.map((row) => [...row]);
+    return this.playableCells(work, rules.gravity).find((cell) =>
+      this.completesLine(work, cell, markup, winLength, rules)
+    );
+  }
+
+  /**
+   * Picks a random move that does not complete a line for the given player,
+   * used by the `easy` level under the misère rule.
+   * When every move completes a line, any move is picked.
+   *
+   * @param board Current board
+   * @param markup Player to move
+   * @param winLength Number of marks in a row needed to win
+   * @param rules Rules of the game (the mark order is mutated and restored during the search)
+   * @returns A random safe cell, or a random cell when no safe cell exists
+   */
+  private randomSafeMove(
+    board: string[][],
+    markup: 'x' | 'o',
+    winLength: number,
+    rules: AiRules
+  ): LastMove {
+    const work = board.map((row) => [...row]);
+    const playableCells = this.playableCells(work, rules.gravity);
+    const safeCells = playableCells.filter(
+      (cell) => !this.completesLine(work, cell, markup, winLength, rules)
+    );
+    return this.randomElement(safeCells.length ? safeCells : playableCells);
+  }
+
+  /**
+   * Checks whether a move completes a line for the given player.
+   *
+   * @param board Working board (mutated and restored)
+   * @param cell Cell to check
+   * @param markup Player placing the mark
+   * @param winLength Number of marks in a row needed to win
+   * @param rules Rules of the game (the mark order is mutated and restored during the search)
+   * @returns `true` if the board holds a line after the move
+   */
+  private completesLine(
+    board: string[][],
+    cell: LastMove,
+    markup: 'x' | 'o',
+    winLength: number,
+    rules: AiRules
+  ): boolean {
+    const removed = this.place(board, cell, markup, rules.markOrder, winLength);
+    const line = !!findWinningLine(board, winLength);
+    this.takeBack(board, cell, markup, rules.markOrder, removed);
+    return line;
+  }
+
+  /**
+   * Writes a mark into a working board during the search.
+   * With the vanishing rule the mark is appended to the player's mark order
+   * and their oldest mark is removed once they exceed `winLength` marks.
+   *
+   * @param board Working board (mutated)
+   * @param cell Cell to write
+   * @param markup Symbol of the player to move
+   * @param markOrder Placement order of the marks, `null` without the vanishing rule (mutated)
+   * @param winLength Number of marks in a row needed to win, also the vanishing limit
+   * @returns The mark removed by the move, if any
+   */
+  private place(
+    board: string[][],
+    cell: LastMove,
+    markup: 'x' | 'o',
+    markOrder: MarkOrder | null,
+    winLength: number
+  ): LastMove | undefined {
+    board[cell.row][cell.column] = markup;
+    if (!markOrder) return undefined;
+
+    markOrder[markup].push(cell);
+    if (markOrder[markup].length <= winLength) return undefined;
+    const removed = markOrder[markup].shift()!;
+    board[removed.row][removed.column] = '';
+    return removed;
+  }
+
+  /**
+   * Undoes {@link place}: clears the cell and puts back the removed mark.
+   *
+   * @param board Working board (mutated)
+   * @param cell Cell written by the move
+   * @param markup Symbol of the player who moved
+   * @param markOrder Placement order of the marks, `null` without the vanishing rule (mutated)
+   * @param removed The mark removed by the move, if any
+   */
+  private takeBack(
+    board: string[][],
+    cell: LastMove,
+    markup: 'x' | 'o',
+    markOrder: MarkOrder | null,
+    removed?: LastMove
+  ): void {
+    board[cell.row][cell.column] = '';
+    if (!markOrder) return;
+
+    markOrder[markup].pop();
+    if (removed) {
+      markOrder[markup].unshift(removed);
+      board[removed.row][removed.column] = markup;
+    }
+  }
+
+  /**
+   * Checks whether any of the eight surrounding cells holds a mark.
+   *
+   * @param board Current board
+   * @param cell Cell to inspect
+   * @returns `true` if the cell touches an existing mark
+   */
+  private hasNeighbour(board: string[][], cell: LastMove): boolean {
+    for (let rowStep = -1; rowStep <= 1; rowStep++) {
+      for (let columnStep = -1; columnStep <= 1; columnStep++) {
+        if (!rowStep && !columnStep) continue;
+        if (board[cell.row + rowStep]?.[cell.column + columnStep]) return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Counts the cells of a (possibly rectangular) board.
+   *
+   * @param board Current board
+   * @returns Number of rows multiplied by the number of columns
+   */
+  private cellCount(board: string[][]): number {
+    return board.length * (board[0]?.length ?? 0);
+  }
+
+  /**
+   * Collects every empty cell of the board in row-major order.
+   *
+   * @param board Current board
+   * @returns Coordinates of all empty cells
+   */
+  private emptyCells(board: string[][]): LastMove[] {
+    const result: LastMove[] = [];
+    board.forEach((row, rowIndex) =>
+      row.forEach((cell, column) => {
+        if (!cell) result.push({ row: rowIndex, column });
+      })
+    );
+    return result;
+  }
+
+  /**
+   * Collects the cells the next mark may be placed in:
+   * every empty cell, or with the gravity rule the lowest empty cell of every column.
+   *
+   * @param board Current board
+   * @param gravity Whether marks drop to the lowest empty cell of a column
+   * @returns Coordinates of all playable cells
+   */
+  private playableCells(board: string[][], gravity: boolean): LastMove[] {
+    return gravity ? gravityMoves(board) : this.emptyCells(board);
+  }
+
+  /**
+   * Returns the symbol of the other player.
+   *
+   * @param markup Player symbol
+   * @returns The opposite symbol
+   */
+  private opponentOf(markup: 'x' | 'o'): 'x' | 'o' {
+    return markup === 'x' ? 'o' : 'x';
+  }
+
+  /**
+   * Picks a random element of a non-empty array.
+   *
+   * @param elements Array to pick from
+   * @returns A random element
+   */
+  private randomElement<T>(elements: T[]): T {
+    return elements[Math.floor(Math.random() * elements.length)];
+  }
+}
@@ -99,4 +99,21 @@ export class RouterService {
       ...(queryParamsHandling ? { queryParamsHandling } : {}),
     });
   }
+
+  /**
+   * Builds the absolute URL of a route, e.g. to share it outside the app.
+   * The route is resolved against the base URL of the document,
+   * so the app can also be served from a sub-path.
+   * @param path Route path of the URL.
+   * @param queryParams Optional query parameters.
+   * @returns The absolute URL.
+   */
+  linkTo(path: string[], queryParams?: Params): string {
+    const url = this.#router.serializeUrl(
+      this.#router.createUrlTree(path, {
+        ...(queryParams ? { queryParams: { ...queryParams } } : {}),
+      })
+    );
+    return new URL(url.replace(/^\//, ''), document.baseURI).href;
+  }
 }
@@ -1,5 +1,6 @@
-import { Injectable, Signal, signal } from '@angular/core';
+import { inject, Injectable, Signal, signal } from '@angular/core';
 import { snackbarTemplate } from '../utils/interfaces/snackbar.interface';
+import { Announcer } from './announcer.service';
 
 /**
  * Service responsible for managing the lifecycle and state of snackbar messages.
@@ -15,6 +16,8 @@ import { snackbarTemplate } from '../utils/interfaces/snackbar.interface';
  * - Removes expired items when their duration reaches zero.
  * - Ensures the list never grows beyond the allowed limit by removing the oldest item.
  * - Allows manual removal of any snackbar by id.
+ * - Reads every new message out to screen readers via the `Announcer`
+ *   (errors in the assertive live region).
  * - Provides a read-only signal view to consumers, preserving encapsulation.
  *
  * Intended usage:
@@ -28,6 +31,9 @@ import { snackbarTemplate } from '../utils/interfaces/snackbar.interface';
   providedIn: 'root',
 })
 export class SnackBarHandler {
+  /** Screen-reader announcer reading out the new messages. */
+  #announcer: Announcer = inject(Announcer);
+
   /**
    * Global incremental identifier assigned to snackbar items.
    * Ensures each item has a unique and stable id.
@@ -104,6 +110,8 @@ export class SnackBarHandler {
   /**
    * Adds a new snackbar entry to the list.
    * If the list is already full, the oldest snackbar is removed first.
+   * The message is also announced to screen readers,
+   * errors interrupting the current speech.
    *
    * @param content - Text content displayed inside the snackbar.
    * @param error - Whether the snackbar represents an error state.
@@ -122,5 +130,6 @@ export class SnackBarHandler {
     ]);
 
     this.#globalId++;
+    this.#announcer.announce(content, error ? 'assertive' : 'polite');
   }
 }
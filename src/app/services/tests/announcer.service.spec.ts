@@ -0,0 +1,85 @@
+import { TestBed } from '@angular/core/testing';
+import { provideZonelessChangeDetection } from '@angular/core';
+
+import { Announcer } from '../announcer.service';
+import { ANNOUNCER_DELAY } from '../../utils/constants/announcer.constant';
+
+/**
+ * @fileoverview
+ * Unit tests for the `Announcer` service.
+ *
+ * Covers:
+ * - Messages are written into their live region after the delay
+ * - The region is cleared first, so a repeated message is read again
+ * - Messages announced within the delay are joined into one announcement
+ * - Polite and assertive regions are independent
+ */
+
+describe('Announcer (service)', () => {
+  /** The Announcer service instance under test. */
+  let service: Announcer;
+
+  beforeEach(() => {
+    jasmine.clock().install();
+
+    TestBed.configureTestingModule({
+      providers: [provideZonelessChangeDetection()],
+    });
+    service = TestBed.inject(Announcer);
+  });
+
+  afterEach(() => {
+    jasmine.clock().uninstall();
+  });
+
+  /**
+   * Messages appear in the polite region after the delay.
+   */
+  it('Should write a polite message after the delay', () => {
+    service.announce('Your turn.');
+
+    expect(service.polite()).toBe('');
+    jasmine.clock().tick(ANNOUNCER_DELAY);
+    expect(service.polite()).toBe('Your turn.');
+    expect(service.assertive()).toBe('');
+  });
+
+  /**
+   * A repeated message clears the region first, so it is read again.
+   */
+  it('Should clear the region before repeating a message', () => {
+    service.announce('Your turn.');
+    jasmine.clock().tick(ANNOUNCER_DELAY);
+
+    service.announce('Your turn.');
+    expect(service.polite()).toBe('');
+    jasmine.clock().tick(ANNOUNCER_DELAY);
+    expect(service.polite()).toBe('Your turn.');
+  });
+
+  /**
+   * Messages arriving within the delay are read together.
+   */
+  it('Should join the messages announced within the delay', () => {
+    service.announce('Computer placed cross at row 2, column 3.');
+    jasmine.clock().tick(ANNOUNCER_DELAY / 2);
+    service.announce('Your turn.');
+    jasmine.clock().tick(ANNOUNCER_DELAY / 2);
+
+    expect(service.polite()).toBe(
+      'Computer placed cross at row 2, column 3. Your turn.'
+    );
+  });
+
+  /**
+   * Assertive messages go to their own region.
+   */
+  it('Should keep the assertive region separate', () => {
+    service.announce('Your turn.');
+    service.announce('You won.', 'assertive');
+    jasmine.clock().tick(ANNOUNCER_DELAY);
+
+    expect(service.polite()).toBe('Your turn.');
+    expect(service.assertive()).toBe('You won.');
+  });
+});
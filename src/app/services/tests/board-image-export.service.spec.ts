@@ -0,0 +1,160 @@
+import { TestBed } from '@angular/core/testing';
+import { provideZonelessChangeDetection, DOCUMENT } from '@angular/core';
+
+import { BoardImageExport } from '../board-image-export.service';
+import { BOARD_IMAGE_REVOKE_DELAY } from '../../utils/constants/board-image.constant';
+
+/**
+ * @fileoverview
+ * Unit tests for the `BoardImageExport` service.
+ *
+ * Covers:
+ * - SVG downloads: the markup is saved as an `image/svg+xml` file
+ * - PNG downloads: the SVG is drawn onto a canvas of its own size
+ * - The temporary object URL is revoked only after `BOARD_IMAGE_REVOKE_DELAY`
+ * - Failed PNG rendering rejects without starting a download
+ */
+
+describe('BoardImageExport (service)', () => {
+  /** The BoardImageExport service instance under test. */
+  let service: BoardImageExport;
+
+  /** Link clicked to start the download. */
+  let link: HTMLAnchorElement;
+
+  /** Fake image the SVG is decoded into. */
+  let image: {
+    src: string;
+    naturalWidth: number;
+    naturalHeight: number;
+    decode: jasmine.Spy;
+  };
+
+  /** Fake canvas the PNG is drawn onto. */
+  let canvas: {
+    width: number;
+    height: number;
+    getContext: jasmine.Spy;
+    toBlob: jasmine.Spy;
+  };
+
+  /** Spy of the canvas context drawing the image. */
+  let drawImage: jasmine.Spy;
+
+  /** File produced by the fake canvas (`null` when rendering fails). */
+  let pngBlob: Blob | null;
+
+  /** Minimal SVG image used as input. */
+  const svg =
+    '<svg xmlns="http://www.w3.org/2000/svg" width="120" height="80"></svg>';
+
+  beforeEach(() => {
+    link = document.createElement('a');
+    spyOn(link, 'click');
+
+    image = {
+      src: '',
+      naturalWidth: 120,
+      naturalHeight: 80,
+      decode: jasmine.createSpy('decode').and.resolveTo(),
+    };
+
+    drawImage = jasmine.createSpy('drawImage');
+    pngBlob = new Blob(['png'], { type: 'image/png' });
+    canvas = {
+      width: 0,
+      height: 0,
+      getContext: jasmine
+        .createSpy('getContext')
+        .and.returnValue({ drawImage }),
+      toBlob: jasmine
+        .createSpy('toBlob')
+        .and.callFake((callback: (blob: Blob | null) => void) =>
+          callback(pngBlob)
+        ),
+    };
+
+    const fakeDocument = {
+      createElement: (tag: string) =>
+        tag === 'a' ? link : tag === 'img' ? image : canvas,
+    };
+
+    spyOn(URL, 'createObjectURL').and.returnValue('blob:board-image');
+    spyOn(URL, 'revokeObjectURL');
+
+    TestBed.configureTestingModule({
+      providers: [
+        provideZonelessChangeDetection(),
+        { provide: DOCUMENT, useValue: fakeDocument },
+      ],
+    });
+    service = TestBed.inject(BoardImageExport);
+    jasmine.clock().install();
+  });
+
+  afterEach(() => {
+    jasmine.clock().uninstall();
+  });
+
+  /**
+   * SVG images are downloaded as they are.
+   */
+  it('Should download the SVG markup as an SVG file', async () => {
+    await service.download(svg, 'tic-tac-toe', 'svg');
+
+    const blob = (URL.createObjectURL as jasmine.Spy).calls.mostRecent()
+      .args[0] as Blob;
+    expect(blob.type).toBe('image/svg+xml');
+    expect(await blob.text()).toBe(svg);
+    expect(link.download).toBe('tic-tac-toe.svg');
+    expect(link.href).toBe('blob:board-image');
+    expect(link.click).toHaveBeenCalledTimes(1);
+    expect(canvas.toBlob).not.toHaveBeenCalled();
+  });
+
+  /**
+   * The browser reads the file after the click returns,
+   * so the object URL is only revoked after a delay.
+   */
+  it('Should revoke the object URL only after the delay', async () => {
+    await service.download(svg, 'tic-tac-toe', 'svg');
+
+    expect(URL.revokeObjectURL).not.toHaveBeenCalled();
+
+    jasmine.clock().tick(BOARD_IMAGE_REVOKE_DELAY - 1);
+    expect(URL.revokeObjectURL).not.toHaveBeenCalled();
+
+    jasmine.clock().tick(1);
+    expect(URL.revokeObjectURL).toHaveBeenCalledOnceWith('blob:board-image');
+  });
+
+  /**
+   * PNG images are drawn from the SVG onto a canvas of the same size.
+   */
+  it('Should draw the SVG onto a canvas for PNG files', async () => {
+    await service.download(svg, 'tic-tac-toe', 'png');
+
+    expect(image.src).toBe(
+      `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`
+    );
+    expect(canvas.width).toBe(120);
+    expect(canvas.height).toBe(80);
+    expect(drawImage).toHaveBeenCalledOnceWith(image, 0, 0);
+    expect(URL.createObjectURL).toHaveBeenCalledOnceWith(pngBlob!);
+    expect(link.download).toBe('tic-tac-toe.png');
+    expect(link.click).toHaveBeenCalledTimes(1);
+  });
+
+  /**
+   * A canvas that can not be turned into a PNG file rejects the download.
+   */
+  it('Should reject without downloading when the PNG rendering fails', async () => {
+    pngBlob = null;
+
+    await expectAsync(
+      service.download(svg, 'tic-tac-toe', 'png')
+    ).toBeRejectedWithError('PNG rendering failed');
+    expect(link.click).not.toHaveBeenCalled();
+    expect(URL.createObjectURL).not.toHaveBeenCalled();
+  });
+});
@@ -6,14 +6,43 @@ import { FormTemplate } from '../form-template.service';
 import { Auth } from '../auth.service';
 
 import {
+  selectFirstMove,
+  selectGameAiEngine,
   selectGameHardness,
   selectGameOpponent,
-  selectGameSize,
+  selectGameSecondHardness,
+  selectGameRows,
+  selectGameColumns,
+  selectGameTimeControl,
+  selectGameVariant,
+  selectGameGravity,
+  selectGameVanishing,
+  selectGameMisere,
+  selectGamePlayers,
+  selectGameWinLength,
+  selectPlayerMarkup,
 } from '../../store/selectors/game-settings.selector';
 
 import { FieldKey } from '../../utils/types/dialog-form-field-model.type';
 import { HARNESS_VALUES } from '../../utils/constants/hardness.constant';
+import { AI_ENGINES } from '../../utils/constants/ai-engine.constant';
+import { PLAYER_MARKUPS } from '../../utils/constants/player-markup.constant';
+import { FIRST_MOVES } from '../../utils/constants/first-move.constant';
+import { OPPONENTS } from '../../utils/constants/opponent.constant';
+import { TIME_CONTROLS } from '../../utils/constants/time-control.constant';
+import { TimeControl } from '../../utils/types/time-control.type';
+import { BUILT_IN_VARIANTS } from '../../utils/constants/built-in-variants.constant';
+import { Variant } from '../../utils/types/variant.type';
+import { PLAYER_COUNTS } from '../../utils/constants/player-count.constant';
+import { PlayerCount } from '../../utils/types/player-count.type';
 import { createUser } from '../../utils/test/functions/creators.functions';
+import { BOARD_IMAGE_FORMATS } from '../../utils/constants/board-image.constant';
+import { Translation } from '../translation.service';
+import {
+  LANGUAGE_NAMES,
+  LANGUAGES,
+} from '../../utils/constants/language.constant';
+import '../../app.variants';
 
 /**
  * @fileoverview
@@ -22,6 +51,7 @@ import { createUser } from '../../utils/test/functions/creators.functions';
  * Covers:
  * - formFieldMap content (keys, titles, structures, buttons)
  * - game settings structure (reactive base values and auth-dependent options)
+ * - settings structure (language picker) and translated titles and buttons
  * - getter helpers:
  *   - getButtonsByFieldKey
  *   - getStructureByFieldKey
@@ -35,18 +65,54 @@ class MockAuth {
 
 class MockStore {
   /** Backing signals for selectSignal() calls. */
-  readonly sizeSig = signal<number>(4);
+  readonly rowsSig = signal<number>(4);
+  readonly columnsSig = signal<number>(4);
   readonly opponentSig = signal<'player' | 'computer'>('player');
   readonly hardnessSig = signal<number>(2);
+  readonly secondHardnessSig = signal<number>(1);
+  readonly aiEngineSig = signal<'server' | 'local'>('server');
+  readonly winLengthSig = signal<number>(4);
+  readonly playerMarkupSig = signal<'o' | 'x'>('o');
+  readonly firstMoveSig = signal<'human' | 'computer'>('human');
+  readonly timeControlSig = signal<TimeControl>('none');
+  readonly variantSig = signal<Variant>('classic');
+  readonly gravitySig = signal<boolean>(false);
+  readonly vanishingSig = signal<boolean>(false);
+  readonly misereSig = signal<boolean>(false);
+  readonly playersSig = signal<PlayerCount>(2);
 
   /** Minimal selector -> signal mapper for the service under test. */
   selectSignal<T>(selector: unknown): Signal<T> {
-    if (selector === selectGameSize)
-      return this.sizeSig as unknown as Signal<T>;
+    if (selector === selectGameRows)
+      return this.rowsSig as unknown as Signal<T>;
+    if (selector === selectGameColumns)
+      return this.columnsSig as unknown as Signal<T>;
     if (selector === selectGameOpponent)
       return this.opponentSig as unknown as Signal<T>;
     if (selector === selectGameHardness)
       return this.hardnessSig as unknown as Signal<T>;
+    if (selector === selectGameSecondHardness)
+      return this.secondHardnessSig as unknown as Signal<T>;
+    if (selector === selectGameAiEngine)
+      return this.aiEngineSig as unknown as Signal<T>;
+    if (selector === selectGameWinLength)
+      return this.winLengthSig as unknown as Signal<T>;
+    if (selector === selectPlayerMarkup)
+      return this.playerMarkupSig as unknown as Signal<T>;
+    if (selector === selectFirstMove)
+      return this.firstMoveSig as unknown as Signal<T>;
+    if (selector === selectGameTimeControl)
+      return this.timeControlSig as unknown as Signal<T>;
+    if (selector === selectGameVariant)
+      return this.variantSig as unknown as Signal<T>;
+    if (selector === selectGameGravity)
+      return this.gravitySig as unknown as Signal<T>;
+    if (selector === selectGameVanishing)
+      return this.vanishingSig as unknown as Signal<T>;
+    if (selector === selectGameMisere)
+      return this.misereSig as unknown as Signal<T>;
+    if (selector === selectGamePlayers)
+      return this.playersSig as unknown as Signal<T>;
 
     return signal(undefined as unknown as T);
   }
@@ -98,6 +164,7 @@ describe('FormTemplate (service)', () => {
       expect(keys).toContain('registration' as FieldKey);
       expect(keys).toContain('email_change' as FieldKey);
       expect(keys).toContain('password_change' as FieldKey);
+      expect(keys).toContain('export' as FieldKey);
     });
 
     /**
@@ -153,17 +220,22 @@ describe('FormTemplate (service)', () => {
     });
 
     /**
-     * If a user is logged in, the opponent field should include `computer`
-     * and use the store value as base value.
+     * If a user is logged in, the opponent field should include the AI modes
+     * (`computer` and `spectator`) and use the store value as base value.
      */
-    it('Should include `computer` in opponent options when user is logged in', () => {
+    it('Should include the AI modes in opponent options when user is logged in', () => {
       authMock.user.set(testUser);
       storeMock.opponentSig.set('computer');
 
       const game = service.formFieldMap.get('game_setting' as FieldKey)!;
       const opponentField = game.structure.find((f) => f.model === 'opponent')!;
 
-      expect(opponentField.options).toEqual(['computer', 'player']);
+      expect(opponentField.options).toEqual([...OPPONENTS]);
+      expect(opponentField.optionLabels).toEqual({
+        player: 'Two players',
+        computer: 'Computer',
+        spectator: 'Computer vs computer',
+      });
       expect(opponentField.baseValue).toBe('computer');
     });
 
@@ -171,17 +243,286 @@ describe('FormTemplate (service)', () => {
      * Ensures that game setting fields read their base values from store signals
      * and that the hardness max matches the constants length.
      */
-    it('Should set size and hardness base values from store signals', () => {
-      storeMock.sizeSig.set(7);
+    it('Should set rows, columns and hardness base values from store signals', () => {
+      storeMock.rowsSig.set(6);
+      storeMock.columnsSig.set(7);
       storeMock.hardnessSig.set(1);
 
       const game = service.formFieldMap.get('game_setting' as FieldKey)!;
-      const sizeField = game.structure.find((f) => f.model === 'size')!;
+      const rowsField = game.structure.find((f) => f.model === 'rows')!;
+      const columnsField = game.structure.find((f) => f.model === 'columns')!;
       const hardnessField = game.structure.find((f) => f.model === 'hardness')!;
 
-      expect(sizeField.baseValue).toBe(7);
+      expect(rowsField.baseValue).toBe(6);
+      expect(columnsField.baseValue).toBe(7);
       expect(hardnessField.baseValue).toBe(1);
       expect(hardnessField.max).toBe(HARNESS_VALUES.length);
     });
+
+    /**
+     * Ensures that the second AI's difficulty slider (spectator mode)
+     * reads its base value from the store and shares the hardness limits.
+     */
+    it('Should set the second AI difficulty base value from the store', () => {
+      storeMock.secondHardnessSig.set(3);
+
+      const game = service.formFieldMap.get('game_setting' as FieldKey)!;
+      const secondHardnessField = game.structure.find(
+        (f) => f.model === 'secondHardness'
+      )!;
+
+      expect(secondHardnessField.type).toBe('range');
+      expect(secondHardnessField.baseValue).toBe(3);
+      expect(secondHardnessField.max).toBe(HARNESS_VALUES.length);
+    });
+
+    /**
+     * Ensures that the AI engine field offers every engine
+     * and reads its base value from the store.
+     */
+    it('Should offer every AI engine and use the stored engine as base value', () => {
+      storeMock.aiEngineSig.set('local');
+
+      const game = service.formFieldMap.get('game_setting' as FieldKey)!;
+      const engineField = game.structure.find((f) => f.model === 'aiEngine')!;
+
+      expect(engineField.options).toEqual([...AI_ENGINES]);
+      expect(engineField.baseValue).toBe('local');
+    });
+
+    /**
+     * Ensures that the time control field offers every time control
+     * and reads its base value from the store.
+     */
+    it('Should offer every time control and use the stored one as base value', () => {
+      storeMock.timeControlSig.set('fischer');
+
+      const game = service.formFieldMap.get('game_setting' as FieldKey)!;
+      const timeControlField = game.structure.find(
+        (f) => f.model === 'timeControl'
+      )!;
+
+      expect(timeControlField.options).toEqual([...TIME_CONTROLS]);
+      expect(timeControlField.optionLabels).toEqual({
+        none: 'None',
+        sudden_death: 'Sudden death (5 min)',
+        per_move: '30 seconds per move',
+        fischer: 'Fischer (3 min + 2 s)',
+      });
+      expect(timeControlField.baseValue).toBe('fischer');
+    });
+
+    /**
+     * Ensures that the variant field offers every variant
+     * and reads its base value from the store.
+     */
+    it('Should offer every variant and use the stored variant as base value', () => {
+      storeMock.variantSig.set('ultimate');
+
+      const game = service.formFieldMap.get('game_setting' as FieldKey)!;
+      const variantField = game.structure.find((f) => f.model === 'variant')!;
+
+      expect(variantField.options).toEqual(
+        BUILT_IN_VARIANTS.map((variant) => variant.id)
+      );
+      expect(variantField.baseValue).toBe('ultimate');
+      expect(variantField.optionLabels).toEqual({
+        classic: 'Classic',
+        ultimate: 'Ultimate',
+        quantum: 'Quantum',
+        wild: 'Wild',
+        order_chaos: 'Order and Chaos',
+      });
+    });
+
+    /**
+     * Ensures that the gravity field can be switched on and off
+     * and reads its base value from the store.
+     */
+    it('Should offer the gravity toggle and use the stored rule as base value', () => {
+      storeMock.gravitySig.set(true);
+
+      const game = service.formFieldMap.get('game_setting' as FieldKey)!;
+      const gravityField = game.structure.find((f) => f.model === 'gravity')!;
+
+      expect(gravityField.options).toEqual([false, true]);
+      expect(gravityField.optionLabels).toEqual({ false: 'Off', true: 'On' });
+      expect(gravityField.baseValue).toBe(true);
+      expect(gravityField.valueType).toBe('boolean');
+    });
+
+    /**
+     * Ensures that the vanishing-marks field can be switched on and off
+     * and reads its base value from the store.
+     */
+    it('Should offer the vanishing marks toggle and use the stored rule as base value', () => {
+      storeMock.vanishingSig.set(true);
+
+      const game = service.formFieldMap.get('game_setting' as FieldKey)!;
+      const vanishingField = game.structure.find(
+        (f) => f.model === 'vanishing'
+      )!;
+
+      expect(vanishingField.options).toEqual([false, true]);
+      expect(vanishingField.baseValue).toBe(true);
+      expect(vanishingField.valueType).toBe('boolean');
+    });
+
+    /**
+     * Ensures that the misère field can be switched on and off
+     * and reads its base value from the store.
+     */
+    it('Should offer the misère toggle and use the stored rule as base value', () => {
+      storeMock.misereSig.set(true);
+
+      const game = service.formFieldMap.get('game_setting' as FieldKey)!;
+      const misereField = game.structure.find((f) => f.model === 'misere')!;
+
+      expect(misereField.options).toEqual([false, true]);
+      expect(misereField.baseValue).toBe(true);
+      expect(misereField.valueType).toBe('boolean');
+    });
+
+    /**
+     * Ensures that the number of players can be chosen
+     * and reads its base value from the store.
+     */
+    it('Should offer two or three players and use the stored count as base value', () => {
+      storeMock.playersSig.set(3);
+
+      const game = service.formFieldMap.get('game_setting' as FieldKey)!;
+      const playersField = game.structure.find((f) => f.model === 'players')!;
+
+      expect(playersField.options).toEqual([...PLAYER_COUNTS]);
+      expect(playersField.baseValue).toBe(3);
+      expect(playersField.valueType).toBe('number');
+    });
+
+    /**
+     * Ensures that the win length field offers 3–5 marks in a row
+     * and reads its base value from the store.
+     */
+    it('Should offer win lengths 3–5 and use the stored win length as base value', () => {
+      storeMock.winLengthSig.set(5);
+
+      const game = service.formFieldMap.get('game_setting' as FieldKey)!;
+      const winLengthField = game.structure.find(
+        (f) => f.model === 'winLength'
+      )!;
+
+      expect(winLengthField.options).toEqual([3, 4, 5]);
+      expect(winLengthField.baseValue).toBe(5);
+      expect(winLengthField.valueType).toBe('number');
+    });
+
+    /**
+     * Ensures that the side fields offer every markup and first mover
+     * and read their base values from the store.
+     */
+    it('Should offer the markups and first movers and use the stored sides as base values', () => {
+      storeMock.playerMarkupSig.set('x');
+      storeMock.firstMoveSig.set('computer');
+
+      const game = service.formFieldMap.get('game_setting' as FieldKey)!;
+      const markupField = game.structure.find(
+        (f) => f.model === 'playerMarkup'
+      )!;
+      const firstMoveField = game.structure.find(
+        (f) => f.model === 'firstMove'
+      )!;
+
+      expect(markupField.options).toEqual([...PLAYER_MARKUPS]);
+      expect(markupField.baseValue).toBe('x');
+      expect(firstMoveField.options).toEqual([...FIRST_MOVES]);
+      expect(firstMoveField.baseValue).toBe('computer');
+    });
+  });
+
+  /**
+   * Tests for the `export` structure of board images.
+   */
+  describe('[export] structure:', () => {
+    /**
+     * Ensures that the export dialog offers every image format
+     * and switches for each optional mark.
+     */
+    it('Should offer the image formats and the optional marks', () => {
+      const exportForm = service.formFieldMap.get('export' as FieldKey)!;
+
+      expect(exportForm.title).toBe('Export image');
+      expect(exportForm.structure.map((f) => f.model)).toEqual([
+        'imageFormat',
+        'coordinates',
+        'markLastMove',
+        'markWinningLine',
+      ]);
+      expect(exportForm.structure[0].options).toEqual([...BOARD_IMAGE_FORMATS]);
+      expect(exportForm.structure[0].optionLabels).toEqual({
+        svg: 'SVG image',
+        png: 'PNG image',
+      });
+      for (const field of exportForm.structure.slice(1)) {
+        expect(field.options).toEqual([false, true]);
+        expect(field.optionLabels).toEqual({ false: 'Off', true: 'On' });
+        expect(field.valueType).toBe('boolean');
+      }
+      expect(exportForm.buttons![0].name).toBe('Export');
+    });
+  });
+
+  /**
+   * Tests for the `setting` structure and the translated texts.
+   */
+  describe('[setting] structure:', () => {
+    /** Translation service switched between the languages. */
+    let translation: Translation;
+
+    beforeEach(() => {
+      // The language switch must not be persisted for the other tests
+      spyOn(localStorage, 'setItem');
+      translation = TestBed.inject(Translation);
+    });
+
+    afterEach(() => {
+      translation.language = 'en';
+    });
+
+    /**
+     * Ensures that the settings dialog offers every language by its own name.
+     */
+    it('Should offer every language by its name', () => {
+      const setting = service.formFieldMap.get('setting' as FieldKey)!;
+      const languageField = setting.structure.find(
+        (f) => f.model === 'language'
+      )!;
+
+      expect(languageField.type).toBe('select');
+      expect(languageField.options).toEqual([...LANGUAGES]);
+      expect(languageField.optionLabels).toEqual(LANGUAGE_NAMES);
+    });
+
+    /**
+     * Ensures that titles, field labels and button names follow a language switch.
+     */
+    it('Should translate the titles and buttons into the chosen language', () => {
+      translation.language = 'hu';
+
+      const setting = service.formFieldMap.get('setting' as FieldKey)!;
+
+      expect(setting.title).toBe('Beállítások');
+      expect(setting.structure[0].title).toBe('Elsődleges szín');
+      expect(setting.buttons!.map((b) => b.name)).toEqual([
+        'Alkalmaz',
+        'Mégse',
+      ]);
+      expect(service.getTitleByFieldKey('game_setting' as FieldKey)).toBe(
+        'Játékbeállítások'
+      );
+      expect(
+        service
+          .getStructureByFieldKey('game_setting' as FieldKey)
+          .find((f) => f.model === 'variant')!.optionLabels!['order_chaos']
+      ).toBe('Rend és káosz');
+    });
   });
 });
@@ -15,7 +15,8 @@ import { SavedGame } from '../../utils/interfaces/saved-game.interface';
  * - numberToDifficulty / difficultyToNumber: hardness mapping helpers
  * - specificFieldTypeByName: builds a typed object from form field metadata
  * - convertType: converts raw inputs into requested target types
- * - markupByStep: returns 'o' for even steps and 'x' for odd steps
+ * - markupByStep: returns the first markup for even steps and the other one for odd steps,
+ *   rotating through three markups in three-player games
  */
 
 describe('Functions (service)', () => {
@@ -202,5 +203,24 @@ describe('Functions (service)', () => {
       expect(service.markupByStep(2)).toBe('o');
       expect(service.markupByStep(3)).toBe('x');
     });
+
+    /**
+     * When 'x' moves first, even steps return 'x' and odd steps return 'o'.
+     */
+    it('Should start with the given first markup', () => {
+      expect(service.markupByStep(0, 'x')).toBe('x');
+      expect(service.markupByStep(1, 'x')).toBe('o');
+      expect(service.markupByStep(2, 'x')).toBe('x');
+    });
+
+    /**
+     * With three players the triangle moves after both two-player markups.
+     */
+    it('Should rotate through three markups in three-player games', () => {
+      expect(service.markupByStep(0, 'x', 3)).toBe('x');
+      expect(service.markupByStep(1, 'x', 3)).toBe('o');
+      expect(service.markupByStep(2, 'x', 3)).toBe('t');
+      expect(service.markupByStep(3, 'x', 3)).toBe('x');
+    });
   });
 });
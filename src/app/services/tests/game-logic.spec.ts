@@ -4,9 +4,11 @@ import { provideZonelessChangeDetection } from '@angular/core';
 import { GameLogic } from '../game-logic.service';
 import { Http } from '../http.service';
 import { Functions } from '../functions.service';
+import { LocalAi } from '../local-ai.service';
 
 import { AiMove } from '../../utils/interfaces/ai-move.interface';
 import { LastMove } from '../../utils/interfaces/last-move.interface'; 
+import { createBoard } from '../../utils/test/functions/creators.functions';
 
 /**
  * @fileoverview
@@ -14,7 +16,11 @@ import { LastMove } from '../../utils/interfaces/last-move.interface';
  *
  * Covers:
  * - aiMove: correct endpoint, payload, retry options + hardness conversion
+ * - aiMove: offline fallback, explicit local engine, gravity, vanishing-marks and misère games
  * - hasWinner: correct endpoint, payload, retry options
+ * - evaluateBoard: local winner, draw and winning line detection (3x3–9x9)
+ * - localAiMove: offline-only moves with hardness conversion
+ * - crossCheckWinner: comparison of local and server results
  */
 
 describe('GameLogic (service)', () => {
@@ -27,11 +33,15 @@ describe('GameLogic (service)', () => {
   /** Mocked helper functions dependency. */
   let functionsMock: jasmine.SpyObj<Functions>;
 
+  /** Mocked offline AI dependency. */
+  let localAiMock: jasmine.SpyObj<LocalAi>;
+
   beforeEach(() => {
     httpMock = jasmine.createSpyObj<Http>('Http', ['request']);
     functionsMock = jasmine.createSpyObj<Functions>('Functions', [
       'numberToDifficulty',
     ]);
+    localAiMock = jasmine.createSpyObj<LocalAi>('LocalAi', ['move']);
 
     TestBed.configureTestingModule({
       providers: [
@@ -39,6 +49,7 @@ describe('GameLogic (service)', () => {
         GameLogic,
         { provide: Http, useValue: httpMock },
         { provide: Functions, useValue: functionsMock },
+        { provide: LocalAi, useValue: localAiMock },
       ],
     });
 
@@ -87,27 +98,205 @@ describe('GameLogic (service)', () => {
           markup,
           hardness: 'easy',
           lastMove,
+          winLength: 3,
+          rows: 3,
+          columns: 3,
         },
         { maxRetries: 5, initialDelay: 700 }
       );
 
       expect(result).toEqual(apiResponse);
+      expect(localAiMock.move).not.toHaveBeenCalled();
     });
 
     /**
-     * Ensures that `aiMove` returns undefined when the HTTP layer returns undefined.
+     * Ensures that `aiMove` falls back to the local AI when the HTTP layer returns undefined.
      */
-    it('Should return undefined when Http.request resolves undefined', async () => {
+    it('Should fall back to LocalAi when Http.request resolves undefined', async () => {
       const board = [['']];
       const lastMove: LastMove = { row: 0, column: 0 };
+      const localResponse: AiMove = {
+        winner: null,
+        region: null,
+        lastMove: { row: 0, column: 0 },
+        board: [['x']],
+      };
 
       functionsMock.numberToDifficulty.and.returnValue('very_easy' as any);
       httpMock.request.and.resolveTo(undefined);
+      localAiMock.move.and.returnValue(localResponse);
 
       const result = await service.aiMove(board, 'x', 1, lastMove);
 
+      expect(localAiMock.move).toHaveBeenCalledOnceWith(
+        board,
+        'x',
+        'very_easy',
+        1,
+        false,
+        null,
+        false
+      );
+      expect(result).toEqual(localResponse);
+    });
+
+    /**
+     * Ensures that `aiMove` returns undefined when neither engine finds a move.
+     */
+    it('Should return undefined when both engines fail', async () => {
+      functionsMock.numberToDifficulty.and.returnValue('very_easy' as any);
+      httpMock.request.and.resolveTo(undefined);
+      localAiMock.move.and.returnValue(undefined);
+
+      const result = await service.aiMove([['x']], 'o', 1, {
+        row: 0,
+        column: 0,
+      });
+
       expect(result).toBeUndefined();
     });
+
+    /**
+     * Ensures that the local engine never contacts the backend.
+     */
+    it('Should skip the backend when the local engine is selected', async () => {
+      const board = [
+        ['x', '', ''],
+        ['', '', ''],
+        ['', '', ''],
+      ];
+
+      functionsMock.numberToDifficulty.and.returnValue('hard' as any);
+      localAiMock.move.and.returnValue(undefined);
+
+      await service.aiMove(board, 'o', 4, { row: 0, column: 0 }, 3, 'local');
+
+      expect(httpMock.request).not.toHaveBeenCalled();
+      expect(localAiMock.move).toHaveBeenCalledOnceWith(
+        board,
+        'o',
+        'hard',
+        3,
+        false,
+        null,
+        false
+      );
+    });
+
+    /**
+     * Ensures that gravity games never contact the backend,
+     * which only knows free placement.
+     */
+    it('Should skip the backend in gravity games', async () => {
+      const board = [
+        ['', '', ''],
+        ['', '', ''],
+        ['x', '', ''],
+      ];
+
+      functionsMock.numberToDifficulty.and.returnValue('hard' as any);
+      localAiMock.move.and.returnValue(undefined);
+
+      await service.aiMove(
+        board,
+        'o',
+        4,
+        { row: 2, column: 0 },
+        3,
+        'server',
+        true
+      );
+
+      expect(httpMock.request).not.toHaveBeenCalled();
+      expect(localAiMock.move).toHaveBeenCalledOnceWith(
+        board,
+        'o',
+        'hard',
+        3,
+        true,
+        null,
+        false
+      );
+    });
+
+    /**
+     * Ensures that vanishing-marks games never contact the backend
+     * and hand the mark order over to the local AI.
+     */
+    it('Should skip the backend in vanishing-marks games', async () => {
+      const board = [
+        ['o', '', ''],
+        ['', 'x', ''],
+        ['', '', ''],
+      ];
+      const markOrder = {
+        x: [{ row: 1, column: 1 }],
+        o: [{ row: 0, column: 0 }],
+      };
+
+      functionsMock.numberToDifficulty.and.returnValue('hard' as any);
+      localAiMock.move.and.returnValue(undefined);
+
+      await service.aiMove(
+        board,
+        'o',
+        4,
+        { row: 1, column: 1 },
+        3,
+        'server',
+        false,
+        markOrder
+      );
+
+      expect(httpMock.request).not.toHaveBeenCalled();
+      expect(localAiMock.move).toHaveBeenCalledOnceWith(
+        board,
+        'o',
+        'hard',
+        3,
+        false,
+        markOrder,
+        false
+      );
+    });
+
+    /**
+     * Ensures that misère games never contact the backend,
+     * which only knows lines that win.
+     */
+    it('Should skip the backend in misère games', async () => {
+      const board = [
+        ['', '', ''],
+        ['', 'x', ''],
+        ['', '', ''],
+      ];
+
+      functionsMock.numberToDifficulty.and.returnValue('hard' as any);
+      localAiMock.move.and.returnValue(undefined);
+
+      await service.aiMove(
+        board,
+        'o',
+        4,
+        { row: 1, column: 1 },
+        3,
+        'server',
+        false,
+        null,
+        true
+      );
+
+      expect(httpMock.request).not.toHaveBeenCalled();
+      expect(localAiMock.move).toHaveBeenCalledOnceWith(
+        board,
+        'o',
+        'hard',
+        3,
+        false,
+        null,
+        true
+      );
+    });
   });
 
   describe('[hasWinner] function:', () => {
@@ -130,7 +319,7 @@ describe('GameLogic (service)', () => {
       expect(httpMock.request).toHaveBeenCalledOnceWith(
         'post',
         'game/check-board',
-        { board },
+        { board, winLength: 3, rows: 3, columns: 3 },
         { maxRetries: 3, initialDelay: 200 }
       );
 
@@ -156,4 +345,244 @@ describe('GameLogic (service)', () => {
       expect(result).toEqual(apiResponse);
     });
   });
+
+  describe('[evaluateBoard] function:', () => {
+    /**
+     * Ensures that an empty board is reported as an ongoing game.
+     */
+    it('Should return no winner for an empty board of every size', () => {
+      for (let size = 3; size <= 9; size++) {
+        expect(service.evaluateBoard(createBoard(size))).toEqual({
+          winner: null,
+          line: null,
+        });
+      }
+    });
+
+    /**
+     * Ensures that rows, columns, diagonals and anti-diagonals are all detected.
+     */
+    it('Should detect every line direction on a 3x3 board', () => {
+      const cases: { board: string[][]; line: LastMove[] }[] = [
+        {
+          board: [
+            ['', '', ''],
+            ['x', 'x', 'x'],
+            ['o', 'o', ''],
+          ],
+          line: [
+            { row: 1, column: 0 },
+            { row: 1, column: 1 },
+            { row: 1, column: 2 },
+          ],
+        },
+        {
+          board: [
+            ['', 'o', 'x'],
+            ['', 'o', 'x'],
+            ['', 'o', ''],
+          ],
+          line: [
+            { row: 0, column: 1 },
+            { row: 1, column: 1 },
+            { row: 2, column: 1 },
+          ],
+        },
+        {
+          board: [
+            ['o', 'x', ''],
+            ['', 'o', 'x'],
+            ['', '', 'o'],
+          ],
+          line: [
+            { row: 0, column: 0 },
+            { row: 1, column: 1 },
+            { row: 2, column: 2 },
+          ],
+        },
+        {
+          board: [
+            ['o', 'o', 'x'],
+            ['', 'x', ''],
+            ['x', '', ''],
+          ],
+          line: [
+            { row: 0, column: 2 },
+            { row: 1, column: 1 },
+            { row: 2, column: 0 },
+          ],
+        },
+      ];
+
+      for (const { board, line } of cases) {
+        const markup = board[line[0].row][line[0].column];
+        expect(service.evaluateBoard(board)).toEqual({
+          winner: markup as 'x' | 'o',
+          line,
+        });
+      }
+    });
+
+    /**
+     * Ensures that a full board without a line is a draw.
+     */
+    it('Should report a draw for a full board without a line', () => {
+      const board = [
+        ['x', 'o', 'x'],
+        ['x', 'o', 'o'],
+        ['o', 'x', 'x'],
+      ];
+
+      expect(service.evaluateBoard(board)).toEqual({
+        winner: 'draw',
+        line: null,
+      });
+    });
+
+    /**
+     * Ensures that small boards require a full line and larger boards five in a row.
+     */
+    it('Should use the default win length for every board size', () => {
+      for (let size = 3; size <= 9; size++) {
+        const winLength = Math.min(size, 5);
+
+        const shortBoard = createBoard(size);
+        for (let column = 0; column < winLength - 1; column++) {
+          shortBoard[0][column] = 'x';
+        }
+        expect(service.evaluateBoard(shortBoard).winner).toBeNull();
+
+        const winningBoard = createBoard(size);
+        for (let i = 0; i < winLength; i++) {
+          winningBoard[size - 1 - i][i] = 'o';
+        }
+        const evaluation = service.evaluateBoard(winningBoard);
+        expect(evaluation.winner).toBe('o');
+        expect(evaluation.line?.length).toBe(winLength);
+      }
+    });
+
+    /**
+     * Ensures that an explicit win length overrides the size-based default
+     * and is capped at the board size.
+     */
+    it('Should respect a configured win length', () => {
+      const board = createBoard(9);
+      for (let column = 0; column < 3; column++) {
+        board[4][column] = 'x';
+      }
+
+      expect(service.evaluateBoard(board).winner).toBeNull();
+      expect(service.evaluateBoard(board, 4).winner).toBeNull();
+      expect(service.evaluateBoard(board, 3)).toEqual({
+        winner: 'x',
+        line: [
+          { row: 4, column: 0 },
+          { row: 4, column: 1 },
+          { row: 4, column: 2 },
+        ],
+      });
+
+      const smallBoard = createBoard(3);
+      smallBoard[0] = ['o', 'o', 'o'];
+      expect(service.evaluateBoard(smallBoard, 5).winner).toBe('o');
+    });
+
+    /**
+     * Ensures that rectangular boards use their shorter side for the default
+     * win length and allow lines along their longer side.
+     */
+    it('Should evaluate rectangular boards', () => {
+      const board = createBoard(3, 7);
+      for (let column = 0; column < 3; column++) {
+        board[1][column] = 'x';
+      }
+      expect(service.evaluateBoard(board).winner).toBe('x');
+
+      const longBoard = createBoard(3, 7);
+      for (let column = 2; column < 7; column++) {
+        longBoard[2][column] = 'o';
+      }
+      expect(service.evaluateBoard(longBoard, 5)).toEqual({
+        winner: 'o',
+        line: [2, 3, 4, 5, 6].map((column) => ({ row: 2, column })),
+      });
+    });
+
+    /**
+     * Ensures that the engine never calls the backend.
+     */
+    it('Should not send any request', () => {
+      service.evaluateBoard(createBoard(3));
+      expect(httpMock.request).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('[localAiMove] function:', () => {
+    /**
+     * Ensures that the offline engine computes the move
+     * with the converted hardness and that the backend is never contacted.
+     */
+    it('Should compute the move offline with converted hardness', () => {
+      const move: AiMove = {
+        winner: null,
+        region: null,
+        lastMove: { row: 0, column: 0 },
+        board: [['x']],
+      };
+      const compute = jasmine.createSpy('compute').and.returnValue(move);
+      functionsMock.numberToDifficulty.and.returnValue('hard');
+
+      expect(service.localAiMove(4, compute)).toBe(move);
+      expect(functionsMock.numberToDifficulty).toHaveBeenCalledWith(4);
+      expect(compute).toHaveBeenCalledWith(localAiMock, 'hard');
+      expect(httpMock.request).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('[crossCheckWinner] function:', () => {
+    /**
+     * Ensures that matching results are reported as an agreement.
+     */
+    it('Should resolve true when the server agrees', async () => {
+      const board = createBoard(3);
+      httpMock.request.and.resolveTo({ winner: null });
+
+      const result = await service.crossCheckWinner(board, {
+        winner: null,
+        line: null,
+      });
+
+      expect(result).toBeTrue();
+    });
+
+    /**
+     * Ensures that disagreements are reported.
+     */
+    it('Should resolve false when the server disagrees', async () => {
+      const board = createBoard(3);
+      httpMock.request.and.resolveTo({ winner: 'x' });
+
+      const result = await service.crossCheckWinner(board, {
+        winner: null,
+        line: null,
+      });
+
+      expect(result).toBeFalse();
+    });
+
+    /**
+     * Ensures that an unreachable server yields undefined.
+     */
+    it('Should resolve undefined when the server is unreachable', async () => {
+      httpMock.request.and.resolveTo(undefined);
+
+      const result = await service.crossCheckWinner(createBoard(3), {
+        winner: null,
+        line: null,
+      });
+
+      expect(result).toBeUndefined();
+    });
+  });
 });
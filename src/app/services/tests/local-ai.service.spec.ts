@@ -0,0 +1,400 @@
+import { TestBed } from '@angular/core/testing';
+import { provideZonelessChangeDetection } from '@angular/core';
+
+import { LocalAi } from '../local-ai.service';
+import { HARNESS_VALUES } from '../../utils/constants/hardness.constant';
+import { evaluateBoard } from '../../utils/functions/game-rules.function';
+import { createBoard } from '../../utils/test/functions/creators.functions';
+import {
+  isLegalUltimateMove,
+  subBoardOf,
+  ultimateBoardOf,
+} from '../../utils/functions/ultimate.function';
+
+/**
+ * @fileoverview
+ * Unit tests for the `LocalAi` service.
+ *
+ * Covers:
+ * - move: AiMove contract (board, lastMove, winner, region)
+ * - move: every difficulty plays a legal move
+ * - easy: takes immediate wins and blocks immediate losses
+ * - hard: perfect play on 3x3 and heuristic play on larger boards
+ * - gravity: only the lowest empty cell of a column is played
+ * - vanishing marks: the oldest mark is removed and left out of lines
+ * - misère: lines are avoided instead of completed
+ * - ultimateMove: legal moves in the active sub-board, claiming sub-boards
+ */
+
+describe('LocalAi (service)', () => {
+  /** Service under test. */
+  let service: LocalAi;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideZonelessChangeDetection(), LocalAi],
+    });
+
+    service = TestBed.inject(LocalAi);
+  });
+
+  describe('[move] function:', () => {
+    /**
+     * Ensures that every difficulty level places its markup on an empty cell
+     * and reports the result in the AiMove shape.
+     */
+    it('Should place the markup on an empty cell for every difficulty', () => {
+      const board = [
+        ['o', '', ''],
+        ['', 'x', ''],
+        ['', '', ''],
+      ];
+
+      for (const hardness of HARNESS_VALUES) {
+        const result = service.move(board, 'x', hardness)!;
+        const { row, column } = result.lastMove;
+
+        expect(board[row][column]).toBe('');
+        expect(result.board[row][column]).toBe('x');
+        expect(result.region).toBeNull();
+        expect(result.winner).toBe(evaluateBoard(result.board).winner);
+      }
+    });
+
+    /**
+     * Ensures that the original board is never mutated.
+     */
+    it('Should not mutate the incoming board', () => {
+      const board = createBoard(3);
+      const snapshot = JSON.stringify(board);
+
+      service.move(board, 'o', 'hard');
+
+      expect(JSON.stringify(board)).toBe(snapshot);
+    });
+
+    /**
+     * Ensures that no move is returned for full or decided boards.
+     */
+    it('Should return undefined when the board is full or already won', () => {
+      const full = [
+        ['x', 'o', 'x'],
+        ['x', 'o', 'o'],
+        ['o', 'x', 'x'],
+      ];
+      const won = [
+        ['x', 'x', 'x'],
+        ['o', 'o', ''],
+        ['', '', ''],
+      ];
+
+      expect(service.move(full, 'o', 'hard')).toBeUndefined();
+      expect(service.move(won, 'o', 'hard')).toBeUndefined();
+    });
+
+    /**
+     * Ensures that the easy level completes its own line when possible.
+     */
+    it('[easy] Should take an immediate win', () => {
+      const board = [
+        ['x', 'x', ''],
+        ['o', 'o', ''],
+        ['', '', ''],
+      ];
+
+      const result = service.move(board, 'x', 'easy')!;
+
+      expect(result.lastMove).toEqual({ row: 0, column: 2 });
+      expect(result.winner).toBe('x');
+    });
+
+    /**
+     * Ensures that the easy level blocks an immediate loss.
+     */
+    it('[easy] Should block an immediate loss', () => {
+      const board = [
+        ['o', 'o', ''],
+        ['', 'x', ''],
+        ['', '', ''],
+      ];
+
+      const result = service.move(board, 'x', 'easy')!;
+
+      expect(result.lastMove).toEqual({ row: 0, column: 2 });
+    });
+
+    /**
+     * Ensures that the hard level never loses on 3x3 by letting it play itself.
+     */
+    it('[hard] Should always draw against itself on 3x3', () => {
+      let board = createBoard(3);
+      let markup: 'x' | 'o' = 'o';
+      let winner = evaluateBoard(board).winner;
+
+      while (!winner) {
+        const result = service.move(board, markup, 'hard')!;
+        board = result.board;
+        winner = result.winner;
+        markup = markup === 'o' ? 'x' : 'o';
+      }
+
+      expect(winner).toBe('draw');
+    });
+
+    /**
+     * Ensures that the hard level finds a forced line on a larger board.
+     */
+    it('[hard] Should complete five in a row on a 9x9 board', () => {
+      const board = createBoard(9);
+      for (let column = 2; column < 6; column++) {
+        board[4][column] = 'x';
+      }
+      board[3][3] = 'o';
+      board[5][5] = 'o';
+      board[6][6] = 'o';
+
+      const result = service.move(board, 'x', 'hard')!;
+
+      expect(result.winner).toBe('x');
+    });
+
+    /**
+     * Ensures that a configured win length is used instead of the size-based default.
+     */
+    it('Should play to the configured win length', () => {
+      const board = createBoard(9);
+      board[2][2] = 'x';
+      board[2][3] = 'x';
+      board[6][6] = 'o';
+      board[6][7] = 'o';
+
+      for (const hardness of ['easy', 'hard'] as const) {
+        const result = service.move(board, 'x', hardness, 3)!;
+
+        expect(result.winner).toBe('x');
+        expect(evaluateBoard(result.board, 3).winner).toBe('x');
+      }
+    });
+
+    /**
+     * Ensures that the hard level blocks an open four on a larger board.
+     */
+    it('[hard] Should block an opponent line on a 7x7 board', () => {
+      const board = createBoard(7);
+      for (let row = 1; row < 5; row++) {
+        board[row][2] = 'o';
+      }
+      board[0][2] = 'x';
+      board[3][3] = 'x';
+      board[4][4] = 'x';
+
+      const result = service.move(board, 'x', 'hard')!;
+
+      expect(result.lastMove).toEqual({ row: 5, column: 2 });
+    });
+
+    /**
+     * Ensures that rectangular boards are handled: the opening move is
+     * the centre cell and lines along the longer side are completed.
+     */
+    it('[hard] Should play on a rectangular 6x7 board', () => {
+      const opening = service.move(createBoard(6, 7), 'o', 'hard', 4)!;
+      expect(opening.lastMove).toEqual({ row: 3, column: 3 });
+
+      const board = createBoard(6, 7);
+      for (let column = 3; column < 6; column++) {
+        board[5][column] = 'x';
+      }
+      board[0][0] = 'o';
+      board[0][1] = 'o';
+
+      const result = service.move(board, 'x', 'hard', 4)!;
+      expect(result.winner).toBe('x');
+    });
+  });
+
+  describe('[move] function with gravity:', () => {
+    /**
+     * Ensures that every difficulty level only plays the lowest empty cell of a column.
+     */
+    it('Should only play landing cells for every difficulty', () => {
+      const board = createBoard(6, 7);
+      board[5][3] = 'o';
+      board[4][3] = 'x';
+
+      for (const hardness of HARNESS_VALUES) {
+        const { row, column } = service.move(
+          board,
+          'o',
+          hardness,
+          4,
+          true
+        )!.lastMove;
+
+        expect(row).toBe(column === 3 ? 3 : 5);
+      }
+    });
+
+    /**
+     * Ensures that a vertical line is completed on top of its column.
+     */
+    it('[easy] Should complete a line by dropping onto a column', () => {
+      const board = createBoard(6, 7);
+      board[5][0] = 'x';
+      board[4][0] = 'x';
+      board[3][0] = 'x';
+      board[5][1] = 'o';
+      board[5][2] = 'o';
+
+      const result = service.move(board, 'x', 'easy', 4, true)!;
+
+      expect(result.lastMove).toEqual({ row: 2, column: 0 });
+      expect(result.winner).toBe('x');
+    });
+  });
+
+  describe('[move] function with vanishing marks:', () => {
+    /**
+     * Ensures that every difficulty level removes the player's oldest mark
+     * without mutating the incoming mark order.
+     */
+    it('Should remove the oldest mark for every difficulty', () => {
+      const board = [
+        ['x', '', 'x'],
+        ['o', '', 'o'],
+        ['o', 'x', ''],
+      ];
+      const markOrder = {
+        x: [
+          { row: 0, column: 0 },
+          { row: 0, column: 2 },
+          { row: 2, column: 1 },
+        ],
+        o: [
+          { row: 1, column: 0 },
+          { row: 1, column: 2 },
+          { row: 2, column: 0 },
+        ],
+      };
+      const original = structuredClone(markOrder);
+
+      for (const hardness of HARNESS_VALUES) {
+        const result = service.move(board, 'x', hardness, 3, false, markOrder)!;
+
+        expect(result.board[0][0]).toBe('');
+        expect(result.board.flat().filter((cell) => cell === 'x').length).toBe(3);
+        expect(markOrder).toEqual(original);
+      }
+    });
+
+    /**
+     * Ensures that only lines built from the marks staying on the board count.
+     */
+    it('[easy] Should complete a line with the marks that stay', () => {
+      const board = [
+        ['x', 'x', ''],
+        ['o', '', ''],
+        ['o', 'o', 'x'],
+      ];
+      const markOrder = {
+        x: [
+          { row: 2, column: 2 },
+          { row: 0, column: 0 },
+          { row: 0, column: 1 },
+        ],
+        o: [
+          { row: 1, column: 0 },
+          { row: 2, column: 0 },
+          { row: 2, column: 1 },
+        ],
+      };
+
+      const result = service.move(board, 'x', 'easy', 3, false, markOrder)!;
+
+      expect(result.lastMove).toEqual({ row: 0, column: 2 });
+      expect(result.board[2][2]).toBe('');
+      expect(result.winner).toBe('x');
+    });
+  });
+
+  describe('[move] function with the misère rule:', () => {
+    /**
+     * Ensures that no level above `very_easy` completes its own line
+     * while another move is available.
+     */
+    it('Should not complete its own line for every difficulty but very easy', () => {
+      const board = [
+        ['x', 'x', ''],
+        ['', 'o', ''],
+        ['', '', 'o'],
+      ];
+
+      for (const hardness of HARNESS_VALUES.filter(
+        (hardness) => hardness !== 'very_easy'
+      )) {
+        for (let i = 0; i < 10; i++) {
+          const result = service.move(board, 'x', hardness, 3, false, null, true)!;
+
+          expect(result.lastMove).not.toEqual({ row: 0, column: 2 });
+          expect(result.winner).toBeNull();
+        }
+      }
+    });
+
+    /**
+     * Ensures that a line is completed when no other move is left.
+     */
+    it('[easy] Should complete a line when it is the only move left', () => {
+      const board = [
+        ['x', 'o', 'x'],
+        ['x', 'o', 'o'],
+        ['', 'x', 'o'],
+      ];
+
+      const result = service.move(board, 'x', 'easy', 3, false, null, true)!;
+
+      expect(result.lastMove).toEqual({ row: 2, column: 0 });
+      expect(result.winner).toBe('x');
+    });
+  });
+
+  describe('[ultimateMove] function:', () => {
+    /**
+     * Ensures that every difficulty level plays a legal move
+     * inside the sub-board the last move points to.
+     */
+    it('Should play inside the active sub-board for every difficulty', () => {
+      const board = createBoard(9);
+      board[1][5] = 'o';
+      const lastMove = { row: 1, column: 5 };
+
+      for (const hardness of HARNESS_VALUES) {
+        const result = service.ultimateMove(board, 'x', hardness, lastMove)!;
+
+        expect(
+          isLegalUltimateMove(ultimateBoardOf(board, lastMove), result.lastMove)
+        ).toBe(true);
+        expect(subBoardOf(result.lastMove)).toEqual({ row: 1, column: 2 });
+        expect(result.board[result.lastMove.row][result.lastMove.column]).toBe(
+          'x'
+        );
+      }
+    });
+
+    /**
+     * Ensures that the AI claims a sub-board when it can complete a line on it.
+     */
+    it('[easy] Should claim a sub-board when possible', () => {
+      const board = createBoard(9);
+      board[3][3] = 'x';
+      board[3][4] = 'x';
+      board[1][4] = 'o';
+      const lastMove = { row: 1, column: 4 };
+
+      const result = service.ultimateMove(board, 'x', 'easy', lastMove)!;
+
+      expect(result.lastMove).toEqual({ row: 3, column: 5 });
+      expect(ultimateBoardOf(result.board).claimed[1][1]).toBe('x');
+    });
+  });
+});
@@ -22,6 +22,8 @@ import { RouterService } from '../router.service';
  *   - subscriptions are cleaned up on injector destroy
  * - navigateTo:
  *   - forwards navigation with optional queryParams and queryParamsHandling
+ * - linkTo:
+ *   - resolves the serialized route against the document base URL
  */
 
 describe('RouterService (service)', () => {
@@ -61,7 +63,11 @@ describe('RouterService (service)', () => {
     } as unknown as ActivatedRoute;
 
     routerMock = Object.assign(
-      jasmine.createSpyObj<Router>('Router', ['navigate']),
+      jasmine.createSpyObj<Router>('Router', [
+        'navigate',
+        'createUrlTree',
+        'serializeUrl',
+      ]),
       {
         events: routerEvents$,
         routerState: { root: rootRoute },
@@ -175,4 +181,24 @@ describe('RouterService (service)', () => {
       });
     });
   });
+
+  describe('[linkTo] function:', () => {
+    /**
+     * Ensures that the route is serialized by the router
+     * and resolved against the base URL of the document.
+     */
+    it('Should return the absolute URL of the route', () => {
+      const tree = {} as ReturnType<Router['createUrlTree']>;
+      routerMock.createUrlTree.and.returnValue(tree);
+      routerMock.serializeUrl.and.returnValue('/game?size=5');
+
+      const link = service.linkTo(['game'], { size: 5 });
+
+      expect(routerMock.createUrlTree).toHaveBeenCalledOnceWith(['game'], {
+        queryParams: { size: 5 },
+      });
+      expect(routerMock.serializeUrl).toHaveBeenCalledOnceWith(tree);
+      expect(link).toBe(new URL('game?size=5', document.baseURI).href);
+    });
+  });
 });
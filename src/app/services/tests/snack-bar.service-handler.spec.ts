@@ -2,6 +2,7 @@ import { TestBed } from '@angular/core/testing';
 import { provideZonelessChangeDetection } from '@angular/core';
 
 import { SnackBarHandler } from '../snack-bar-handler.service';
+import { Announcer } from '../announcer.service';
 
 /**
  * @fileoverview
@@ -12,6 +13,7 @@ import { SnackBarHandler } from '../snack-bar-handler.service';
  * - addElement:
  *   - appends new elements with correct defaults (id, duration, content, error)
  *   - enforces max capacity by removing the oldest element
+ *   - announces the message to screen readers
  * - tick:
  *   - decreases duration by 1
  *   - removes expired elements
@@ -47,6 +49,21 @@ describe('SnackBarHandler (service)', () => {
    * Tests for adding new snackbar items.
    */
   describe('[addElement] function:', () => {
+    /**
+     * Ensures that messages are announced, errors assertively.
+     */
+    it('Should announce the message to screen readers', () => {
+      const announceSpy = spyOn(TestBed.inject(Announcer), 'announce');
+
+      service.addElement('Game saved', false);
+      service.addElement('Game saving failed', true);
+
+      expect(announceSpy.calls.allArgs()).toEqual([
+        ['Game saved', 'polite'],
+        ['Game saving failed', 'assertive'],
+      ]);
+    });
+
     /**
      * Ensures that a new element is appended with the expected default duration and incremental id.
      */
@@ -0,0 +1,153 @@
+import { TestBed } from '@angular/core/testing';
+import { provideZonelessChangeDetection, DOCUMENT } from '@angular/core';
+
+import { Translation } from '../translation.service';
+import { LANGUAGE_STORAGE_KEY } from '../../utils/constants/language.constant';
+import { EN_MESSAGES } from '../../utils/constants/messages-en.constant';
+import { TRANSLATIONS } from '../../utils/constants/translation.constant';
+import { MessageKey } from '../../utils/types/message-key.type';
+import { messageError } from '../../utils/functions/message-error.function';
+
+/**
+ * @fileoverview
+ * Unit tests for the `Translation` service.
+ *
+ * Covers:
+ * - The saved language is restored, unknown or missing ones fall back to English
+ * - Texts are looked up in the catalog of the chosen language
+ * - `{name}` placeholders are filled in from the parameters
+ * - Errors created by `messageError` are explained in the chosen language
+ * - A language switch is persisted and set as the document's `lang`
+ * - Every catalog translates every key with the same placeholders
+ */
+
+describe('Translation (service)', () => {
+  /** Fake document whose `lang` attribute is set by the service. */
+  let fakeDocument: { documentElement: { lang: string } };
+
+  /** Spy of `localStorage.setItem`, so no test persists its language. */
+  let setItemSpy: jasmine.Spy;
+
+  /** Language saved in `localStorage`, `null` if none is saved. */
+  let saved: string | null;
+
+  /**
+   * Creates the service with the given language saved in `localStorage`.
+   *
+   * @param language - Saved language, `null` if none is saved.
+   * @returns The Translation service instance under test.
+   */
+  const setup = (language: string | null = null): Translation => {
+    saved = language;
+    TestBed.configureTestingModule({
+      providers: [
+        provideZonelessChangeDetection(),
+        { provide: DOCUMENT, useValue: fakeDocument },
+      ],
+    });
+    return TestBed.inject(Translation);
+  };
+
+  beforeEach(() => {
+    fakeDocument = { documentElement: { lang: '' } };
+    setItemSpy = spyOn(localStorage, 'setItem');
+    spyOn(localStorage, 'getItem').and.callFake((key: string) =>
+      key === LANGUAGE_STORAGE_KEY ? saved : null
+    );
+  });
+
+  /**
+   * Without a saved language the interface is English.
+   */
+  it('Should default to English', () => {
+    const service = setup();
+
+    expect(service.language()).toBe('en');
+    expect(service.locale).toBe('en-US');
+    expect(service.translate('dialog.settings')).toBe('Settings');
+  });
+
+  /**
+   * The saved language is restored, an unknown one is ignored.
+   */
+  it('Should restore the saved language and ignore unknown ones', () => {
+    expect(setup('hu').language()).toBe('hu');
+
+    TestBed.resetTestingModule();
+    expect(setup('xx').language()).toBe('en');
+  });
+
+  /**
+   * Texts are looked up in the catalog of the chosen language.
+   */
+  it('Should translate into the chosen language', () => {
+    const service = setup();
+
+    service.language = 'hu';
+
+    expect(service.translate('dialog.settings')).toBe('Beállítások');
+    expect(service.translate('error.required')).toBe('Ez a mező kötelező.');
+    expect(service.locale).toBe('hu-HU');
+  });
+
+  /**
+   * Placeholders are filled in, those without a value are kept.
+   */
+  it('Should fill in the placeholders of a text', () => {
+    const service = setup();
+
+    expect(
+      service.translate('board.cell', { content: 'cross', row: 2, column: 3 })
+    ).toBe('cross at row 2, column 3');
+    expect(service.translate('announce.won', {})).toBe('{side} won.');
+  });
+
+  /**
+   * Errors with a message key are translated, any other error keeps its message.
+   */
+  it('Should explain errors in the chosen language', () => {
+    const service = setup();
+    const error = messageError('record.illegalMove', { value: 'b1' });
+
+    expect(error.message).toBe('Illegal move: b1');
+    service.language = 'hu';
+    expect(service.translateError(error)).toBe('Szabálytalan lépés: b1');
+    expect(service.translateError(new Error('Bad input'))).toBe('Bad input');
+  });
+
+  /**
+   * The chosen language is persisted and set as the document's language.
+   */
+  it('Should persist the language and set the document language', () => {
+    const service = setup();
+    TestBed.tick();
+
+    expect(setItemSpy).toHaveBeenCalledWith(LANGUAGE_STORAGE_KEY, 'en');
+    expect(fakeDocument.documentElement.lang).toBe('en');
+
+    service.language = 'hu';
+    TestBed.tick();
+
+    expect(setItemSpy).toHaveBeenCalledWith(LANGUAGE_STORAGE_KEY, 'hu');
+    expect(fakeDocument.documentElement.lang).toBe('hu');
+  });
+
+  /**
+   * Every catalog translates every key of the English catalog,
+   * keeping its placeholders.
+   */
+  it('Should translate every key with the same placeholders in every catalog', () => {
+    const placeholders = (text: string) =>
+      (text.match(/\{\w+\}/g) ?? []).sort();
+    const keys = Object.keys(EN_MESSAGES) as MessageKey[];
+
+    for (const catalog of Object.values(TRANSLATIONS)) {
+      expect(Object.keys(catalog).sort()).toEqual([...keys].sort());
+      for (const key of keys) {
+        expect(placeholders(catalog[key]))
+          .withContext(key)
+          .toEqual(placeholders(EN_MESSAGES[key]));
+      }
+    }
+  });
+});
@@ -0,0 +1,123 @@
+import {
+  DOCUMENT,
+  effect,
+  inject,
+  Injectable,
+  Signal,
+  signal,
+  WritableSignal,
+} from '@angular/core';
+import {
+  DEFAULT_LANGUAGE,
+  LANGUAGE_LOCALES,
+  LANGUAGE_STORAGE_KEY,
+  LANGUAGES,
+} from '../utils/constants/language.constant';
+import { TRANSLATIONS } from '../utils/constants/translation.constant';
+import { Language } from '../utils/types/language.type';
+import { MessageKey } from '../utils/types/message-key.type';
+import {
+  fillPlaceholders,
+  isMessageError,
+} from '../utils/functions/message-error.function';
+
+/**
+ * @service Translation
+ *
+ * Translates the texts of the user interface into the chosen language.
+ *
+ * - Texts are looked up by their `MessageKey` in the catalog of the
+ *   language (see `TRANSLATIONS`), `{name}` placeholders are filled in
+ *   from the given parameters.
+ * - The language is a signal, so computed texts and templates follow
+ *   a switch right away.
+ * - The choice is persisted in `localStorage` and set as the `lang`
+ *   attribute of the document, so screen readers pronounce it correctly.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class Translation {
+  /** Reference to the global `document` object. */
+  #document = inject(DOCUMENT);
+
+  /** Reactive signal storing the chosen language. */
+  #language: WritableSignal<Language> = signal(this.savedLanguage());
+
+  /** Read-only access to the chosen language. */
+  get language(): Signal<Language> {
+    return this.#language.asReadonly();
+  }
+
+  /**
+   * Switches the language of the user interface.
+   *
+   * An effect will persist it in `localStorage` and set the document's `lang`.
+   */
+  set language(newLanguage: Language) {
+    this.#language.set(newLanguage);
+  }
+
+  /** Locale the dates are formatted with in the chosen language (e.g. 'hu-HU'). */
+  get locale(): string {
+    return LANGUAGE_LOCALES[this.#language()];
+  }
+
+  /**
+   * Sets up the effect keeping `localStorage` and the document's `lang`
+   * attribute in sync with the chosen language.
+   */
+  constructor() {
+    effect(() => {
+      const language = this.#language();
+      localStorage.setItem(LANGUAGE_STORAGE_KEY, language);
+      this.#document.documentElement.lang = language;
+    });
+  }
+
+  /**
+   * Returns a text of the user interface in the chosen language.
+   *
+   * @param key - Key of the text in the message catalogs.
+   * @param params - Values of the `{name}` placeholders of the text.
+   * @returns The translated text, placeholders without a value are kept.
+   *
+   * @example
+   * ```ts
+   * translation.translate('snackbar.invalidGameLink', { message: 'Bad board' });
+   * // → 'Invalid game link: Bad board'
+   * ```
+   */
+  translate(
+    key: MessageKey,
+    params: Record<string, string | number> = {}
+  ): string {
+    return fillPlaceholders(TRANSLATIONS[this.#language()][key], params);
+  }
+
+  /**
+   * Returns the explanation of an error in the chosen language.
+   *
+   * @param error - Caught error, explained in the catalogs if created by `messageError`.
+   * @returns The translated explanation, or the message of any other error.
+   *
+   * @example
+   * ```ts
+   * translation.translateError(messageError('record.illegalMove', { value: 'b1' }));
+   * // → 'Illegal move: b1'
+   * ```
+   */
+  translateError(error: unknown): string {
+    if (isMessageError(error)) return this.translate(error.key, error.params);
+    return error instanceof Error ? error.message : String(error);
+  }
+
+  /**
+   * Returns the language saved in `localStorage`,
+   * or `DEFAULT_LANGUAGE` if none (or an unknown one) is saved.
+   */
+  private savedLanguage(): Language {
+    const saved = localStorage.getItem(LANGUAGE_STORAGE_KEY);
+    return LANGUAGES.find((language) => language === saved) ?? DEFAULT_LANGUAGE;
+  }
+}
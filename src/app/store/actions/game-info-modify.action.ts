@@ -8,11 +8,18 @@ import { GameInfo } from "../../utils/interfaces/game-info.interface";
  *
  * Payload properties correspond to the {@link GameInfo} interface:
  * - `results?` ({@link GameInfo['results']}) — Optional cumulative game results.
- * - `actualMarkup?` ('x' | 'o') — Optional current player's markup.
+ * - `actualMarkup?` ('x' | 'o' | 't') — Optional current player's markup.
  * - `actualStep?` ({@link number}) — Optional current step number.
  * - `started?` ({@link boolean}) — Optional flag indicating whether the game has started.
  * - `actualBoard?` ({@link string[][]}) — Optional 2D array representing the game board.
+ * - `ultimateBoard?` ({@link GameInfo['ultimateBoard']}) — Optional nested board of the Ultimate variant.
+ * - `quantumBoard?` ({@link GameInfo['quantumBoard']}) — Optional board of the quantum variant.
+ * - `markOrder?` ({@link GameInfo['markOrder']}) — Optional order of the marks in a vanishing-marks game.
  * - `lastMove?` ({@link GameInfo['lastMove']}) — Optional last move coordinates.
+ * - `moveHistory?` ({@link GameInfo['moveHistory']}) — Optional list of played moves.
+ * - `redoHistory?` ({@link GameInfo['redoHistory']}) — Optional list of undone moves.
+ * - `winningLine?` ({@link GameInfo['winningLine']}) — Optional cells of the winning line.
+ * - `timeout?` ({@link GameInfo['timeout']}) — Optional markup of the player who lost on time.
  *
  * Usage example:
  * ```ts
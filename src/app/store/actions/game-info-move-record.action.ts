@@ -0,0 +1,19 @@
+import { createAction, props } from '@ngrx/store';
+import { MoveRecord } from '../../utils/interfaces/move-record.interface';
+
+/**
+ * @action recordGameMove
+ *
+ * Appends a played move to the `moveHistory` of the gameInfo store slice.
+ * Recording a new move clears the redo history, since the undone moves
+ * no longer follow the current position.
+ *
+ * Usage example:
+ * ```ts
+ * store.dispatch(recordGameMove({ row: 1, column: 2, markup: 'o', timestamp: Date.now() }));
+ * ```
+ */
+export const recordGameMove = createAction(
+  '[gameInfo] move recorder',
+  props<MoveRecord>()
+);
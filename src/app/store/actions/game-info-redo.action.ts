@@ -0,0 +1,34 @@
+import { createAction, props } from '@ngrx/store';
+import { PlayerMarkup } from '../../utils/types/player-markup.type';
+import { PlayerCount } from '../../utils/types/player-count.type';
+import { Variant } from '../../utils/types/variant.type';
+
+/**
+ * @action redoGameMove
+ *
+ * Replays the last `moves` undone moves from the redo history.
+ * The board, step, markup, last move and winner are rebuilt in the reducer,
+ * and the replayed moves are appended to the `moveHistory` again.
+ *
+ * Payload properties:
+ * - `moves` ({@link number}) — Number of moves to replay (e.g. 2 against the computer).
+ * - `winLength` ({@link number}) — Marks in a row needed to win, used to re-evaluate the winner.
+ * - `firstMarkup` ({@link PlayerMarkup}) — Markup of the first move, used to rebuild whose turn it is.
+ * - `players` ({@link PlayerCount}) — Number of players, used to rebuild whose turn it is.
+ * - `variant` ({@link Variant}) — Variant played, used to credit the result of Wild and Order and Chaos games.
+ *
+ * Usage example:
+ * ```ts
+ * store.dispatch(redoGameMove({ moves: 1, winLength: 3, firstMarkup: 'o', players: 2, variant: 'classic' }));
+ * ```
+ */
+export const redoGameMove = createAction(
+  '[gameInfo] redo',
+  props<{
+    moves: number;
+    winLength: number;
+    firstMarkup: PlayerMarkup;
+    players: PlayerCount;
+    variant: Variant;
+  }>()
+);
@@ -0,0 +1,34 @@
+import { createAction, props } from '@ngrx/store';
+import { PlayerMarkup } from '../../utils/types/player-markup.type';
+import { PlayerCount } from '../../utils/types/player-count.type';
+import { Variant } from '../../utils/types/variant.type';
+
+/**
+ * @action undoGameMove
+ *
+ * Takes back the last `moves` moves of the `moveHistory`.
+ * The board, step, markup, last move and winner are rebuilt in the reducer,
+ * and the removed moves are pushed onto the redo history.
+ *
+ * Payload properties:
+ * - `moves` ({@link number}) — Number of moves to take back (e.g. 2 against the computer).
+ * - `winLength` ({@link number}) — Marks in a row needed to win, used to re-evaluate the winner.
+ * - `firstMarkup` ({@link PlayerMarkup}) — Markup of the first move, used to rebuild whose turn it is.
+ * - `players` ({@link PlayerCount}) — Number of players, used to rebuild whose turn it is.
+ * - `variant` ({@link Variant}) — Variant played, used to credit the result of Wild and Order and Chaos games.
+ *
+ * Usage example:
+ * ```ts
+ * store.dispatch(undoGameMove({ moves: 1, winLength: 3, firstMarkup: 'o', players: 2, variant: 'classic' }));
+ * ```
+ */
+export const undoGameMove = createAction(
+  '[gameInfo] undo',
+  props<{
+    moves: number;
+    winLength: number;
+    firstMarkup: PlayerMarkup;
+    players: PlayerCount;
+    variant: Variant;
+  }>()
+);
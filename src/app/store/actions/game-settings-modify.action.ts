@@ -1,4 +1,11 @@
 import { createAction, props } from "@ngrx/store";
+import { AiEngine } from "../../utils/types/ai-engine.type";
+import { FirstMove } from "../../utils/types/first-move.type";
+import { Opponent } from "../../utils/types/opponent.type";
+import { PlayerMarkup } from "../../utils/types/player-markup.type";
+import { PlayerCount } from "../../utils/types/player-count.type";
+import { TimeControl } from "../../utils/types/time-control.type";
+import { Variant } from "../../utils/types/variant.type";
 
 /**
  * @action modifyGameState
@@ -6,16 +13,48 @@ import { createAction, props } from "@ngrx/store";
  * Action used to update the game's settings in the NgRx store.
  *
  * Payload properties:
- * - `size?` ({@link number}) — Optional board size.
+ * - `rows?` ({@link number}) — Optional number of board rows.
+ * - `columns?` ({@link number}) — Optional number of board columns.
  * - `hardness` ({@link number}) — The AI difficulty level.
- * - `opponent` ({@link 'player' | 'computer'}) — Type of opponent.
+ * - `secondHardness` ({@link number}) — Difficulty level of the AI playing 'x' in spectator mode.
+ * - `aiDelay` ({@link number}) — Delay in milliseconds before the computer moves.
+ * - `opponent` ({@link Opponent}) — Type of opponent.
+ * - `winLength` ({@link number}) — Number of marks in a row needed to win.
+ * - `aiEngine` ({@link AiEngine}) — Engine computing the computer's moves.
+ * - `playerMarkup` ({@link PlayerMarkup}) — Markup the human player plays with.
+ * - `firstMove` ({@link FirstMove}) — Side making the first move against the computer.
+ * - `timeControl` ({@link TimeControl}) — Chess-clock time control of the game.
+ * - `variant` ({@link Variant}) — Rule set of the game.
+ * - `gravity` ({@link boolean}) — Whether marks drop to the lowest empty cell of a column.
+ * - `vanishing` ({@link boolean}) — Whether a new mark removes the player's oldest one beyond the limit.
+ * - `misere` ({@link boolean}) — Whether completing a line loses instead of winning.
+ * - `coordinates` ({@link boolean}) — Whether file and rank labels are shown around the board.
+ * - `players` ({@link PlayerCount}) — Number of players.
  *
  * Usage example:
  * ```ts
- * store.dispatch(modifyGameState({ size: 5, hardness: 2, opponent: 'computer' }));
+ * store.dispatch(modifyGameState({ rows: 5, columns: 5, hardness: 2, opponent: 'computer' }));
  * ```
  */
 export const modifyGameSettings = createAction(
     '[gameState] modifier',
-    props<{ size?: number; hardness?: number; opponent?: 'player' | 'computer' }>()
+    props<{
+      rows?: number;
+      columns?: number;
+      hardness?: number;
+      secondHardness?: number;
+      aiDelay?: number;
+      opponent?: Opponent;
+      winLength?: number;
+      aiEngine?: AiEngine;
+      playerMarkup?: PlayerMarkup;
+      firstMove?: FirstMove;
+      timeControl?: TimeControl;
+      variant?: Variant;
+      gravity?: boolean;
+      vanishing?: boolean;
+      misere?: boolean;
+      coordinates?: boolean;
+      players?: PlayerCount;
+    }>()
 );
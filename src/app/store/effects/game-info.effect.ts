@@ -1,13 +1,20 @@
 import { inject } from '@angular/core';
 import { Actions, createEffect, ofType } from '@ngrx/effects';
+import { Store } from '@ngrx/store';
 import { modifyGameInfo } from '../actions/game-info-modify.action';
-import { tap } from 'rxjs';
+import { tap, withLatestFrom } from 'rxjs';
 import { STORAGE_PREFIX } from '../../utils/constants/sessionstorage-prefix.constant';
+import { recordGameMove } from '../actions/game-info-move-record.action';
+import { undoGameMove } from '../actions/game-info-undo.action';
+import { redoGameMove } from '../actions/game-info-redo.action';
+import { selectGameInfo } from '../selectors/game-info.selector';
+import { GameInfo } from '../../utils/interfaces/game-info.interface';
 
 /**
  * @class gameInfoStorageEffect
  * Effect responsible for persisting the GameInfo state to sessionStorage.
- * Listens for `modifyGameInfo` actions and saves the updated properties.
+ * Listens for `modifyGameInfo` actions and saves the updated properties,
+ * and for move history actions, whose results are read back from the store.
  */
 export class gameInfoStorageEffect {
   
@@ -17,6 +24,12 @@ export class gameInfoStorageEffect {
    */
   private actions$: Actions = inject(Actions);
 
+  /**
+   * Injected NgRx store.
+   * Used to read the state rebuilt by the reducer after history actions.
+   */
+  private store: Store = inject(Store);
+
   /**
    * Effect that listens for `modifyGameInfo` actions.
    * For each action, iterates through the updated properties and
@@ -45,4 +58,49 @@ export class gameInfoStorageEffect {
       ),
     { dispatch: false }
   );
+
+  /**
+   * Effect that listens for `recordGameMove`, `undoGameMove` and `redoGameMove` actions.
+   * These actions only carry the move (or the number of moves), so the fields
+   * rebuilt by the reducer are read from the store and saved to sessionStorage.
+   * Fields that became empty (e.g. no last move after undoing every move) are removed.
+   *
+   * @note {dispatch: false} because this effect does not dispatch any new action.
+   */
+  saveHistory = createEffect(
+    () =>
+      this.actions$.pipe(
+        ofType(recordGameMove, undoGameMove, redoGameMove),
+        withLatestFrom(this.store.select(selectGameInfo)),
+        tap(([, gameInfo]) => {
+          const keys: (keyof GameInfo)[] = [
+            'moveHistory',
+            'redoHistory',
+            'actualBoard',
+            'ultimateBoard',
+            'quantumBoard',
+            'markOrder',
+            'actualStep',
+            'actualMarkup',
+            'lastMove',
+            'winner',
+            'winningLine',
+            'timeout',
+          ];
+
+          for (const key of keys) {
+            const value = gameInfo[key];
+            if (value !== undefined && value !== null) {
+              sessionStorage.setItem(
+                `${STORAGE_PREFIX}${key}`,
+                JSON.stringify(value)
+              );
+            } else {
+              sessionStorage.removeItem(`${STORAGE_PREFIX}${key}`);
+            }
+          }
+        })
+      ),
+    { dispatch: false }
+  );
 }
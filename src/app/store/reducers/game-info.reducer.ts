@@ -6,6 +6,10 @@ import { modifyGameInfo } from '../actions/game-info-modify.action';
 import { reserGameInfo } from '../actions/game-info-reset.action';
 import { storageCleaner } from '../../utils/functions/storage-cleaner.function';
 import { resetGameInfoResults } from '../actions/game-info-results-reset.action';
+import { recordGameMove } from '../actions/game-info-move-record.action';
+import { undoGameMove } from '../actions/game-info-undo.action';
+import { redoGameMove } from '../actions/game-info-redo.action';
+import { redoMoves, undoMoves } from '../../utils/functions/move-history.function';
 
 /**
  * Initial state for the GameInfo feature.
@@ -72,6 +76,36 @@ const INITIAL_STATE: GameInfo = {
     'sessionStorage'
   ),
 
+  /**
+   * Nested board of the Ultimate variant (null in every other variant).
+   * Restored from sessionStorage if available.
+   */
+  ultimateBoard:
+    parseFromStorage<GameInfo['ultimateBoard']>(
+      `${STORAGE_PREFIX}ultimateBoard`,
+      'sessionStorage'
+    ) ?? null,
+
+  /**
+   * Board of the quantum variant (null in every other variant).
+   * Restored from sessionStorage if available.
+   */
+  quantumBoard:
+    parseFromStorage<GameInfo['quantumBoard']>(
+      `${STORAGE_PREFIX}quantumBoard`,
+      'sessionStorage'
+    ) ?? null,
+
+  /**
+   * Order of the marks in a vanishing-marks game (null when the rule is off).
+   * Restored from sessionStorage if available.
+   */
+  markOrder:
+    parseFromStorage<GameInfo['markOrder']>(
+      `${STORAGE_PREFIX}markOrder`,
+      'sessionStorage'
+    ) ?? null,
+
   /**
    * Stores the total time spent by each player.
    * Restored from sessionStorage if available, otherwise defaults to 0.
@@ -91,6 +125,46 @@ const INITIAL_STATE: GameInfo = {
       'sessionStorage'
     ) ?? null,
 
+  /**
+   * Cells of the winning line (null while there is no winner).
+   * Restored from sessionStorage if available.
+   */
+  winningLine:
+    parseFromStorage<GameInfo['winningLine']>(
+      `${STORAGE_PREFIX}winningLine`,
+      'sessionStorage'
+    ) ?? null,
+
+  /**
+   * Markup of the player who lost on time (null while nobody has).
+   * Restored from sessionStorage if available.
+   */
+  timeout:
+    parseFromStorage<GameInfo['timeout']>(
+      `${STORAGE_PREFIX}timeout`,
+      'sessionStorage'
+    ) ?? null,
+
+  /**
+   * Every move of the current game, in playing order.
+   * Restored from sessionStorage if available.
+   */
+  moveHistory:
+    parseFromStorage<GameInfo['moveHistory']>(
+      `${STORAGE_PREFIX}moveHistory`,
+      'sessionStorage'
+    ) ?? [],
+
+  /**
+   * Moves taken back by undo, available for redo.
+   * Restored from sessionStorage if available.
+   */
+  redoHistory:
+    parseFromStorage<GameInfo['redoHistory']>(
+      `${STORAGE_PREFIX}redoHistory`,
+      'sessionStorage'
+    ) ?? [],
+
   /**
    * Name of the loaded/saved game.
    * Used when restoring a previously saved game from storage.
@@ -136,6 +210,9 @@ export const gameInfoReducer = createReducer(
       'sessionStorage',
       true,
       'actualBoard',
+      'ultimateBoard',
+      'quantumBoard',
+      'markOrder',
       'actualStep',
       'actualMarkup',
       'lastMove',
@@ -143,22 +220,81 @@ export const gameInfoReducer = createReducer(
       'results',
       'started',
       'winner',
-      'loadedGameName'
+      'winningLine',
+      'timeout',
+      'loadedGameName',
+      'moveHistory',
+      'redoHistory'
     );
 
     // Return the cleared game state (fresh, pre-game state)
     return {
       ...state,
       actualBoard: undefined,
+      ultimateBoard: null,
+      quantumBoard: null,
+      markOrder: null,
       actualMarkup: 'o' as const,
       actualStep: 0,
       started: false,
       winner: undefined,
+      winningLine: null,
+      timeout: null,
       playerSpentTime: { player_X: 0, player_O: 0 },
       lastMove: undefined,
+      moveHistory: [],
+      redoHistory: [],
     };
   }),
 
+  /**
+   * Appends a played move to the move history.
+   * A new move invalidates every previously undone move.
+   * The entangled and collapse cells are only kept for quantum turns.
+   */
+  on(
+    recordGameMove,
+    (state, { row, column, markup, timestamp, entangled, collapse }) => ({
+      ...state,
+      moveHistory: [
+        ...(state.moveHistory ?? []),
+        {
+          row,
+          column,
+          markup,
+          timestamp,
+          ...(entangled ? { entangled } : {}),
+          ...(collapse ? { collapse } : {}),
+        },
+      ],
+      redoHistory: [],
+    })
+  ),
+
+  /**
+   * Takes back the requested number of moves and rebuilds
+   * the board (and the nested Ultimate board, the quantum board or the mark order), step, markup, last move, winner and winning line.
+   * Decided games (including a loss on time) are kept, as their result is already counted.
+   */
+  on(
+    undoGameMove,
+    (state, { moves, winLength, firstMarkup, players, variant }) =>
+      state.winner
+        ? state
+        : undoMoves(state, moves, winLength, firstMarkup, players, variant)
+  ),
+
+  /**
+   * Replays the requested number of undone moves and rebuilds
+   * the board (and the nested Ultimate board, the quantum board or the mark order), step, markup, last move, winner and winning line
+   * (a loss on time is taken back as well).
+   */
+  on(
+    redoGameMove,
+    (state, { moves, winLength, firstMarkup, players, variant }) =>
+      redoMoves(state, moves, winLength, firstMarkup, players, variant)
+  ),
+
   /**
    * Resets only the game result statistics.
    * Clears stored win/lose/draw counters both from the state and from sessionStorage.
@@ -3,21 +3,55 @@ import { modifyGameSettings } from '../actions/game-settings-modify.action';
 import { GameSettings } from '../../utils/interfaces/game-settings.interface';
 import { STORAGE_PREFIX } from '../../utils/constants/sessionstorage-prefix.constant';
 import { parseFromStorage } from '../../utils/functions/parser.function';
+import { defaultWinLength } from '../../utils/functions/game-rules.function';
+import { AI_MOVE_DELAY } from '../../utils/constants/ai-move-delay.constant';
+import { DEFAULT_VARIANT } from '../../utils/constants/variant.constant';
+
+/**
+ * Square board size stored before rows and columns were separated.
+ * Used as the fallback of both dimensions.
+ */
+const LEGACY_SIZE =
+  parseFromStorage<number>(`${STORAGE_PREFIX}size`, 'sessionStorage') ?? 3;
+
+/** Board rows restored from storage; the default win length is derived from the dimensions. */
+const INITIAL_ROWS =
+  parseFromStorage<number>(`${STORAGE_PREFIX}rows`, 'sessionStorage') ??
+  LEGACY_SIZE;
+
+/** Board columns restored from storage. */
+const INITIAL_COLUMNS =
+  parseFromStorage<number>(`${STORAGE_PREFIX}columns`, 'sessionStorage') ??
+  LEGACY_SIZE;
 
 /**
  * Initial state for the game's settings.
  *
  * Values are loaded from `localStorage` if present, otherwise defaults are used:
- * - `size`: number (default 3)
- * - `opponent`: 'player' | 'computer' (default 'player')
+ * - `rows`: number (default 3)
+ * - `columns`: number (default 3)
+ * - `opponent`: 'player' | 'computer' | 'spectator' (default 'player')
  * - `hardness`: number (default 1)
+ * - `secondHardness`: number (default 1)
+ * - `aiDelay`: number (default {@link AI_MOVE_DELAY})
+ * - `winLength`: number (default derived from the dimensions, see {@link defaultWinLength})
+ * - `aiEngine`: 'server' | 'local' (default 'server')
+ * - `playerMarkup`: 'o' | 'x' (default 'o')
+ * - `firstMove`: 'human' | 'computer' (default 'human')
+ * - `timeControl`: 'none' | 'sudden_death' | 'per_move' | 'fischer' (default 'none')
+ * - `variant`: id of a registered variant (default {@link DEFAULT_VARIANT})
+ * - `gravity`: boolean (default false)
+ * - `vanishing`: boolean (default false)
+ * - `misere`: boolean (default false)
+ * - `coordinates`: boolean (default false)
+ * - `players`: 2 | 3 (default 2)
  *
  * @see {@link GameState}
  */
 
 const INITIAL_STATE: GameSettings = {
-  size:
-    parseFromStorage<number>(`${STORAGE_PREFIX}size`, 'sessionStorage') ?? 3,
+  rows: INITIAL_ROWS,
+  columns: INITIAL_COLUMNS,
   opponent:
     parseFromStorage<GameSettings['opponent']>(
       `${STORAGE_PREFIX}opponent`,
@@ -26,6 +60,67 @@ const INITIAL_STATE: GameSettings = {
   hardness:
     parseFromStorage<number>(`${STORAGE_PREFIX}hardness`, 'sessionStorage') ??
     1,
+  secondHardness:
+    parseFromStorage<number>(
+      `${STORAGE_PREFIX}secondHardness`,
+      'sessionStorage'
+    ) ?? 1,
+  aiDelay:
+    parseFromStorage<number>(`${STORAGE_PREFIX}aiDelay`, 'sessionStorage') ??
+    AI_MOVE_DELAY,
+  winLength:
+    parseFromStorage<number>(`${STORAGE_PREFIX}winLength`, 'sessionStorage') ??
+    defaultWinLength(INITIAL_ROWS, INITIAL_COLUMNS),
+  aiEngine:
+    parseFromStorage<GameSettings['aiEngine']>(
+      `${STORAGE_PREFIX}aiEngine`,
+      'sessionStorage'
+    ) ?? 'server',
+  playerMarkup:
+    parseFromStorage<GameSettings['playerMarkup']>(
+      `${STORAGE_PREFIX}playerMarkup`,
+      'sessionStorage'
+    ) ?? 'o',
+  firstMove:
+    parseFromStorage<GameSettings['firstMove']>(
+      `${STORAGE_PREFIX}firstMove`,
+      'sessionStorage'
+    ) ?? 'human',
+  timeControl:
+    parseFromStorage<GameSettings['timeControl']>(
+      `${STORAGE_PREFIX}timeControl`,
+      'sessionStorage'
+    ) ?? 'none',
+  variant:
+    parseFromStorage<GameSettings['variant']>(
+      `${STORAGE_PREFIX}variant`,
+      'sessionStorage'
+    ) ?? DEFAULT_VARIANT,
+  gravity:
+    parseFromStorage<GameSettings['gravity']>(
+      `${STORAGE_PREFIX}gravity`,
+      'sessionStorage'
+    ) ?? false,
+  vanishing:
+    parseFromStorage<GameSettings['vanishing']>(
+      `${STORAGE_PREFIX}vanishing`,
+      'sessionStorage'
+    ) ?? false,
+  misere:
+    parseFromStorage<GameSettings['misere']>(
+      `${STORAGE_PREFIX}misere`,
+      'sessionStorage'
+    ) ?? false,
+  coordinates:
+    parseFromStorage<GameSettings['coordinates']>(
+      `${STORAGE_PREFIX}coordinates`,
+      'sessionStorage'
+    ) ?? false,
+  players:
+    parseFromStorage<GameSettings['players']>(
+      `${STORAGE_PREFIX}players`,
+      'sessionStorage'
+    ) ?? 2,
 };
 
 /**
@@ -40,7 +135,7 @@ const INITIAL_STATE: GameSettings = {
  *
  * Usage example:
  * ```ts
- * store.dispatch(modifyGameState({ size: 5, hardness: 2, opponent: 'computer' }));
+ * store.dispatch(modifyGameState({ rows: 5, columns: 5, hardness: 2, opponent: 'computer' }));
  * ```
  */
 export const gameSettingsReducer = createReducer(
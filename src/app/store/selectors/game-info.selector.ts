@@ -1,5 +1,12 @@
 import { createFeatureSelector, createSelector } from '@ngrx/store';
 import { GameInfo } from '../../utils/interfaces/game-info.interface';
+import { resultWinner } from '../../utils/functions/misere.function';
+import { selectGameSettings } from './game-settings.selector';
+import { playerCountOf } from '../../utils/functions/turn-order.function';
+import {
+  gameVariant,
+  playedVariant,
+} from '../../utils/functions/variant.function';
 
 /**
  * @selector selectGameInfo
@@ -26,7 +33,7 @@ export const selectGameResults = createSelector(
 
 /**
  * @selector selectActualMarkup
- * Returns the player markup ('x' or 'o') that is currently active.
+ * Returns the player markup ('x', 'o' or 't') that is currently active.
  * Effectively determines whose turn it is.
  *
  * This selector is frequently used by game logic,
@@ -64,6 +71,7 @@ export const selectStarted = createSelector(
  * Each cell contains:
  * - 'x' for Player X
  * - 'o' for Player O
+ * - 't' for Player T (three-player games)
  * - '' for an empty position
  *
  * Used by render components, AI helpers, and validation tools.
@@ -73,6 +81,42 @@ export const selectActualBoard = createSelector(
   (state) => state.actualBoard
 );
 
+/**
+ * @selector selectUltimateBoard
+ * Returns the nested board of the Ultimate variant:
+ * the sub-boards, their owners and the sub-board the next move is sent to.
+ *
+ * `null` (or `undefined` before the first move) in every other variant.
+ */
+export const selectUltimateBoard = createSelector(
+  selectGameInfo,
+  (state) => state.ultimateBoard
+);
+
+/**
+ * @selector selectQuantumBoard
+ * Returns the board of the quantum variant:
+ * the collapsed marks, the spooky marks and the cycle waiting to be collapsed.
+ *
+ * `null` (or `undefined` before the first move) in every other variant.
+ */
+export const selectQuantumBoard = createSelector(
+  selectGameInfo,
+  (state) => state.quantumBoard
+);
+
+/**
+ * @selector selectMarkOrder
+ * Returns the order of the marks of both players on the board
+ * in a vanishing-marks game, oldest first.
+ *
+ * `null` (or `undefined` before the first move) when the vanishing rule is off.
+ */
+export const selectMarkOrder = createSelector(
+  selectGameInfo,
+  (state) => state.markOrder
+);
+
 /**
  * @selector selectLastMove
  * Returns metadata describing the most recent move performed.
@@ -114,6 +158,38 @@ export const selectGameWinner = createSelector(
   (state) => state.winner
 );
 
+/**
+ * @selector selectResultWinner
+ * Returns the side that won the current game: 'x', 'o', 't', 'draw', or null if undecided.
+ * Differs from {@link selectGameWinner} under the misère rule (two-player games
+ * of variants allowing the optional rules only), where the side completing
+ * a line loses.
+ *
+ * Used for result counters, user statistics and the winner announcement.
+ */
+export const selectResultWinner = createSelector(
+  selectGameInfo,
+  selectGameSettings,
+  (info, settings) =>
+    resultWinner(
+      info.winner,
+      gameVariant(playedVariant(settings)).optionalRules &&
+        settings.misere &&
+        playerCountOf(settings) === 2,
+      info.timeout
+    )
+);
+
+/**
+ * @selector selectWinningLine
+ * Returns the cells of the winning line, or null if nobody has won yet.
+ * Used to highlight the winning cells on the board.
+ */
+export const selectWinningLine = createSelector(
+  selectGameInfo,
+  (state) => state.winningLine
+);
+
 /**
  * @selector selectLoadedGameName
  * Returns the name of a loaded/saved game session, if any.
@@ -126,4 +202,24 @@ export const selectLoadedGameName = createSelector(
   (state) => state.loadedGameName
 );
 
+/**
+ * @selector selectMoveHistory
+ * Returns every move of the current game in playing order,
+ * including the placed markup and a timestamp.
+ *
+ * Used to decide whether a move can be taken back (undo).
+ */
+export const selectMoveHistory = createSelector(
+  selectGameInfo,
+  (state) => state.moveHistory
+);
 
+/**
+ * @selector selectRedoHistory
+ * Returns the moves taken back by undo that can still be replayed.
+ * The next move to replay is the last element.
+ */
+export const selectRedoHistory = createSelector(
+  selectGameInfo,
+  (state) => state.redoHistory
+);
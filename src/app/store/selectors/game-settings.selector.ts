@@ -1,5 +1,10 @@
 import { createFeatureSelector, createSelector } from '@ngrx/store';
 import { GameSettings } from '../../utils/interfaces/game-settings.interface';
+import {
+  firstMarkupOf,
+  playerCountOf,
+} from '../../utils/functions/turn-order.function';
+import { playedVariant } from '../../utils/functions/variant.function';
 
 /**
  * Feature selector for the 'gameSettings' slice of the store.
@@ -9,17 +14,27 @@ export const selectGameSettings =
   createFeatureSelector<GameSettings>('gameSettings');
 
 /**
- * Selector for the size of the game board.
- * Returns a number indicating the board dimension (e.g., 3 for 3x3 board).
+ * Selector for the number of board rows.
+ * Returns a number (e.g., 6 for a 6x7 board).
  */
-export const selectGameSize = createSelector(
+export const selectGameRows = createSelector(
   selectGameSettings,
-  (state) => state.size
+  (state) => state.rows
+);
+
+/**
+ * Selector for the number of board columns.
+ * Returns a number (e.g., 7 for a 6x7 board).
+ */
+export const selectGameColumns = createSelector(
+  selectGameSettings,
+  (state) => state.columns
 );
 
 /**
  * Selector for the opponent type.
- * Returns either 'player' for human opponent or 'computer' for AI.
+ * Returns 'player' for human opponent, 'computer' for AI,
+ * or 'spectator' when two AIs play each other.
  */
 export const selectGameOpponent = createSelector(
   selectGameSettings,
@@ -34,3 +49,147 @@ export const selectGameHardness = createSelector(
   selectGameSettings,
   (state) => state.hardness
 );
+
+/**
+ * Selector for the difficulty level of the AI playing 'x' in spectator mode.
+ */
+export const selectGameSecondHardness = createSelector(
+  selectGameSettings,
+  (state) => state.secondHardness
+);
+
+/**
+ * Selector for the delay before the computer moves.
+ * Returns the delay in milliseconds.
+ */
+export const selectGameAiDelay = createSelector(
+  selectGameSettings,
+  (state) => state.aiDelay
+);
+
+/**
+ * Selector for the win length.
+ * Returns the number of marks in a row needed to win, capped at the longer board side.
+ */
+export const selectGameWinLength = createSelector(
+  selectGameSettings,
+  (state) => Math.min(state.winLength, Math.max(state.rows, state.columns))
+);
+
+/**
+ * Selector for the AI engine.
+ * Returns either 'server' for the backend AI or 'local' for the offline AI.
+ */
+export const selectGameAiEngine = createSelector(
+  selectGameSettings,
+  (state) => state.aiEngine
+);
+
+/**
+ * Selector for the markup of the human player.
+ * Returns either 'o' or 'x'.
+ */
+export const selectPlayerMarkup = createSelector(
+  selectGameSettings,
+  (state) => state.playerMarkup
+);
+
+/**
+ * Selector for the side making the first move against the computer.
+ * Returns either 'human' or 'computer'.
+ */
+export const selectFirstMove = createSelector(
+  selectGameSettings,
+  (state) => state.firstMove
+);
+
+/**
+ * Selector for the markup placed on the first step of the game.
+ * Derived from the player's markup, the first move and the opponent type.
+ */
+export const selectFirstMarkup = createSelector(
+  selectGameSettings,
+  (state) => firstMarkupOf(state.playerMarkup, state.firstMove, state.opponent)
+);
+
+/**
+ * Selector for the chess-clock time control.
+ * Returns one of the `TIME_CONTROLS` values.
+ */
+export const selectGameTimeControl = createSelector(
+  selectGameSettings,
+  (state) => state.timeControl
+);
+
+/**
+ * Selector for the game variant.
+ * Returns the id of a registered variant (see `registerVariant`).
+ */
+export const selectGameVariant = createSelector(
+  selectGameSettings,
+  (state) => state.variant
+);
+
+/**
+ * Selector for the variant the game is actually played with.
+ * Variants without an AI hook (Quantum, Wild, Order and Chaos) fall back
+ * to the classic rules unless two local players play them.
+ */
+export const selectPlayedVariant = createSelector(
+  selectGameSettings,
+  (state) => playedVariant(state)
+);
+
+/**
+ * Selector for the gravity rule.
+ * Returns `true` when marks drop to the lowest empty cell of a column.
+ */
+export const selectGameGravity = createSelector(
+  selectGameSettings,
+  (state) => state.gravity
+);
+
+/**
+ * Selector for the vanishing-marks rule.
+ * Returns `true` when a new mark removes the player's oldest one beyond the limit.
+ */
+export const selectGameVanishing = createSelector(
+  selectGameSettings,
+  (state) => state.vanishing
+);
+
+/**
+ * Selector for the misère rule.
+ * Returns `true` when completing a line loses instead of winning.
+ */
+export const selectGameMisere = createSelector(
+  selectGameSettings,
+  (state) => state.misere
+);
+
+/**
+ * Selector for the coordinate labels.
+ * Returns `true` when file and rank labels are shown around the board.
+ */
+export const selectGameCoordinates = createSelector(
+  selectGameSettings,
+  (state) => state.coordinates
+);
+
+/**
+ * Selector for the chosen number of players.
+ * Returns 2 or 3, as set in the settings form.
+ */
+export const selectGamePlayers = createSelector(
+  selectGameSettings,
+  (state) => state.players
+);
+
+/**
+ * Selector for the number of players actually seated in the game.
+ * Returns 3 only when the three-player setting applies to the current
+ * opponent, variant and board size (see `playerCountOf`), otherwise 2.
+ */
+export const selectPlayerCount = createSelector(selectGameSettings, (state) =>
+  playerCountOf(state)
+);
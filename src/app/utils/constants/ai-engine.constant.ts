@@ -0,0 +1,19 @@
+import { AiEngine } from '../types/ai-engine.type';
+import { MessageKey } from '../types/message-key.type';
+
+/**
+ * List of the available AI engines.
+ *
+ * - 'server' → moves are computed by the backend (`game/ai-move`),
+ *              with an automatic fallback to the local engine on failure
+ * - 'local'  → moves are always computed offline by the `LocalAi` service
+ *
+ * Declared as `const` so TypeScript infers a readonly tuple.
+ */
+export const AI_ENGINES = ['server', 'local'] as const;
+
+/** Catalog keys of the names of the AI engines in the settings. */
+export const AI_ENGINE_LABELS: Record<AiEngine, MessageKey> = {
+  server: 'option.server',
+  local: 'option.local',
+};
@@ -0,0 +1,14 @@
+/**
+ * Default delay (in milliseconds) before the computer makes its move.
+ * Also the starting speed of the spectator mode.
+ */
+export const AI_MOVE_DELAY = 1000;
+
+/**
+ * Limits of the move delay slider (in milliseconds).
+ *
+ * - `min`  → fastest selectable delay
+ * - `max`  → slowest selectable delay
+ * - `step` → granularity of the slider
+ */
+export const AI_MOVE_DELAY_RANGE = { min: 100, max: 3000, step: 100 } as const;
@@ -0,0 +1,16 @@
+/**
+ * List of the aria-live regions screen-reader announcements are made in.
+ *
+ * - 'polite' → read when the screen reader is idle (moves, turns, notices)
+ * - 'assertive' → interrupts the current speech (results, low time, errors)
+ *
+ * Declared as `const` so TypeScript infers a readonly tuple.
+ */
+export const ANNOUNCER_POLITENESS = ['polite', 'assertive'] as const;
+
+/**
+ * Delay (in milliseconds) before a message is written into its live region.
+ * The region is cleared first, so a repeated message is read again,
+ * and messages announced within the delay are read together.
+ */
+export const ANNOUNCER_DELAY = 100;
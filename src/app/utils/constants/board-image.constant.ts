@@ -0,0 +1,55 @@
+import { Markup } from '../types/markup.type';
+import { BoardImageFormat } from '../types/board-image-format.type';
+import { MessageKey } from '../types/message-key.type';
+
+/**
+ * List of the file formats a board image can be downloaded in.
+ *
+ * - 'svg' → vector image, the markup written by `boardImageSvg`
+ * - 'png' → raster image, the SVG drawn onto a canvas
+ *
+ * Declared as `const` so TypeScript infers a readonly tuple.
+ */
+export const BOARD_IMAGE_FORMATS = ['svg', 'png'] as const;
+
+/** Catalog keys of the names of the image formats in the export dialog. */
+export const BOARD_IMAGE_FORMAT_LABELS: Record<BoardImageFormat, MessageKey> = {
+  svg: 'option.svg',
+  png: 'option.png',
+};
+
+/** Side of a single board cell in a board image (px). */
+export const BOARD_IMAGE_CELL = 100;
+
+/** Empty margin around the board of a board image (px). */
+export const BOARD_IMAGE_PADDING = 10;
+
+/** Width of the file and rank label strips of a board image (px). */
+export const BOARD_IMAGE_LABEL = 40;
+
+/**
+ * Background of board images.
+ * Fixed instead of following the color scheme, so the same position
+ * always gives the same image.
+ */
+export const BOARD_IMAGE_BACKGROUND = '#ffffff';
+
+/**
+ * Icon paths of the marks drawn in board images (viewBox `0 -960 960 960`),
+ * the same icons the board cells show.
+ */
+export const BOARD_IMAGE_MARKS: Record<Markup, string> = {
+  o: 'M480-80q-83 0-156-31.5T197-197q-54-54-85.5-127T80-480q0-83 31.5-156T197-763q54-54 127-85.5T480-880q83 0 156 31.5T763-763q54 54 85.5 127T880-480q0 83-31.5 156T763-197q-54 54-127 85.5T480-80Zm0-80q134 0 227-93t93-227q0-134-93-227t-227-93q-134 0-227 93t-93 227q0 134 93 227t227 93Zm0-320Z',
+  x: 'm256-200-56-56 224-224-224-224 56-56 224 224 224-224 56 56-224 224 224 224-56 56-224-224-224 224Z',
+  t: 'm80-160 400-640 400 640H80Zm144-80h512L480-650 224-240Zm256-205Z',
+};
+
+/** Name of the downloaded image of the current board, without its extension. */
+export const BOARD_IMAGE_FILE_NAME = 'tic-tac-toe';
+
+/**
+ * Delay before the object URL of a downloaded board image is revoked,
+ * in milliseconds. The browser reads the file after the click returns,
+ * so revoking it right away can cancel the download.
+ */
+export const BOARD_IMAGE_REVOKE_DELAY = 1000;
@@ -0,0 +1,26 @@
+import { GameVariant } from '../interfaces/game-variant.interface';
+import { CLASSIC_VARIANT } from './classic-variant.constant';
+import { ORDER_CHAOS_VARIANT } from './order-chaos-variant.constant';
+import { QUANTUM_VARIANT } from './quantum-variant.constant';
+import { ULTIMATE_VARIANT } from './ultimate-variant.constant';
+import { WILD_VARIANT } from './wild-variant.constant';
+
+/**
+ * Rule sets shipped with the game, in the order the settings dialog
+ * lists them. They are registered at startup by `app.variants.ts`;
+ * further rule sets register themselves with `registerVariant`.
+ *
+ * - `CLASSIC_VARIANT`     → a single rows × columns board, lines of `winLength` marks win
+ * - `ULTIMATE_VARIANT`    → a 3x3 meta-board of 3x3 boards
+ * - `QUANTUM_VARIANT`     → a 3x3 board of entangled spooky marks
+ * - `WILD_VARIANT`        → the mover places either mark, whoever completes a line wins
+ * - `ORDER_CHAOS_VARIANT` → a 6x6 board where Order wins with a line,
+ *                           Chaos by filling the board
+ */
+export const BUILT_IN_VARIANTS: readonly GameVariant[] = [
+  CLASSIC_VARIANT,
+  ULTIMATE_VARIANT,
+  QUANTUM_VARIANT,
+  WILD_VARIANT,
+  ORDER_CHAOS_VARIANT,
+];
@@ -0,0 +1,48 @@
+import { GameVariant } from '../interfaces/game-variant.interface';
+import {
+  emptyCells,
+  evaluateBoard,
+  placeMark,
+} from '../functions/game-rules.function';
+import { gravityMoves } from '../functions/gravity.function';
+import { markupByTurn } from '../functions/turn-order.function';
+
+/**
+ * Classic N×N rules: a single rows × columns board,
+ * lines of `winLength` marks win.
+ * Also carries the optional rules of the settings (gravity, vanishing marks,
+ * misère), which are only played with this variant.
+ */
+export const CLASSIC_VARIANT: GameVariant = {
+  id: 'classic',
+  name: 'variant.classic',
+  layout: 'grid',
+  choosesMarkup: false,
+  fixedBoard: false,
+  optionalRules: true,
+  spookyMarks: false,
+  // The win length is capped at the longer side of the board
+  dimensions: ({ rows, columns, winLength }) => ({
+    rows,
+    columns,
+    winLength: Math.min(winLength, Math.max(rows, columns)),
+  }),
+  legalMoves: (board, { gravity }) =>
+    gravity ? gravityMoves(board) : emptyCells(board),
+  applyMove: placeMark,
+  evaluate: (board, { winLength }) => evaluateBoard(board, winLength),
+  markupByTurn,
+  restore: () => ({ ultimateBoard: null, quantumBoard: null }),
+  aiMove: (logic, board, markup, hardness, engine, context) =>
+    logic.aiMove(
+      board,
+      markup,
+      hardness,
+      context.lastMove!,
+      context.winLength,
+      engine,
+      !!context.gravity,
+      context.markOrder ?? null,
+      !!context.misere
+    ),
+};
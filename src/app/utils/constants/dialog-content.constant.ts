@@ -10,6 +10,7 @@ export const DIALOG_CONTENT = [
   'registration',
   'email_change',
   'password_change',
+  'export',
   'message',
   'error',
   undefined,
@@ -8,8 +8,10 @@
  *
  * Included fields:
  * - `hardness`: Game difficulty level
+ * - `secondHardness`: Difficulty level of the second AI in spectator mode
  * - `primaryColor`: Primary theme color
  * - `accentColor`: Accent theme color
+ * - `language`: Language of the user interface
  * - `gameName`: Name of the current game
  * - `email`: User email for login/registration
  * - `password`: User password
@@ -17,18 +19,50 @@
  * - `newEmail`: New email for email update forms
  * - `newPassword`: New password for password update forms
  * - `opponent`: Selected opponent type
- * - `size`: Board or game size
+ * - `rows`: Number of board rows
+ * - `columns`: Number of board columns
+ * - `aiEngine`: Engine computing the computer's moves
+ * - `winLength`: Number of marks in a row needed to win
+ * - `playerMarkup`: Markup the human player plays with
+ * - `firstMove`: Side making the first move against the computer
+ * - `timeControl`: Chess-clock time control of the game
+ * - `variant`: Rule set of the game
+ * - `gravity`: Whether marks drop to the lowest empty cell of a column
+ * - `vanishing`: Whether a new mark removes the player's oldest one beyond the limit
+ * - `misere`: Whether completing a line loses instead of winning
+ * - `players`: Number of players
+ * - `imageFormat`: File format of an exported board image
+ * - `coordinates`: Whether file and rank labels are drawn around an exported board
+ * - `markLastMove`: Whether the last move is outlined on an exported board
+ * - `markWinningLine`: Whether the winning line is highlighted on an exported board
  */
 export const FORM_FIELD_MODELS = [
   'hardness',
+  'secondHardness',
   'primaryColor',
   'accentColor',
+  'language',
   'gameName',
   'email',
   'password',
   'rePassword',
   'opponent',
-  'size',
+  'rows',
+  'columns',
   'newEmail',
-  'newPassword'
+  'newPassword',
+  'aiEngine',
+  'winLength',
+  'playerMarkup',
+  'firstMove',
+  'timeControl',
+  'variant',
+  'gravity',
+  'vanishing',
+  'misere',
+  'players',
+  'imageFormat',
+  'coordinates',
+  'markLastMove',
+  'markWinningLine',
 ] as const;
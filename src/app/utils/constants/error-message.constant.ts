@@ -1,6 +1,11 @@
+import { MessageKey } from '../types/message-key.type';
+
 /**
  * Defines all form validation error messages used throughout the application.
  *
+ * Each error is mapped to the message key of its text, which is translated
+ * into the chosen language when shown (see `Translation`).
+ *
  * Each key represents a specific validation error type and must follow
  * a strict naming convention:
  *
@@ -32,9 +37,12 @@
  * // Adding a new validation error type:
  * export const ERROR_MESSAGES = new Map([
  *   ...,
- *   ['usernameTaken', 'This username is already taken.'],
+ *   ['usernameTaken', 'error.usernameTaken'],
  * ] as const);
  *
+ * // Its text goes into every message catalog, e.g. in `EN_MESSAGES`:
+ * 'error.usernameTaken': 'This username is already taken.',
+ *
  * // The corresponding validator method must be named:
  * markAsUsernameTaken(control: AbstractControl): void {
  *   this.addErrorToControl(control, 'usernameTaken');
@@ -46,19 +54,13 @@
  * ```
  */
 export const ERROR_MESSAGES = new Map([
-  ['required', 'This field is required.'],
-  ['invalidEmail', 'The provided email address is invalid.'],
-  ['emailInUse', 'This email address is already in use.'],
-  ['emailDoesNotExist', 'This email is not exist'],
-  ['passwordMismatch', 'The passwords do not match.'],
-  ['shortPassword', 'The password must be at least 6 characters long.'],
-  ['longPassword', 'The password cannot exceed 20 characters.'],
-  [
-    'notCurrentUserEmail',
-    'The provided email does not match the currently logged in user’s email.',
-  ],
-  [
-    'notCurrentUserPassword',
-    "The provided password does not match the current user's password.",
-  ],
-] as const);
+  ['required', 'error.required'],
+  ['invalidEmail', 'error.invalidEmail'],
+  ['emailInUse', 'error.emailInUse'],
+  ['emailDoesNotExist', 'error.emailDoesNotExist'],
+  ['passwordMismatch', 'error.passwordMismatch'],
+  ['shortPassword', 'error.shortPassword'],
+  ['longPassword', 'error.longPassword'],
+  ['notCurrentUserEmail', 'error.notCurrentUserEmail'],
+  ['notCurrentUserPassword', 'error.notCurrentUserPassword'],
+] as const satisfies readonly (readonly [string, MessageKey])[]);
@@ -0,0 +1,20 @@
+import { FirstMove } from '../types/first-move.type';
+import { MessageKey } from '../types/message-key.type';
+
+/**
+ * List of the sides that can make the first move against the computer.
+ *
+ * - 'human'    → the player moves first (default)
+ * - 'computer' → the AI opens the game
+ *
+ * In two-player mode the side playing with the chosen markup always starts.
+ *
+ * Declared as `const` so TypeScript infers a readonly tuple.
+ */
+export const FIRST_MOVES = ['human', 'computer'] as const;
+
+/** Catalog keys of the names of the first movers in the settings. */
+export const FIRST_MOVE_LABELS: Record<FirstMove, MessageKey> = {
+  human: 'option.human',
+  computer: 'option.computer',
+};
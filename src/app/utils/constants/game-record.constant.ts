@@ -0,0 +1,32 @@
+/**
+ * Header names of a game record, in the order they are written.
+ * Every header is required except `Rules`, which is left out
+ * when a classic game is played without optional rules.
+ *
+ * - `Variant`: id of the variant, e.g. "classic"
+ * - `Size`: rows × columns of the board, e.g. "6x7"
+ * - `WinLength`: number of marks in a row needed to win
+ * - `Rules`: optional rules of a classic game, e.g. "gravity misere"
+ * - `Players`: number of players, "2" or "3"
+ * - `FirstMarkup`: markup making the first move, "X" or "O"
+ * - `Difficulty`: difficulty level of the computer, e.g. "medium"
+ * - `Result`: side credited with the result ("X", "O", "T"), "draw" or "*"
+ * - `Date`: day the record was written, e.g. "2026-10-19"
+ */
+export const GAME_RECORD_HEADERS = [
+  'Variant',
+  'Size',
+  'WinLength',
+  'Rules',
+  'Players',
+  'FirstMarkup',
+  'Difficulty',
+  'Result',
+  'Date',
+] as const;
+
+/** Optional rules of classic games listed in the `Rules` header. */
+export const GAME_RECORD_RULES = ['gravity', 'vanishing', 'misere'] as const;
+
+/** `Result` header of a game still in progress. */
+export const GAME_RECORD_UNDECIDED = '*';
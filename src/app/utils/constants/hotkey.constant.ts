@@ -0,0 +1,12 @@
+/**
+ * Global keyboard shortcuts of the game page, pressed together with Alt.
+ *
+ * - `code` → physical key matched on `KeyboardEvent.code`
+ *   (so the shortcuts work with any keyboard layout)
+ * - `label` → value of the `aria-keyshortcuts` attribute of the control
+ */
+export const HOTKEYS = {
+  newGame: { code: 'KeyN', label: 'Alt+N' },
+  save: { code: 'KeyS', label: 'Alt+S' },
+  undo: { code: 'KeyZ', label: 'Alt+Z' },
+} as const;
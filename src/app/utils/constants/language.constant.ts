@@ -0,0 +1,32 @@
+import { Language } from '../types/language.type';
+
+/**
+ * List of the languages the user interface is translated to.
+ *
+ * - 'en' → English
+ * - 'hu' → Hungarian
+ *
+ * Declared as `const` so TypeScript infers a readonly tuple.
+ */
+export const LANGUAGES = ['en', 'hu'] as const;
+
+/** Language used until the user picks one. */
+export const DEFAULT_LANGUAGE: Language = 'en';
+
+/** Key of the chosen language in `localStorage`. */
+export const LANGUAGE_STORAGE_KEY = 'language';
+
+/**
+ * Names of the languages in the language picker,
+ * written in the language itself so everybody finds their own.
+ */
+export const LANGUAGE_NAMES: Record<Language, string> = {
+  en: 'English',
+  hu: 'Magyar',
+};
+
+/** Locales dates and numbers are formatted with in each language. */
+export const LANGUAGE_LOCALES: Record<Language, string> = {
+  en: 'en-US',
+  hu: 'hu-HU',
+};
@@ -0,0 +1,14 @@
+/**
+ * Keys of the per-player entries of `GameInfo` for every markup.
+ *
+ * - `win`  → win counter in `GameInfo.results`
+ * - `lose` → loss counter in `GameInfo.results`
+ * - `time` → spent time in `GameInfo.playerSpentTime`
+ *
+ * Declared as `const` so TypeScript infers the literal key names.
+ */
+export const MARKUP_KEYS = {
+  o: { win: 'player_O_Win', lose: 'player_O_Lose', time: 'player_O' },
+  x: { win: 'player_X_Win', lose: 'player_X_Lose', time: 'player_X' },
+  t: { win: 'player_T_Win', lose: 'player_T_Lose', time: 'player_T' },
+} as const;
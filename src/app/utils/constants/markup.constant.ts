@@ -0,0 +1,10 @@
+/**
+ * List of every markup that can be placed on the board, in turn order.
+ *
+ * - 'o' → circle
+ * - 'x' → cross
+ * - 't' → triangle, the third player's markup in three-player games
+ *
+ * Declared as `const` so TypeScript infers a readonly tuple.
+ */
+export const MARKUPS = ['o', 'x', 't'] as const;
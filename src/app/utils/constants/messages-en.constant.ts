@@ -0,0 +1,323 @@
+/**
+ * English texts of the user interface, by their message key.
+ *
+ * This catalog defines the message keys (see `MessageKey`),
+ * every other catalog has to translate all of them.
+ * Values may contain `{name}` placeholders, filled in by
+ * `Translation.translate()` from its parameters.
+ *
+ * Keys are grouped by where the text is shown:
+ * - `dialog.*` → dialog titles and messages
+ * - `field.*` → labels of the form fields
+ * - `option.*` → names of the options of the form fields
+ * - `button.*` → names of the dialog buttons
+ * - `error.*` → form validation errors (see `ERROR_MESSAGES`)
+ * - `snackbar.*` → notifications
+ * - `record.*` → problems of pasted game records and shared positions
+ * - `markup.*` → spoken names of the markups
+ * - `board.*` → screen-reader labels of the board
+ * - `side.*` → names of the sides, above their panels and in announcements
+ * - `variant.*` → names of the variants, on saved games and in the settings
+ * - `announce.*` → screen-reader announcements of the game
+ * - `gameElement.*` → saved games on the account page
+ * - `header.*` → result and title in the page header
+ * - `navBar.*` → labels of the navigation bar buttons
+ * - `game.*` → screen-reader labels of the game page regions
+ * - `panel.*` → statistics and clocks of the side panels
+ * - `moveList.*`, `picker.*`, `spectator.*` → controls beside the board
+ * - `account.*` → account page headings and statistics
+ * - `replay.*` → replay of a saved game
+ *
+ * Declared as `const` so TypeScript infers the literal keys.
+ */
+export const EN_MESSAGES = {
+  'dialog.gameSettings': 'Game settings',
+  'dialog.save': 'Save game',
+  'dialog.settings': 'Settings',
+  'dialog.login': 'Login',
+  'dialog.registration': 'Registration',
+  'dialog.emailChange': 'Change email',
+  'dialog.passwordChange': 'Change password',
+  'dialog.export': 'Export image',
+  'dialog.logout': 'Logout',
+  'dialog.logoutQuestion': 'Do you sure quit?',
+  'dialog.loading': 'Loading',
+  'dialog.loadQuestion': 'Do you want to load "{name}" game?',
+  'dialog.delete': 'Delete',
+  'dialog.deleteQuestion': 'Do you want to delete "{name}" game?',
+
+  'field.variant': 'Variant',
+  'field.rows': 'Board Rows',
+  'field.columns': 'Board Columns',
+  'field.winLength': 'Marks in a Row to Win',
+  'field.gravity': 'Gravity',
+  'field.vanishing': 'Vanishing Marks',
+  'field.misere': 'Misère',
+  'field.opponent': 'Opponent Type',
+  'field.players': 'Players',
+  'field.playerMarkup': 'Play As',
+  'field.firstMove': 'First Move',
+  'field.hardness': 'Difficulty',
+  'field.secondHardness': 'Second AI Difficulty',
+  'field.aiEngine': 'AI Engine',
+  'field.timeControl': 'Time Control',
+  'field.gameName': 'Game Name',
+  'field.primaryColor': 'Primary Color',
+  'field.accentColor': 'Accent Color',
+  'field.language': 'Language',
+  'field.email': 'Email Address',
+  'field.password': 'Password',
+  'field.rePassword': 'Confirm Password',
+  'field.oldEmail': 'Old email',
+  'field.newEmail': 'New email',
+  'field.oldPassword': 'Old password',
+  'field.newPassword': 'New password',
+  'field.newPasswordAgain': 'New password again',
+  'field.imageFormat': 'Image Format',
+  'field.coordinates': 'Coordinates',
+  'field.markLastMove': 'Mark Last Move',
+  'field.markWinningLine': 'Mark Winning Line',
+  'option.off': 'Off',
+  'option.on': 'On',
+  'option.player': 'Two players',
+  'option.computer': 'Computer',
+  'option.spectator': 'Computer vs computer',
+  'option.human': 'Player',
+  'option.o': 'O (circle)',
+  'option.x': 'X (cross)',
+  'option.server': 'Server',
+  'option.local': 'Offline',
+  'option.none': 'None',
+  'option.suddenDeath': 'Sudden death (5 min)',
+  'option.perMove': '30 seconds per move',
+  'option.fischer': 'Fischer (3 min + 2 s)',
+  'option.svg': 'SVG image',
+  'option.png': 'PNG image',
+
+  'button.accept': 'Accept',
+  'button.reject': 'Reject',
+  'button.save': 'Save',
+  'button.cancel': 'Cancel',
+  'button.apply': 'Apply',
+  'button.login': 'Login',
+  'button.registration': 'Registration',
+  'button.register': 'Register',
+  'button.change': 'Change',
+  'button.back': 'Back',
+  'button.export': 'Export',
+  'button.logout': 'Logout',
+  'button.load': 'Load',
+  'button.delete': 'Delete',
+
+  'error.required': 'This field is required.',
+  'error.invalidEmail': 'The provided email address is invalid.',
+  'error.emailInUse': 'This email address is already in use.',
+  'error.emailDoesNotExist': 'This email is not exist',
+  'error.passwordMismatch': 'The passwords do not match.',
+  'error.shortPassword': 'The password must be at least 6 characters long.',
+  'error.longPassword': 'The password cannot exceed 20 characters.',
+  'error.notCurrentUserEmail':
+    'The provided email does not match the currently logged in user’s email.',
+  'error.notCurrentUserPassword':
+    "The provided password does not match the current user's password.",
+
+  'snackbar.gameSettingsSaved': 'Game settings saved',
+  'snackbar.gameSaved': 'Game saved successfully',
+  'snackbar.gameSavingFailed': 'Game saving failed',
+  'snackbar.gameCopied': 'Game copied to clipboard',
+  'snackbar.gameCopyingFailed': 'Game copying failed',
+  'snackbar.gamePasted': 'Game pasted from clipboard',
+  'snackbar.gamePastingFailed': 'Game pasting failed',
+  'snackbar.linkCopied': 'Link copied to clipboard',
+  'snackbar.linkCopyingFailed': 'Link copying failed',
+  'snackbar.imageExported': 'Board image exported',
+  'snackbar.imageExportFailed': 'Board image export failed',
+  'snackbar.settingsUpdated': 'Settings updated',
+  'snackbar.registrationSuccessful': 'Registration successful',
+  'snackbar.registrationFailed': 'Registration failed',
+  'snackbar.loggedIn': 'Logged in successfully',
+  'snackbar.loginFailed': 'Login failed',
+  'snackbar.loggedOut': 'Logged out successfully',
+  'snackbar.logoutFailed': 'Logout failed',
+  'snackbar.emailChanged': 'Email changed',
+  'snackbar.emailChangingFailed': 'Email changing failed',
+  'snackbar.passwordChanged': 'Password changed',
+  'snackbar.passwordChangingFailed': 'Password changing failed',
+  'snackbar.gameDeletingFailed': 'Failed to delete game',
+  'snackbar.sharedPositionOpened': 'Shared position opened',
+  'snackbar.invalidGameLink': 'Invalid game link: {message}',
+  'snackbar.invalidGameRecord': 'Invalid game record: {message}',
+  'snackbar.winnerMismatch': 'The server disagrees with the result',
+  'snackbar.messages': 'Snackbar messages',
+  'snackbar.close': 'Close message',
+  'record.invalidHeaderLine': 'Invalid header line: {value}',
+  'record.headerAfterMoves': 'Header after the moves: {value}',
+  'record.unknownHeader': 'Unknown header: {value}',
+  'record.duplicateHeader': 'Duplicate header: {value}',
+  'record.missingHeader': 'Missing header: {value}',
+  'record.invalidDifficulty': 'Invalid difficulty: {value}',
+  'record.invalidResult': 'Invalid result: {value}',
+  'record.invalidDate': 'Invalid date: {value}',
+  'record.invalidMove': 'Invalid move: {value}',
+  'record.spookyMarks': 'Spooky marks do not apply to this variant: {value}',
+  'record.missingMarkup': 'Missing markup of the move: {value}',
+  'record.markupNotChosen': 'Markup can not be chosen in this variant: {value}',
+  'record.invalidMoveMarkup': 'Invalid markup of the move: {value}',
+  'record.resultContradicts': 'Result contradicts the moves: {value}',
+  'record.unknownVariant': 'Unknown variant: {value}',
+  'record.invalidBoardSize': 'Invalid board size: {value}',
+  'record.invalidWinLength': 'Invalid win length: {value}',
+  'record.unknownRule': 'Unknown rule: {value}',
+  'record.optionalRules': 'Optional rules do not apply to this variant',
+  'record.invalidPlayers': 'Invalid number of players: {value}',
+  'record.misereThreePlayers': 'The misère rule only applies to two players',
+  'record.invalidFirstMarkup': 'Invalid first markup: {value}',
+  'record.moveAfterEnd': 'Move played after the end of the game: {value}',
+  'record.illegalMove': 'Illegal move: {value}',
+  'record.moveOffBoard': 'Move off the board: {value}',
+  'record.notShareable': 'Positions of this variant can not be shared',
+  'record.invalidCode': 'Invalid position code',
+  'record.invalidRules': 'Invalid rules: {value}',
+  'record.invalidBoard': 'Invalid board: {value}',
+  'record.floatingMarks': 'Marks can not float with the gravity rule',
+  'record.invalidLastMove': 'Invalid last move: {value}',
+  'record.invalidSideToMove': 'Invalid side to move: {value}',
+  'record.missingMarkOrder': 'Missing mark order of the vanishing rule',
+  'record.unexpectedMarkOrder': 'Mark order only applies to the vanishing rule',
+  'record.sideToMoveMismatch': 'The side to move does not match the board',
+  'record.invalidBoardRow': 'Invalid board row: {value}',
+  'record.invalidMarkOrder': 'Invalid mark order: {value}',
+
+  'markup.o': 'circle',
+  'markup.x': 'cross',
+  'markup.t': 'triangle',
+
+  'board.empty': 'empty',
+  'board.cell': '{content} at row {row}, column {column}',
+  'board.winningCell': ', part of the winning line',
+  'board.vanishingCell': ', vanishes with the next move',
+  'board.position': 'row {row}, column {column}',
+  'board.winningLine': 'Winning line of {markup}: {cells}.',
+  'board.placed': '{side} placed {markup} at row {row}, column {column}.',
+  'board.placedUnnamed': 'Placed {markup} at row {row}, column {column}.',
+  'board.mark': '{markup} {move}',
+  'board.spookyMarks': 'spooky {marks}',
+  'board.selectedCell': ', selected',
+  'board.collapseOption': ', collapse option',
+  'board.chooseCollapse': 'Choose the cell {mark} collapses into.',
+
+  'side.you': 'You',
+  'side.computer': 'Computer',
+  'side.order': 'Order',
+  'side.chaos': 'Chaos',
+  'side.player': 'Player {order}',
+  'side.numberedComputer': 'Computer {order}',
+  'side.playerName': 'Player',
+  'side.label': '{side} ({sign})',
+  'side.numberedLabel': '{side} - {order}({sign})',
+  'variant.classic': 'Classic',
+  'variant.ultimate': 'Ultimate',
+  'variant.quantum': 'Quantum',
+  'variant.wild': 'Wild',
+  'variant.orderChaos': 'Order and Chaos',
+
+  'announce.yourTurn': 'Your turn.',
+  'announce.turn': "{side}'s turn.",
+  'announce.yourClock': 'Your clock is running low.',
+  'announce.clock': "{side}'s clock is running low.",
+  'announce.youWon': 'You won.',
+  'announce.won': '{side} won.',
+  'announce.draw': 'Draw.',
+  'announce.timeUp': 'Time is up for {side}.',
+
+  'gameElement.name': 'Name:',
+  'gameElement.size': 'Size:',
+  'gameElement.updated': 'Updated:',
+  'gameElement.gravity': 'Gravity',
+  'gameElement.vanishing': 'Vanishing',
+  'gameElement.misere': 'Misère',
+  'gameElement.threePlayers': '3 Players',
+  'gameElement.replay': 'Replay game.',
+  'gameElement.export': 'Export board image.',
+
+  'header.winner': 'Winner: "{winner}"',
+  'header.newGame': 'New game',
+  'header.letsPlay': "Let's play",
+
+  'navBar.lightMode': 'light mode.',
+  'navBar.darkMode': 'dark mode.',
+  'navBar.gameSettings': 'Open game settings dialog.',
+  'navBar.undo': 'Undo last move.',
+  'navBar.redo': 'Redo move.',
+  'navBar.account': 'account',
+  'navBar.back': 'back',
+  'navBar.save': 'Open save dialog.',
+  'navBar.copy': 'Copy game.',
+  'navBar.paste': 'Paste game.',
+  'navBar.share': 'Copy link to position.',
+  'navBar.export': 'Export board image.',
+  'navBar.settings': 'Open settings dialog.',
+  'navBar.login': 'Login',
+  'navBar.logout': 'Logout',
+
+  'game.section': 'game section',
+  'game.playerOne': 'player one with circle sign',
+  'game.playerTwo': 'player two with ex sign',
+  'game.playerThree': 'player three with triangle sign',
+  'game.preview': 'previewed position',
+  'game.board': 'game board',
+  'game.ultimateBoard': 'ultimate game board',
+  'game.quantumBoard': 'quantum game board',
+  'game.moveList': 'move list',
+  'game.markupPicker': 'markup to place',
+  'game.spectatorControls': 'spectator controls',
+
+  'panel.statistics': 'Game statistics',
+  'panel.win': 'Win:',
+  'panel.winCount': 'Win count',
+  'panel.lose': 'Lose:',
+  'panel.loseCount': 'Lose count',
+  'panel.draw': 'Draw:',
+  'panel.drawCount': 'Draw count',
+  'panel.currentTime': 'Current time',
+  'panel.remainingTime': 'Remaining time',
+  'panel.lowTime': 'Remaining time, running low',
+
+  'moveList.title': 'Moves',
+  'moveList.coordinates': 'Show coordinates.',
+  'moveList.label': 'Moves of the game',
+  'moveList.move': 'Move {position}: {move}.',
+  'moveList.empty': 'No moves yet.',
+  'moveList.back': 'Back to the game',
+
+  'picker.title': 'Place:',
+  'picker.place': 'Place {markup}.',
+
+  'spectator.play': 'Play AI game.',
+  'spectator.pause': 'Pause AI game.',
+  'spectator.next': 'Next AI move.',
+  'spectator.delay': 'Move delay: {seconds} s',
+  'spectator.delayLabel': 'move delay',
+
+  'account.changePassword': 'Change password',
+  'account.changeEmail': 'Change email',
+  'account.win': 'Win:',
+  'account.lose': 'Lose:',
+  'account.gameCount': 'All saved game:',
+  'account.savedGames': 'Saved games',
+  'account.noGames': 'not found any game...',
+
+  'replay.title': 'Replay: {name}',
+  'replay.close': 'Close replay.',
+  'replay.board': 'replay board',
+  'replay.controls': 'replay controls',
+  'replay.first': 'First move.',
+  'replay.previous': 'Previous move.',
+  'replay.play': 'Play replay.',
+  'replay.pause': 'Pause replay.',
+  'replay.next': 'Next move.',
+  'replay.last': 'Last move.',
+  'replay.position': 'Move {position} / {count}',
+  'replay.noMoves':
+    'This game was saved without its moves, only the final board can be shown.',
+} as const;
@@ -0,0 +1,302 @@
+import { MessageKey } from '../types/message-key.type';
+
+/**
+ * Hungarian texts of the user interface, by their message key.
+ *
+ * Translates every key of the English catalog (`EN_MESSAGES`),
+ * with the same `{name}` placeholders.
+ */
+export const HU_MESSAGES: Record<MessageKey, string> = {
+  'dialog.gameSettings': 'Játékbeállítások',
+  'dialog.save': 'Játék mentése',
+  'dialog.settings': 'Beállítások',
+  'dialog.login': 'Bejelentkezés',
+  'dialog.registration': 'Regisztráció',
+  'dialog.emailChange': 'E-mail-cím módosítása',
+  'dialog.passwordChange': 'Jelszó módosítása',
+  'dialog.export': 'Kép exportálása',
+  'dialog.logout': 'Kijelentkezés',
+  'dialog.logoutQuestion': 'Biztosan kilépsz?',
+  'dialog.loading': 'Betöltés',
+  'dialog.loadQuestion': 'Betöltöd a(z) „{name}” játékot?',
+  'dialog.delete': 'Törlés',
+  'dialog.deleteQuestion': 'Törlöd a(z) „{name}” játékot?',
+
+  'field.variant': 'Változat',
+  'field.rows': 'Sorok száma',
+  'field.columns': 'Oszlopok száma',
+  'field.winLength': 'Nyeréshez szükséges jelek',
+  'field.gravity': 'Gravitáció',
+  'field.vanishing': 'Eltűnő jelek',
+  'field.misere': 'Misère',
+  'field.opponent': 'Ellenfél típusa',
+  'field.players': 'Játékosok',
+  'field.playerMarkup': 'Saját jel',
+  'field.firstMove': 'Kezdő lépés',
+  'field.hardness': 'Nehézség',
+  'field.secondHardness': 'Második gép nehézsége',
+  'field.aiEngine': 'Gépi motor',
+  'field.timeControl': 'Időbeosztás',
+  'field.gameName': 'Játék neve',
+  'field.primaryColor': 'Elsődleges szín',
+  'field.accentColor': 'Kiemelő szín',
+  'field.language': 'Nyelv',
+  'field.email': 'E-mail-cím',
+  'field.password': 'Jelszó',
+  'field.rePassword': 'Jelszó megerősítése',
+  'field.oldEmail': 'Régi e-mail-cím',
+  'field.newEmail': 'Új e-mail-cím',
+  'field.oldPassword': 'Régi jelszó',
+  'field.newPassword': 'Új jelszó',
+  'field.newPasswordAgain': 'Új jelszó újra',
+  'field.imageFormat': 'Képformátum',
+  'field.coordinates': 'Koordináták',
+  'field.markLastMove': 'Utolsó lépés jelölése',
+  'field.markWinningLine': 'Nyerő sor jelölése',
+  'option.off': 'Ki',
+  'option.on': 'Be',
+  'option.player': 'Két játékos',
+  'option.computer': 'Számítógép',
+  'option.spectator': 'Gép a gép ellen',
+  'option.human': 'Játékos',
+  'option.o': 'O (kör)',
+  'option.x': 'X (kereszt)',
+  'option.server': 'Szerver',
+  'option.local': 'Helyi',
+  'option.none': 'Nincs',
+  'option.suddenDeath': 'Hirtelen halál (5 perc)',
+  'option.perMove': 'Lépésenként 30 mp',
+  'option.fischer': 'Fischer (3 perc + 2 mp)',
+  'option.svg': 'SVG kép',
+  'option.png': 'PNG kép',
+
+  'button.accept': 'Elfogad',
+  'button.reject': 'Elutasít',
+  'button.save': 'Mentés',
+  'button.cancel': 'Mégse',
+  'button.apply': 'Alkalmaz',
+  'button.login': 'Bejelentkezés',
+  'button.registration': 'Regisztráció',
+  'button.register': 'Regisztrálok',
+  'button.change': 'Módosítás',
+  'button.back': 'Vissza',
+  'button.export': 'Exportálás',
+  'button.logout': 'Kijelentkezés',
+  'button.load': 'Betöltés',
+  'button.delete': 'Törlés',
+
+  'error.required': 'Ez a mező kötelező.',
+  'error.invalidEmail': 'A megadott e-mail-cím érvénytelen.',
+  'error.emailInUse': 'Ez az e-mail-cím már használatban van.',
+  'error.emailDoesNotExist': 'Ez az e-mail-cím nem létezik.',
+  'error.passwordMismatch': 'A jelszavak nem egyeznek.',
+  'error.shortPassword': 'A jelszónak legalább 6 karakterből kell állnia.',
+  'error.longPassword': 'A jelszó legfeljebb 20 karakter lehet.',
+  'error.notCurrentUserEmail':
+    'A megadott e-mail-cím nem egyezik a bejelentkezett felhasználóéval.',
+  'error.notCurrentUserPassword':
+    'A megadott jelszó nem egyezik a jelenlegi felhasználóéval.',
+
+  'snackbar.gameSettingsSaved': 'Játékbeállítások elmentve',
+  'snackbar.gameSaved': 'Játék sikeresen elmentve',
+  'snackbar.gameSavingFailed': 'A játék mentése sikertelen',
+  'snackbar.gameCopied': 'Játék a vágólapra másolva',
+  'snackbar.gameCopyingFailed': 'A játék másolása sikertelen',
+  'snackbar.gamePasted': 'Játék beillesztve a vágólapról',
+  'snackbar.gamePastingFailed': 'A játék beillesztése sikertelen',
+  'snackbar.linkCopied': 'Hivatkozás a vágólapra másolva',
+  'snackbar.linkCopyingFailed': 'A hivatkozás másolása sikertelen',
+  'snackbar.imageExported': 'Táblakép exportálva',
+  'snackbar.imageExportFailed': 'A táblakép exportálása sikertelen',
+  'snackbar.settingsUpdated': 'Beállítások frissítve',
+  'snackbar.registrationSuccessful': 'Sikeres regisztráció',
+  'snackbar.registrationFailed': 'Sikertelen regisztráció',
+  'snackbar.loggedIn': 'Sikeres bejelentkezés',
+  'snackbar.loginFailed': 'Sikertelen bejelentkezés',
+  'snackbar.loggedOut': 'Sikeres kijelentkezés',
+  'snackbar.logoutFailed': 'Sikertelen kijelentkezés',
+  'snackbar.emailChanged': 'E-mail-cím módosítva',
+  'snackbar.emailChangingFailed': 'Az e-mail-cím módosítása sikertelen',
+  'snackbar.passwordChanged': 'Jelszó módosítva',
+  'snackbar.passwordChangingFailed': 'A jelszó módosítása sikertelen',
+  'snackbar.gameDeletingFailed': 'A játék törlése sikertelen',
+  'snackbar.sharedPositionOpened': 'Megosztott állás megnyitva',
+  'snackbar.invalidGameLink': 'Érvénytelen játékhivatkozás: {message}',
+  'snackbar.invalidGameRecord': 'Érvénytelen játékleírás: {message}',
+  'snackbar.winnerMismatch': 'A szerver más eredményt számolt',
+  'snackbar.messages': 'Értesítések',
+  'snackbar.close': 'Üzenet bezárása',
+  'record.invalidHeaderLine': 'Érvénytelen fejlécsor: {value}',
+  'record.headerAfterMoves': 'Fejléc a lépések után: {value}',
+  'record.unknownHeader': 'Ismeretlen fejléc: {value}',
+  'record.duplicateHeader': 'Ismétlődő fejléc: {value}',
+  'record.missingHeader': 'Hiányzó fejléc: {value}',
+  'record.invalidDifficulty': 'Érvénytelen nehézség: {value}',
+  'record.invalidResult': 'Érvénytelen eredmény: {value}',
+  'record.invalidDate': 'Érvénytelen dátum: {value}',
+  'record.invalidMove': 'Érvénytelen lépés: {value}',
+  'record.spookyMarks':
+    'Kísértetjelek nem játszhatók ebben a változatban: {value}',
+  'record.missingMarkup': 'Hiányzik a lépés jele: {value}',
+  'record.markupNotChosen':
+    'Ebben a változatban a jel nem választható: {value}',
+  'record.invalidMoveMarkup': 'Érvénytelen a lépés jele: {value}',
+  'record.resultContradicts': 'Az eredmény ellentmond a lépéseknek: {value}',
+  'record.unknownVariant': 'Ismeretlen változat: {value}',
+  'record.invalidBoardSize': 'Érvénytelen táblaméret: {value}',
+  'record.invalidWinLength': 'Érvénytelen nyerő sorhossz: {value}',
+  'record.unknownRule': 'Ismeretlen szabály: {value}',
+  'record.optionalRules': 'Ebben a változatban nincsenek választható szabályok',
+  'record.invalidPlayers': 'Érvénytelen játékosszám: {value}',
+  'record.misereThreePlayers': 'A misère szabály csak két játékosra vonatkozik',
+  'record.invalidFirstMarkup': 'Érvénytelen kezdő jel: {value}',
+  'record.moveAfterEnd': 'Lépés a játék vége után: {value}',
+  'record.illegalMove': 'Szabálytalan lépés: {value}',
+  'record.moveOffBoard': 'Lépés a táblán kívül: {value}',
+  'record.notShareable': 'Ennek a változatnak az állásai nem oszthatók meg',
+  'record.invalidCode': 'Érvénytelen álláskód',
+  'record.invalidRules': 'Érvénytelen szabályok: {value}',
+  'record.invalidBoard': 'Érvénytelen tábla: {value}',
+  'record.floatingMarks': 'Gravitációs szabállyal a jelek nem lebeghetnek',
+  'record.invalidLastMove': 'Érvénytelen utolsó lépés: {value}',
+  'record.invalidSideToMove': 'Érvénytelen soron következő fél: {value}',
+  'record.missingMarkOrder': 'Hiányzik az eltűnő jelek sorrendje',
+  'record.unexpectedMarkOrder':
+    'A jelek sorrendje csak az eltűnő jelek szabályára vonatkozik',
+  'record.sideToMoveMismatch': 'A soron következő fél nem egyezik a táblával',
+  'record.invalidBoardRow': 'Érvénytelen táblasor: {value}',
+  'record.invalidMarkOrder': 'Érvénytelen jelsorrend: {value}',
+
+  'markup.o': 'kör',
+  'markup.x': 'kereszt',
+  'markup.t': 'háromszög',
+
+  'board.empty': 'üres',
+  'board.cell': '{content}, {row}. sor, {column}. oszlop',
+  'board.winningCell': ', a nyerő sor része',
+  'board.vanishingCell': ', a következő lépéssel eltűnik',
+  'board.position': '{row}. sor, {column}. oszlop',
+  'board.winningLine': 'Nyerő sor ({markup}): {cells}.',
+  'board.placed': '{side} lépett: {markup}, {row}. sor, {column}. oszlop.',
+  'board.placedUnnamed': 'Lépés: {markup}, {row}. sor, {column}. oszlop.',
+  'board.mark': '{markup} {move}',
+  'board.spookyMarks': 'kísérteties jelek: {marks}',
+  'board.selectedCell': ', kijelölve',
+  'board.collapseOption': ', összeomlási lehetőség',
+  'board.chooseCollapse': 'Válaszd ki a cellát, amelybe {mark} összeomlik.',
+
+  'side.you': 'Te',
+  'side.computer': 'Számítógép',
+  'side.order': 'Rend',
+  'side.chaos': 'Káosz',
+  'side.player': '{order}. játékos',
+  'side.numberedComputer': '{order}. számítógép',
+  'side.playerName': 'Játékos',
+  'side.label': '{side} ({sign})',
+  'side.numberedLabel': '{side} - {order}({sign})',
+  'variant.classic': 'Klasszikus',
+  'variant.ultimate': 'Ultimate',
+  'variant.quantum': 'Kvantum',
+  'variant.wild': 'Vad',
+  'variant.orderChaos': 'Rend és káosz',
+
+  'announce.yourTurn': 'Te következel.',
+  'announce.turn': '{side} következik.',
+  'announce.yourClock': 'Fogy az időd.',
+  'announce.clock': 'Fogy az ideje: {side}.',
+  'announce.youWon': 'Nyertél.',
+  'announce.won': '{side} nyert.',
+  'announce.draw': 'Döntetlen.',
+  'announce.timeUp': 'Lejárt az idő: {side}.',
+
+  'gameElement.name': 'Név:',
+  'gameElement.size': 'Méret:',
+  'gameElement.updated': 'Frissítve:',
+  'gameElement.gravity': 'Gravitáció',
+  'gameElement.vanishing': 'Eltűnő',
+  'gameElement.misere': 'Misère',
+  'gameElement.threePlayers': '3 játékos',
+  'gameElement.replay': 'Játék visszajátszása.',
+  'gameElement.export': 'Táblakép exportálása.',
+
+  'header.winner': 'Nyertes: „{winner}”',
+  'header.newGame': 'Új játék',
+  'header.letsPlay': 'Játsszunk',
+
+  'navBar.lightMode': 'világos mód.',
+  'navBar.darkMode': 'sötét mód.',
+  'navBar.gameSettings': 'Játékbeállítások megnyitása.',
+  'navBar.undo': 'Utolsó lépés visszavonása.',
+  'navBar.redo': 'Lépés megismétlése.',
+  'navBar.account': 'fiók',
+  'navBar.back': 'vissza',
+  'navBar.save': 'Mentés megnyitása.',
+  'navBar.copy': 'Játék másolása.',
+  'navBar.paste': 'Játék beillesztése.',
+  'navBar.share': 'Hivatkozás másolása az álláshoz.',
+  'navBar.export': 'Táblakép exportálása.',
+  'navBar.settings': 'Beállítások megnyitása.',
+  'navBar.login': 'Bejelentkezés',
+  'navBar.logout': 'Kijelentkezés',
+
+  'game.section': 'játéktér',
+  'game.playerOne': 'első játékos, kör jellel',
+  'game.playerTwo': 'második játékos, X jellel',
+  'game.playerThree': 'harmadik játékos, háromszög jellel',
+  'game.preview': 'előnézett állás',
+  'game.board': 'játéktábla',
+  'game.ultimateBoard': 'ultimate játéktábla',
+  'game.quantumBoard': 'kvantum játéktábla',
+  'game.moveList': 'lépéslista',
+  'game.markupPicker': 'lerakandó jel',
+  'game.spectatorControls': 'nézői vezérlők',
+
+  'panel.statistics': 'Játékstatisztika',
+  'panel.win': 'Győzelem:',
+  'panel.winCount': 'Győzelmek száma',
+  'panel.lose': 'Vereség:',
+  'panel.loseCount': 'Vereségek száma',
+  'panel.draw': 'Döntetlen:',
+  'panel.drawCount': 'Döntetlenek száma',
+  'panel.currentTime': 'Pontos idő',
+  'panel.remainingTime': 'Hátralévő idő',
+  'panel.lowTime': 'Hátralévő idő, fogyóban',
+
+  'moveList.title': 'Lépések',
+  'moveList.coordinates': 'Koordináták megjelenítése.',
+  'moveList.label': 'A játék lépései',
+  'moveList.move': '{position}. lépés: {move}.',
+  'moveList.empty': 'Még nincs lépés.',
+  'moveList.back': 'Vissza a játékhoz',
+
+  'picker.title': 'Lerakás:',
+  'picker.place': '{markup} lerakása.',
+
+  'spectator.play': 'AI-játék indítása.',
+  'spectator.pause': 'AI-játék szüneteltetése.',
+  'spectator.next': 'Következő AI-lépés.',
+  'spectator.delay': 'Lépések közti szünet: {seconds} mp',
+  'spectator.delayLabel': 'lépések közti szünet',
+
+  'account.changePassword': 'Jelszó módosítása',
+  'account.changeEmail': 'E-mail-cím módosítása',
+  'account.win': 'Győzelem:',
+  'account.lose': 'Vereség:',
+  'account.gameCount': 'Összes mentett játék:',
+  'account.savedGames': 'Mentett játékok',
+  'account.noGames': 'nem található játék...',
+
+  'replay.title': 'Visszajátszás: {name}',
+  'replay.close': 'Visszajátszás bezárása.',
+  'replay.board': 'visszajátszott tábla',
+  'replay.controls': 'visszajátszás vezérlői',
+  'replay.first': 'Első lépés.',
+  'replay.previous': 'Előző lépés.',
+  'replay.play': 'Visszajátszás indítása.',
+  'replay.pause': 'Visszajátszás szüneteltetése.',
+  'replay.next': 'Következő lépés.',
+  'replay.last': 'Utolsó lépés.',
+  'replay.position': 'Lépés: {position} / {count}',
+  'replay.noMoves':
+    'Ez a játék a lépései nélkül lett mentve, csak a végső tábla jeleníthető meg.',
+};
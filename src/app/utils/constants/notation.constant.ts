@@ -0,0 +1,28 @@
+/**
+ * File letters of the board columns in move notation, from left to right
+ * (the largest boards have 9 columns, the flat board of Ultimate games too).
+ * Ranks are numbered from 1 on the top row, like the rows of the cell labels.
+ *
+ * Shared by the move list, the coordinate labels of the board
+ * and the exported game records.
+ */
+export const NOTATION_FILES = [
+  'a',
+  'b',
+  'c',
+  'd',
+  'e',
+  'f',
+  'g',
+  'h',
+  'i',
+] as const;
+
+/** Separator between the collapsed cell and the move of a quantum turn. */
+export const NOTATION_COLLAPSE = '>';
+
+/** Separator between the two cells of a spooky mark. */
+export const NOTATION_ENTANGLED = '-';
+
+/** Separator before the markup placed in Wild and Order and Chaos games. */
+export const NOTATION_MARKUP = '=';
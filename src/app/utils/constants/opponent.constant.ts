@@ -0,0 +1,20 @@
+import { Opponent } from '../types/opponent.type';
+import { MessageKey } from '../types/message-key.type';
+
+/**
+ * List of the available opponent types.
+ *
+ * - 'player'    → local two-player mode
+ * - 'computer'  → the player plays against the AI
+ * - 'spectator' → two AI levels play each other while the user watches
+ *
+ * Declared as `const` so TypeScript infers a readonly tuple.
+ */
+export const OPPONENTS = ['player', 'computer', 'spectator'] as const;
+
+/** Catalog keys of the names of the opponent types in the settings. */
+export const OPPONENT_LABELS: Record<Opponent, MessageKey> = {
+  player: 'option.player',
+  computer: 'option.computer',
+  spectator: 'option.spectator',
+};
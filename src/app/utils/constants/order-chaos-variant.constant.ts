@@ -0,0 +1,42 @@
+import { GameVariant } from '../interfaces/game-variant.interface';
+import {
+  ORDER_CHAOS_SIZE,
+  ORDER_CHAOS_WIN_LENGTH,
+} from './order-chaos.constant';
+import { emptyCells, placeMark } from '../functions/game-rules.function';
+import { evaluateChosenMarkupBoard } from '../functions/chosen-markup.function';
+import { markupByTurn } from '../functions/turn-order.function';
+
+/**
+ * Order and Chaos rules: a 6x6 board where every move places either mark.
+ * Order, the side moving first, wins with five equal marks in a row;
+ * Chaos wins once the board is full without one.
+ * Played locally by two players only.
+ */
+export const ORDER_CHAOS_VARIANT: GameVariant = {
+  id: 'order_chaos',
+  name: 'variant.orderChaos',
+  layout: 'grid',
+  choosesMarkup: true,
+  fixedBoard: true,
+  optionalRules: false,
+  spookyMarks: false,
+  sideNames: ['side.order', 'side.chaos'],
+  dimensions: () => ({
+    rows: ORDER_CHAOS_SIZE,
+    columns: ORDER_CHAOS_SIZE,
+    winLength: ORDER_CHAOS_WIN_LENGTH,
+  }),
+  legalMoves: emptyCells,
+  applyMove: placeMark,
+  evaluate: (board, { winLength, step, firstMarkup }) =>
+    evaluateChosenMarkupBoard(
+      board,
+      'order_chaos',
+      winLength,
+      step,
+      firstMarkup
+    ),
+  markupByTurn,
+  restore: () => ({ ultimateBoard: null, quantumBoard: null }),
+};
@@ -0,0 +1,9 @@
+/**
+ * Number of rows and columns of an Order and Chaos board (6 → a 6x6 board).
+ */
+export const ORDER_CHAOS_SIZE = 6;
+
+/**
+ * Number of equal marks in a row Order needs to win an Order and Chaos game.
+ */
+export const ORDER_CHAOS_WIN_LENGTH = 5;
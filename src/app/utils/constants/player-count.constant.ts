@@ -0,0 +1,15 @@
+/**
+ * List of the selectable numbers of players.
+ *
+ * - 2 → the usual game of 'o' and 'x'
+ * - 3 → a local game of 'o', 'x' and 't' (see `THREE_PLAYER_MIN_SIZE`)
+ *
+ * Declared as `const` so TypeScript infers a readonly tuple.
+ */
+export const PLAYER_COUNTS = [2, 3] as const;
+
+/**
+ * Shortest board side a three-player game can be played on.
+ * On smaller boards the game falls back to two players.
+ */
+export const THREE_PLAYER_MIN_SIZE = 5;
@@ -0,0 +1,18 @@
+import { PlayerMarkup } from '../types/player-markup.type';
+import { MessageKey } from '../types/message-key.type';
+
+/**
+ * List of the markups the human player can choose to play with.
+ *
+ * - 'o' → the player plays with circles (default)
+ * - 'x' → the player plays with crosses
+ *
+ * Declared as `const` so TypeScript infers a readonly tuple.
+ */
+export const PLAYER_MARKUPS = ['o', 'x'] as const;
+
+/** Catalog keys of the names of the markups in the settings. */
+export const PLAYER_MARKUP_LABELS: Record<PlayerMarkup, MessageKey> = {
+  o: 'option.o',
+  x: 'option.x',
+};
@@ -0,0 +1,44 @@
+import { GameVariant } from '../interfaces/game-variant.interface';
+import { QUANTUM_SIZE } from './quantum.constant';
+import { placeMark } from '../functions/game-rules.function';
+import { markupByTurn } from '../functions/turn-order.function';
+import {
+  emptyQuantumBoard,
+  evaluateQuantumBoard,
+  openQuantumCells,
+  quantumBoardOf,
+} from '../functions/quantum.function';
+
+/**
+ * Quantum rules: a 3x3 board of spooky marks in superposition,
+ * collapsed by cycles of entanglement; only classical marks form lines.
+ * The board is decided by the quantum board of the context, the flat board
+ * only mirrors its classical marks. Played locally by two players only.
+ */
+export const QUANTUM_VARIANT: GameVariant = {
+  id: 'quantum',
+  name: 'variant.quantum',
+  layout: 'quantum',
+  choosesMarkup: false,
+  fixedBoard: true,
+  optionalRules: false,
+  spookyMarks: true,
+  dimensions: () => ({
+    rows: QUANTUM_SIZE,
+    columns: QUANTUM_SIZE,
+    winLength: QUANTUM_SIZE,
+  }),
+  // A spooky mark takes two of these cells, see `playQuantumTurn`
+  legalMoves: (_board, { quantumBoard }) =>
+    openQuantumCells(quantumBoard ?? emptyQuantumBoard()),
+  // Only the last, classical mark of a game is placed directly
+  applyMove: placeMark,
+  evaluate: (_board, { quantumBoard }) =>
+    evaluateQuantumBoard(quantumBoard ?? emptyQuantumBoard()),
+  markupByTurn,
+  // The spooky marks are only stored in the move list
+  restore: (_board, moves) => ({
+    ultimateBoard: null,
+    quantumBoard: quantumBoardOf(moves),
+  }),
+};
@@ -0,0 +1,5 @@
+/**
+ * Number of rows and columns of a quantum tic-tac-toe board (3 → a 3x3 board).
+ * Also the number of classical marks in a row winning the game.
+ */
+export const QUANTUM_SIZE = 3;
@@ -0,0 +1,5 @@
+/**
+ * Delay between two replayed moves during autoplay, in milliseconds.
+ * Used by the saved game replay viewer on the account page.
+ */
+export const REPLAY_INTERVAL = 1000;
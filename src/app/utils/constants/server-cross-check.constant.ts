@@ -0,0 +1,9 @@
+/**
+ * Enables the optional server-side cross-check of locally detected results.
+ *
+ * Winner detection runs on the client through the rules engine.
+ * When this flag is `true`, every local evaluation is also sent to
+ * `game/check-board` and any disagreement is reported in a snackbar.
+ * The server answer never overrides the local result.
+ */
+export const SERVER_WINNER_CROSS_CHECK = false;
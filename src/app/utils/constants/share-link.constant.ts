@@ -0,0 +1,27 @@
+/**
+ * Query parameter of the game page holding a shared position
+ * (see `encodeSharedPosition`), e.g. `/tic-tac-toe?position=...`.
+ */
+export const SHARE_LINK_PARAM = 'position';
+
+/** Separator between the fields of a shared position. */
+export const SHARE_LINK_SEPARATOR = '.';
+
+/** Separator between the board rows (and the mark orders) of a shared position. */
+export const SHARE_LINK_ROW_SEPARATOR = '-';
+
+/** Value of a shared position field left empty (no optional rules, no last move). */
+export const SHARE_LINK_NONE = '-';
+
+/**
+ * Letters of the optional rules of classic games in a shared position.
+ *
+ * - 'g' → gravity
+ * - 'v' → vanishing marks
+ * - 'm' → misère
+ */
+export const SHARE_LINK_RULES = {
+  gravity: 'g',
+  vanishing: 'v',
+  misere: 'm',
+} as const;
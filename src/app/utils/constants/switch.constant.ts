@@ -0,0 +1,10 @@
+import { MessageKey } from '../types/message-key.type';
+
+/**
+ * Catalog keys of the names of the on/off options of the settings,
+ * by the value of the option.
+ */
+export const SWITCH_LABELS: Record<'false' | 'true', MessageKey> = {
+  false: 'option.off',
+  true: 'option.on',
+};
@@ -0,0 +1,48 @@
+import { TimeControlPreset } from '../interfaces/time-control-preset.interface';
+import { TimeControl } from '../types/time-control.type';
+import { MessageKey } from '../types/message-key.type';
+
+/**
+ * List of the available time controls.
+ *
+ * - 'none'         → no limit, the clocks only count the spent time
+ * - 'sudden_death' → a fixed total time for the whole game
+ * - 'per_move'     → a fixed time for every single move
+ * - 'fischer'      → a total time extended by an increment after every move
+ *
+ * Declared as `const` so TypeScript infers a readonly tuple.
+ */
+export const TIME_CONTROLS = [
+  'none',
+  'sudden_death',
+  'per_move',
+  'fischer',
+] as const;
+
+/**
+ * Limits (in seconds) belonging to each time control.
+ *
+ * - 'none'         → no limits
+ * - 'sudden_death' → 5 minutes for the whole game
+ * - 'per_move'     → 30 seconds for every move
+ * - 'fischer'      → 3 minutes plus 2 seconds after every move
+ */
+export const TIME_CONTROL_PRESETS: Record<TimeControl, TimeControlPreset> = {
+  none: {},
+  sudden_death: { total: 300 },
+  per_move: { perMove: 30 },
+  fischer: { total: 180, increment: 2 },
+};
+
+/**
+ * Remaining time (in seconds) from which the clock shows a low-time warning.
+ */
+export const LOW_TIME_WARNING = 10;
+
+/** Catalog keys of the names of the time controls in the settings. */
+export const TIME_CONTROL_LABELS: Record<TimeControl, MessageKey> = {
+  none: 'option.none',
+  sudden_death: 'option.suddenDeath',
+  per_move: 'option.perMove',
+  fischer: 'option.fischer',
+};
@@ -0,0 +1,15 @@
+import { Language } from '../types/language.type';
+import { MessageKey } from '../types/message-key.type';
+import { EN_MESSAGES } from './messages-en.constant';
+import { HU_MESSAGES } from './messages-hu.constant';
+
+/**
+ * Message catalogs of the user interface, by their language.
+ *
+ * Adding a language takes an entry in `LANGUAGES`, its name and locale
+ * in `LANGUAGE_NAMES` and `LANGUAGE_LOCALES`, and its catalog here.
+ */
+export const TRANSLATIONS: Record<Language, Record<MessageKey, string>> = {
+  en: EN_MESSAGES,
+  hu: HU_MESSAGES,
+};
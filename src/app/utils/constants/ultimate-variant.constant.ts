@@ -0,0 +1,43 @@
+import { GameVariant } from '../interfaces/game-variant.interface';
+import { ULTIMATE_BOARD_SIDE, ULTIMATE_SIZE } from './ultimate.constant';
+import { placeMark } from '../functions/game-rules.function';
+import { markupByTurn } from '../functions/turn-order.function';
+import {
+  evaluateUltimateBoard,
+  legalUltimateMoves,
+  ultimateBoardOf,
+} from '../functions/ultimate.function';
+
+/**
+ * Ultimate rules: a 3x3 meta-board of 3x3 boards played on a flat 9x9 board.
+ * The last move decides the sub-board of the next one, and three claimed
+ * sub-boards in a row win. The computer always plays with the offline engine.
+ */
+export const ULTIMATE_VARIANT: GameVariant = {
+  id: 'ultimate',
+  name: 'variant.ultimate',
+  layout: 'ultimate',
+  choosesMarkup: false,
+  fixedBoard: true,
+  optionalRules: false,
+  spookyMarks: false,
+  dimensions: () => ({
+    rows: ULTIMATE_BOARD_SIDE,
+    columns: ULTIMATE_BOARD_SIDE,
+    winLength: ULTIMATE_SIZE,
+  }),
+  legalMoves: (board, { lastMove }) =>
+    legalUltimateMoves(ultimateBoardOf(board, lastMove)),
+  applyMove: placeMark,
+  evaluate: (board, { lastMove }) =>
+    evaluateUltimateBoard(ultimateBoardOf(board, lastMove)),
+  markupByTurn,
+  restore: (board, _moves, lastMove) => ({
+    ultimateBoard: ultimateBoardOf(board, lastMove),
+    quantumBoard: null,
+  }),
+  aiMove: async (logic, board, markup, hardness, _engine, { lastMove }) =>
+    logic.localAiMove(hardness, (localAi, difficulty) =>
+      localAi.ultimateMove(board, markup, difficulty, lastMove)
+    ),
+};
@@ -0,0 +1,12 @@
+/**
+ * Number of rows and columns of the Ultimate meta-board,
+ * and of each of its sub-boards (3 → nine 3x3 boards).
+ * Also the number of marks in a row claiming a sub-board or winning the meta-board.
+ */
+export const ULTIMATE_SIZE = 3;
+
+/**
+ * Number of rows and columns of the flat board holding every cell
+ * of an Ultimate game (9 → a 9x9 `actualBoard`).
+ */
+export const ULTIMATE_BOARD_SIDE = ULTIMATE_SIZE * ULTIMATE_SIZE;
@@ -0,0 +1,8 @@
+import { Variant } from '../types/variant.type';
+
+/**
+ * Variant played until another one is chosen, and the one
+ * games saved before variants existed were played with.
+ * Ids that are not registered fall back to its rules (see `gameVariant`).
+ */
+export const DEFAULT_VARIANT: Variant = 'classic';
@@ -0,0 +1,27 @@
+import { GameVariant } from '../interfaces/game-variant.interface';
+import { CLASSIC_VARIANT } from './classic-variant.constant';
+import { emptyCells, placeMark } from '../functions/game-rules.function';
+import { evaluateChosenMarkupBoard } from '../functions/chosen-markup.function';
+import { markupByTurn } from '../functions/turn-order.function';
+
+/**
+ * Wild rules: a rows × columns board where every move places either mark,
+ * whoever completes a line of `winLength` marks wins.
+ * Played locally by two players only.
+ */
+export const WILD_VARIANT: GameVariant = {
+  id: 'wild',
+  name: 'variant.wild',
+  layout: 'grid',
+  choosesMarkup: true,
+  fixedBoard: false,
+  optionalRules: false,
+  spookyMarks: false,
+  dimensions: CLASSIC_VARIANT.dimensions,
+  legalMoves: emptyCells,
+  applyMove: placeMark,
+  evaluate: (board, { winLength, step, firstMarkup }) =>
+    evaluateChosenMarkupBoard(board, 'wild', winLength, step, firstMarkup),
+  markupByTurn,
+  restore: () => ({ ultimateBoard: null, quantumBoard: null }),
+};
@@ -0,0 +1,20 @@
+import { BoardDimensions } from '../interfaces/board-dimensions.interface';
+import { SavedGame } from '../interfaces/saved-game.interface';
+
+/**
+ * Returns the board dimensions of a saved game.
+ *
+ * Games saved before rows and columns were separated only store
+ * the square `size`, which is used for both dimensions.
+ *
+ * @param game - The saved game.
+ * @returns The number of rows and columns of the saved board.
+ */
+export function savedGameDimensions(
+  game: Pick<SavedGame, 'size' | 'rows' | 'columns'>
+): BoardDimensions {
+  return {
+    rows: game.rows ?? game.size,
+    columns: game.columns ?? game.size,
+  };
+}
@@ -0,0 +1,187 @@
+import {
+  BOARD_IMAGE_BACKGROUND,
+  BOARD_IMAGE_CELL,
+  BOARD_IMAGE_LABEL,
+  BOARD_IMAGE_MARKS,
+  BOARD_IMAGE_PADDING,
+} from '../constants/board-image.constant';
+import { ULTIMATE_SIZE } from '../constants/ultimate.constant';
+import { DEFAULT_VARIANT } from '../constants/variant.constant';
+import { BoardImage } from '../interfaces/board-image.interface';
+import { BoardImageSettings } from '../interfaces/board-image-settings.interface';
+import { SavedGame } from '../interfaces/saved-game.interface';
+import { Markup } from '../types/markup.type';
+import { savedGameDimensions } from './board-dimensions.function';
+import { defaultWinLength } from './game-rules.function';
+import { fileOf, rankOf } from './notation.function';
+import { firstMarkupOf } from './turn-order.function';
+import { gameVariant } from './variant.function';
+
+/**
+ * Returns the position of a saved game drawn into its board image:
+ * the final board with its last move and the winning line,
+ * evaluated with the rules of the saved variant.
+ *
+ * @param game - The saved game.
+ * @returns Every field of the board image except the theme colors.
+ */
+export function savedGameImage(
+  game: SavedGame
+): Omit<BoardImage, 'primaryColor' | 'accentColor'> {
+  const rules = gameVariant(game.variant ?? DEFAULT_VARIANT);
+  const { rows, columns } = savedGameDimensions(game);
+  const moves = game.moves ?? [];
+  // Quantum boards are evaluated on their spooky marks, rebuilt from the moves
+  const { quantumBoard } = rules.restore(game.board, moves, game.lastMove);
+  const { line } = rules.evaluate(game.board, {
+    winLength: game.winLength ?? defaultWinLength(rows, columns),
+    step: moves.length,
+    firstMarkup: firstMarkupOf(
+      game.playerMarkup ?? 'o',
+      game.firstMove ?? 'human',
+      game.opponent
+    ),
+    players: game.players ?? 2,
+    lastMove: game.lastMove,
+    quantumBoard,
+    gravity: game.gravity,
+    markOrder: game.markOrder ?? null,
+    misere: game.misere,
+  });
+  return {
+    board: game.board,
+    layout: rules.layout,
+    lastMove: game.lastMove,
+    winningLine: line,
+  };
+}
+
+/**
+ * Draws a board as a standalone SVG document.
+ *
+ * The image only depends on its arguments (no ids, dates or measured
+ * text), so the same position and settings always give the same markup:
+ *  - marks use the icons of the board cells, filled with a gradient
+ *    from the primary to the accent color,
+ *  - grid lines and labels use the primary color,
+ *    Ultimate boards get thicker sub-board borders,
+ *  - the winning line is highlighted and the last move outlined
+ *    with the accent color, when asked for,
+ *  - file letters and rank numbers are put above and left of the board
+ *    when asked for, as on the game page.
+ *
+ * @param image - Position and colors of the image.
+ * @param settings - Marks to draw besides the board.
+ * @returns The SVG markup of the image.
+ */
+export function boardImageSvg(
+  image: BoardImage,
+  settings: Omit<BoardImageSettings, 'imageFormat'>
+): string {
+  const rows = image.board.length;
+  const columns = image.board[0]?.length ?? 0;
+  const offset =
+    BOARD_IMAGE_PADDING + (settings.coordinates ? BOARD_IMAGE_LABEL : 0);
+  const width = offset + columns * BOARD_IMAGE_CELL + BOARD_IMAGE_PADDING;
+  const height = offset + rows * BOARD_IMAGE_CELL + BOARD_IMAGE_PADDING;
+  const primary = attributeOf(image.primaryColor);
+  const accent = attributeOf(image.accentColor);
+  const ultimate = image.layout === 'ultimate';
+
+  const parts: string[] = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    '<defs>',
+    '<linearGradient id="board-image-gradient" x1="0%" y1="0%" x2="100%" y2="100%">',
+    `<stop offset="0%" stop-color="${primary}"/>`,
+    `<stop offset="100%" stop-color="${accent}"/>`,
+    '</linearGradient>',
+    '</defs>',
+    `<rect width="${width}" height="${height}" fill="${BOARD_IMAGE_BACKGROUND}"/>`,
+  ];
+
+  if (settings.markWinningLine && image.winningLine) {
+    // Ultimate lines are made of whole sub-boards
+    const side = (ultimate ? ULTIMATE_SIZE : 1) * BOARD_IMAGE_CELL;
+    for (const cell of image.winningLine) {
+      parts.push(
+        `<rect x="${offset + cell.column * side}" y="${offset + cell.row * side}" width="${side}" height="${side}" fill="${accent}" fill-opacity="0.35"/>`
+      );
+    }
+  }
+
+  if (settings.markLastMove && image.lastMove) {
+    const { row, column } = image.lastMove;
+    parts.push(
+      `<rect x="${offset + column * BOARD_IMAGE_CELL + 4}" y="${offset + row * BOARD_IMAGE_CELL + 4}" width="${BOARD_IMAGE_CELL - 8}" height="${BOARD_IMAGE_CELL - 8}" fill="none" stroke="${accent}" stroke-width="6"/>`
+    );
+  }
+
+  for (let row = 0; row <= rows; row++) {
+    const y = offset + row * BOARD_IMAGE_CELL;
+    parts.push(
+      `<line x1="${offset}" y1="${y}" x2="${offset + columns * BOARD_IMAGE_CELL}" y2="${y}" stroke="${primary}" stroke-width="${lineWidth(row, ultimate)}"/>`
+    );
+  }
+  for (let column = 0; column <= columns; column++) {
+    const x = offset + column * BOARD_IMAGE_CELL;
+    parts.push(
+      `<line x1="${x}" y1="${offset}" x2="${x}" y2="${offset + rows * BOARD_IMAGE_CELL}" stroke="${primary}" stroke-width="${lineWidth(column, ultimate)}"/>`
+    );
+  }
+
+  if (settings.coordinates) {
+    const label = BOARD_IMAGE_PADDING + BOARD_IMAGE_LABEL / 2;
+    const center = offset + BOARD_IMAGE_CELL / 2;
+    const text = `text-anchor="middle" dominant-baseline="central" font-family="sans-serif" font-size="24" fill="${primary}"`;
+    for (let column = 0; column < columns; column++) {
+      parts.push(
+        `<text x="${center + column * BOARD_IMAGE_CELL}" y="${label}" ${text}>${fileOf(column)}</text>`
+      );
+    }
+    for (let row = 0; row < rows; row++) {
+      parts.push(
+        `<text x="${label}" y="${center + row * BOARD_IMAGE_CELL}" ${text}>${rankOf(row)}</text>`
+      );
+    }
+  }
+
+  image.board.forEach((cells, row) =>
+    cells.forEach((cell, column) => {
+      const path: string | undefined = BOARD_IMAGE_MARKS[cell as Markup];
+      if (!path) return;
+      parts.push(
+        `<svg x="${offset + column * BOARD_IMAGE_CELL}" y="${offset + row * BOARD_IMAGE_CELL}" width="${BOARD_IMAGE_CELL}" height="${BOARD_IMAGE_CELL}" viewBox="0 -960 960 960">`,
+        `<path fill="url(#board-image-gradient)" d="${path}"/>`,
+        '</svg>'
+      );
+    })
+  );
+
+  parts.push('</svg>');
+  return `${parts.join('\n')}\n`;
+}
+
+/**
+ * Returns the stroke width of a grid line: the borders of the sub-boards
+ * of Ultimate games are drawn thicker.
+ *
+ * @param index - Index of the line, 0 is the top or left border.
+ * @param ultimate - Whether the board is an Ultimate board.
+ * @returns The stroke width in pixels.
+ */
+function lineWidth(index: number, ultimate: boolean): number {
+  return ultimate && index % ULTIMATE_SIZE === 0 ? 6 : 2;
+}
+
+/**
+ * Escapes a value written into an SVG attribute.
+ *
+ * @param value - Raw attribute value (e.g. a theme color).
+ * @returns The value with its markup characters replaced by entities.
+ */
+function attributeOf(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,46 @@
+import { ORDER_CHAOS_WIN_LENGTH } from '../constants/order-chaos.constant';
+import { BoardEvaluation } from '../interfaces/board-evaluation.interface';
+import { PlayerMarkup } from '../types/player-markup.type';
+import { Variant } from '../types/variant.type';
+import { evaluateBoard } from './game-rules.function';
+import { markupByStep, opposingMarkup } from './turn-order.function';
+
+/**
+ * Evaluates the board of a game in which every move places either markup.
+ * The markup of a line no longer tells who won, so the result is credited
+ * to a side (the markup that side moves with):
+ *
+ * - Wild: whoever completed the line, i.e. the side of the last move.
+ * - Order and Chaos: Order, the side moving first, with `ORDER_CHAOS_WIN_LENGTH`
+ *   equal marks in a row; Chaos, the other side, once the board is full
+ *   without such a line.
+ *
+ * @param board - Board to evaluate.
+ * @param variant - `'wild'` or `'order_chaos'`.
+ * @param winLength - Number of marks in a row needed to win a Wild game.
+ * @param step - Number of moves played on the board.
+ * @param firstMarkup - Markup of the side making the first move.
+ * @returns A {@link BoardEvaluation} whose winner is the credited side.
+ */
+export function evaluateChosenMarkupBoard(
+  board: string[][],
+  variant: Variant,
+  winLength: number,
+  step: number,
+  firstMarkup: PlayerMarkup
+): BoardEvaluation {
+  if (variant === 'order_chaos') {
+    const { winner, line } = evaluateBoard(board, ORDER_CHAOS_WIN_LENGTH);
+    if (!winner) return { winner, line };
+    return {
+      winner: winner === 'draw' ? opposingMarkup(firstMarkup) : firstMarkup,
+      line,
+    };
+  }
+
+  const { winner, line } = evaluateBoard(board, winLength);
+  return {
+    winner: line ? markupByStep(step - 1, firstMarkup) : winner,
+    line,
+  };
+}
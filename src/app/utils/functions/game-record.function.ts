@@ -0,0 +1,494 @@
+import {
+  GAME_RECORD_HEADERS,
+  GAME_RECORD_RULES,
+  GAME_RECORD_UNDECIDED,
+} from '../constants/game-record.constant';
+import { HARNESS_VALUES } from '../constants/hardness.constant';
+import {
+  NOTATION_COLLAPSE,
+  NOTATION_ENTANGLED,
+  NOTATION_FILES,
+  NOTATION_MARKUP,
+} from '../constants/notation.constant';
+import { GameInfo } from '../interfaces/game-info.interface';
+import { GameRecord } from '../interfaces/game-record.interface';
+import { GameSettings } from '../interfaces/game-settings.interface';
+import { LastMove } from '../interfaces/last-move.interface';
+import { MoveRecord } from '../interfaces/move-record.interface';
+import { Hardness } from '../types/hardness.type';
+import { Markup } from '../types/markup.type';
+import { Variant } from '../types/variant.type';
+import { messageError } from './message-error.function';
+import { resultWinner } from './misere.function';
+import { redoMoves } from './move-history.function';
+import { cellNotation, notationText } from './notation.function';
+import { sameCell } from './quantum.function';
+import { firstMarkupOf, playerCountOf } from './turn-order.function';
+import {
+  gameVariant,
+  playedVariant,
+  registeredVariants,
+} from './variant.function';
+
+/** Name of a game record header. */
+type GameRecordHeader = (typeof GAME_RECORD_HEADERS)[number];
+
+/** Shortest and longest board side of a recorded classic game. */
+const RECORD_SIDES = { min: 3, max: NOTATION_FILES.length } as const;
+
+/** Pattern of a header line, e.g. `[Variant "classic"]`. */
+const HEADER_PATTERN = /^\[(\w+)\s+"([^"]*)"\]$/;
+
+/** Pattern of a move number token, e.g. `12.`. */
+const TURN_NUMBER_PATTERN = /^\d+\.$/;
+
+/** Pattern of a cell, e.g. `b2`. */
+const CELL_PATTERN = `[${NOTATION_FILES[0]}-${
+  NOTATION_FILES[NOTATION_FILES.length - 1]
+}][1-9]`;
+
+/**
+ * Pattern of a move token (see `moveNotation`): an optional collapse,
+ * the cell, an optional entangled cell and an optional placed markup,
+ * e.g. `b2`, `b2>a1-c3` or `b2=X`.
+ */
+const MOVE_PATTERN = new RegExp(
+  `^(?:(${CELL_PATTERN})${NOTATION_COLLAPSE})?(${CELL_PATTERN})` +
+    `(?:${NOTATION_ENTANGLED}(${CELL_PATTERN}))?` +
+    `(?:${NOTATION_MARKUP}([XOT]))?$`
+);
+
+/**
+ * Builds the game record of the current game.
+ *
+ * The record holds the variant the game is actually played with
+ * (see `playedVariant`), the dimensions of its board, and the optional rules
+ * that apply to it: gravity and vanishing marks in classic games,
+ * misère in classic two-player games.
+ * The result is credited to the side that won under the misère rule
+ * or on time (see `resultWinner`).
+ *
+ * @param settings - Game settings.
+ * @param gameInfo - Current gameInfo state.
+ * @param difficulty - Difficulty level of the computer.
+ * @param date - Day the record is written.
+ * @returns The record of the game.
+ */
+export function gameRecordOf(
+  settings: GameSettings,
+  gameInfo: GameInfo,
+  difficulty: Hardness,
+  date: Date
+): GameRecord {
+  const variant = playedVariant(settings);
+  const rules = gameVariant(variant);
+  const { rows, columns, winLength } = rules.dimensions(settings);
+  const optional = rules.optionalRules;
+  const players = playerCountOf(settings);
+  const misere = optional && players === 2 && settings.misere;
+  return {
+    variant,
+    rows,
+    columns,
+    winLength,
+    gravity: optional && settings.gravity,
+    vanishing: optional && settings.vanishing,
+    misere,
+    players,
+    firstMarkup: firstMarkupOf(
+      settings.playerMarkup,
+      settings.firstMove,
+      settings.opponent
+    ),
+    difficulty,
+    result: resultWinner(gameInfo.winner, misere, gameInfo.timeout) ?? null,
+    date: date.toISOString().slice(0, 10),
+    moves: gameInfo.moveHistory ?? [],
+  };
+}
+
+/**
+ * Writes a game record as text: one `[Name "value"]` line per header
+ * (see `GAME_RECORD_HEADERS`), a blank line, then the move list
+ * (see `notationText`).
+ *
+ * @example
+ * ```text
+ * [Variant "classic"]
+ * [Size "3x3"]
+ * [WinLength "3"]
+ * [Players "2"]
+ * [FirstMarkup "O"]
+ * [Difficulty "medium"]
+ * [Result "O"]
+ * [Date "2026-10-19"]
+ *
+ * 1. b2 a1 2. a2 c1 3. c2
+ * ```
+ *
+ * @param record - Game record.
+ * @returns The text of the record.
+ */
+export function serializeGameRecord(record: GameRecord): string {
+  const rules = GAME_RECORD_RULES.filter((rule) => record[rule]);
+  const headers: Record<GameRecordHeader, string | null> = {
+    Variant: record.variant,
+    Size: `${record.rows}x${record.columns}`,
+    WinLength: `${record.winLength}`,
+    // Left out when a classic game is played without optional rules
+    Rules: rules.length ? rules.join(' ') : null,
+    Players: `${record.players}`,
+    FirstMarkup: record.firstMarkup.toUpperCase(),
+    Difficulty: record.difficulty,
+    Result: record.result
+      ? record.result === 'draw'
+        ? record.result
+        : record.result.toUpperCase()
+      : GAME_RECORD_UNDECIDED,
+    Date: record.date,
+  };
+  const lines = GAME_RECORD_HEADERS.filter(
+    (name) => headers[name] !== null
+  ).map((name) => `[${name} "${headers[name]}"]`);
+  const moves = notationText(
+    record.moves,
+    record.players,
+    gameVariant(record.variant).choosesMarkup
+  );
+  return `${lines.join('\n')}\n\n${moves}\n`;
+}
+
+/**
+ * Reads a game record written by `serializeGameRecord`.
+ *
+ * Every header is checked against the settings the game can be played with,
+ * and the moves are replayed to make sure each of them was legal
+ * (see `recordPosition`) and that they lead to the recorded result:
+ * a decided board must give the result (see `resultWinner`),
+ * an undecided one may only have been lost on time by one of two players.
+ *
+ * @param text - Text of the record.
+ * @returns The record read from the text.
+ * @throws MessageError with a message describing the first problem of the record.
+ */
+export function parseGameRecord(text: string): GameRecord {
+  const headers = new Map<string, string>();
+  const tokens: string[] = [];
+  for (const line of text.split(/\r?\n/).map((line) => line.trim())) {
+    if (!line) continue;
+    if (!line.startsWith('[')) {
+      tokens.push(...line.split(/\s+/));
+      continue;
+    }
+    const header = HEADER_PATTERN.exec(line);
+    if (!header) {
+      throw messageError('record.invalidHeaderLine', { value: line });
+    }
+    const [, name, value] = header;
+    if (tokens.length) {
+      throw messageError('record.headerAfterMoves', { value: name });
+    }
+    if (!(GAME_RECORD_HEADERS as readonly string[]).includes(name)) {
+      throw messageError('record.unknownHeader', { value: name });
+    }
+    if (headers.has(name)) {
+      throw messageError('record.duplicateHeader', { value: name });
+    }
+    headers.set(name, value);
+  }
+  for (const name of GAME_RECORD_HEADERS) {
+    if (name !== 'Rules' && !headers.has(name)) {
+      throw messageError('record.missingHeader', { value: name });
+    }
+  }
+
+  const settings = parseRecordSettings({
+    variant: headers.get('Variant')!,
+    size: headers.get('Size')!,
+    winLength: headers.get('WinLength')!,
+    rules: (headers.get('Rules') ?? '').split(/\s+/).filter(Boolean),
+    players: headers.get('Players')!,
+    firstMarkup: headers.get('FirstMarkup')!,
+  });
+  const { variant, rows, columns, players, firstMarkup } = settings;
+  const rules = gameVariant(variant);
+
+  const difficulty = headers.get('Difficulty') as Hardness;
+  if (!HARNESS_VALUES.includes(difficulty)) {
+    throw messageError('record.invalidDifficulty', { value: difficulty });
+  }
+
+  const resultValue = headers.get('Result')!;
+  const result =
+    resultValue === GAME_RECORD_UNDECIDED
+      ? null
+      : resultValue === 'draw'
+      ? resultValue
+      : (resultValue.toLowerCase() as Markup);
+  if (
+    result !== null &&
+    result !== 'draw' &&
+    result !== 'o' &&
+    result !== 'x' &&
+    !(result === 't' && players === 3)
+  ) {
+    throw messageError('record.invalidResult', { value: resultValue });
+  }
+
+  const date = headers.get('Date')!;
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || Number.isNaN(Date.parse(date))) {
+    throw messageError('record.invalidDate', { value: date });
+  }
+  const timestamp = Date.parse(date);
+
+  const moves: MoveRecord[] = tokens
+    .filter((token) => !TURN_NUMBER_PATTERN.test(token))
+    .map((token, index) => {
+      const move = MOVE_PATTERN.exec(token);
+      if (!move) throw messageError('record.invalidMove', { value: token });
+      const [, collapse, cell, entangled, markup] = move;
+      const parsed = cellOf(cell, rows, columns, token);
+      const parsedEntangled =
+        entangled && cellOf(entangled, rows, columns, token);
+      const parsedCollapse = collapse && cellOf(collapse, rows, columns, token);
+      if ((entangled || collapse) && !rules.spookyMarks) {
+        throw messageError('record.spookyMarks', { value: token });
+      }
+      if (!!markup !== rules.choosesMarkup) {
+        throw messageError(
+          rules.choosesMarkup
+            ? 'record.missingMarkup'
+            : 'record.markupNotChosen',
+          { value: token }
+        );
+      }
+      const placed = markup
+        ? (markup.toLowerCase() as Markup)
+        : rules.markupByTurn(index, firstMarkup, players);
+      if (markup && placed === 't') {
+        throw messageError('record.invalidMoveMarkup', { value: token });
+      }
+      return {
+        ...parsed,
+        markup: placed,
+        timestamp,
+        ...(parsedEntangled ? { entangled: parsedEntangled } : {}),
+        ...(parsedCollapse ? { collapse: parsedCollapse } : {}),
+      };
+    });
+
+  const record: GameRecord = {
+    ...settings,
+    difficulty,
+    result,
+    date,
+    moves,
+  };
+  // Replays the moves, which throws on the first illegal one
+  const { winner } = recordPosition(record);
+  if (
+    winner
+      ? result !== resultWinner(winner, record.misere)
+      : result === 'draw' || (result !== null && players === 3)
+  ) {
+    throw messageError('record.resultContradicts', { value: resultValue });
+  }
+  return record;
+}
+
+/**
+ * Reads the settings a game was played with, written as text
+ * in a game record or a shared position link.
+ *
+ * - the variant must be registered,
+ * - the board must be 3–9 cells wide and tall, and fixed boards
+ *   must keep the dimensions of their variant,
+ * - the win length must be playable on the board,
+ * - the optional rules only apply to classic games,
+ *   the misère rule to two players only,
+ * - three players are only seated where `playerCountOf` allows them.
+ *
+ * @param values - Settings as text.
+ * @param values.variant - Id of the variant, e.g. "classic".
+ * @param values.size - Rows × columns of the board, e.g. "6x7".
+ * @param values.winLength - Number of marks in a row needed to win.
+ * @param values.rules - Names of the optional rules (see `GAME_RECORD_RULES`).
+ * @param values.players - Number of players, "2" or "3".
+ * @param values.firstMarkup - Markup making the first move, "X" or "O".
+ * @returns The settings read from the text.
+ * @throws MessageError with a message describing the first invalid setting.
+ */
+export function parseRecordSettings(values: {
+  variant: string;
+  size: string;
+  winLength: string;
+  rules: string[];
+  players: string;
+  firstMarkup: string;
+}): Omit<GameRecord, 'difficulty' | 'result' | 'date' | 'moves'> {
+  const variant = values.variant as Variant;
+  if (!registeredVariants().some((rules) => rules.id === variant)) {
+    throw messageError('record.unknownVariant', { value: values.variant });
+  }
+
+  const size = /^(\d)x(\d)$/.exec(values.size);
+  const [rows, columns] = size ? [+size[1], +size[2]] : [0, 0];
+  const winLength = Number(values.winLength);
+  // Fixed boards ignore the dimensions, so any valid ones can be passed
+  const dimensions = gameVariant(variant).dimensions({
+    rows,
+    columns,
+    winLength,
+  });
+  if (
+    !size ||
+    Math.min(rows, columns) < RECORD_SIDES.min ||
+    Math.max(rows, columns) > RECORD_SIDES.max ||
+    dimensions.rows !== rows ||
+    dimensions.columns !== columns
+  ) {
+    throw messageError('record.invalidBoardSize', { value: values.size });
+  }
+  if (
+    !Number.isInteger(winLength) ||
+    winLength < RECORD_SIDES.min ||
+    dimensions.winLength !== winLength
+  ) {
+    throw messageError('record.invalidWinLength', { value: values.winLength });
+  }
+
+  for (const rule of values.rules) {
+    if (!(GAME_RECORD_RULES as readonly string[]).includes(rule)) {
+      throw messageError('record.unknownRule', { value: rule });
+    }
+  }
+  if (values.rules.length && !gameVariant(variant).optionalRules) {
+    throw messageError('record.optionalRules');
+  }
+
+  const players = Number(values.players);
+  const seated =
+    players === 3 || players === 2
+      ? playerCountOf({
+          players,
+          opponent: 'player',
+          variant,
+          rows,
+          columns,
+        })
+      : null;
+  if (seated !== players) {
+    throw messageError('record.invalidPlayers', { value: values.players });
+  }
+  if (values.rules.includes('misere') && players === 3) {
+    throw messageError('record.misereThreePlayers');
+  }
+
+  const firstMarkup = values.firstMarkup.toLowerCase();
+  if (firstMarkup !== 'o' && firstMarkup !== 'x') {
+    throw messageError('record.invalidFirstMarkup', {
+      value: values.firstMarkup,
+    });
+  }
+
+  return {
+    variant,
+    rows,
+    columns,
+    winLength,
+    gravity: values.rules.includes('gravity'),
+    vanishing: values.rules.includes('vanishing'),
+    misere: values.rules.includes('misere'),
+    players,
+    firstMarkup,
+  };
+}
+
+/**
+ * Replays the moves of a game record on an empty board.
+ *
+ * Every move is checked against the legal moves of the variant
+ * (see `GameVariant.legalMoves`) before it is played,
+ * and no move may follow the end of the game.
+ *
+ * @param record - Game record.
+ * @returns The gameInfo state reached after the moves of the record.
+ * @throws MessageError when a move of the record is illegal.
+ */
+export function recordPosition(record: GameRecord): GameInfo {
+  const rules = gameVariant(record.variant);
+  const board = Array.from({ length: record.rows }, () =>
+    Array.from({ length: record.columns }, () => '')
+  );
+  let state: GameInfo = {
+    actualBoard: board,
+    ...rules.restore(board, [], undefined),
+    markOrder: record.vanishing ? { x: [], o: [] } : null,
+    actualStep: 0,
+    actualMarkup: record.firstMarkup,
+    winner: null,
+    winningLine: null,
+    moveHistory: [],
+    // The moves are replayed from the redo history, the next one last
+    redoHistory: [...record.moves].reverse(),
+  };
+
+  record.moves.forEach((move, step) => {
+    const notation = cellNotation(move);
+    if (state.winner) {
+      throw messageError('record.moveAfterEnd', { value: notation });
+    }
+    const legal = rules.legalMoves(state.actualBoard!, {
+      winLength: record.winLength,
+      step,
+      firstMarkup: record.firstMarkup,
+      players: record.players,
+      lastMove: state.lastMove,
+      quantumBoard: state.quantumBoard,
+      gravity: record.gravity,
+    });
+    const cells = [move, ...(move.entangled ? [move.entangled] : [])];
+    // A collapse decides the cells of the turn before its spooky mark is placed
+    if (
+      !move.collapse &&
+      !cells.every((cell) =>
+        legal.some((legalCell) => sameCell(legalCell, cell))
+      )
+    ) {
+      throw messageError('record.illegalMove', { value: notation });
+    }
+    state = redoMoves(
+      state,
+      1,
+      record.winLength,
+      record.firstMarkup,
+      record.players,
+      record.variant
+    );
+  });
+  return state;
+}
+
+/**
+ * Reads the cell of a move token.
+ *
+ * @param notation - Notation of the cell, e.g. "b2".
+ * @param rows - Number of board rows.
+ * @param columns - Number of board columns.
+ * @param token - Move token the cell belongs to (used in the error message).
+ * @returns The coordinates of the cell.
+ * @throws MessageError when the cell is off the board.
+ */
+function cellOf(
+  notation: string,
+  rows: number,
+  columns: number,
+  token: string
+): LastMove {
+  const column = (NOTATION_FILES as readonly string[]).indexOf(notation[0]);
+  const row = Number(notation.slice(1)) - 1;
+  if (column >= columns || row >= rows) {
+    throw messageError('record.moveOffBoard', { value: token });
+  }
+  return { row, column };
+}
@@ -0,0 +1,152 @@
+import { BoardEvaluation } from '../interfaces/board-evaluation.interface';
+import { LastMove } from '../interfaces/last-move.interface';
+import { Markup } from '../types/markup.type';
+
+/**
+ * Line directions checked from every cell as `[rowStep, columnStep]` pairs:
+ * horizontal, vertical, diagonal and anti-diagonal.
+ */
+const DIRECTIONS: readonly (readonly [number, number])[] = [
+  [0, 1],
+  [1, 0],
+  [1, 1],
+  [1, -1],
+];
+
+/**
+ * Returns the number of marks in a row needed to win on a board of the given dimensions.
+ *
+ * Small boards (3–5) must be completed from edge to edge along their shorter side,
+ * larger boards follow the gomoku rule of five in a row.
+ *
+ * @param rows - Number of board rows (e.g. 3 for a 3x3 board).
+ * @param columns - Number of board columns (defaults to `rows`, a square board).
+ * @returns Required line length.
+ */
+export function defaultWinLength(rows: number, columns: number = rows): number {
+  return Math.min(rows, columns, 5);
+}
+
+/**
+ * Returns the length of the longest line fitting on the board,
+ * i.e. the number of cells along its longer side.
+ *
+ * @param board - Board as a 2D array ('x', 'o' or '' per cell).
+ * @returns The larger of the row and column counts.
+ */
+export function longestLine(board: string[][]): number {
+  return Math.max(board.length, board[0]?.length ?? 0);
+}
+
+/**
+ * Searches the board for a run of `winLength` identical, non-empty marks.
+ *
+ * Every cell is treated as a potential line start in all four directions.
+ * A run is only started where the previous cell in that direction holds
+ * a different mark, so each line is reported from its first cell.
+ *
+ * @param board - Board as a 2D array ('x', 'o' or '' per cell).
+ * @param winLength - Number of marks in a row needed to win.
+ * @returns The cells of the first winning line found, or `null` if there is none.
+ */
+export function findWinningLine(
+  board: string[][],
+  winLength: number
+): LastMove[] | null {
+  if (winLength < 1) return null;
+
+  for (let row = 0; row < board.length; row++) {
+    for (let column = 0; column < board[row].length; column++) {
+      const markup = board[row][column];
+      if (!markup) continue;
+
+      for (const [rowStep, columnStep] of DIRECTIONS) {
+        // Skip cells that are in the middle of a run already checked
+        if (board[row - rowStep]?.[column - columnStep] === markup) continue;
+
+        const line: LastMove[] = [];
+        let actualRow = row;
+        let actualColumn = column;
+
+        while (
+          line.length < winLength &&
+          board[actualRow]?.[actualColumn] === markup
+        ) {
+          line.push({ row: actualRow, column: actualColumn });
+          actualRow += rowStep;
+          actualColumn += columnStep;
+        }
+
+        if (line.length === winLength) return line;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Evaluates a board and reports the winner, a draw, or an ongoing game.
+ *
+ * - A completed line wins, regardless of whether the board is full.
+ * - A full board without a line is a draw.
+ * - Otherwise the game is still ongoing.
+ *
+ * The win length is capped at the longer side of the board so an oversized
+ * value never makes a board unwinnable.
+ *
+ * @param board - Board as a 2D array ('x', 'o' or '' per cell).
+ * @param winLength - Number of marks in a row needed to win (defaults to {@link defaultWinLength}).
+ * @returns A {@link BoardEvaluation} with the winner and the winning line.
+ */
+export function evaluateBoard(
+  board: string[][],
+  winLength: number = defaultWinLength(board.length, board[0]?.length)
+): BoardEvaluation {
+  const line = findWinningLine(board, Math.min(winLength, longestLine(board)));
+
+  if (line) {
+    return {
+      winner: board[line[0].row][line[0].column] as Markup,
+      line,
+    };
+  }
+
+  const full = board.every((row) => row.every((cell) => cell !== ''));
+  return { winner: full ? 'draw' : null, line: null };
+}
+
+/**
+ * Collects every empty cell of the board in row-major order,
+ * i.e. every legal move of a game with free placement.
+ *
+ * @param board - Board as a 2D array ('x', 'o' or '' per cell).
+ * @returns Coordinates of all empty cells.
+ */
+export function emptyCells(board: string[][]): LastMove[] {
+  const cells: LastMove[] = [];
+  board.forEach((row, rowIndex) =>
+    row.forEach((cell, column) => {
+      if (!cell) cells.push({ row: rowIndex, column });
+    })
+  );
+  return cells;
+}
+
+/**
+ * Places a mark into a cell of a copy of the board.
+ *
+ * @param board - Board as a 2D array ('x', 'o' or '' per cell).
+ * @param cell - Cell the mark is placed into.
+ * @param markup - Mark to place.
+ * @returns A new board holding the mark.
+ */
+export function placeMark(
+  board: string[][],
+  cell: LastMove,
+  markup: Markup
+): string[][] {
+  const next = board.map((row) => [...row]);
+  next[cell.row][cell.column] = markup;
+  return next;
+}
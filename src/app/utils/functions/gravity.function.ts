@@ -0,0 +1,32 @@
+import { LastMove } from '../interfaces/last-move.interface';
+
+/**
+ * Finds the row a mark dropped into a column lands in:
+ * the lowest empty cell of the column.
+ *
+ * @param board - Current board ('x', 'o' or '' per cell).
+ * @param column - Column the mark is dropped into.
+ * @returns The landing row, or `null` if the column is full.
+ */
+export function dropRow(board: string[][], column: number): number | null {
+  for (let row = board.length - 1; row >= 0; row--) {
+    if (board[row][column] === '') return row;
+  }
+  return null;
+}
+
+/**
+ * Collects the landing cell of every column that is not full yet,
+ * i.e. every legal move of a gravity game, from left to right.
+ *
+ * @param board - Current board ('x', 'o' or '' per cell).
+ * @returns Cells a dropped mark may land in.
+ */
+export function gravityMoves(board: string[][]): LastMove[] {
+  const moves: LastMove[] = [];
+  for (let column = 0; column < (board[0]?.length ?? 0); column++) {
+    const row = dropRow(board, column);
+    if (row !== null) moves.push({ row, column });
+  }
+  return moves;
+}
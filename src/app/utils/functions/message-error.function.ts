@@ -0,0 +1,48 @@
+import { MessageKey } from '../types/message-key.type';
+import { MessageError } from '../interfaces/message-error.interface';
+import { EN_MESSAGES } from '../constants/messages-en.constant';
+
+/**
+ * Fills in the `{name}` placeholders of a catalog text.
+ *
+ * @param text - Text of a message catalog.
+ * @param params - Values of the placeholders.
+ * @returns The text with its placeholders filled in, placeholders without a value are kept.
+ */
+export function fillPlaceholders(
+  text: string,
+  params: Record<string, string | number>
+): string {
+  return text.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder
+  );
+}
+
+/**
+ * Creates an error explained by a text of the message catalogs.
+ * Its `message` is the English text, the key and the parameters
+ * let the user interface show it in the chosen language.
+ *
+ * @param key - Message key of the explanation.
+ * @param params - Values of the `{name}` placeholders of the explanation.
+ * @returns The error to throw.
+ */
+export function messageError(
+  key: MessageKey,
+  params: Record<string, string | number> = {}
+): MessageError {
+  return Object.assign(new Error(fillPlaceholders(EN_MESSAGES[key], params)), {
+    key,
+    params,
+  });
+}
+
+/**
+ * Tells whether an error was created by `messageError`.
+ *
+ * @param error - Caught error.
+ * @returns Whether the error carries a message key.
+ */
+export function isMessageError(error: unknown): error is MessageError {
+  return error instanceof Error && 'key' in error && 'params' in error;
+}
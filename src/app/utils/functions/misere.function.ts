@@ -0,0 +1,24 @@
+import { GameInfo } from '../interfaces/game-info.interface';
+import { opposingMarkup } from './turn-order.function';
+
+/**
+ * Returns the side credited with the result of a game.
+ *
+ * The stored winner is always the side that completed a line
+ * (or the side left on the clock after a loss on time).
+ * Under the misère rule completing a line loses, so that result is credited
+ * to the other side; draws and losses on time are not affected.
+ *
+ * @param winner - Stored winner of the game.
+ * @param misere - Whether completing a line loses instead of winning.
+ * @param timeout - Markup of the side that lost on time, if any.
+ * @returns The side that won the game, 'draw', or the unchanged empty value.
+ */
+export function resultWinner(
+  winner: GameInfo['winner'],
+  misere: boolean,
+  timeout?: GameInfo['timeout']
+): GameInfo['winner'] {
+  if (!misere || timeout || (winner !== 'x' && winner !== 'o')) return winner;
+  return opposingMarkup(winner);
+}
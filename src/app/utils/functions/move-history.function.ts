@@ -0,0 +1,210 @@
+import { GameInfo } from '../interfaces/game-info.interface';
+import { MoveRecord } from '../interfaces/move-record.interface';
+import { PlayerMarkup } from '../types/player-markup.type';
+import { PlayerCount } from '../types/player-count.type';
+import { Variant } from '../types/variant.type';
+import { DEFAULT_VARIANT } from '../constants/variant.constant';
+import { ultimateBoardOf } from './ultimate.function';
+import { classicalBoardOf, quantumBoardOf } from './quantum.function';
+import {
+  positionAfterVanishingMoves,
+  vanishingLimit,
+} from './vanishing.function';
+import { gameVariant } from './variant.function';
+
+/**
+ * Takes back the last `moves` moves of the move history.
+ *
+ * The cells of the removed moves are cleared on a copy of the board,
+ * the removed moves are pushed onto the redo history (the most recently
+ * undone move is replayed first), and every derived field is rebuilt.
+ *
+ * @param state - Current gameInfo state.
+ * @param moves - Number of moves to take back (capped at the history length).
+ * @param winLength - Number of marks in a row needed to win.
+ * @param firstMarkup - Markup making the first move of the game (default 'o').
+ * @param players - Number of players of the game (default 2).
+ * @param variant - Variant the game is played with (default `DEFAULT_VARIANT`).
+ * @returns The new gameInfo state, or the unchanged state if nothing can be undone.
+ */
+export function undoMoves(
+  state: GameInfo,
+  moves: number,
+  winLength: number,
+  firstMarkup: PlayerMarkup = 'o',
+  players: PlayerCount = 2,
+  variant: Variant = DEFAULT_VARIANT
+): GameInfo {
+  const history = state.moveHistory ?? [];
+  const count = Math.min(moves, history.length);
+  if (!state.actualBoard || count <= 0) return state;
+
+  const board = state.actualBoard.map((row) => [...row]);
+  const undone = history.slice(history.length - count);
+  for (const move of undone) {
+    board[move.row][move.column] = '';
+  }
+
+  return rebuildState(
+    state,
+    board,
+    history.slice(0, history.length - count),
+    [...(state.redoHistory ?? []), ...undone.reverse()],
+    (state.actualStep ?? 0) - count,
+    winLength,
+    firstMarkup,
+    players,
+    variant
+  );
+}
+
+/**
+ * Replays the last `moves` undone moves from the redo history.
+ *
+ * The replayed marks are written onto a copy of the board and appended
+ * to the move history again, then every derived field is rebuilt.
+ *
+ * @param state - Current gameInfo state.
+ * @param moves - Number of moves to replay (capped at the redo history length).
+ * @param winLength - Number of marks in a row needed to win.
+ * @param firstMarkup - Markup making the first move of the game (default 'o').
+ * @param players - Number of players of the game (default 2).
+ * @param variant - Variant the game is played with (default `DEFAULT_VARIANT`).
+ * @returns The new gameInfo state, or the unchanged state if nothing can be redone.
+ */
+export function redoMoves(
+  state: GameInfo,
+  moves: number,
+  winLength: number,
+  firstMarkup: PlayerMarkup = 'o',
+  players: PlayerCount = 2,
+  variant: Variant = DEFAULT_VARIANT
+): GameInfo {
+  const redoHistory = state.redoHistory ?? [];
+  const count = Math.min(moves, redoHistory.length);
+  if (!state.actualBoard || count <= 0) return state;
+
+  const board = state.actualBoard.map((row) => [...row]);
+  const redone = redoHistory.slice(redoHistory.length - count).reverse();
+  for (const move of redone) {
+    board[move.row][move.column] = move.markup;
+  }
+
+  return rebuildState(
+    state,
+    board,
+    [...(state.moveHistory ?? []), ...redone],
+    redoHistory.slice(0, redoHistory.length - count),
+    (state.actualStep ?? 0) + count,
+    winLength,
+    firstMarkup,
+    players,
+    variant
+  );
+}
+
+/**
+ * Derives the step-dependent fields of the gameInfo state from a rebuilt board.
+ *
+ * - `actualMarkup`: the markup whose turn it is, by the turn order of the variant
+ * - `lastMove`: coordinates of the last move left in the history
+ * - `winner`, `winningLine`: re-evaluated with the rules of the variant
+ *   (see `gameVariant`)
+ * - `ultimateBoard`: rebuilt in Ultimate games
+ * - `quantumBoard`: rebuilt in quantum games by replaying the move history,
+ *   the board then only holds its classical marks
+ * - `markOrder`: rebuilt in vanishing-marks games by replaying the move history,
+ *   which also brings back the marks that vanished after the rebuilt position
+ * - `timeout`: cleared, a loss on time only belongs to the original position
+ * - `started`: cleared when the rebuilt board is already decided
+ *
+ * @param state - Current gameInfo state.
+ * @param board - Rebuilt board.
+ * @param moveHistory - Move history belonging to the rebuilt board.
+ * @param redoHistory - Redo history belonging to the rebuilt board.
+ * @param step - Step number belonging to the rebuilt board.
+ * @param winLength - Number of marks in a row needed to win.
+ * @param firstMarkup - Markup making the first move of the game.
+ * @param players - Number of players of the game.
+ * @param variant - Variant the game is played with.
+ * @returns The rebuilt gameInfo state.
+ */
+function rebuildState(
+  state: GameInfo,
+  board: string[][],
+  moveHistory: MoveRecord[],
+  redoHistory: MoveRecord[],
+  step: number,
+  winLength: number,
+  firstMarkup: PlayerMarkup,
+  players: PlayerCount,
+  variant: Variant
+): GameInfo {
+  const last = moveHistory[moveHistory.length - 1];
+  const vanishing = state.markOrder
+    ? positionAfterVanishingMoves(
+        board.length,
+        board[0]?.length ?? 0,
+        moveHistory,
+        vanishingLimit(board, winLength)
+      )
+    : null;
+  const quantumBoard = state.quantumBoard
+    ? quantumBoardOf(moveHistory)
+    : state.quantumBoard;
+  const rebuiltBoard = quantumBoard
+    ? classicalBoardOf(quantumBoard)
+    : vanishing?.board ?? board;
+  const ultimateBoard = state.ultimateBoard
+    ? ultimateBoardOf(rebuiltBoard, last)
+    : state.ultimateBoard;
+  const rules = gameVariant(variant);
+  const { winner, line } = rules.evaluate(rebuiltBoard, {
+    winLength,
+    step,
+    firstMarkup,
+    players,
+    lastMove: last,
+    quantumBoard,
+  });
+
+  return {
+    ...state,
+    actualBoard: rebuiltBoard,
+    ultimateBoard,
+    quantumBoard,
+    markOrder: vanishing?.markOrder ?? state.markOrder,
+    actualStep: step,
+    actualMarkup: rules.markupByTurn(step, firstMarkup, players),
+    lastMove: last ? { row: last.row, column: last.column } : undefined,
+    winner,
+    winningLine: line,
+    timeout: null,
+    started: winner ? false : state.started,
+    moveHistory,
+    redoHistory,
+  };
+}
+
+/**
+ * Builds the board reached after playing the given moves on an empty board.
+ * Used by the replay viewer to show any intermediate position of a saved game.
+ *
+ * @param rows - Number of board rows.
+ * @param columns - Number of board columns.
+ * @param moves - Moves to play, in playing order.
+ * @returns A new `rows × columns` board containing the marks of the moves.
+ */
+export function boardAfterMoves(
+  rows: number,
+  columns: number,
+  moves: MoveRecord[]
+): string[][] {
+  const board = Array.from({ length: rows }, () =>
+    Array.from({ length: columns }, () => '')
+  );
+  for (const move of moves) {
+    board[move.row][move.column] = move.markup;
+  }
+  return board;
+}
@@ -0,0 +1,113 @@
+import {
+  NOTATION_COLLAPSE,
+  NOTATION_ENTANGLED,
+  NOTATION_FILES,
+  NOTATION_MARKUP,
+} from '../constants/notation.constant';
+import { LastMove } from '../interfaces/last-move.interface';
+import { MoveRecord } from '../interfaces/move-record.interface';
+import { NotationTurn } from '../interfaces/notation-turn.interface';
+import { PlayerCount } from '../types/player-count.type';
+
+/**
+ * Returns the file letter of a board column.
+ *
+ * @param column - Zero-based column index.
+ * @returns The letter of the column ('a' for the first one).
+ */
+export function fileOf(column: number): string {
+  return NOTATION_FILES[column];
+}
+
+/**
+ * Returns the rank number of a board row (1 on the top row).
+ *
+ * @param row - Zero-based row index.
+ * @returns The number of the row.
+ */
+export function rankOf(row: number): string {
+  return `${row + 1}`;
+}
+
+/**
+ * Returns the notation of a cell, e.g. "b2" for the second row and column.
+ *
+ * @param cell - Coordinates of the cell.
+ * @returns The file letter followed by the rank number.
+ */
+export function cellNotation(cell: LastMove): string {
+  return `${fileOf(cell.column)}${rankOf(cell.row)}`;
+}
+
+/**
+ * Returns the notation of a single move:
+ *  - a classic mark is its cell, e.g. "b2",
+ *  - a spooky mark joins its two cells, e.g. "a1-c3",
+ *  - a collapse at the start of a quantum turn is put before the move,
+ *    e.g. "b2>a1-c3" (or "b2>b2" when the collapse decided the game),
+ *  - in Wild and Order and Chaos games the placed markup follows, e.g. "b2=X".
+ *
+ * @param move - Move of the move history.
+ * @param choosesMarkup - Whether the player to move chooses the markup placed.
+ * @returns The notation of the move.
+ */
+export function moveNotation(
+  move: MoveRecord,
+  choosesMarkup: boolean
+): string {
+  const collapse = move.collapse
+    ? `${cellNotation(move.collapse)}${NOTATION_COLLAPSE}`
+    : '';
+  const entangled = move.entangled
+    ? `${NOTATION_ENTANGLED}${cellNotation(move.entangled)}`
+    : '';
+  const markup = choosesMarkup
+    ? `${NOTATION_MARKUP}${move.markup.toUpperCase()}`
+    : '';
+  return `${collapse}${cellNotation(move)}${entangled}${markup}`;
+}
+
+/**
+ * Groups a move history into numbered turns of one move per seated player,
+ * e.g. "1. b2 c3" in two-player games.
+ *
+ * @param moves - Move history, in playing order.
+ * @param players - Number of players seated in the game.
+ * @param choosesMarkup - Whether the player to move chooses the markup placed.
+ * @returns The turns of the game (the last one may be incomplete).
+ */
+export function notationTurns(
+  moves: MoveRecord[],
+  players: PlayerCount,
+  choosesMarkup: boolean
+): NotationTurn[] {
+  const turns: NotationTurn[] = [];
+  for (let start = 0; start < moves.length; start += players) {
+    turns.push({
+      number: start / players + 1,
+      start,
+      moves: moves
+        .slice(start, start + players)
+        .map((move) => moveNotation(move, choosesMarkup)),
+    });
+  }
+  return turns;
+}
+
+/**
+ * Writes a move history as a single line, e.g. "1. b2 c3 2. a1".
+ *
+ * @param moves - Move history, in playing order.
+ * @param players - Number of players seated in the game.
+ * @param choosesMarkup - Whether the player to move chooses the markup placed.
+ * @returns The notation of the whole game (empty without moves).
+ */
+export function notationText(
+  moves: MoveRecord[],
+  players: PlayerCount,
+  choosesMarkup: boolean
+): string {
+  return notationTurns(moves, players, choosesMarkup)
+    .map((turn) => `${turn.number}. ${turn.moves.join(' ')}`)
+    .join(' ');
+}
@@ -0,0 +1,280 @@
+import { QUANTUM_SIZE } from '../constants/quantum.constant';
+import { BoardEvaluation } from '../interfaces/board-evaluation.interface';
+import { LastMove } from '../interfaces/last-move.interface';
+import { MoveRecord } from '../interfaces/move-record.interface';
+import { QuantumState } from '../interfaces/quantum-state.interface';
+import { QuantumMark } from '../interfaces/quantum-mark.interface';
+import { SpookyMark } from '../interfaces/spooky-mark.interface';
+import { PlayerMarkup } from '../types/player-markup.type';
+
+/**
+ * Every line of a quantum board: the rows, the columns and both diagonals.
+ */
+const QUANTUM_LINES: LastMove[][] = [
+  ...Array.from({ length: QUANTUM_SIZE }, (_, row) =>
+    Array.from({ length: QUANTUM_SIZE }, (_, column) => ({ row, column }))
+  ),
+  ...Array.from({ length: QUANTUM_SIZE }, (_, column) =>
+    Array.from({ length: QUANTUM_SIZE }, (_, row) => ({ row, column }))
+  ),
+  Array.from({ length: QUANTUM_SIZE }, (_, index) => ({
+    row: index,
+    column: index,
+  })),
+  Array.from({ length: QUANTUM_SIZE }, (_, index) => ({
+    row: index,
+    column: QUANTUM_SIZE - 1 - index,
+  })),
+];
+
+/**
+ * Checks whether two coordinates point to the same cell.
+ *
+ * @param first - First cell.
+ * @param second - Second cell.
+ * @returns `true` if the row and the column match.
+ */
+export function sameCell(first: LastMove, second: LastMove): boolean {
+  return first.row === second.row && first.column === second.column;
+}
+
+/**
+ * Builds the quantum board of a game before its first move.
+ *
+ * @returns A `QUANTUM_SIZE × QUANTUM_SIZE` board without any mark.
+ */
+export function emptyQuantumBoard(): QuantumState {
+  return {
+    classical: Array.from({ length: QUANTUM_SIZE }, () =>
+      Array.from({ length: QUANTUM_SIZE }, () => null)
+    ),
+    spooky: [],
+    cycle: null,
+  };
+}
+
+/**
+ * Rebuilds the quantum board by replaying the turns of a move history.
+ * The n-th record is the n-th move, so its marks get the subscript n.
+ *
+ * @param moves - Turns of the game, in playing order.
+ * @returns The {@link QuantumState} reached after the turns.
+ */
+export function quantumBoardOf(moves: MoveRecord[]): QuantumState {
+  return moves.reduce(
+    (board, move, index) => playQuantumTurn(board, move, index + 1),
+    emptyQuantumBoard()
+  );
+}
+
+/**
+ * Plays a single turn of a quantum game.
+ *
+ * - The pending spooky mark of a cycle is collapsed first, into the cell
+ *   chosen in `move.collapse`.
+ * - With an `entangled` cell a spooky mark is placed into both cells;
+ *   it becomes the pending mark when it closes a cycle of entanglement.
+ * - Without one a classical mark is placed (the last open cell of the board),
+ *   unless the cell was already filled by the collapse, which ended the game.
+ *
+ * @param board - Board before the turn.
+ * @param move - The turn, see {@link MoveRecord}.
+ * @param moveNumber - 1-based number of the move, the subscript of its mark.
+ * @returns The board after the turn.
+ */
+export function playQuantumTurn(
+  board: QuantumState,
+  move: MoveRecord,
+  moveNumber: number
+): QuantumState {
+  const collapsed = move.collapse
+    ? collapseQuantumMark(board, move.collapse)
+    : board;
+  // Quantum games are played by two, so the markup is never 't'
+  const markup = move.markup as PlayerMarkup;
+  const cell = { row: move.row, column: move.column };
+
+  if (move.entangled) {
+    const mark: SpookyMark = {
+      markup,
+      move: moveNumber,
+      cells: [cell, move.entangled],
+    };
+    return {
+      ...collapsed,
+      spooky: [...collapsed.spooky, mark],
+      cycle: connected(collapsed.spooky, cell, move.entangled) ? mark : null,
+    };
+  }
+
+  if (collapsed.classical[cell.row][cell.column]) return collapsed;
+
+  const classical = collapsed.classical.map((row) => [...row]);
+  classical[cell.row][cell.column] = { markup, move: moveNumber };
+  return { ...collapsed, classical };
+}
+
+/**
+ * Collapses the pending spooky mark of a cycle into one of its cells.
+ *
+ * Every other spooky mark in a cell that becomes classical is forced into
+ * its other cell, so the whole entangled group collapses in a chain.
+ *
+ * @param board - Board with a pending cycle.
+ * @param cell - One of the two cells of the pending mark.
+ * @returns The collapsed board, or the unchanged board if the collapse is not possible.
+ */
+export function collapseQuantumMark(
+  board: QuantumState,
+  cell: LastMove
+): QuantumState {
+  const cycle = board.cycle;
+  if (!cycle?.cells.some((target) => sameCell(target, cell))) return board;
+
+  const classical = board.classical.map((row) => [...row]);
+  let spooky = board.spooky;
+  const queue: [SpookyMark, LastMove][] = [[cycle, cell]];
+
+  while (queue.length) {
+    const [mark, target] = queue.shift()!;
+    // Marks are compared by their move number, references do not survive storage
+    spooky = spooky.filter((other) => other.move !== mark.move);
+    if (classical[target.row][target.column]) continue;
+
+    classical[target.row][target.column] = {
+      markup: mark.markup,
+      move: mark.move,
+    };
+    for (const other of spooky) {
+      const index = other.cells.findIndex((otherCell) =>
+        sameCell(otherCell, target)
+      );
+      if (index !== -1) queue.push([other, other.cells[1 - index]]);
+    }
+    spooky = spooky.filter(
+      (other) => !queue.some(([queued]) => queued.move === other.move)
+    );
+  }
+
+  return { classical, spooky, cycle: null };
+}
+
+/**
+ * Checks whether two cells are already linked by a chain of spooky marks,
+ * i.e. whether a new spooky mark between them closes a cycle.
+ *
+ * @param spooky - Spooky marks on the board.
+ * @param from - First cell of the new mark.
+ * @param to - Second cell of the new mark.
+ * @returns `true` if the cells are entangled with each other.
+ */
+function connected(
+  spooky: SpookyMark[],
+  from: LastMove,
+  to: LastMove
+): boolean {
+  const visited: LastMove[] = [from];
+  const queue: LastMove[] = [from];
+
+  while (queue.length) {
+    const cell = queue.shift()!;
+    if (sameCell(cell, to)) return true;
+
+    for (const mark of spooky) {
+      const index = mark.cells.findIndex((markCell) =>
+        sameCell(markCell, cell)
+      );
+      if (index === -1) continue;
+      const next = mark.cells[1 - index];
+      if (!visited.some((seen) => sameCell(seen, next))) {
+        visited.push(next);
+        queue.push(next);
+      }
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Lists the cells that are not collapsed yet, from the top left corner.
+ * A spooky mark needs two of them; with a single one left the last mark is classical.
+ *
+ * @param board - Quantum board.
+ * @returns Cells without a classical mark.
+ */
+export function openQuantumCells(board: QuantumState): LastMove[] {
+  return board.classical.flatMap((cells, row) =>
+    cells.flatMap((mark, column) => (mark ? [] : [{ row, column }]))
+  );
+}
+
+/**
+ * Returns the spooky marks entangled in a cell, in playing order.
+ *
+ * @param board - Quantum board.
+ * @param cell - Cell of the board.
+ * @returns Spooky marks with one of their cells in the given cell.
+ */
+export function spookyMarksIn(
+  board: QuantumState,
+  cell: LastMove
+): SpookyMark[] {
+  return board.spooky.filter((mark) =>
+    mark.cells.some((markCell) => sameCell(markCell, cell))
+  );
+}
+
+/**
+ * Builds the flat board of the classical marks ('x', 'o' or '' per cell).
+ * Stored as `GameInfo.actualBoard`, so saved games keep a readable final board.
+ *
+ * @param board - Quantum board.
+ * @returns The board of the collapsed marks.
+ */
+export function classicalBoardOf(board: QuantumState): string[][] {
+  return board.classical.map((cells) =>
+    cells.map((mark) => mark?.markup ?? '')
+  );
+}
+
+/**
+ * Evaluates a quantum board.
+ *
+ * - Only lines of classical marks count.
+ * - A collapse may complete several lines at once; the line whose latest mark
+ *   has the lowest move number wins, even if the other player completed one too.
+ * - A board whose every cell is classical without a line is a draw.
+ * - Otherwise the game is still ongoing.
+ *
+ * @param board - Quantum board.
+ * @returns A {@link BoardEvaluation} with the winner and the winning line.
+ */
+export function evaluateQuantumBoard(board: QuantumState): BoardEvaluation {
+  let best: { markup: PlayerMarkup; line: LastMove[]; latest: number } | null =
+    null;
+
+  for (const line of QUANTUM_LINES) {
+    const marks = line.map(
+      ({ row, column }) => board.classical[row]?.[column] ?? null
+    );
+    const [first] = marks;
+    if (!first || marks.some((mark) => mark?.markup !== first.markup)) {
+      continue;
+    }
+
+    const latest = Math.max(
+      ...marks.map((mark) => (mark as QuantumMark).move)
+    );
+    if (!best || latest < best.latest) {
+      best = { markup: first.markup, line, latest };
+    }
+  }
+
+  if (best) return { winner: best.markup, line: best.line };
+
+  const full = board.classical.every((cells) =>
+    cells.every((mark) => mark !== null)
+  );
+  return { winner: full ? 'draw' : null, line: null };
+}
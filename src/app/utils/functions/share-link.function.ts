@@ -0,0 +1,426 @@
+import { GAME_RECORD_RULES } from '../constants/game-record.constant';
+import { NOTATION_FILES } from '../constants/notation.constant';
+import {
+  SHARE_LINK_NONE,
+  SHARE_LINK_ROW_SEPARATOR,
+  SHARE_LINK_RULES,
+  SHARE_LINK_SEPARATOR,
+} from '../constants/share-link.constant';
+import { GameInfo } from '../interfaces/game-info.interface';
+import { GameSettings } from '../interfaces/game-settings.interface';
+import { LastMove } from '../interfaces/last-move.interface';
+import { MarkOrder } from '../interfaces/mark-order.interface';
+import { SharedPosition } from '../interfaces/shared-position.interface';
+import { Markup } from '../types/markup.type';
+import { parseRecordSettings } from './game-record.function';
+import { messageError } from './message-error.function';
+import { cellNotation } from './notation.function';
+import { sameCell } from './quantum.function';
+import {
+  firstMarkupOf,
+  playerCountOf,
+  turnOrder,
+} from './turn-order.function';
+import { vanishingLimit } from './vanishing.function';
+import { gameVariant, playedVariant } from './variant.function';
+
+/** Pattern of a run of cells in the mark order of a shared position. */
+const CELLS_PATTERN = /^(?:[a-i][1-9])*$/;
+
+/**
+ * Builds the shared position of the current game.
+ *
+ * The position holds the variant the game is actually played with
+ * (see `playedVariant`), the dimensions of its board and the optional rules
+ * that apply to it, like a game record (see `gameRecordOf`).
+ * Positions of variants placing spooky marks (e.g. quantum) can not be shared,
+ * their spooky marks are only kept in the move list.
+ *
+ * @param settings - Game settings.
+ * @param gameInfo - Current gameInfo state.
+ * @returns The shared position of the game.
+ * @throws MessageError when the variant places spooky marks.
+ */
+export function sharedPositionOf(
+  settings: GameSettings,
+  gameInfo: GameInfo
+): SharedPosition {
+  const variant = playedVariant(settings);
+  const rules = gameVariant(variant);
+  if (rules.spookyMarks) {
+    throw messageError('record.notShareable');
+  }
+  const { rows, columns, winLength } = rules.dimensions(settings);
+  const optional = rules.optionalRules;
+  const players = playerCountOf(settings);
+  const firstMarkup = firstMarkupOf(
+    settings.playerMarkup,
+    settings.firstMove,
+    settings.opponent
+  );
+  const vanishing = optional && settings.vanishing;
+  return {
+    variant,
+    rows,
+    columns,
+    winLength,
+    gravity: optional && settings.gravity,
+    vanishing,
+    misere: optional && players === 2 && settings.misere,
+    players,
+    firstMarkup,
+    board:
+      gameInfo.actualBoard ??
+      Array.from({ length: rows }, () =>
+        Array.from({ length: columns }, () => '')
+      ),
+    lastMove: gameInfo.lastMove,
+    toMove: rules.markupByTurn(gameInfo.actualStep ?? 0, firstMarkup, players),
+    markOrder: vanishing ? gameInfo.markOrder ?? { x: [], o: [] } : null,
+  };
+}
+
+/**
+ * Writes a shared position as a compact, URL-safe code:
+ * its fields joined by `SHARE_LINK_SEPARATOR`.
+ *
+ * 1. variant, e.g. "classic"
+ * 2. rows × columns, e.g. "6x7"
+ * 3. win length
+ * 4. letters of the optional rules (see `SHARE_LINK_RULES`), or "-"
+ * 5. number of players
+ * 6. markup making the first move
+ * 7. board rows from the top, joined by `SHARE_LINK_ROW_SEPARATOR`:
+ *    marks as letters, runs of empty cells as their length, e.g. "o1x"
+ * 8. cell of the last move in notation, or "-" on an empty board
+ * 9. markup of the side to move
+ * 10. with the vanishing rule only: the cells of the marks of every player
+ *     ('o', 'x', then 't'), oldest first, joined by `SHARE_LINK_ROW_SEPARATOR`
+ *
+ * @example
+ * ```text
+ * classic.3x3.3.-.2.o.x1o-1o1-x2.a3.o
+ * ```
+ *
+ * @param position - Shared position.
+ * @returns The code of the position.
+ */
+export function encodeSharedPosition(position: SharedPosition): string {
+  const rules = GAME_RECORD_RULES.filter((rule) => position[rule])
+    .map((rule) => SHARE_LINK_RULES[rule])
+    .join('');
+  const board = position.board
+    .map((row) =>
+      row
+        .map((cell) => cell || '1')
+        .join('')
+        .replace(/1+/g, (empties) => `${empties.length}`)
+    )
+    .join(SHARE_LINK_ROW_SEPARATOR);
+  const markOrder = position.markOrder
+    ? turnOrder('o', position.players)
+        .map((markup) =>
+          (position.markOrder![markup] ?? []).map(cellNotation).join('')
+        )
+        .join(SHARE_LINK_ROW_SEPARATOR)
+    : null;
+  return [
+    position.variant,
+    `${position.rows}x${position.columns}`,
+    `${position.winLength}`,
+    rules || SHARE_LINK_NONE,
+    `${position.players}`,
+    position.firstMarkup,
+    board,
+    position.lastMove ? cellNotation(position.lastMove) : SHARE_LINK_NONE,
+    position.toMove,
+    ...(markOrder !== null ? [markOrder] : []),
+  ].join(SHARE_LINK_SEPARATOR);
+}
+
+/**
+ * Reads the code of a shared position written by `encodeSharedPosition`.
+ *
+ * The settings are checked like the headers of a game record
+ * (see `parseRecordSettings`), then the board:
+ *  - every row must have the width of the board and hold valid marks only,
+ *  - with the gravity rule no mark may float above an empty cell,
+ *  - the last move must point to a mark (and be left out on an empty board),
+ *  - the side to move must follow the turn order after the marks of the board,
+ *  - with the vanishing rule the mark order must list the marks of the board.
+ *
+ * @param code - Code of the position.
+ * @returns The position read from the code.
+ * @throws MessageError with a message describing the first problem of the code.
+ */
+export function decodeSharedPosition(code: string): SharedPosition {
+  const fields = code.split(SHARE_LINK_SEPARATOR);
+  if (fields.length < 9 || fields.length > 10) {
+    throw messageError('record.invalidCode');
+  }
+  const [
+    variant,
+    size,
+    winLength,
+    ruleLetters,
+    players,
+    firstMarkup,
+    boardCode,
+    lastMoveCode,
+    toMove,
+    markOrderCode,
+  ] = fields;
+
+  const letters = ruleLetters === SHARE_LINK_NONE ? '' : ruleLetters;
+  const rules = [...letters].map(
+    (letter) =>
+      GAME_RECORD_RULES.find((rule) => SHARE_LINK_RULES[rule] === letter) ??
+      letter
+  );
+  if (new Set(rules).size !== rules.length) {
+    throw messageError('record.invalidRules', { value: ruleLetters });
+  }
+  const settings = parseRecordSettings({
+    variant,
+    size,
+    winLength,
+    rules,
+    players,
+    firstMarkup,
+  });
+  if (gameVariant(settings.variant).spookyMarks) {
+    throw messageError('record.notShareable');
+  }
+
+  const seated = turnOrder(settings.firstMarkup, settings.players);
+  const board = boardCode
+    .split(SHARE_LINK_ROW_SEPARATOR)
+    .map((row) => boardRowOf(row, settings.columns, seated));
+  if (board.length !== settings.rows) {
+    throw messageError('record.invalidBoard', { value: boardCode });
+  }
+  if (
+    settings.gravity &&
+    board.some((row, index) =>
+      row.some(
+        (cell, column) =>
+          cell && index < board.length - 1 && !board[index + 1][column]
+      )
+    )
+  ) {
+    throw messageError('record.floatingMarks');
+  }
+
+  const marks = board.flat().filter(Boolean).length;
+  const lastMove =
+    lastMoveCode === SHARE_LINK_NONE
+      ? undefined
+      : cellOf(lastMoveCode, settings.rows, settings.columns);
+  if (
+    lastMove === null ||
+    (lastMove ? !board[lastMove.row][lastMove.column] : marks > 0)
+  ) {
+    throw messageError('record.invalidLastMove', { value: lastMoveCode });
+  }
+
+  if (!(seated as string[]).includes(toMove)) {
+    throw messageError('record.invalidSideToMove', { value: toMove });
+  }
+
+  if (settings.vanishing !== (markOrderCode !== undefined)) {
+    throw messageError(
+      settings.vanishing
+        ? 'record.missingMarkOrder'
+        : 'record.unexpectedMarkOrder'
+    );
+  }
+  const markOrder = settings.vanishing
+    ? markOrderOf(markOrderCode, board, settings.winLength, settings.players)
+    : null;
+
+  const position: SharedPosition = {
+    ...settings,
+    board,
+    lastMove,
+    toMove: toMove as Markup,
+    markOrder,
+  };
+  const rulesOfVariant = gameVariant(settings.variant);
+  // Without vanishing marks every move is still on the board,
+  // so the marks of the board tell the side to move
+  if (!settings.vanishing) {
+    const expected = Array.from({ length: marks }, (_, step) =>
+      rulesOfVariant.markupByTurn(step, settings.firstMarkup, settings.players)
+    );
+    const countsMatch =
+      rulesOfVariant.choosesMarkup ||
+      seated.every(
+        (markup) =>
+          expected.filter((side) => side === markup).length ===
+          board.flat().filter((cell) => cell === markup).length
+      );
+    if (
+      !countsMatch ||
+      rulesOfVariant.markupByTurn(
+        marks,
+        settings.firstMarkup,
+        settings.players
+      ) !== toMove
+    ) {
+      throw messageError('record.sideToMoveMismatch');
+    }
+  }
+  return position;
+}
+
+/**
+ * Builds the gameInfo state of a shared position.
+ *
+ * The step is the number of marks on the board; with the vanishing rule,
+ * where marks leave the board, the first step on which the side to move
+ * has its turn. The variant-specific state (e.g. the nested board of
+ * Ultimate games) is rebuilt from the board and the last move,
+ * and the board is evaluated with the rules of the variant.
+ * The position starts without a move history.
+ *
+ * @param position - Shared position.
+ * @returns The gameInfo state of the position.
+ */
+export function sharedPositionInfo(position: SharedPosition): GameInfo {
+  const rules = gameVariant(position.variant);
+  let step = position.board.flat().filter(Boolean).length;
+  while (
+    rules.markupByTurn(step, position.firstMarkup, position.players) !==
+    position.toMove
+  ) {
+    step++;
+  }
+  const restored = rules.restore(position.board, [], position.lastMove);
+  const { winner, line } = rules.evaluate(position.board, {
+    winLength: position.winLength,
+    step,
+    firstMarkup: position.firstMarkup,
+    players: position.players,
+    lastMove: position.lastMove,
+    quantumBoard: restored.quantumBoard,
+    gravity: position.gravity,
+    markOrder: position.markOrder,
+    misere: position.misere,
+  });
+  return {
+    actualBoard: position.board,
+    ...restored,
+    markOrder: position.markOrder,
+    actualStep: step,
+    actualMarkup: position.toMove,
+    lastMove: position.lastMove,
+    winner,
+    winningLine: line,
+    moveHistory: [],
+    redoHistory: [],
+  };
+}
+
+/**
+ * Reads a board row of a shared position.
+ *
+ * @param code - Code of the row, e.g. "o1x".
+ * @param columns - Number of board columns.
+ * @param seated - Markups of the seated players.
+ * @returns The cells of the row.
+ * @throws MessageError when the row holds invalid marks or has the wrong width.
+ */
+function boardRowOf(code: string, columns: number, seated: Markup[]): string[] {
+  const row: string[] = [];
+  for (const character of code) {
+    if (/[1-9]/.test(character)) {
+      row.push(...Array.from({ length: +character }, () => ''));
+    } else if ((seated as string[]).includes(character)) {
+      row.push(character);
+    } else {
+      throw messageError('record.invalidBoardRow', { value: code });
+    }
+  }
+  if (row.length !== columns) {
+    throw messageError('record.invalidBoardRow', { value: code });
+  }
+  return row;
+}
+
+/**
+ * Reads the mark order of a vanishing-marks position.
+ * Every player must list exactly the cells of their marks on the board,
+ * and no more than the number of marks they can keep.
+ *
+ * @param code - Code of the mark order, e.g. "a1b2-c3".
+ * @param board - Board of the position.
+ * @param winLength - Number of marks in a row needed to win.
+ * @param players - Number of players.
+ * @returns The order of the marks on the board.
+ * @throws MessageError when the order does not match the board.
+ */
+function markOrderOf(
+  code: string,
+  board: string[][],
+  winLength: number,
+  players: SharedPosition['players']
+): MarkOrder {
+  const lists = code.split(SHARE_LINK_ROW_SEPARATOR);
+  const markups = turnOrder('o', players);
+  if (
+    lists.length !== markups.length ||
+    !lists.every((list) => CELLS_PATTERN.test(list))
+  ) {
+    throw messageError('record.invalidMarkOrder', { value: code });
+  }
+  const limit = vanishingLimit(board, winLength);
+  const markOrder: MarkOrder = { x: [], o: [] };
+  markups.forEach((markup, index) => {
+    const cells = (lists[index].match(/../g) ?? []).map((cell) =>
+      cellOf(cell, board.length, board[0].length)
+    );
+    const marks = board
+      .flatMap((row, rowIndex) =>
+        row.map((cell, column) => ({ cell, row: rowIndex, column }))
+      )
+      .filter(({ cell }) => cell === markup);
+    if (
+      cells.length > limit ||
+      cells.length !== marks.length ||
+      cells.some(
+        (cell, index) =>
+          !cell ||
+          board[cell.row][cell.column] !== markup ||
+          cells.findIndex((other) => other && sameCell(other, cell)) !== index
+      )
+    ) {
+      throw messageError('record.invalidMarkOrder', { value: code });
+    }
+    markOrder[markup] = cells as LastMove[];
+  });
+  return markOrder;
+}
+
+/**
+ * Reads a cell of a shared position.
+ *
+ * @param notation - Notation of the cell, e.g. "b2".
+ * @param rows - Number of board rows.
+ * @param columns - Number of board columns.
+ * @returns The coordinates of the cell, or `null` when it is off the board.
+ */
+function cellOf(
+  notation: string,
+  rows: number,
+  columns: number
+): LastMove | null {
+  const column = (NOTATION_FILES as readonly string[]).indexOf(notation[0]);
+  const row = Number(notation.slice(1)) - 1;
+  return notation.length === 2 &&
+    column >= 0 &&
+    column < columns &&
+    row >= 0 &&
+    row < rows
+    ? { row, column }
+    : null;
+}
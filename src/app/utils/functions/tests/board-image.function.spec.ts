@@ -0,0 +1,111 @@
+import { boardImageSvg } from '../board-image.function';
+import { BOARD_IMAGE_MARKS } from '../../constants/board-image.constant';
+import { BoardImage } from '../../interfaces/board-image.interface';
+
+/**
+ * @fileoverview
+ * Unit tests for the board image functions.
+ *
+ * Covers:
+ * - The full SVG markup of a won position with every mark drawn
+ * - The same position and settings always give the same markup
+ */
+
+describe('Board image (functions)', () => {
+  /** 3x3 position won by 'o' on the diagonal, with its last move in c3. */
+  const image: BoardImage = {
+    board: [
+      ['o', 'x', ''],
+      ['x', 'o', ''],
+      ['', '', 'o'],
+    ],
+    layout: 'grid',
+    lastMove: { row: 2, column: 2 },
+    winningLine: [
+      { row: 0, column: 0 },
+      { row: 1, column: 1 },
+      { row: 2, column: 2 },
+    ],
+    primaryColor: '#3f51b5',
+    accentColor: '#ff4081',
+  };
+
+  /** Settings drawing the coordinates, the last move and the winning line. */
+  const settings = {
+    coordinates: true,
+    markLastMove: true,
+    markWinningLine: true,
+  };
+
+  /** Text attributes shared by the file and rank labels. */
+  const label =
+    'text-anchor="middle" dominant-baseline="central" font-family="sans-serif" font-size="24" fill="#3f51b5"';
+
+  /**
+   * Returns the markup of a mark drawn into a cell.
+   *
+   * @param x - Left edge of the cell (px).
+   * @param y - Top edge of the cell (px).
+   * @param path - Icon path of the mark.
+   */
+  const mark = (x: number, y: number, path: string) =>
+    [
+      `<svg x="${x}" y="${y}" width="100" height="100" viewBox="0 -960 960 960">`,
+      `<path fill="url(#board-image-gradient)" d="${path}"/>`,
+      '</svg>',
+    ].join('\n');
+
+  /**
+   * Pins the whole markup, so any change of the drawn image shows up here.
+   */
+  it('Should draw a won position with every mark', () => {
+    expect(boardImageSvg(image, settings)).toBe(
+      [
+        '<svg xmlns="http://www.w3.org/2000/svg" width="360" height="360" viewBox="0 0 360 360">',
+        '<defs>',
+        '<linearGradient id="board-image-gradient" x1="0%" y1="0%" x2="100%" y2="100%">',
+        '<stop offset="0%" stop-color="#3f51b5"/>',
+        '<stop offset="100%" stop-color="#ff4081"/>',
+        '</linearGradient>',
+        '</defs>',
+        '<rect width="360" height="360" fill="#ffffff"/>',
+        '<rect x="50" y="50" width="100" height="100" fill="#ff4081" fill-opacity="0.35"/>',
+        '<rect x="150" y="150" width="100" height="100" fill="#ff4081" fill-opacity="0.35"/>',
+        '<rect x="250" y="250" width="100" height="100" fill="#ff4081" fill-opacity="0.35"/>',
+        '<rect x="254" y="254" width="92" height="92" fill="none" stroke="#ff4081" stroke-width="6"/>',
+        '<line x1="50" y1="50" x2="350" y2="50" stroke="#3f51b5" stroke-width="2"/>',
+        '<line x1="50" y1="150" x2="350" y2="150" stroke="#3f51b5" stroke-width="2"/>',
+        '<line x1="50" y1="250" x2="350" y2="250" stroke="#3f51b5" stroke-width="2"/>',
+        '<line x1="50" y1="350" x2="350" y2="350" stroke="#3f51b5" stroke-width="2"/>',
+        '<line x1="50" y1="50" x2="50" y2="350" stroke="#3f51b5" stroke-width="2"/>',
+        '<line x1="150" y1="50" x2="150" y2="350" stroke="#3f51b5" stroke-width="2"/>',
+        '<line x1="250" y1="50" x2="250" y2="350" stroke="#3f51b5" stroke-width="2"/>',
+        '<line x1="350" y1="50" x2="350" y2="350" stroke="#3f51b5" stroke-width="2"/>',
+        `<text x="100" y="30" ${label}>a</text>`,
+        `<text x="200" y="30" ${label}>b</text>`,
+        `<text x="300" y="30" ${label}>c</text>`,
+        `<text x="30" y="100" ${label}>1</text>`,
+        `<text x="30" y="200" ${label}>2</text>`,
+        `<text x="30" y="300" ${label}>3</text>`,
+        mark(50, 50, BOARD_IMAGE_MARKS.o),
+        mark(150, 50, BOARD_IMAGE_MARKS.x),
+        mark(50, 150, BOARD_IMAGE_MARKS.x),
+        mark(150, 150, BOARD_IMAGE_MARKS.o),
+        mark(250, 250, BOARD_IMAGE_MARKS.o),
+        '</svg>',
+        '',
+      ].join('\n')
+    );
+  });
+
+  /**
+   * The markup holds no ids, dates or measured text,
+   * so drawing the same position twice gives the same image.
+   */
+  it('Should give the same markup on every call', () => {
+    const first = boardImageSvg(image, settings);
+    const second = boardImageSvg(structuredClone(image), { ...settings });
+
+    expect(second).toBe(first);
+  });
+});
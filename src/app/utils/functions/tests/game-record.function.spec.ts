@@ -0,0 +1,254 @@
+import {
+  parseGameRecord,
+  recordPosition,
+  serializeGameRecord,
+} from '../game-record.function';
+import '../../../app.variants';
+
+/**
+ * @fileoverview
+ * Unit tests for the game record functions.
+ *
+ * Covers:
+ * - Records of every variant and optional rule survive a parse and
+ *   a serialization unchanged
+ * - Headers, board dimensions and moves are rejected on their first problem
+ * - The recorded result has to follow from the replayed moves
+ */
+
+describe('Game record (functions)', () => {
+  /**
+   * Builds the text of a record from its moves and the headers
+   * that differ between the tests.
+   *
+   * @param headers - Values of the headers (`rules` is left out when empty).
+   * @param moves - Move list of the record.
+   * @returns The text of the record.
+   */
+  const recordText = (
+    headers: {
+      variant?: string;
+      size?: string;
+      winLength?: string;
+      rules?: string;
+      players?: string;
+      result?: string;
+    },
+    moves: string
+  ): string =>
+    [
+      `[Variant "${headers.variant ?? 'classic'}"]`,
+      `[Size "${headers.size ?? '3x3'}"]`,
+      `[WinLength "${headers.winLength ?? '3'}"]`,
+      ...(headers.rules ? [`[Rules "${headers.rules}"]`] : []),
+      `[Players "${headers.players ?? '2'}"]`,
+      '[FirstMarkup "O"]',
+      '[Difficulty "easy"]',
+      `[Result "${headers.result ?? '*'}"]`,
+      '[Date "2026-10-19"]',
+      '',
+      moves,
+      '',
+    ].join('\n');
+
+  describe('Round-trips:', () => {
+    /**
+     * Parses a record, checks it is written back unchanged and returns it.
+     *
+     * @param text - Text of the record.
+     * @returns The parsed record.
+     */
+    const roundTrip = (text: string) => {
+      const record = parseGameRecord(text);
+      expect(serializeGameRecord(record)).toBe(text);
+      expect(parseGameRecord(serializeGameRecord(record))).toEqual(record);
+      return record;
+    };
+
+    /**
+     * Gravity games keep their rule and their moves land on the lowest row.
+     */
+    it('Should keep a gravity game', () => {
+      const record = roundTrip(
+        recordText({ rules: 'gravity', result: 'O' }, '1. a3 a2 2. b3 b2 3. c3')
+      );
+
+      expect(record.gravity).toBeTrue();
+      expect(record.result).toBe('o');
+      expect(recordPosition(record).winningLine).toEqual([
+        { row: 2, column: 0 },
+        { row: 2, column: 1 },
+        { row: 2, column: 2 },
+      ]);
+    });
+
+    /**
+     * Vanishing-marks games keep their rule; the oldest mark of a side
+     * vanishes once it exceeds the win length.
+     */
+    it('Should keep a vanishing-marks game', () => {
+      const record = roundTrip(
+        recordText({ rules: 'vanishing' }, '1. a1 b2 2. b1 c3 3. a3 a2 4. c1')
+      );
+
+      expect(record.vanishing).toBeTrue();
+      expect(record.moves.length).toBe(7);
+      expect(recordPosition(record).actualBoard![0][0]).toBe('');
+    });
+
+    /**
+     * Order and Chaos games keep the markups chosen by the movers.
+     */
+    it('Should keep an Order and Chaos game', () => {
+      const record = roundTrip(
+        recordText(
+          { variant: 'order_chaos', size: '6x6', winLength: '5' },
+          '1. a1=X b2=O 2. c3=X'
+        )
+      );
+
+      expect(record.variant).toBe('order_chaos');
+      expect(record.moves.map((move) => move.markup)).toEqual(['x', 'o', 'x']);
+    });
+
+    /**
+     * Ultimate games keep their flat 9x9 board.
+     */
+    it('Should keep an Ultimate game', () => {
+      const record = roundTrip(
+        recordText({ variant: 'ultimate', size: '9x9' }, '1. a1 b2 2. e5 d4')
+      );
+
+      expect(record.variant).toBe('ultimate');
+      expect(recordPosition(record).ultimateBoard).toBeTruthy();
+    });
+
+    /**
+     * Three-player games keep the third player, who may win them.
+     */
+    it('Should keep a three-player game won by the third player', () => {
+      const record = roundTrip(
+        recordText(
+          { size: '5x5', players: '3', result: 'T' },
+          '1. a1 e1 a5 2. c1 c3 b5 3. b2 d4 c5'
+        )
+      );
+
+      expect(record.players).toBe(3);
+      expect(record.result).toBe('t');
+      expect(record.moves[2].markup).toBe('t');
+    });
+
+    /**
+     * Under the misère rule the side completing a line loses.
+     */
+    it('Should keep a misère game lost by the side completing a line', () => {
+      const record = roundTrip(
+        recordText({ rules: 'misere', result: 'X' }, '1. a1 a2 2. b1 b2 3. c1')
+      );
+
+      expect(record.misere).toBeTrue();
+      expect(recordPosition(record).winner).toBe('o');
+      expect(record.result).toBe('x');
+    });
+
+    /**
+     * A side may win an undecided board on time.
+     */
+    it('Should keep a two-player game won on time', () => {
+      const record = roundTrip(recordText({ result: 'X' }, '1. a1 b2'));
+
+      expect(recordPosition(record).winner).toBeNull();
+      expect(record.result).toBe('x');
+    });
+  });
+
+  describe('Rejections:', () => {
+    /**
+     * Malformed, unknown and missing headers are rejected.
+     */
+    it('Should reject a bad header', () => {
+      const text = recordText({}, '1. a1');
+
+      expect(() =>
+        parseGameRecord(text.replace('[Size "3x3"]', '[Size 3x3]'))
+      ).toThrowError('Invalid header line: [Size 3x3]');
+      expect(() =>
+        parseGameRecord(
+          text.replace('[Size "3x3"]', '[Size "3x3"]\n[Event "x"]')
+        )
+      ).toThrowError('Unknown header: Event');
+      expect(() =>
+        parseGameRecord(text.replace('[Size "3x3"]\n', ''))
+      ).toThrowError('Missing header: Size');
+    });
+
+    /**
+     * Boards too small, fixed boards of the wrong size and win lengths
+     * longer than the board are rejected.
+     */
+    it('Should reject wrong dimensions', () => {
+      expect(() =>
+        parseGameRecord(recordText({ size: '2x2' }, '1. a1'))
+      ).toThrowError('Invalid board size: 2x2');
+      expect(() =>
+        parseGameRecord(recordText({ variant: 'ultimate' }, '1. a1'))
+      ).toThrowError('Invalid board size: 3x3');
+      expect(() =>
+        parseGameRecord(recordText({ winLength: '5' }, '1. a1'))
+      ).toThrowError('Invalid win length: 5');
+    });
+
+    /**
+     * Moves into taken cells, off the board, against the rules
+     * of the variant or after the end of the game are rejected.
+     */
+    it('Should reject an illegal move', () => {
+      expect(() => parseGameRecord(recordText({}, '1. a1 a1'))).toThrowError(
+        'Illegal move: a1'
+      );
+      expect(() => parseGameRecord(recordText({}, '1. a1 d4'))).toThrowError(
+        'Move off the board: d4'
+      );
+      expect(() =>
+        parseGameRecord(recordText({ rules: 'gravity' }, '1. a1'))
+      ).toThrowError('Illegal move: a1');
+      expect(() =>
+        parseGameRecord(
+          recordText({ variant: 'ultimate', size: '9x9' }, '1. a1 e5')
+        )
+      ).toThrowError('Illegal move: e5');
+      expect(() =>
+        parseGameRecord(
+          recordText({ result: 'O' }, '1. a1 a2 2. b1 b2 3. c1 c2')
+        )
+      ).toThrowError('Move played after the end of the game: c2');
+    });
+
+    /**
+     * The result has to be the one the moves lead to.
+     */
+    it('Should reject moves that contradict the result', () => {
+      const won = '1. a1 a2 2. b1 b2 3. c1';
+
+      expect(() =>
+        parseGameRecord(recordText({ result: 'X' }, won))
+      ).toThrowError('Result contradicts the moves: X');
+      expect(() =>
+        parseGameRecord(recordText({ result: '*' }, won))
+      ).toThrowError('Result contradicts the moves: *');
+      expect(() =>
+        parseGameRecord(recordText({ rules: 'misere', result: 'O' }, won))
+      ).toThrowError('Result contradicts the moves: O');
+      expect(() =>
+        parseGameRecord(recordText({ result: 'draw' }, '1. a1 b2'))
+      ).toThrowError('Result contradicts the moves: draw');
+      // Three-player games are played without clocks, so nobody wins on time
+      expect(() =>
+        parseGameRecord(
+          recordText({ size: '5x5', players: '3', result: 'X' }, '1. a1 e1 a5')
+        )
+      ).toThrowError('Result contradicts the moves: X');
+    });
+  });
+});
@@ -0,0 +1,195 @@
+import {
+  decodeSharedPosition,
+  encodeSharedPosition,
+} from '../share-link.function';
+import '../../../app.variants';
+
+/**
+ * @fileoverview
+ * Unit tests for the shared position codes of the share link.
+ *
+ * Covers:
+ * - Positions of every shareable variant, board size and optional rule
+ *   survive a decode and an encode unchanged
+ * - Truncated and tampered codes are rejected
+ * - Unknown variants and out-of-range settings are rejected
+ */
+
+describe('Share link (functions)', () => {
+  describe('Round-trips:', () => {
+    /**
+     * Decodes a code, checks it is encoded back unchanged and returns
+     * the position.
+     *
+     * @param code - Code of the position.
+     * @returns The decoded position.
+     */
+    const roundTrip = (code: string) => {
+      const position = decodeSharedPosition(code);
+      expect(encodeSharedPosition(position)).toBe(code);
+      expect(decodeSharedPosition(encodeSharedPosition(position))).toEqual(
+        position
+      );
+      return position;
+    };
+
+    /**
+     * A classic 3x3 position keeps its marks, last move and side to move.
+     */
+    it('Should keep a classic position', () => {
+      const position = roundTrip('classic.3x3.3.-.2.o.x1o-1o1-x2.a3.o');
+
+      expect(position.board).toEqual([
+        ['x', '', 'o'],
+        ['', 'o', ''],
+        ['x', '', ''],
+      ]);
+      expect(position.lastMove).toEqual({ row: 2, column: 0 });
+      expect(position.toMove).toBe('o');
+    });
+
+    /**
+     * An empty board has no last move.
+     */
+    it('Should keep an empty board', () => {
+      const position = roundTrip('classic.3x3.3.-.2.o.3-3-3.-.o');
+
+      expect(position.lastMove).toBeUndefined();
+    });
+
+    /**
+     * Boards of other sizes keep their dimensions, win length and rules.
+     */
+    it('Should keep a rectangular gravity position', () => {
+      const position = roundTrip('classic.4x5.4.g.2.x.5-5-x4-o4.a3.x');
+
+      expect(position.rows).toBe(4);
+      expect(position.columns).toBe(5);
+      expect(position.winLength).toBe(4);
+      expect(position.gravity).toBeTrue();
+      expect(position.firstMarkup).toBe('x');
+    });
+
+    /**
+     * Vanishing-marks positions keep the order of the marks of every player.
+     */
+    it('Should keep the mark order of a vanishing-marks position', () => {
+      const position = roundTrip(
+        'classic.3x3.3.v.2.o.oxo-xo1-3.c1.x.a1c1b2-b1a2'
+      );
+
+      expect(position.markOrder).toEqual({
+        o: [
+          { row: 0, column: 0 },
+          { row: 0, column: 2 },
+          { row: 1, column: 1 },
+        ],
+        x: [
+          { row: 0, column: 1 },
+          { row: 1, column: 0 },
+        ],
+      });
+    });
+
+    /**
+     * Misère and three-player positions keep their settings.
+     */
+    it('Should keep misère and three-player positions', () => {
+      expect(roundTrip('classic.3x3.3.m.2.o.o2-1x1-3.b2.o').misere).toBeTrue();
+      expect(roundTrip('classic.5x5.3.-.3.o.oxt2-5-5-5-5.c1.o').players).toBe(
+        3
+      );
+    });
+
+    /**
+     * Ultimate, Wild and Order and Chaos positions keep their variant.
+     */
+    it('Should keep the positions of the other variants', () => {
+      expect(
+        roundTrip('ultimate.9x9.3.-.2.o.o8-1x7-9-9-9-9-9-9-9.b2.o').variant
+      ).toBe('ultimate');
+      expect(roundTrip('wild.4x4.3.-.2.o.xx2-4-4-4.b1.o').variant).toBe('wild');
+      expect(
+        roundTrip('order_chaos.6x6.5.-.2.o.x5-6-6-6-6-6.a1.x').variant
+      ).toBe('order_chaos');
+    });
+  });
+
+  describe('Rejections:', () => {
+    /**
+     * Codes missing a field, a row or a cell are rejected.
+     */
+    it('Should reject a truncated code', () => {
+      expect(() =>
+        decodeSharedPosition('classic.3x3.3.-.2.o.x1o-1o1-x2.a3')
+      ).toThrowError('Invalid position code');
+      expect(() =>
+        decodeSharedPosition('classic.3x3.3.-.2.o.x1o-1o1.a3.o')
+      ).toThrowError('Invalid board: x1o-1o1');
+      expect(() =>
+        decodeSharedPosition('classic.3x3.3.-.2.o.x1o-1o1-x1.a3.o')
+      ).toThrowError('Invalid board row: x1');
+      expect(() =>
+        decodeSharedPosition('classic.3x3.3.v.2.o.oxo-xo1-3.c1.x')
+      ).toThrowError('Missing mark order of the vanishing rule');
+    });
+
+    /**
+     * Codes edited into positions the game can not reach are rejected.
+     */
+    it('Should reject a tampered code', () => {
+      expect(() =>
+        decodeSharedPosition('classic.3x3.3.-.2.o.x1o-1o1-x2.a3.x')
+      ).toThrowError('The side to move does not match the board');
+      expect(() =>
+        decodeSharedPosition('classic.3x3.3.-.2.o.x1o-1o1-x2.b3.o')
+      ).toThrowError('Invalid last move: b3');
+      expect(() =>
+        decodeSharedPosition('classic.3x3.3.-.2.o.x1t-1o1-x2.a3.o')
+      ).toThrowError('Invalid board row: x1t');
+      expect(() =>
+        decodeSharedPosition('classic.4x5.4.g.2.x.5-x4-5-o4.b2.x')
+      ).toThrowError('Marks can not float with the gravity rule');
+      expect(() =>
+        decodeSharedPosition('classic.3x3.3.v.2.o.oxo-xo1-3.c1.x.a1c1-b1a2')
+      ).toThrowError('Invalid mark order: a1c1-b1a2');
+      expect(() =>
+        decodeSharedPosition('classic.3x3.3.-.2.o.x1o-1o1-x2.a3.o.a1')
+      ).toThrowError('Mark order only applies to the vanishing rule');
+      expect(() =>
+        decodeSharedPosition('classic.3x3.3.gg.2.o.3-3-3.-.o')
+      ).toThrowError('Invalid rules: gg');
+    });
+
+    /**
+     * Variants that are not registered, and those placing spooky marks,
+     * can not be shared.
+     */
+    it('Should reject an unknown or unshareable variant', () => {
+      expect(() =>
+        decodeSharedPosition('gomoku.3x3.3.-.2.o.3-3-3.-.o')
+      ).toThrowError('Unknown variant: gomoku');
+      expect(() =>
+        decodeSharedPosition('quantum.3x3.3.-.2.o.3-3-3.-.o')
+      ).toThrowError('Positions of this variant can not be shared');
+    });
+
+    /**
+     * Sizes, win lengths, player counts and cells out of range are rejected.
+     */
+    it('Should reject out-of-range settings', () => {
+      expect(() =>
+        decodeSharedPosition('classic.10x10.3.-.2.o.3-3-3.-.o')
+      ).toThrowError('Invalid board size: 10x10');
+      expect(() =>
+        decodeSharedPosition('classic.3x3.4.-.2.o.3-3-3.-.o')
+      ).toThrowError('Invalid win length: 4');
+      expect(() =>
+        decodeSharedPosition('classic.3x3.3.-.4.o.3-3-3.-.o')
+      ).toThrowError('Invalid number of players: 4');
+      expect(() =>
+        decodeSharedPosition('classic.3x3.3.-.2.o.x1o-1o1-x2.d4.o')
+      ).toThrowError('Invalid last move: d4');
+    });
+  });
+});
@@ -0,0 +1,183 @@
+import { gameVariant } from '../variant.function';
+import { emptyQuantumBoard, quantumBoardOf } from '../quantum.function';
+import { createBoard } from '../../test/functions/creators.functions';
+import { QuantumState } from '../../interfaces/quantum-state.interface';
+import { VariantContext } from '../../interfaces/variant-context.interface';
+import '../../../app.variants';
+
+/**
+ * @fileoverview
+ * Unit tests for the evaluate hooks of the registered variants.
+ *
+ * Covers:
+ * - quantum: classical lines, move-number resolution and draws
+ * - wild and order_chaos: results credited to the mover (Wild) and to Order or Chaos
+ */
+
+describe('Variant hooks (functions)', () => {
+  /**
+   * Builds the state of a game started by `x`.
+   *
+   * @param step - Number of moves played.
+   * @param quantumBoard - Board of spooky marks, if any.
+   * @returns The context passed to the hooks.
+   */
+  const context = (
+    step: number,
+    quantumBoard: QuantumState | null = null
+  ): VariantContext => ({
+    winLength: 3,
+    step,
+    firstMarkup: 'x',
+    players: 2,
+    quantumBoard,
+  });
+
+  /**
+   * Evaluates a quantum game with the registered hook.
+   *
+   * @param board - Board of the quantum game.
+   * @returns The evaluation of the classical marks.
+   */
+  const evaluateQuantum = (board: QuantumState) =>
+    gameVariant('quantum').evaluate(createBoard(3), context(0, board));
+
+  describe('[quantum] evaluate:', () => {
+    /**
+     * Builds a quantum board holding only the given classical marks.
+     *
+     * @param marks Classical marks as `[row, column, markup, move]` entries.
+     */
+    const classicalBoard = (
+      marks: [number, number, 'x' | 'o', number][]
+    ): QuantumState => {
+      const board = emptyQuantumBoard();
+      for (const [row, column, markup, move] of marks) {
+        board.classical[row][column] = { markup, move };
+      }
+      return board;
+    };
+
+    /**
+     * Ensures that the line with the lowest latest move number wins
+     * when a collapse completes lines of both players.
+     */
+    it('Should credit the line completed with the earlier moves', () => {
+      const board = classicalBoard([
+        [0, 0, 'x', 1],
+        [0, 1, 'x', 3],
+        [0, 2, 'x', 7],
+        [1, 0, 'o', 2],
+        [1, 1, 'o', 4],
+        [1, 2, 'o', 6],
+      ]);
+
+      expect(evaluateQuantum(board)).toEqual({
+        winner: 'o',
+        line: [0, 1, 2].map((column) => ({ row: 1, column })),
+      });
+    });
+
+    /**
+     * Ensures that spooky marks never complete a line
+     * and that a fully collapsed board without a line is a draw.
+     */
+    it('Should only count classical marks and report a draw', () => {
+      const spooky = quantumBoardOf(
+        [
+          { row: 0, column: 0, entangled: { row: 0, column: 1 } },
+          { row: 1, column: 0, entangled: { row: 1, column: 1 } },
+          { row: 0, column: 1, entangled: { row: 0, column: 2 } },
+          { row: 1, column: 1, entangled: { row: 2, column: 2 } },
+          { row: 0, column: 2, entangled: { row: 0, column: 0 } },
+        ].map((move, index) => ({
+          ...move,
+          markup: index % 2 ? ('o' as const) : ('x' as const),
+          timestamp: index,
+        }))
+      );
+      const full = classicalBoard(
+        [
+          ['x', 'o', 'x'],
+          ['x', 'o', 'o'],
+          ['o', 'x', 'x'],
+        ].flatMap((cells, row) =>
+          cells.map(
+            (markup, column) =>
+              [row, column, markup, row * 3 + column + 1] as [
+                number,
+                number,
+                'x' | 'o',
+                number
+              ]
+          )
+        )
+      );
+
+      expect(evaluateQuantum(spooky)).toEqual({
+        winner: null,
+        line: null,
+      });
+      expect(evaluateQuantum(full)).toEqual({
+        winner: 'draw',
+        line: null,
+      });
+    });
+  });
+
+  describe('[wild] and [order_chaos] evaluate:', () => {
+    /**
+     * Ensures that a Wild game is won by the side completing the line,
+     * whatever markup the line is made of.
+     */
+    it('Should credit a Wild line to the side of the last move', () => {
+      const board = [
+        ['o', 'o', 'o'],
+        ['x', 'x', ''],
+        ['', '', ''],
+      ];
+
+      expect(gameVariant('wild').evaluate(board, context(5))).toEqual({
+        winner: 'x',
+        line: [0, 1, 2].map((column) => ({ row: 0, column })),
+      });
+    });
+
+    /**
+     * Ensures that Order, the side moving first, wins with five equal marks
+     * in a row of either markup.
+     */
+    it('Should credit an Order and Chaos line to Order', () => {
+      const board = createBoard(6);
+      for (let column = 0; column < 5; column++) board[0][column] = 'o';
+
+      expect(gameVariant('order_chaos').evaluate(board, context(5))).toEqual({
+        winner: 'x',
+        line: [0, 1, 2, 3, 4].map((column) => ({ row: 0, column })),
+      });
+    });
+
+    /**
+     * Ensures that Chaos wins once the board is full without a line,
+     * and that an unfinished board is undecided.
+     */
+    it('Should credit a full Order and Chaos board to Chaos', () => {
+      const full: string[][] = Array.from({ length: 6 }, (_, row) =>
+        Array.from({ length: 6 }, (_, column) =>
+          (Math.floor(column / 2) + row) % 2 ? 'o' : 'x'
+        )
+      );
+      const open = full.map((cells) => [...cells]);
+      open[5][5] = '';
+
+      expect(gameVariant('order_chaos').evaluate(full, context(36))).toEqual({
+        winner: 'o',
+        line: null,
+      });
+      expect(gameVariant('order_chaos').evaluate(open, context(35))).toEqual({
+        winner: null,
+        line: null,
+      });
+    });
+  });
+});
@@ -0,0 +1,33 @@
+import { TimeControlPreset } from '../interfaces/time-control-preset.interface';
+
+/**
+ * Returns the remaining time of a player under the given time control.
+ *
+ * - The total limit is extended by the increment after every finished move
+ *   (Fischer increment) and reduced by the time spent in the whole game.
+ * - The per-move limit is reduced by the time spent on the current move.
+ * - With both limits the stricter one applies.
+ *
+ * @param preset - Limits of the chosen time control.
+ * @param spent - Seconds the player spent in the whole game.
+ * @param movesMade - Number of moves the player finished.
+ * @param moveSpent - Seconds the player spent on the current move.
+ * @returns The remaining seconds (never negative), or `null` without limits.
+ */
+export function remainingTime(
+  preset: TimeControlPreset,
+  spent: number,
+  movesMade: number,
+  moveSpent: number
+): number | null {
+  const limits: number[] = [];
+
+  if (preset.total !== undefined) {
+    limits.push(preset.total + (preset.increment ?? 0) * movesMade - spent);
+  }
+  if (preset.perMove !== undefined) {
+    limits.push(preset.perMove - moveSpent);
+  }
+
+  return limits.length ? Math.max(Math.min(...limits), 0) : null;
+}
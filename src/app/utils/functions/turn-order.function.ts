@@ -0,0 +1,114 @@
+import { FirstMove } from '../types/first-move.type';
+import { Opponent } from '../types/opponent.type';
+import { PlayerMarkup } from '../types/player-markup.type';
+import { Markup } from '../types/markup.type';
+import { PlayerCount } from '../types/player-count.type';
+import { GameSettings } from '../interfaces/game-settings.interface';
+import { THREE_PLAYER_MIN_SIZE } from '../constants/player-count.constant';
+import { gameVariant } from './variant.function';
+
+/**
+ * Returns the markup of the other side.
+ *
+ * @param markup - Markup of one side.
+ * @returns 'x' for 'o' and 'o' for 'x'.
+ */
+export function opposingMarkup(markup: PlayerMarkup): PlayerMarkup {
+  return markup === 'o' ? 'x' : 'o';
+}
+
+/**
+ * Returns the markup making the first move of a game.
+ *
+ * Against the computer the AI's markup starts when the computer has
+ * the first move, otherwise (and always in two-player mode)
+ * the player's chosen markup starts (also in spectator mode).
+ *
+ * @param playerMarkup - Markup chosen by the player.
+ * @param firstMove - Side making the first move.
+ * @param opponent - Opponent type.
+ * @returns The markup placed on step 0.
+ */
+export function firstMarkupOf(
+  playerMarkup: PlayerMarkup,
+  firstMove: FirstMove,
+  opponent: Opponent
+): PlayerMarkup {
+  return opponent === 'computer' && firstMove === 'computer'
+    ? opposingMarkup(playerMarkup)
+    : playerMarkup;
+}
+
+/**
+ * Returns the markup whose turn it is on the given step.
+ * The first markup moves on even steps, the other one on odd steps.
+ *
+ * @param step - Number of moves already played.
+ * @param firstMarkup - Markup making the first move (default 'o').
+ * @returns The markup of the side to move.
+ */
+export function markupByStep(
+  step: number,
+  firstMarkup: PlayerMarkup = 'o'
+): PlayerMarkup {
+  return step % 2 === 0 ? firstMarkup : opposingMarkup(firstMarkup);
+}
+
+/**
+ * Returns the markups of a game in the order they move.
+ * The first markup is followed by the other two-player markup,
+ * and in three-player games the triangle always moves third.
+ *
+ * @param firstMarkup - Markup making the first move.
+ * @param players - Number of players.
+ * @returns The markups in turn order.
+ */
+export function turnOrder(
+  firstMarkup: PlayerMarkup,
+  players: PlayerCount
+): Markup[] {
+  const order: Markup[] = [firstMarkup, opposingMarkup(firstMarkup)];
+  return players === 3 ? [...order, 't'] : order;
+}
+
+/**
+ * Returns the markup whose turn it is on the given step
+ * of a game with any number of players, rotating through {@link turnOrder}.
+ *
+ * @param step - Number of moves already played.
+ * @param firstMarkup - Markup making the first move.
+ * @param players - Number of players (default 2).
+ * @returns The markup of the side to move.
+ */
+export function markupByTurn(
+  step: number,
+  firstMarkup: PlayerMarkup,
+  players: PlayerCount = 2
+): Markup {
+  const order = turnOrder(firstMarkup, players);
+  return order[step % order.length];
+}
+
+/**
+ * Returns the number of players the given settings actually produce.
+ * Three players are only seated in local games of variants allowing
+ * the optional rules (see `GameVariant.optionalRules`)
+ * whose shorter board side reaches `THREE_PLAYER_MIN_SIZE`;
+ * every other game is played by two.
+ *
+ * @param settings - Game settings.
+ * @returns The effective number of players.
+ */
+export function playerCountOf(
+  settings: Pick<
+    GameSettings,
+    'players' | 'opponent' | 'variant' | 'rows' | 'columns'
+  >
+): PlayerCount {
+  return settings.players === 3 &&
+    settings.opponent === 'player' &&
+    gameVariant(settings.variant).optionalRules &&
+    Math.min(settings.rows, settings.columns) >= THREE_PLAYER_MIN_SIZE
+    ? 3
+    : 2;
+}
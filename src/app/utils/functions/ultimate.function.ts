@@ -0,0 +1,158 @@
+import { ULTIMATE_BOARD_SIDE, ULTIMATE_SIZE } from '../constants/ultimate.constant';
+import { BoardEvaluation } from '../interfaces/board-evaluation.interface';
+import { LastMove } from '../interfaces/last-move.interface';
+import { NestedBoard } from '../interfaces/nested-board.interface';
+import { evaluateBoard, findWinningLine } from './game-rules.function';
+
+/**
+ * Builds the nested view of an Ultimate game from its flat 9x9 board.
+ *
+ * - Every sub-board is cut out of the flat board.
+ * - A sub-board is claimed by the player completing a line on it,
+ *   or marked as 'draw' once it is full without a line.
+ * - The last move sends the next player to the sub-board matching the
+ *   position of the move inside its own sub-board; when that sub-board
+ *   is already decided (or there is no last move), any open sub-board may be chosen.
+ *
+ * @param board - Flat 9x9 board ('x', 'o' or '' per cell).
+ * @param lastMove - Last move on the flat board, if any.
+ * @returns The {@link NestedBoard} of the game.
+ */
+export function ultimateBoardOf(
+  board: string[][],
+  lastMove?: LastMove
+): NestedBoard {
+  const subBoards = Array.from({ length: ULTIMATE_SIZE }, (_, boardRow) =>
+    Array.from({ length: ULTIMATE_SIZE }, (_, boardColumn) =>
+      Array.from({ length: ULTIMATE_SIZE }, (_, row) =>
+        Array.from(
+          { length: ULTIMATE_SIZE },
+          (_, column) =>
+            board[boardRow * ULTIMATE_SIZE + row]?.[
+              boardColumn * ULTIMATE_SIZE + column
+            ] ?? ''
+        )
+      )
+    )
+  );
+
+  // Ultimate games are played by two, so sub-boards are only won by 'x' or 'o'
+  const claimed = subBoards.map((boardRow) =>
+    boardRow.map(
+      (subBoard) =>
+        (evaluateBoard(subBoard, ULTIMATE_SIZE).winner ??
+          '') as NestedBoard['claimed'][number][number]
+    )
+  );
+
+  let activeBoard: LastMove | null = null;
+  if (lastMove) {
+    const target = {
+      row: lastMove.row % ULTIMATE_SIZE,
+      column: lastMove.column % ULTIMATE_SIZE,
+    };
+    activeBoard = claimed[target.row][target.column] ? null : target;
+  }
+
+  return { subBoards, claimed, activeBoard };
+}
+
+/**
+ * Returns the meta-board coordinates of the sub-board containing a cell.
+ *
+ * @param cell - Cell on the flat board.
+ * @returns Row and column of its sub-board on the meta-board.
+ */
+export function subBoardOf(cell: LastMove): LastMove {
+  return {
+    row: Math.floor(cell.row / ULTIMATE_SIZE),
+    column: Math.floor(cell.column / ULTIMATE_SIZE),
+  };
+}
+
+/**
+ * Checks whether a sub-board may receive the next move:
+ * it is still open and it is the active sub-board (or the choice is free).
+ *
+ * @param ultimate - Nested board.
+ * @param board - Meta-board coordinates of the sub-board.
+ * @returns `true` if the next move may be played in the sub-board.
+ */
+export function isPlayableSubBoard(
+  ultimate: NestedBoard,
+  board: LastMove
+): boolean {
+  if (ultimate.claimed[board.row]?.[board.column] !== '') return false;
+  const active = ultimate.activeBoard;
+  return !active || (active.row === board.row && active.column === board.column);
+}
+
+/**
+ * Checks whether a cell of the flat board is a legal next move:
+ * it is empty and lies in a playable sub-board.
+ * Whether the meta-board is already decided is not checked here.
+ *
+ * @param ultimate - Nested board.
+ * @param cell - Cell on the flat board.
+ * @returns `true` if the cell may be played.
+ */
+export function isLegalUltimateMove(
+  ultimate: NestedBoard,
+  cell: LastMove
+): boolean {
+  const board = subBoardOf(cell);
+  return (
+    isPlayableSubBoard(ultimate, board) &&
+    !ultimate.subBoards[board.row][board.column][cell.row % ULTIMATE_SIZE][
+      cell.column % ULTIMATE_SIZE
+    ]
+  );
+}
+
+/**
+ * Collects every legal next move in row-major order of the flat board.
+ *
+ * @param ultimate - Nested board.
+ * @returns Cells of the flat board that may be played.
+ */
+export function legalUltimateMoves(ultimate: NestedBoard): LastMove[] {
+  const moves: LastMove[] = [];
+  for (let row = 0; row < ULTIMATE_BOARD_SIDE; row++) {
+    for (let column = 0; column < ULTIMATE_BOARD_SIDE; column++) {
+      if (isLegalUltimateMove(ultimate, { row, column })) {
+        moves.push({ row, column });
+      }
+    }
+  }
+  return moves;
+}
+
+/**
+ * Evaluates the meta-board of an Ultimate game.
+ *
+ * - Three claimed sub-boards of one player in a row win the game;
+ *   sub-boards ending in a draw belong to nobody.
+ * - Once every sub-board is decided without such a line, the game is a draw.
+ * - Otherwise the game is still ongoing.
+ *
+ * @param ultimate - Nested board.
+ * @returns A {@link BoardEvaluation} whose line holds meta-board coordinates.
+ */
+export function evaluateUltimateBoard(ultimate: NestedBoard): BoardEvaluation {
+  const owners = ultimate.claimed.map((boardRow) =>
+    boardRow.map((owner) => (owner === 'draw' ? '' : owner))
+  );
+  const line = findWinningLine(owners, ULTIMATE_SIZE);
+
+  if (line) {
+    return {
+      winner: owners[line[0].row][line[0].column] as 'x' | 'o',
+      line,
+    };
+  }
+
+  const decided = ultimate.claimed.every((boardRow) =>
+    boardRow.every((owner) => owner !== '')
+  );
+  return { winner: decided ? 'draw' : null, line: null };
+}
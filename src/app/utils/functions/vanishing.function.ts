@@ -0,0 +1,106 @@
+import { LastMove } from '../interfaces/last-move.interface';
+import { MarkOrder } from '../interfaces/mark-order.interface';
+import { MoveRecord } from '../interfaces/move-record.interface';
+import { VanishingPosition } from '../interfaces/vanishing-position.interface';
+import { longestLine } from './game-rules.function';
+import { Markup } from '../types/markup.type';
+
+/**
+ * Returns the maximum number of marks a player may keep on the board
+ * in a vanishing-marks game: the effective win length
+ * (e.g. 3 on a 3x3 board), so every line has to be built from the latest marks.
+ *
+ * @param board - Current board ('x', 'o' or '' per cell).
+ * @param winLength - Number of marks in a row needed to win.
+ * @returns The number of marks each player may keep.
+ */
+export function vanishingLimit(board: string[][], winLength: number): number {
+  return Math.min(winLength, longestLine(board));
+}
+
+/**
+ * Places a mark in a vanishing-marks game.
+ * When the player already has `limit` marks on the board, their oldest mark is removed.
+ * Neither the board nor the mark order is mutated.
+ *
+ * @param board - Current board ('x', 'o' or '' per cell).
+ * @param markOrder - Order of the marks on the board.
+ * @param move - Empty cell the mark is placed in.
+ * @param markup - Markup of the player placing the mark.
+ * @param limit - Number of marks each player may keep (see {@link vanishingLimit}).
+ * @returns The position after the move.
+ */
+export function placeVanishingMark(
+  board: string[][],
+  markOrder: MarkOrder,
+  move: LastMove,
+  markup: Markup,
+  limit: number
+): VanishingPosition {
+  const newBoard = board.map((row) => [...row]);
+  const marks = [
+    ...(markOrder[markup] ?? []),
+    { row: move.row, column: move.column },
+  ];
+
+  newBoard[move.row][move.column] = markup;
+  while (marks.length > limit) {
+    const vanished = marks.shift()!;
+    newBoard[vanished.row][vanished.column] = '';
+  }
+
+  return { board: newBoard, markOrder: { ...markOrder, [markup]: marks } };
+}
+
+/**
+ * Returns the mark that vanishes with the next move of a player:
+ * their oldest mark once they have `limit` marks on the board.
+ *
+ * @param markOrder - Order of the marks on the board.
+ * @param markup - Markup of the player.
+ * @param limit - Number of marks each player may keep (see {@link vanishingLimit}).
+ * @returns The cell of the mark, or `null` if no mark vanishes with the next move.
+ */
+export function nextVanishingMark(
+  markOrder: MarkOrder,
+  markup: Markup,
+  limit: number
+): LastMove | null {
+  const marks = markOrder[markup] ?? [];
+  return marks.length >= limit ? marks[0] : null;
+}
+
+/**
+ * Builds the position of a vanishing-marks game reached after playing
+ * the given moves on an empty board.
+ * Used to rebuild the board after undo/redo, when a game is loaded and in the replay viewer.
+ *
+ * @param rows - Number of board rows.
+ * @param columns - Number of board columns.
+ * @param moves - Moves to play, in playing order.
+ * @param limit - Number of marks each player may keep (see {@link vanishingLimit}).
+ * @returns The position after the moves.
+ */
+export function positionAfterVanishingMoves(
+  rows: number,
+  columns: number,
+  moves: MoveRecord[],
+  limit: number
+): VanishingPosition {
+  let position: VanishingPosition = {
+    board: Array.from({ length: rows }, () =>
+      Array.from({ length: columns }, () => '')
+    ),
+    markOrder: { x: [], o: [] },
+  };
+  for (const move of moves) {
+    position = placeVanishingMark(
+      position.board,
+      position.markOrder,
+      move,
+      move.markup,
+      limit
+    );
+  }
+  return position;
+}
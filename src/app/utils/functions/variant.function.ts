@@ -0,0 +1,62 @@
+import { DEFAULT_VARIANT } from '../constants/variant.constant';
+import { GameSettings } from '../interfaces/game-settings.interface';
+import { GameVariant } from '../interfaces/game-variant.interface';
+import { Variant } from '../types/variant.type';
+
+/**
+ * Registered rule sets by their id, in registration order
+ * (the order the settings dialog lists them in).
+ */
+const REGISTRY = new Map<Variant, GameVariant>();
+
+/**
+ * Registers a rule set, replacing an earlier one with the same id.
+ * Registered variants are listed in the settings dialog and played
+ * through their hooks by the game, the board and the move history.
+ * The built-in rule sets are registered by `app.variants.ts`;
+ * a new one registers itself the same way, without editing this module.
+ *
+ * @param variant - The rule set to register.
+ */
+export function registerVariant(variant: GameVariant): void {
+  REGISTRY.set(variant.id, variant);
+}
+
+/**
+ * Returns the registered rule set with the given id.
+ * Unknown ids (e.g. of a variant no longer registered) get the rules
+ * of `DEFAULT_VARIANT`.
+ *
+ * @param id - Id of the variant.
+ * @returns The registered {@link GameVariant}.
+ */
+export function gameVariant(id: Variant): GameVariant {
+  return REGISTRY.get(id) ?? REGISTRY.get(DEFAULT_VARIANT)!;
+}
+
+/**
+ * Lists every registered rule set in registration order.
+ *
+ * @returns The registered variants.
+ */
+export function registeredVariants(): GameVariant[] {
+  return [...REGISTRY.values()];
+}
+
+/**
+ * Returns the variant the given settings are actually played with.
+ * Variants without an AI hook (Quantum, Wild, Order and Chaos) are only
+ * played locally by two players; against the computer and in spectator mode
+ * the rules of `DEFAULT_VARIANT` are used instead.
+ *
+ * @param settings - Game settings.
+ * @returns The effective variant.
+ */
+export function playedVariant(
+  settings: Pick<GameSettings, 'variant' | 'opponent'>
+): Variant {
+  return settings.opponent !== 'player' &&
+    !gameVariant(settings.variant).aiMove
+    ? DEFAULT_VARIANT
+    : settings.variant;
+}
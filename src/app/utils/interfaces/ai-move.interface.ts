@@ -1,3 +1,5 @@
+import { Markup } from '../types/markup.type';
+
 /**
  * @interface AiMoveResult
  *
@@ -7,6 +9,8 @@
  * - `winner`:
  *   The winner after the move.
  *   - `'x'` or `'o'` if a player has won
+ *     (`'t'` is part of the type only because the rules engine is shared
+ *     with three-player games, the AI never plays them)
  *   - `'draw'` if the game ended in a draw
  *   - `null` if the game is still ongoing
  *
@@ -33,7 +37,7 @@ export interface AiMove {
    * - 'draw' if the game ended in a draw
    * - null if the game is still ongoing
    */
-  winner: 'x' | 'o' | 'draw' | null;
+  winner: Markup | 'draw' | null;
 
   /**
    * The region of the board that was evaluated and modified by the AI.
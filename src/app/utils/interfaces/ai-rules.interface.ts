@@ -0,0 +1,23 @@
+import { MarkOrder } from './mark-order.interface';
+
+/**
+ * @interface AiRules
+ *
+ * Optional rules of a classic game the offline AI has to respect
+ * while it searches for a move.
+ *
+ * Properties:
+ * - `gravity`: whether marks drop to the lowest empty cell of a column
+ * - `markOrder`: placement order of the marks with the vanishing rule, `null` without it
+ * - `misere`: whether completing a line loses instead of winning
+ */
+export interface AiRules {
+  /** Whether marks drop to the lowest empty cell of a column. */
+  gravity: boolean;
+
+  /** Placement order of the marks with the vanishing rule, `null` without it. */
+  markOrder: MarkOrder | null;
+
+  /** Whether completing a line loses instead of winning. */
+  misere: boolean;
+}
@@ -0,0 +1,16 @@
+/**
+ * @interface BoardDimensions
+ *
+ * Represents the number of rows and columns of a (possibly rectangular) board.
+ *
+ * Properties:
+ * - `rows`: Number of board rows
+ * - `columns`: Number of board columns
+ */
+export interface BoardDimensions {
+  /** Number of board rows. */
+  rows: number;
+
+  /** Number of board columns. */
+  columns: number;
+}
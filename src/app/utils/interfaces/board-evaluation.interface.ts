@@ -0,0 +1,24 @@
+import { LastMove } from './last-move.interface';
+import { Markup } from '../types/markup.type';
+
+/**
+ * @interface BoardEvaluation
+ *
+ * Represents the outcome of evaluating a board with the local rules engine.
+ *
+ * Properties:
+ * - `winner`:
+ *   - `'x'`, `'o'` or `'t'` if a player has completed a line
+ *   - `'draw'` if the board is full and nobody has won
+ *   - `null` if the game is still ongoing
+ *
+ * - `line`:
+ *   The ordered cells of the winning line, or `null` if there is no winner.
+ */
+export interface BoardEvaluation {
+  /** Winner of the evaluated board ('x', 'o', 't', 'draw') or null if ongoing. */
+  winner: Markup | 'draw' | null;
+
+  /** Cells forming the winning line, ordered from its first to its last cell. */
+  line: LastMove[] | null;
+}
@@ -0,0 +1,26 @@
+import { BoardImageFormat } from '../types/board-image-format.type';
+
+/**
+ * @interface BoardImageSettings
+ *
+ * Choices of the export dialog for a board image.
+ *
+ * Properties:
+ * - `imageFormat`: file format of the download (`'svg'` or `'png'`)
+ * - `coordinates`: whether file and rank labels are drawn around the board
+ * - `markLastMove`: whether the cell of the last move is outlined
+ * - `markWinningLine`: whether the cells of the winning line are highlighted
+ */
+export interface BoardImageSettings {
+  /** File format of the download. */
+  imageFormat: BoardImageFormat;
+
+  /** Whether file and rank labels are drawn around the board. */
+  coordinates: boolean;
+
+  /** Whether the cell of the last move is outlined. */
+  markLastMove: boolean;
+
+  /** Whether the cells of the winning line are highlighted. */
+  markWinningLine: boolean;
+}
@@ -0,0 +1,38 @@
+import { GameVariant } from './game-variant.interface';
+import { LastMove } from './last-move.interface';
+
+/**
+ * @interface BoardImage
+ *
+ * Position drawn into a board image by `boardImageSvg`,
+ * taken from the current game or from a saved one.
+ *
+ * Properties:
+ * - `board`: marks of the board (the flat 9x9 board in Ultimate games,
+ *   the classical marks in quantum games)
+ * - `layout`: board component of the variant, Ultimate boards get
+ *   their sub-board borders
+ * - `lastMove`: cell of the last move, if any
+ * - `winningLine`: cells of the winning line (the winning sub-boards
+ *   in Ultimate games), `null` without a winner
+ * - `primaryColor` / `accentColor`: theme colors of the image
+ */
+export interface BoardImage {
+  /** Marks of the board. */
+  board: string[][];
+
+  /** Board component of the variant. */
+  layout: GameVariant['layout'];
+
+  /** Cell of the last move, if any. */
+  lastMove?: LastMove;
+
+  /** Cells (or Ultimate sub-boards) of the winning line, `null` without a winner. */
+  winningLine: LastMove[] | null;
+
+  /** Primary color of the theme: grid lines, labels and mark gradient start. */
+  primaryColor: string;
+
+  /** Accent color of the theme: highlights and mark gradient end. */
+  accentColor: string;
+}
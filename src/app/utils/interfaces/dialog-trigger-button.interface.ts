@@ -13,4 +13,7 @@ export interface DialogTriggerButton {
 
   /** Condition determining whether the trigger button is active/visible */
   condition: boolean;
+
+  /** Keyboard shortcut running the action, announced via `aria-keyshortcuts` */
+  keyShortcut?: string;
 }
@@ -10,6 +10,8 @@ import { ErrorKeys } from '../types/error-messages.type';
  * @property type - The type of input element (text, select, email, etc.).
  * @property model - Corresponding FormFieldModel used for data binding.
  * @property options - Optional array of selectable values for 'select' type fields.
+ * @property optionLabels - Optional names shown for the options, by their value;
+ * options without one show their value.
  * @property min - Optional minimum value for 'range' type fields.
  * @property max - Optional maximum value for 'range' type fields.
  * @property errorKeys - Optional list of validation error keys to check for this field.
@@ -21,10 +23,11 @@ export interface FormField {
   title: string;
   type: 'select' | 'text' | 'email' | 'range' | 'color' | 'password';
   model: FormFieldModel;
-  options?: string[] | number[];
-  baseValue?: string | number;
+  options?: string[] | number[] | boolean[];
+  optionLabels?: Record<string, string>;
+  baseValue?: string | number | boolean;
   min?: number;
   max?: number;
   errorKeys?: ErrorKeys[];
-  valueType: 'string' | 'number';
+  valueType: 'string' | 'number' | 'boolean';
 }
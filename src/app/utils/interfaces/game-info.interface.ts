@@ -1,4 +1,10 @@
 import { LastMove } from './last-move.interface';
+import { MoveRecord } from './move-record.interface';
+import { NestedBoard } from './nested-board.interface';
+import { QuantumState } from './quantum-state.interface';
+import { MarkOrder } from './mark-order.interface';
+import { Markup } from '../types/markup.type';
+import { PlayerMarkup } from '../types/player-markup.type';
 
 /**
  * @interface GameInfo
@@ -19,6 +25,8 @@ export interface GameInfo {
    *  - `draw`:           Total draws
    *  - `player_X_Lose`:  Total losses of Player X
    *  - `player_O_Lose`:  Total losses of Player O
+   *  - `player_T_Win`:   Total wins achieved by Player T (three-player games)
+   *  - `player_T_Lose`:  Total losses of Player T (three-player games)
    */
   results?: {
     player_X_Win?: number;
@@ -26,13 +34,15 @@ export interface GameInfo {
     draw?: number;
     player_X_Lose?: number;
     player_O_Lose?: number;
+    player_T_Win?: number;
+    player_T_Lose?: number;
   };
 
   /**
    * The currently active player's markup.
-   * Determines whose turn it is: 'x' or 'o'.
+   * Determines whose turn it is: 'x', 'o', or 't' in three-player games.
    */
-  actualMarkup?: 'x' | 'o';
+  actualMarkup?: Markup;
 
   /**
    * Sequential index of the current move.
@@ -51,33 +61,85 @@ export interface GameInfo {
    * Each cell can contain:
    *  - 'x' for Player X
    *  - 'o' for Player O
+   *  - 't' for Player T (three-player games)
    *  - '' (empty string) for unoccupied cells
    */
   actualBoard?: string[][];
 
+  /**
+   * Nested view of the board in the Ultimate variant:
+   * the sub-boards, their owners and the sub-board the next move is sent to.
+   * Kept alongside the flat 9x9 `actualBoard`; `null` in every other variant.
+   */
+  ultimateBoard?: NestedBoard | null;
+
+  /**
+   * State of the board in the quantum variant:
+   * the collapsed marks, the spooky marks and the cycle waiting to be collapsed.
+   * Its classical marks are mirrored in `actualBoard`; `null` in every other variant.
+   */
+  quantumBoard?: QuantumState | null;
+
+  /**
+   * Order of the marks of both players on the board in a vanishing-marks game,
+   * oldest first; the oldest mark vanishes once a player exceeds the limit.
+   * `null` when the vanishing rule is off.
+   */
+  markOrder?: MarkOrder | null;
+
   /**
    * Metadata of the most recent move.
    * Used for UI highlighting, animations, or region calculations.
    */
   lastMove?: LastMove;
 
+  /**
+   * Every move of the current game in the order it was played,
+   * including the placed markup and a timestamp.
+   * Used to take moves back (undo).
+   */
+  moveHistory?: MoveRecord[];
+
+  /**
+   * Moves taken back by undo, the next move to replay being the last element.
+   * Cleared whenever a new move is played.
+   */
+  redoHistory?: MoveRecord[];
+
   /**
    * Tracks cumulative thinking/decision time for each player in the current game.
    * Units can be seconds, milliseconds, or as def  ined by the app's timing logic.
    *
    *  - `player_X`: Total time spent by Player X
    *  - `player_O`: Total time spent by Player O
+   *  - `player_T`: Total time spent by Player T (three-player games)
    */
   playerSpentTime?: {
     player_X?: number;
     player_O?: number;
+    player_T?: number;
   };
 
   /**
    * Winner of the current game.
-   * Can be 'x', 'o', 'draw', or `null` if the game is ongoing.
+   * Can be 'x', 'o', 't', 'draw', or `null` if the game is ongoing.
+   * In Wild and Order and Chaos games it is the side credited with the result
+   * (the mover completing the line, Order or Chaos), not the markup of the line.
+   */
+  winner?: Markup | 'draw' | null;
+
+  /**
+   * Cells of the winning line, ordered from its first to its last cell.
+   * `null` while the game is ongoing or ended in a draw.
+   * Used to highlight the winning cells on the board.
+   */
+  winningLine?: LastMove[] | null;
+
+  /**
+   * Markup of the player who ran out of time and lost the game.
+   * `null` while nobody has lost on time.
    */
-  winner?: 'x' | 'o' | 'draw' | null;
+  timeout?: PlayerMarkup | null;
 
   /**
    * Name of the loaded game session. When a game is loaded from
@@ -0,0 +1,65 @@
+import { MoveRecord } from './move-record.interface';
+import { GameInfo } from './game-info.interface';
+import { Hardness } from '../types/hardness.type';
+import { PlayerCount } from '../types/player-count.type';
+import { PlayerMarkup } from '../types/player-markup.type';
+import { Variant } from '../types/variant.type';
+
+/**
+ * @interface GameRecord
+ *
+ * A game in the portable text record format (see `serializeGameRecord`):
+ * the headers of the record and its move list.
+ *
+ * Properties:
+ * - `variant`: rule set of the game
+ * - `rows`, `columns`: dimensions of the played board
+ * - `winLength`: number of marks in a row needed to win
+ * - `gravity`, `vanishing`, `misere`: optional rules (classic games only)
+ * - `players`: number of players
+ * - `firstMarkup`: markup making the first move
+ * - `difficulty`: difficulty level of the computer
+ * - `result`: side credited with the result, 'draw', or `null` while undecided
+ * - `date`: day the record was written (YYYY-MM-DD)
+ * - `moves`: moves of the game, in playing order
+ */
+export interface GameRecord {
+  /** Rule set of the game. */
+  variant: Variant;
+
+  /** Number of board rows. */
+  rows: number;
+
+  /** Number of board columns. */
+  columns: number;
+
+  /** Number of marks in a row needed to win. */
+  winLength: number;
+
+  /** Whether marks drop to the lowest empty cell of a column. */
+  gravity: boolean;
+
+  /** Whether a new mark removes the player's oldest one beyond the limit. */
+  vanishing: boolean;
+
+  /** Whether completing a line loses instead of winning. */
+  misere: boolean;
+
+  /** Number of players. */
+  players: PlayerCount;
+
+  /** Markup making the first move. */
+  firstMarkup: PlayerMarkup;
+
+  /** Difficulty level of the computer. */
+  difficulty: Hardness;
+
+  /** Side credited with the result, 'draw', or `null` while undecided. */
+  result: GameInfo['winner'];
+
+  /** Day the record was written (YYYY-MM-DD). */
+  date: string;
+
+  /** Moves of the game, in playing order. */
+  moves: MoveRecord[];
+}
@@ -1,26 +1,150 @@
+import { AiEngine } from '../types/ai-engine.type';
+import { FirstMove } from '../types/first-move.type';
+import { Opponent } from '../types/opponent.type';
+import { PlayerMarkup } from '../types/player-markup.type';
+import { PlayerCount } from '../types/player-count.type';
+import { TimeControl } from '../types/time-control.type';
+import { Variant } from '../types/variant.type';
+
 /**
  * @interface GameSettings
  * Represents the configuration used to initialize a new game.
  *
- * @property {number} size
- *    The dimension of the game board (e.g., 3 → 3x3, 5 → 5x5).
+ * @property {number} rows
+ *    The number of board rows (e.g., 6 in a 6x7 board).
+ *
+ * @property {number} columns
+ *    The number of board columns (e.g., 7 in a 6x7 board).
  *
- * @property {'player' | 'computer'} opponent
+ * @property {'player' | 'computer' | 'spectator'} opponent
  *    Defines who the opponent is:
- *      - 'player'   → local two-player mode
- *      - 'computer' → AI-controlled opponent
+ *      - 'player'    → local two-player mode
+ *      - 'computer'  → AI-controlled opponent
+ *      - 'spectator' → two AI levels play each other
  *
  * @property {number} hardness
  *    The AI difficulty level. Higher values correspond to stronger AI behavior.
+ *    In spectator mode it is the level of the AI playing 'o'.
+ *
+ * @property {number} secondHardness
+ *    The difficulty level of the AI playing 'x' in spectator mode.
+ *
+ * @property {number} aiDelay
+ *    Delay in milliseconds before the computer makes its move.
+ *
+ * @property {number} winLength
+ *    Number of marks in a row needed to win (e.g., 3 → tic-tac-toe, 5 → gomoku).
+ *    Values larger than the longer board side are capped at that side.
+ *
+ * @property {'server' | 'local'} aiEngine
+ *    The engine computing the computer's moves:
+ *      - 'server' → backend AI with an automatic offline fallback
+ *      - 'local'  → offline AI only
+ *
+ * @property {'o' | 'x'} playerMarkup
+ *    The markup the human player plays with (against the computer),
+ *    or the markup making the first move (in two-player and spectator mode).
+ *
+ * @property {'human' | 'computer'} firstMove
+ *    The side making the first move against the computer:
+ *      - 'human'    → the player opens the game
+ *      - 'computer' → the AI opens the game
+ *
+ * @property {'none' | 'sudden_death' | 'per_move' | 'fischer'} timeControl
+ *    The chess-clock time control of the game (see `TIME_CONTROL_PRESETS`):
+ *      - 'none'         → no limit
+ *      - 'sudden_death' → a total time for the whole game
+ *      - 'per_move'     → a time limit for every move
+ *      - 'fischer'      → a total time with an increment after every move
+ *
+ * @property {Variant} variant
+ *    The id of the registered rule set of the game (see `registerVariant`).
+ *    The built-in ones (see `BUILT_IN_VARIANTS`):
+ *      - 'classic'     → a single rows × columns board
+ *      - 'ultimate'    → a 3x3 meta-board of 3x3 boards; the board dimensions
+ *                        and the win length are ignored
+ *      - 'quantum'     → a 3x3 board of entangled spooky marks; the board
+ *                        dimensions and the win length are ignored
+ *      - 'wild'        → a rows × columns board where every move places
+ *                        either mark; whoever completes a line wins
+ *      - 'order_chaos' → a 6x6 board where every move places either mark;
+ *                        Order (moving first) wins with five in a row, Chaos
+ *                        by filling the board; the board dimensions and the
+ *                        win length are ignored
+ *    Variants without an AI hook (Quantum, Wild, Order and Chaos) are played
+ *    locally by two players only (other opponents fall back to
+ *    `DEFAULT_VARIANT`, see `playedVariant`).
+ *
+ * @property {boolean} gravity
+ *    Whether marks fall to the lowest empty cell of the chosen column
+ *    (classic variant only).
+ *
+ * @property {boolean} vanishing
+ *    Whether every player keeps at most as many marks as the win length;
+ *    a new mark removes the player's oldest one (classic variant only).
+ *
+ * @property {boolean} misere
+ *    Whether completing a line loses instead of winning (classic variant only).
+ *
+ * @property {boolean} coordinates
+ *    Whether file letters and rank numbers are shown around the board
+ *    (display preference, set on the game page).
+ *
+ * @property {2 | 3} players
+ *    The number of players. A third player with the 't' markup only joins
+ *    local games of the classic variant on boards of at least 5x5
+ *    (see `playerCountOf`); time controls and the misère rule are ignored then.
  */
 export interface GameSettings {
 
-  /** @property size – The board dimension (e.g., 3 = 3x3). */
-  size: number;
+  /** @property rows – The number of board rows. */
+  rows: number;
 
-  /** @property opponent – Specifies whether the opponent is a human or an AI. */
-  opponent: 'player' | 'computer';
+  /** @property columns – The number of board columns. */
+  columns: number;
+
+  /** @property opponent – Specifies whether the opponent is a human or an AI, or both sides are AIs. */
+  opponent: Opponent;
 
   /** @property hardness – Numeric difficulty level controlling the AI strength. */
   hardness: number;
+
+  /** @property secondHardness – Difficulty level of the AI playing 'x' in spectator mode. */
+  secondHardness: number;
+
+  /** @property aiDelay – Delay in milliseconds before the computer moves. */
+  aiDelay: number;
+
+  /** @property winLength – Number of marks in a row needed to win (capped at the longer side). */
+  winLength: number;
+
+  /** @property aiEngine – Engine used to compute the computer's moves. */
+  aiEngine: AiEngine;
+
+  /** @property playerMarkup – Markup the human player plays with. */
+  playerMarkup: PlayerMarkup;
+
+  /** @property firstMove – Side making the first move against the computer. */
+  firstMove: FirstMove;
+
+  /** @property timeControl – Chess-clock time control of the game. */
+  timeControl: TimeControl;
+
+  /** @property variant – Rule set of the game. */
+  variant: Variant;
+
+  /** @property gravity – Whether marks drop to the lowest empty cell of a column. */
+  gravity: boolean;
+
+  /** @property vanishing – Whether a new mark removes the player's oldest one beyond the limit. */
+  vanishing: boolean;
+
+  /** @property misere – Whether completing a line loses instead of winning. */
+  misere: boolean;
+
+  /** @property coordinates – Whether file and rank labels are shown around the board. */
+  coordinates: boolean;
+
+  /** @property players – Number of players (see `playerCountOf`). */
+  players: PlayerCount;
 }
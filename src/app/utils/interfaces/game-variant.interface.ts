@@ -0,0 +1,160 @@
+import { AiMove } from './ai-move.interface';
+import { BoardEvaluation } from './board-evaluation.interface';
+import { GameInfo } from './game-info.interface';
+import { GameSettings } from './game-settings.interface';
+import { LastMove } from './last-move.interface';
+import { MoveRecord } from './move-record.interface';
+import { VariantContext } from './variant-context.interface';
+import { GameLogic } from '../../services/game-logic.service';
+import { AiEngine } from '../types/ai-engine.type';
+import { Markup } from '../types/markup.type';
+import { MessageKey } from '../types/message-key.type';
+import { PlayerCount } from '../types/player-count.type';
+import { PlayerMarkup } from '../types/player-markup.type';
+import { Variant } from '../types/variant.type';
+
+/**
+ * @interface GameVariant
+ *
+ * Rule set of a game, registered with `registerVariant`.
+ * The game, the board, the move history and the settings dialog
+ * only reach the rules through these hooks, so a new rule set is added
+ * by registering a new variant instead of editing those components.
+ *
+ * Properties:
+ * - `id`: value stored in `GameSettings.variant`
+ * - `name`: catalog key of the name, e.g. shown on saved games and in the settings
+ * - `layout`: board component the variant is played on:
+ *   - `'grid'`: the rows × columns `Board`
+ *   - `'ultimate'`: the nested `UltimateBoard`
+ *   - `'quantum'`: the `QuantumBoard` of spooky marks
+ * - `choosesMarkup`: whether the player to move chooses the markup placed
+ * - `fixedBoard`: whether the board ignores the dimensions of the settings
+ * - `optionalRules`: whether the optional rules of the settings apply
+ *   (gravity, vanishing marks, misère and a third player)
+ * - `spookyMarks`: whether moves place spooky marks, which only the move list
+ *   keeps (such games cannot be restored from a bare board)
+ * - `sideNames`: catalog keys naming the sides in turn order,
+ *   for variants whose sides play a role instead of a markup
+ *
+ * Hooks:
+ * - `dimensions`: board and win length the settings are played with (also saved)
+ * - `legalMoves`: cells the next mark may be placed in
+ * - `applyMove`: board after a mark is placed
+ * - `evaluate`: result check of a board
+ * - `markupByTurn`: turn order, the markup to move on a step
+ * - `restore`: variant-specific state rebuilt from a saved board and its moves
+ * - `aiMove`: move of the computer; variants without it are only played
+ *   locally by two players, see `playedVariant`
+ */
+export interface GameVariant {
+  /** Value stored in `GameSettings.variant`. */
+  id: Variant;
+
+  /** Catalog key of the name of the variant. */
+  name: MessageKey;
+
+  /** Board component the variant is played on. */
+  layout: 'grid' | 'ultimate' | 'quantum';
+
+  /** Whether the player to move chooses the markup placed. */
+  choosesMarkup: boolean;
+
+  /** Whether the board ignores the dimensions of the settings. */
+  fixedBoard: boolean;
+
+  /** Whether gravity, vanishing marks, misère and a third player apply. */
+  optionalRules: boolean;
+
+  /** Whether moves place spooky marks kept only by the move list. */
+  spookyMarks: boolean;
+
+  /** Catalog keys naming the sides in turn order, if they play a role. */
+  sideNames?: readonly MessageKey[];
+
+  /**
+   * Returns the board dimensions and the win length a game is played with.
+   *
+   * @param settings Dimensions and win length of the settings.
+   * @returns The dimensions and the win length of the played board.
+   */
+  dimensions(
+    settings: Pick<GameSettings, 'rows' | 'columns' | 'winLength'>
+  ): Pick<GameSettings, 'rows' | 'columns' | 'winLength'>;
+
+  /**
+   * Collects the cells the next mark may be placed in.
+   *
+   * @param board Current board.
+   * @param context State of the game.
+   * @returns Coordinates of the playable cells.
+   */
+  legalMoves(board: string[][], context: VariantContext): LastMove[];
+
+  /**
+   * Places a mark into a cell of a copy of the board.
+   *
+   * @param board Current board.
+   * @param move Cell the mark is placed into.
+   * @param markup Mark to place.
+   * @returns The board after the move.
+   */
+  applyMove(board: string[][], move: LastMove, markup: Markup): string[][];
+
+  /**
+   * Checks a board for a result.
+   *
+   * @param board Board to evaluate.
+   * @param context State of the game.
+   * @returns The winner and the winning line of the board.
+   */
+  evaluate(board: string[][], context: VariantContext): BoardEvaluation;
+
+  /**
+   * Returns the markup whose turn it is on the given step.
+   *
+   * @param step Number of moves already played.
+   * @param firstMarkup Markup making the first move.
+   * @param players Number of players.
+   * @returns The markup of the side to move.
+   */
+  markupByTurn(
+    step: number,
+    firstMarkup: PlayerMarkup,
+    players: PlayerCount
+  ): Markup;
+
+  /**
+   * Rebuilds the variant-specific state of a saved game.
+   *
+   * @param board Saved board.
+   * @param moves Saved move list.
+   * @param lastMove Last move of the saved game, if any.
+   * @returns The nested and the quantum board of the game (`null` when unused).
+   */
+  restore(
+    board: string[][],
+    moves: MoveRecord[],
+    lastMove?: LastMove
+  ): Pick<GameInfo, 'ultimateBoard' | 'quantumBoard'>;
+
+  /**
+   * Computes the computer's next move.
+   *
+   * @param logic Game logic service reaching the backend and the offline engine.
+   * @param board Current board.
+   * @param markup Markup of the computer.
+   * @param hardness Difficulty level of the computer.
+   * @param engine Engine computing the move.
+   * @param context State of the game.
+   * @returns The AI move, or `undefined` if none could be computed.
+   */
+  aiMove?(
+    logic: GameLogic,
+    board: string[][],
+    markup: PlayerMarkup,
+    hardness: number,
+    engine: AiEngine,
+    context: VariantContext
+  ): Promise<AiMove | undefined>;
+}
@@ -0,0 +1,24 @@
+import { LastMove } from './last-move.interface';
+
+/**
+ * @interface MarkOrder
+ *
+ * Order of the marks of both players still on the board in a vanishing-marks game.
+ * Every list starts with the oldest mark, which is the next one to vanish
+ * once the player already has the maximum number of marks on the board.
+ *
+ * Properties:
+ * - `x`: cells of the marks of 'x', oldest first
+ * - `o`: cells of the marks of 'o', oldest first
+ * - `t`: cells of the marks of 't' in three-player games, oldest first
+ */
+export interface MarkOrder {
+  /** Cells of the marks of 'x', oldest first. */
+  x: LastMove[];
+
+  /** Cells of the marks of 'o', oldest first. */
+  o: LastMove[];
+
+  /** Cells of the marks of 't', oldest first (three-player games only). */
+  t?: LastMove[];
+}
@@ -0,0 +1,21 @@
+import { MessageKey } from '../types/message-key.type';
+
+/**
+ * @interface MessageError
+ *
+ * Represents an error whose explanation is a text of the message catalogs,
+ * so it can be shown in the chosen language (see `messageError`).
+ *
+ * Properties:
+ * - `key`: message key of the explanation
+ * - `params`: values of the `{name}` placeholders of the explanation
+ *
+ * The `message` of the error holds the English explanation.
+ */
+export interface MessageError extends Error {
+  /** Message key of the explanation. */
+  key: MessageKey;
+
+  /** Values of the `{name}` placeholders of the explanation. */
+  params: Record<string, string | number>;
+}
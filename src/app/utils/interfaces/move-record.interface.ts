@@ -0,0 +1,36 @@
+import { LastMove } from './last-move.interface';
+import { Markup } from '../types/markup.type';
+
+/**
+ * @interface MoveRecord
+ *
+ * Represents a single move stored in the game's move history.
+ * Used by undo/redo to rebuild earlier board states.
+ *
+ * Properties:
+ * - `row`, `column`: Coordinates of the placed mark (from {@link LastMove})
+ * - `markup`: The mark that was placed ('x', 'o' or 't'); in Wild and
+ *   Order and Chaos games the mark chosen by the side to move
+ * - `timestamp`: Time of the move in milliseconds since the Unix epoch
+ * - `entangled`: Second cell of a spooky mark (quantum games only)
+ * - `collapse`: Cell the pending spooky mark of a cycle was collapsed into
+ *   at the start of the turn (quantum games only)
+ *
+ * In quantum games a record holds a whole turn: an optional collapse, then a
+ * spooky mark (`row`, `column` and `entangled`) or a single classical mark.
+ * A turn whose collapse already decided the game repeats the collapse cell
+ * in `row` and `column`.
+ */
+export interface MoveRecord extends LastMove {
+  /** The mark placed by this move. */
+  markup: Markup;
+
+  /** Time of the move (epoch milliseconds). */
+  timestamp: number;
+
+  /** Second cell of a spooky mark (quantum games only). */
+  entangled?: LastMove;
+
+  /** Cell the pending spooky mark was collapsed into (quantum games only). */
+  collapse?: LastMove;
+}
@@ -0,0 +1,26 @@
+import { LastMove } from './last-move.interface';
+
+/**
+ * @interface NestedBoard
+ *
+ * Nested view of an Ultimate tic-tac-toe board: a 3x3 meta-board of 3x3 sub-boards.
+ * Derived from the flat 9x9 `GameInfo.actualBoard` and the last move.
+ *
+ * Properties:
+ * - `subBoards`: cells of every sub-board, indexed as
+ *   `[boardRow][boardColumn][row][column]` ('x', 'o' or '' per cell)
+ * - `claimed`: owner of every sub-board on the meta-board
+ *   ('x' or 'o' once won, 'draw' once full without a line, '' while open)
+ * - `activeBoard`: meta-board coordinates of the sub-board the next move
+ *   must be played in, `null` when any open sub-board may be chosen
+ */
+export interface NestedBoard {
+  /** Cells of every sub-board, `[boardRow][boardColumn][row][column]`. */
+  subBoards: string[][][][];
+
+  /** Owner of every sub-board ('x', 'o', 'draw' or '' while open). */
+  claimed: ('x' | 'o' | 'draw' | '')[][];
+
+  /** Sub-board the next move is sent to, or `null` for a free choice. */
+  activeBoard: LastMove | null;
+}
@@ -0,0 +1,21 @@
+/**
+ * @interface NotationTurn
+ *
+ * A numbered line of the move list, holding one move of every seated player
+ * (e.g. "1. b2 c3").
+ *
+ * Properties:
+ * - `number`: Number of the turn, starting from 1
+ * - `start`: Index of the turn's first move in the move history
+ * - `moves`: Notation of the turn's moves, in playing order
+ */
+export interface NotationTurn {
+  /** Number of the turn, starting from 1. */
+  number: number;
+
+  /** Index of the turn's first move in the move history. */
+  start: number;
+
+  /** Notation of the turn's moves, in playing order. */
+  moves: string[];
+}
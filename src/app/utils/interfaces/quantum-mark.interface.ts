@@ -0,0 +1,19 @@
+import { PlayerMarkup } from '../types/player-markup.type';
+
+/**
+ * @interface QuantumMark
+ *
+ * A mark of a quantum tic-tac-toe game together with the number of the move
+ * that placed it (its subscript, e.g. x3 for the third move of the game).
+ *
+ * Properties:
+ * - `markup`: the player's mark ('x' or 'o')
+ * - `move`: 1-based number of the move placing the mark
+ */
+export interface QuantumMark {
+  /** The player's mark. */
+  markup: PlayerMarkup;
+
+  /** 1-based number of the move placing the mark. */
+  move: number;
+}
@@ -0,0 +1,26 @@
+import { QuantumMark } from './quantum-mark.interface';
+import { SpookyMark } from './spooky-mark.interface';
+
+/**
+ * @interface QuantumState
+ *
+ * State of a quantum tic-tac-toe board.
+ * Derived from the move history with `quantumBoardOf`; its classical marks
+ * are mirrored in `GameInfo.actualBoard`.
+ *
+ * Properties:
+ * - `classical`: collapsed mark of every cell, `null` while the cell is not collapsed
+ * - `spooky`: marks still in superposition, in playing order
+ * - `cycle`: the spooky mark that closed a cycle of entanglement and has to be
+ *   collapsed at the start of the next turn, `null` without a cycle
+ */
+export interface QuantumState {
+  /** Collapsed mark of every cell (`null` while not collapsed). */
+  classical: (QuantumMark | null)[][];
+
+  /** Marks still in superposition, in playing order. */
+  spooky: SpookyMark[];
+
+  /** Spooky mark waiting to be collapsed, or `null` without a cycle. */
+  cycle: SpookyMark | null;
+}
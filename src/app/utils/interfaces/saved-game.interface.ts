@@ -1,6 +1,8 @@
 import { savedGameStatus } from '../types/game-status.type';
 import { Hardness } from '../types/hardness.type';
+import { GameInfo } from './game-info.interface';
 import { GameSettings } from './game-settings.interface';
+import { MoveRecord } from './move-record.interface';
 
 /**
  * Represents a single game session.
@@ -21,7 +23,7 @@ export interface SavedGame {
   /**
    * 2D array representing the game board.
    * Each cell can contain a marker (e.g., "x", "o") or an empty string.
-   * The array dimensions match the `size` property.
+   * The array dimensions match the `rows` and `columns` properties.
    */
   board: any[][];
 
@@ -36,6 +38,13 @@ export interface SavedGame {
       }
     | undefined;
 
+  /**
+   * Every move of the game, in playing order.
+   * Used to replay the game step by step. Missing on games saved before
+   * move lists were stored; those can only show their final board.
+   */
+  moves?: MoveRecord[];
+
   /**
    * Current state of the game.
    * Matches the backend enum values (lowercase form):
@@ -60,16 +69,113 @@ export interface SavedGame {
   difficulty: Hardness;
 
   /**
-   * Board size (e.g., 3 for a 3x3 board).
+   * Board size of square boards (e.g., 3 for a 3x3 board).
+   * Games saved before rows and columns were separated only have this dimension.
    */
   size: number;
 
+  /**
+   * Number of board rows.
+   * Maps to GameSettings['rows']. Missing on older saves, which use `size`.
+   */
+  rows?: number;
+
+  /**
+   * Number of board columns.
+   * Maps to GameSettings['columns']. Missing on older saves, which use `size`.
+   */
+  columns?: number;
+
+  /**
+   * Number of marks in a row needed to win.
+   * Maps to GameSettings['winLength']. Missing on games saved before the
+   * setting existed; those fall back to the dimension-based default.
+   */
+  winLength?: number;
+
   /**
    * The opponent type.
    * Maps to GameSettings['opponent'], e.g., 'player' or 'computer'.
    */
   opponent: GameSettings['opponent'];
 
+  /**
+   * Markup the player played with.
+   * Maps to GameSettings['playerMarkup']. Missing on games saved before the
+   * setting existed; those were played as 'o'.
+   */
+  playerMarkup?: GameSettings['playerMarkup'];
+
+  /**
+   * Side that made the first move.
+   * Maps to GameSettings['firstMove']. Missing on games saved before the
+   * setting existed; those were opened by the player.
+   */
+  firstMove?: GameSettings['firstMove'];
+
+  /**
+   * Chess-clock time control of the game.
+   * Maps to GameSettings['timeControl']. Missing on games saved before the
+   * setting existed; those were played without a time limit.
+   */
+  timeControl?: GameSettings['timeControl'];
+
+  /**
+   * Time spent by each player when the game was saved (seconds).
+   * Used to resume the clocks of a loaded game.
+   */
+  playerSpentTime?: GameInfo['playerSpentTime'];
+
+  /**
+   * Markup of the player who lost the game on time,
+   * `null` (or missing) when the game did not end on time.
+   */
+  timeout?: GameInfo['timeout'];
+
+  /**
+   * Rule set of the game.
+   * Maps to GameSettings['variant']. Missing on games saved before the
+   * setting existed; those are classic games. Ultimate games store their
+   * flat 9x9 board in `board`, quantum games their classical marks
+   * (the spooky marks are rebuilt from `moves`). In Wild and Order and Chaos
+   * games the markups of `moves` are the placed marks, not the sides.
+   */
+  variant?: GameSettings['variant'];
+
+  /**
+   * Whether marks dropped to the lowest empty cell of a column.
+   * Maps to GameSettings['gravity']. Missing on games saved before the
+   * setting existed; those were played without gravity.
+   */
+  gravity?: GameSettings['gravity'];
+
+  /**
+   * Whether each player's oldest mark vanished once they exceeded the win length.
+   * Maps to GameSettings['vanishing']. Missing on games saved before the
+   * setting existed; those were played without the rule.
+   */
+  vanishing?: GameSettings['vanishing'];
+
+  /**
+   * Whether completing a line lost instead of winning.
+   * Maps to GameSettings['misere']. Missing on games saved before the
+   * setting existed; those were played without the rule.
+   */
+  misere?: GameSettings['misere'];
+
+  /**
+   * Placement order of the marks on the final board of a vanishing-marks game.
+   * Maps to GameInfo['markOrder']. When missing it is rebuilt from the moves.
+   */
+  markOrder?: GameInfo['markOrder'];
+
+  /**
+   * Number of players of the game, 3 for a local three-player game.
+   * Maps to GameSettings['players']. Missing on games saved before the
+   * setting existed; those were played by two.
+   */
+  players?: GameSettings['players'];
+
   /**
    * Timestamp of the last update performed on this game.
    * Usually generated automatically by Sequelize as a string (ISO or epoch).
@@ -0,0 +1,33 @@
+import { GameRecord } from './game-record.interface';
+import { LastMove } from './last-move.interface';
+import { MarkOrder } from './mark-order.interface';
+import { Markup } from '../types/markup.type';
+
+/**
+ * @interface SharedPosition
+ *
+ * A position sent as a link (see `encodeSharedPosition`): the settings
+ * it is played with, the board, the last move and the side to move.
+ *
+ * Properties:
+ * - `variant`, `rows`, `columns`, `winLength`, `gravity`, `vanishing`,
+ *   `misere`, `players`, `firstMarkup`: settings of the game (see `GameRecord`)
+ * - `board`: marks of the board ('o', 'x', 't' or '' per cell)
+ * - `lastMove`: cell of the last move, `undefined` on an empty board
+ * - `toMove`: markup of the side to move
+ * - `markOrder`: order of the marks in vanishing-marks games, otherwise `null`
+ */
+export interface SharedPosition
+  extends Omit<GameRecord, 'difficulty' | 'result' | 'date' | 'moves'> {
+  /** Marks of the board ('o', 'x', 't' or '' per cell). */
+  board: string[][];
+
+  /** Cell of the last move, `undefined` on an empty board. */
+  lastMove?: LastMove;
+
+  /** Markup of the side to move. */
+  toMove: Markup;
+
+  /** Order of the marks in vanishing-marks games, otherwise `null`. */
+  markOrder: MarkOrder | null;
+}
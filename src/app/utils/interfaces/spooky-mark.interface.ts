@@ -0,0 +1,17 @@
+import { LastMove } from './last-move.interface';
+import { QuantumMark } from './quantum-mark.interface';
+
+/**
+ * @interface SpookyMark
+ *
+ * A quantum mark still in superposition: it is entangled between two cells
+ * and collapses into one of them once it becomes part of a cycle.
+ *
+ * Properties:
+ * - `markup`, `move`: the mark and its move number (from {@link QuantumMark})
+ * - `cells`: the two cells the mark is entangled between
+ */
+export interface SpookyMark extends QuantumMark {
+  /** The two cells the mark is entangled between. */
+  cells: [LastMove, LastMove];
+}
@@ -0,0 +1,21 @@
+/**
+ * @interface TimeControlPreset
+ *
+ * Represents the limits of a time control, every value is in seconds.
+ * A missing value means the game has no such limit.
+ *
+ * Properties:
+ * - `total`: Total time of a player for the whole game
+ * - `perMove`: Time of a player for every single move
+ * - `increment`: Time added to the total after every finished move
+ */
+export interface TimeControlPreset {
+  /** Total time of a player for the whole game (seconds). */
+  total?: number;
+
+  /** Time of a player for every single move (seconds). */
+  perMove?: number;
+
+  /** Time added to the total after every finished move (seconds). */
+  increment?: number;
+}
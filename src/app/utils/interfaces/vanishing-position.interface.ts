@@ -0,0 +1,19 @@
+import { MarkOrder } from './mark-order.interface';
+
+/**
+ * @interface VanishingPosition
+ *
+ * A position of a vanishing-marks game: the board together with
+ * the order of the marks on it.
+ *
+ * Properties:
+ * - `board`: the board ('x', 'o' or '' per cell)
+ * - `markOrder`: order of the marks of both players on the board
+ */
+export interface VanishingPosition {
+  /** The board ('x', 'o' or '' per cell). */
+  board: string[][];
+
+  /** Order of the marks of both players on the board, oldest first. */
+  markOrder: MarkOrder;
+}
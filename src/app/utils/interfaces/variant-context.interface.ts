@@ -0,0 +1,51 @@
+import { LastMove } from './last-move.interface';
+import { MarkOrder } from './mark-order.interface';
+import { QuantumState } from './quantum-state.interface';
+import { PlayerMarkup } from '../types/player-markup.type';
+import { PlayerCount } from '../types/player-count.type';
+
+/**
+ * @interface VariantContext
+ *
+ * State of a game the hooks of a {@link GameVariant} may need
+ * besides the board itself.
+ *
+ * Properties:
+ * - `winLength`: number of marks in a row needed to win (from the settings)
+ * - `step`: number of moves played
+ * - `firstMarkup`: markup making the first move
+ * - `players`: number of players seated in the game
+ * - `lastMove`: last move of the game, if any (decides the sub-board in Ultimate games)
+ * - `quantumBoard`: board of spooky marks in quantum games
+ * - `gravity`: whether marks drop to the lowest empty cell of a column (classic games)
+ * - `markOrder`: placement order of the marks with the vanishing rule (classic games)
+ * - `misere`: whether completing a line loses instead of winning (classic games)
+ */
+export interface VariantContext {
+  /** Number of marks in a row needed to win (from the settings). */
+  winLength: number;
+
+  /** Number of moves played. */
+  step: number;
+
+  /** Markup making the first move. */
+  firstMarkup: PlayerMarkup;
+
+  /** Number of players seated in the game. */
+  players: PlayerCount;
+
+  /** Last move of the game, if any. */
+  lastMove?: LastMove;
+
+  /** Board of spooky marks (quantum games only). */
+  quantumBoard?: QuantumState | null;
+
+  /** Whether marks drop to the lowest empty cell of a column (classic games only). */
+  gravity?: boolean;
+
+  /** Placement order of the marks with the vanishing rule, `null` without it (classic games only). */
+  markOrder?: MarkOrder | null;
+
+  /** Whether completing a line loses instead of winning (classic games only). */
+  misere?: boolean;
+}
@@ -139,23 +139,25 @@ export function createGame(
 }
 
 /**
- * Creates an empty NxN board filled with empty strings.
+ * Creates an empty rows × columns board filled with empty strings.
  *
  * Useful for tests that need a clean game board with a specific size.
  *
- * @param size Board side length.
+ * @param rows Number of board rows.
+ * @param columns Number of board columns (defaults to `rows`, a square board).
  */
 export function createBoard(
-  size: number
+  rows: number,
+  columns: number = rows
 ): NonNullable<GameInfo['actualBoard']> {
   /** Resulting board matrix. */
   const result: string[][] = [];
 
-  for (let i = 0; i < size; i++) {
+  for (let i = 0; i < rows; i++) {
     /** Row being built. */
     const element: string[] = [];
 
-    for (let j = 0; j < size; j++) {
+    for (let j = 0; j < columns; j++) {
       element.push('');
     }
     result.push(element);
@@ -250,8 +252,22 @@ export function createStoreInitialState(
 
     gameSettings: {
       hardness: 2,
-      size: 3,
+      secondHardness: 1,
+      aiDelay: 1000,
+      rows: 3,
+      columns: 3,
+      winLength: 3,
+      aiEngine: 'server',
       opponent: game.opponent,
+      playerMarkup: 'o',
+      firstMove: 'human',
+      timeControl: 'none',
+      variant: 'classic',
+      gravity: false,
+      vanishing: false,
+      misere: false,
+      coordinates: false,
+      players: 2,
     },
   };
 }
@@ -1,6 +1,13 @@
+import { AI_ENGINES } from '../../constants/ai-engine.constant';
 import { DIALOG_CONTENT } from '../../constants/dialog-content.constant';
+import { OPPONENTS } from '../../constants/opponent.constant';
+import { FIRST_MOVES } from '../../constants/first-move.constant';
 import { ORDERS } from '../../constants/order.constant';
+import { PLAYER_MARKUPS } from '../../constants/player-markup.constant';
+import { PLAYER_COUNTS } from '../../constants/player-count.constant';
 import { SAVED_GAME_STATUSES } from '../../constants/saved-game-status.constant';
+import { TIME_CONTROLS } from '../../constants/time-control.constant';
+import { BUILT_IN_VARIANTS } from '../../constants/built-in-variants.constant';
 import { GameSettings } from '../../interfaces/game-settings.interface';
 import { DialogContent } from '../../types/dialog-content.type';
 import { savedGameStatus } from '../../types/game-status.type';
@@ -102,16 +109,41 @@ export function randomHexColor(): string {
  * Generates a random `GameSettings` object for tests.
  *
  * - hardness: 1..4
- * - opponent: 'player' | 'computer'
- * - size: 1..9
+ * - secondHardness: 1..4
+ * - aiDelay: 100..3000
+ * - opponent: 'player' | 'computer' | 'spectator'
+ * - rows: 1..9
+ * - columns: 1..9
+ * - winLength: 3..5
+ * - aiEngine: 'server' | 'local'
+ * - playerMarkup: 'o' | 'x'
+ * - firstMove: 'human' | 'computer'
+ * - timeControl: 'none' | 'sudden_death' | 'per_move' | 'fischer'
+ * - variant: id of one of the `BUILT_IN_VARIANTS`
+ * - gravity: true | false
+ * - vanishing: true | false
+ * - misere: true | false
+ * - coordinates: true | false
+ * - players: 2 | 3
  */
 export function generateRandomGameSettingObject(): GameSettings {
-  /** Possible opponent types. */
-  const opponents = ['player', 'computer'];
-
   return {
     hardness: randomBetween(1, 4),
-    opponent: opponents[randomNumber(opponents.length)] as 'player' | 'computer',
-    size: randomBetween(1, 9),
+    secondHardness: randomBetween(1, 4),
+    aiDelay: randomBetween(100, 3000),
+    opponent: OPPONENTS[randomNumber(OPPONENTS.length)],
+    rows: randomBetween(1, 9),
+    columns: randomBetween(1, 9),
+    winLength: randomBetween(3, 5),
+    aiEngine: AI_ENGINES[randomNumber(AI_ENGINES.length)],
+    playerMarkup: PLAYER_MARKUPS[randomNumber(PLAYER_MARKUPS.length)],
+    firstMove: FIRST_MOVES[randomNumber(FIRST_MOVES.length)],
+    timeControl: TIME_CONTROLS[randomNumber(TIME_CONTROLS.length)],
+    variant: BUILT_IN_VARIANTS[randomNumber(BUILT_IN_VARIANTS.length)].id,
+    gravity: randomNumber(2) === 1,
+    vanishing: randomNumber(2) === 1,
+    misere: randomNumber(2) === 1,
+    coordinates: randomNumber(2) === 1,
+    players: PLAYER_COUNTS[randomNumber(PLAYER_COUNTS.length)],
   };
 }
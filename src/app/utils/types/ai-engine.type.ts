@@ -0,0 +1,12 @@
+import { AI_ENGINES } from '../constants/ai-engine.constant';
+
+/**
+ * @typedef AiEngine
+ *
+ * Represents the engine used to compute the computer's moves.
+ * Its value is constrained to the entries defined in `AI_ENGINES`.
+ *
+ * Equivalent to a union of:
+ * 'server' | 'local'
+ */
+export type AiEngine = (typeof AI_ENGINES)[number];
@@ -0,0 +1,12 @@
+import { ANNOUNCER_POLITENESS } from '../constants/announcer.constant';
+
+/**
+ * @typedef AnnouncerPoliteness
+ *
+ * Represents the aria-live region a screen-reader announcement is made in.
+ * Its value is constrained to the entries defined in `ANNOUNCER_POLITENESS`.
+ *
+ * Equivalent to a union of:
+ * 'polite' | 'assertive'
+ */
+export type AnnouncerPoliteness = (typeof ANNOUNCER_POLITENESS)[number];
@@ -0,0 +1,12 @@
+import { BOARD_IMAGE_FORMATS } from '../constants/board-image.constant';
+
+/**
+ * @typedef BoardImageFormat
+ *
+ * Represents the file format of a downloaded board image.
+ * Its value is constrained to the entries defined in `BOARD_IMAGE_FORMATS`.
+ *
+ * Equivalent to a union of:
+ * 'svg' | 'png'
+ */
+export type BoardImageFormat = (typeof BOARD_IMAGE_FORMATS)[number];
@@ -10,7 +10,7 @@ export type ErrorKeys = typeof ERROR_MESSAGES extends Map<infer K, any>
   : never;
 
 /**
- * Represents the valid error message values (e.g., "This field is required.").
+ * Represents the message keys of the error texts (e.g., "error.required").
  *
  * Extracts the value type from the ERROR_MESSAGES Map definition.
  */
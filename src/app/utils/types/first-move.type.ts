@@ -0,0 +1,12 @@
+import { FIRST_MOVES } from '../constants/first-move.constant';
+
+/**
+ * @typedef FirstMove
+ *
+ * Represents the side making the first move of a game.
+ * Its value is constrained to the entries defined in `FIRST_MOVES`.
+ *
+ * Equivalent to a union of:
+ * 'human' | 'computer'
+ */
+export type FirstMove = (typeof FIRST_MOVES)[number];
@@ -0,0 +1,12 @@
+import { LANGUAGES } from '../constants/language.constant';
+
+/**
+ * @typedef Language
+ *
+ * Represents a language the user interface is translated to.
+ * Its value is constrained to the entries defined in `LANGUAGES`.
+ *
+ * Equivalent to a union of:
+ * 'en' | 'hu'
+ */
+export type Language = (typeof LANGUAGES)[number];
@@ -0,0 +1,13 @@
+import { MARKUPS } from '../constants/markup.constant';
+
+/**
+ * @typedef Markup
+ *
+ * Represents any markup that can be placed on the board.
+ * Its value is constrained to the entries defined in `MARKUPS`.
+ * Two-player games only use the `PlayerMarkup` subset.
+ *
+ * Equivalent to a union of:
+ * 'o' | 'x' | 't'
+ */
+export type Markup = (typeof MARKUPS)[number];
@@ -0,0 +1,13 @@
+import { EN_MESSAGES } from '../constants/messages-en.constant';
+
+/**
+ * @typedef MessageKey
+ *
+ * Represents the key of a translated user interface text.
+ * Its value is constrained to the keys of the English catalog
+ * (`EN_MESSAGES`), every other catalog translates the same keys.
+ *
+ * Equivalent to a union of:
+ * 'dialog.settings' | 'button.cancel' | 'error.required' | ...
+ */
+export type MessageKey = keyof typeof EN_MESSAGES;
@@ -0,0 +1,12 @@
+import { OPPONENTS } from '../constants/opponent.constant';
+
+/**
+ * @typedef Opponent
+ *
+ * Represents who the opponent of a game is.
+ * Its value is constrained to the entries defined in `OPPONENTS`.
+ *
+ * Equivalent to a union of:
+ * 'player' | 'computer' | 'spectator'
+ */
+export type Opponent = (typeof OPPONENTS)[number];
@@ -0,0 +1,12 @@
+import { PLAYER_COUNTS } from '../constants/player-count.constant';
+
+/**
+ * @typedef PlayerCount
+ *
+ * Represents the number of players of a game.
+ * Its value is constrained to the entries defined in `PLAYER_COUNTS`.
+ *
+ * Equivalent to a union of:
+ * 2 | 3
+ */
+export type PlayerCount = (typeof PLAYER_COUNTS)[number];
@@ -0,0 +1,12 @@
+import { PLAYER_MARKUPS } from '../constants/player-markup.constant';
+
+/**
+ * @typedef PlayerMarkup
+ *
+ * Represents the markup the human player plays with.
+ * Its value is constrained to the entries defined in `PLAYER_MARKUPS`.
+ *
+ * Equivalent to a union of:
+ * 'o' | 'x'
+ */
+export type PlayerMarkup = (typeof PLAYER_MARKUPS)[number];
@@ -0,0 +1,12 @@
+import { TIME_CONTROLS } from '../constants/time-control.constant';
+
+/**
+ * @typedef TimeControl
+ *
+ * Represents the time control of a game.
+ * Its value is constrained to the entries defined in `TIME_CONTROLS`.
+ *
+ * Equivalent to a union of:
+ * 'none' | 'sudden_death' | 'per_move' | 'fischer'
+ */
+export type TimeControl = (typeof TIME_CONTROLS)[number];
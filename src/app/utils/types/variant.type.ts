@@ -0,0 +1,13 @@
+/**
+ * @typedef Variant
+ *
+ * Represents the rule set of a game: the id of a `GameVariant`
+ * registered with `registerVariant`.
+ * Rule sets can be registered without editing this type,
+ * so any id is accepted; unknown ones are played with the rules
+ * of `DEFAULT_VARIANT` (see `gameVariant`).
+ *
+ * Built-in ids (see `BUILT_IN_VARIANTS`):
+ * 'classic' | 'ultimate' | 'quantum' | 'wild' | 'order_chaos'
+ */
+export type Variant = string;
@@ -1,4 +1,5 @@
 import { bootstrapApplication } from '@angular/platform-browser';
+import './app/app.variants';
 import { APPCONFIG } from './app/app.config';
 import { App } from './app/app';
 import { Theme } from './app/services/theme.service';
@@ -13,6 +14,9 @@ import { Theme } from './app/services/theme.service';
  * sets up global providers, and prepares the change detection mechanism
  * as specified in `appConfig`.
  *
+ * The built-in game variants are registered by importing `app.variants.ts`
+ * before the application starts.
+ *
  * The `Theme` service is retrieved right after bootstrapping to ensure that
  * global theme settings (e.g. dark/light mode) are available immediately.
  */